@@ -0,0 +1,7 @@
+import nextJest from 'next/jest.js'
+
+const createJestConfig = nextJest({ dir: './' })
+
+export default createJestConfig({
+  testEnvironment: 'node',
+})
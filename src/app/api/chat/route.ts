@@ -21,6 +21,7 @@ export async function POST(req: Request) {
         GUIDELINES:
         - When moving objects, You SHOULD make sure the object is still visible on the canvas within the canvas dimensions and clipping range.
         - You MUST use the tools provided to you to get information about the canvas and objects on the canvas.
+        - Before choosing colors or fonts, call getBrandKit. When a brand kit is active, you MUST only use colors from its palettes and, if it approves any fonts, only those fonts.
       `,
       tools: {
         getCanvasDimensions: tool({
@@ -35,6 +36,10 @@ export async function POST(req: Request) {
           description: 'Get all objects on the canvas',
           parameters: z.object({}),
         }),
+        getBrandKit: tool({
+          description: 'Get the active brand kit: its color palettes, approved fonts and logo names',
+          parameters: z.object({}),
+        }),
         createRectangle: tool({
           description: 'Create a new rectangle on the canvas',
           parameters: z.object({
@@ -57,6 +62,86 @@ export async function POST(req: Request) {
             opacity: z.number().describe('Opacity (0-1)').default(1)
           }),
         }),
+        createLine: tool({
+          description: 'Create a straight line between two points on the canvas',
+          parameters: z.object({
+            x1: z.number().describe('X position of the start point'),
+            y1: z.number().describe('Y position of the start point'),
+            x2: z.number().describe('X position of the end point'),
+            y2: z.number().describe('Y position of the end point'),
+            stroke: z.string().describe('Line color (hex code)').default('#1e40af'),
+            strokeWidth: z.number().describe('Line width').default(2),
+            opacity: z.number().describe('Opacity (0-1)').default(1)
+          }),
+        }),
+        createArrow: tool({
+          description: 'Create an arrow from a start point to an end point on the canvas',
+          parameters: z.object({
+            x1: z.number().describe('X position of the start point'),
+            y1: z.number().describe('Y position of the start point'),
+            x2: z.number().describe('X position of the end point'),
+            y2: z.number().describe('Y position of the end point'),
+            startHead: z.enum(['none', 'triangle', 'open', 'circle', 'bar']).describe('Head at the start point').default('none'),
+            endHead: z.enum(['none', 'triangle', 'open', 'circle', 'bar']).describe('Head at the end point').default('triangle'),
+            headSize: z.number().describe('Length of the heads in pixels').default(14),
+            stroke: z.string().describe('Arrow color (hex code)').default('#1e40af'),
+            strokeWidth: z.number().describe('Line width').default(2),
+            opacity: z.number().describe('Opacity (0-1)').default(1)
+          }),
+        }),
+        createTriangle: tool({
+          description: 'Create a new triangle on the canvas, pointing up',
+          parameters: z.object({
+            x: z.number().describe('X position of the triangle'),
+            y: z.number().describe('Y position of the triangle'),
+            width: z.number().describe('Width of the triangle').default(100),
+            height: z.number().describe('Height of the triangle').default(100),
+            fill: z.string().describe('Fill color (hex code)').default('#3b82f6'),
+            stroke: z.string().describe('Stroke color (hex code)').default('#1e40af'),
+            strokeWidth: z.number().describe('Stroke width').default(2),
+            opacity: z.number().describe('Opacity (0-1)').default(1)
+          }),
+        }),
+        createPolygon: tool({
+          description: 'Create a new regular polygon (pentagon, hexagon, ...) on the canvas',
+          parameters: z.object({
+            x: z.number().describe('X position of the polygon'),
+            y: z.number().describe('Y position of the polygon'),
+            width: z.number().describe('Width of the polygon').default(100),
+            height: z.number().describe('Height of the polygon').default(100),
+            sides: z.number().int().min(3).describe('Number of sides').default(6),
+            fill: z.string().describe('Fill color (hex code)').default('#3b82f6'),
+            stroke: z.string().describe('Stroke color (hex code)').default('#1e40af'),
+            strokeWidth: z.number().describe('Stroke width').default(2),
+            opacity: z.number().describe('Opacity (0-1)').default(1)
+          }),
+        }),
+        createStar: tool({
+          description: 'Create a new star on the canvas',
+          parameters: z.object({
+            x: z.number().describe('X position of the star'),
+            y: z.number().describe('Y position of the star'),
+            width: z.number().describe('Width of the star').default(100),
+            height: z.number().describe('Height of the star').default(100),
+            numPoints: z.number().int().min(3).describe('Number of points').default(5),
+            innerRadius: z.number().min(0.05).max(1).describe('Radius of the inner corners relative to the outer ones (0-1)').default(0.5),
+            fill: z.string().describe('Fill color (hex code)').default('#3b82f6'),
+            stroke: z.string().describe('Stroke color (hex code)').default('#1e40af'),
+            strokeWidth: z.number().describe('Stroke width').default(2),
+            opacity: z.number().describe('Opacity (0-1)').default(1)
+          }),
+        }),
+        updateShapeParameters: tool({
+          description: 'Change the sides of the selected polygon, the points of the selected star or the heads of the selected arrow',
+          parameters: z.object({
+            sides: z.number().int().min(3).describe('Number of sides (polygons)').optional(),
+            numPoints: z.number().int().min(3).describe('Number of points (stars)').optional(),
+            innerRadius: z.number().min(0.05).max(1).describe('Inner radius relative to the outer one (stars)').optional(),
+            startHead: z.enum(['none', 'triangle', 'open', 'circle', 'bar']).describe('Head at the start point (arrows)').optional(),
+            endHead: z.enum(['none', 'triangle', 'open', 'circle', 'bar']).describe('Head at the end point (arrows)').optional(),
+            headSize: z.number().describe('Length of the heads in pixels (arrows)').optional()
+          }),
+        }),
         createText: tool({
           description: 'Create a new text element on the canvas',
           parameters: z.object({
@@ -85,6 +170,55 @@ export async function POST(req: Request) {
             fontFamily: z.string().describe('Font family (for text objects)').optional()
           }),
         }),
+        setGradientFill: tool({
+          description: 'Fill the currently selected shape or text with a linear, radial or conic gradient, or back with a solid color',
+          parameters: z.object({
+            type: z.enum(['solid', 'linear', 'radial', 'conic']).describe('Kind of gradient, or solid to go back to the first stop color'),
+            stops: z.array(z.object({
+              color: z.string().describe('Stop color (hex code)'),
+              offset: z.number().min(0).max(1).describe('Position along the gradient (0-1); spread evenly if omitted').optional(),
+              opacity: z.number().min(0).max(1).describe('Stop opacity (0-1)').optional()
+            })).min(2).describe('Color stops, from the start of the gradient to its end').optional(),
+            angle: z.number().describe('Direction in degrees, clockwise from pointing right (linear and conic)').optional()
+          }),
+        }),
+        setPatternFill: tool({
+          description: 'Fill the currently selected shape or text with a repeating built-in pattern',
+          parameters: z.object({
+            pattern: z.enum(['dots', 'stripes', 'grid', 'noise']).describe('Pattern to draw'),
+            color: z.string().describe('Pattern color (hex code)').optional(),
+            backgroundColor: z.string().describe('Background color (hex code), or transparent').optional(),
+            size: z.number().min(4).max(128).describe('Size of one tile in pixels').optional(),
+            scale: z.number().min(0.05).max(4).describe('Scale of the pattern').optional(),
+            rotation: z.number().describe('Rotation of the pattern in degrees').optional()
+          }),
+        }),
+        setStrokeStyle: tool({
+          description: 'Change the stroke of the currently selected object: width, dashes, caps, corners and where it sits on the outline',
+          parameters: z.object({
+            color: z.string().describe('Stroke color (hex code)').optional(),
+            width: z.number().min(0).describe('Visible stroke width in pixels, 0 for no stroke').optional(),
+            dashes: z.union([
+              z.enum(['solid', 'dashed', 'dotted', 'dash-dot', 'long-dash']),
+              z.array(z.number().min(0)).describe('Dash and gap lengths in pixels')
+            ]).describe('Dash preset, or custom dash and gap lengths').optional(),
+            lineCap: z.enum(['butt', 'round', 'square']).describe('Shape of line ends').optional(),
+            lineJoin: z.enum(['miter', 'round', 'bevel']).describe('Shape of corners').optional(),
+            miterLimit: z.number().min(1).describe('How far sharp miter corners may reach before they are beveled').optional(),
+            alignment: z.enum(['inside', 'center', 'outside']).describe('Where the stroke sits on the outline of a closed shape').optional(),
+            uniform: z.boolean().describe('Keep the stroke width when the object is resized').optional()
+          }),
+        }),
+        setBlendMode: tool({
+          description: 'Set how the currently selected objects blend with what is below them, and optionally their opacity. A group blends and fades as a whole.',
+          parameters: z.object({
+            mode: z.enum([
+              'normal', 'multiply', 'darken', 'color-burn', 'screen', 'lighten', 'color-dodge', 'overlay',
+              'soft-light', 'hard-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'
+            ]).describe('Blend mode'),
+            opacity: z.number().min(0).max(1).describe('Opacity (0-1)').optional()
+          }),
+        }),
         moveObject: tool({
           description: 'Move the currently selected object to a new position',
           parameters: z.object({
@@ -52,6 +52,7 @@ import {
   Work_Sans,
   Zilla_Slab
 } from "next/font/google";
+import { Toaster } from "@/src/components/ui/sonner";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -325,6 +326,7 @@ export default function RootLayout({
         <Analytics />
         <SpeedInsights />
         {children}
+        <Toaster />
       </body>
     </html>
   );
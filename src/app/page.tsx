@@ -2,11 +2,15 @@
 
 import { DesignTool } from '@/src/components/design/DesignTool'
 import { loadCustomFonts } from '@/src/lib/font-loader'
+import { restoreSession } from '@/src/lib/persistence/autosave'
+import { useBrandKitStore } from '@/src/lib/stores/brand-kit-store'
 import { useEffect } from 'react'
 
 export default function Home() {
   useEffect(() => {
     loadCustomFonts()
+    restoreSession()
+    useBrandKitStore.getState().loadKits()
   }, [])
 
   return <DesignTool />
@@ -7,11 +7,13 @@ import { useDesignStore } from '@/src/lib/stores/design-store'
 import { cn } from '@/src/lib/utils'
 import { useChat } from '@ai-sdk/react'
 import { type ToolInvocation } from 'ai'
-import { Bot, Brain, CheckCircle, ChevronRight, Loader2, Send, User } from 'lucide-react'
-import { useEffect, useRef } from 'react'
+import { Bot, Brain, CheckCircle, ChevronRight, Loader2, Send, Undo2, User } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
 import ReactMarkdown from 'react-markdown'
 import rehypeHighlight from 'rehype-highlight'
 import remarkGfm from 'remark-gfm'
+import { toast } from 'sonner'
+import { v4 as uuidv4 } from 'uuid'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible'
 
 interface AgentPanelProps {
@@ -19,6 +21,14 @@ interface AgentPanelProps {
   onCollapse?: () => void
 }
 
+// History step recorded for one agent turn, keyed by the id of the user message that started it
+interface AgentTurn {
+  designId: string
+  // History steps of the turn's transaction, newest first
+  nodeIds: string[]
+  reverted: boolean
+}
+
 interface MarkdownTextProps {
   children: string
   isUser?: boolean
@@ -199,22 +209,103 @@ export function AgentPanel({ className, onCollapse }: AgentPanelProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const executeCanvasTool = useDesignStore((state) => state.executeCanvasTool)
+  const getActiveDesign = useDesignStore((state) => state.getActiveDesign)
+  const getDesign = useDesignStore((state) => state.getDesign)
+  const [agentTurns, setAgentTurns] = useState<Record<string, AgentTurn>>({})
+  const turnFailedRef = useRef(false)
+  // Design whose transaction the running turn's tool calls are recorded in
+  const turnDesignIdRef = useRef<string | null>(null)
 
   const {
     messages,
     input,
+    setInput,
     handleInputChange,
-    handleSubmit,
+    append,
     isLoading,
   } = useChat({
     maxSteps: 10,
     onToolCall: ({ toolCall }) => {
       if (typeof toolCall.args === 'object' && toolCall.args !== null) {
-        return executeCanvasTool(toolCall.toolName, toolCall.args as Record<string, any>)
+        const args = toolCall.args as Record<string, any>
+        const turnDesignId = turnDesignIdRef.current
+        const designId = turnDesignId ?? getActiveDesign()?.id
+        const run = () => executeCanvasTool(toolCall.toolName, args, designId)
+        const design = designId ? getDesign(designId) : undefined
+        if (!design) return run()
+        // Only the tool calls join the turn's transaction, so edits the user makes meanwhile stay their own
+        return turnDesignId ? design.runInTransaction(run) : design.recordStep(`Agent: ${toolCall.toolName}`, run)
       }
     },
+    onError: () => {
+      turnFailedRef.current = true
+    },
   })
 
+  /**
+   * Send a message and run the whole assistant turn inside one transaction, so
+   * its tool calls can be undone or reverted as a single step
+   */
+  const sendMessage = async () => {
+    const content = input.trim()
+    if (!content || isLoading) return
+
+    const messageId = uuidv4()
+    const design = getActiveDesign()
+    const label = `Agent: ${content.length > 40 ? `${content.slice(0, 40)}…` : content}`
+    const inTransaction = design?.beginTransaction(label) ?? false
+
+    turnDesignIdRef.current = design && inTransaction ? design.id : null
+    turnFailedRef.current = false
+    setInput('')
+    await append({ id: messageId, role: 'user', content })
+    turnDesignIdRef.current = null
+
+    if (!design || !inTransaction) return
+    if (turnFailedRef.current) {
+      await design.rollbackTransaction()
+      toast.error('The agent response failed, so its changes were reverted')
+      return
+    }
+
+    const nodeIds = design.commitTransaction()
+    if (nodeIds.length > 0) {
+      setAgentTurns(prev => ({ ...prev, [messageId]: { designId: design.id, nodeIds, reverted: false } }))
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    sendMessage()
+  }
+
+  const handleRevert = async (turnId: string) => {
+    const turn = agentTurns[turnId]
+    const design = turn && getDesign(turn.designId)
+    if (!design) {
+      toast.error('The canvas this response edited is no longer open')
+      return
+    }
+
+    const reverted = await design.revertHistorySteps(turn.nodeIds, 'Revert agent response')
+    if (!reverted) {
+      toast.error('This response\'s changes are no longer on the canvas')
+      return
+    }
+    setAgentTurns(prev => ({ ...prev, [turnId]: { ...turn, reverted: true } }))
+  }
+
+  /**
+   * The agent turn an assistant message ends, if it is the last message of that turn
+   */
+  const getTurnEndingAt = (index: number): string | null => {
+    if (messages[index].role !== 'assistant' || messages[index + 1]?.role === 'assistant') return null
+    for (let i = index - 1; i >= 0; i--) {
+      if (messages[i].role === 'user') return agentTurns[messages[i].id] ? messages[i].id : null
+    }
+    return null
+  }
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
@@ -226,7 +317,7 @@ export function AgentPanel({ className, onCollapse }: AgentPanelProps) {
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
-      handleSubmit(e)
+      sendMessage()
     }
   }
 
@@ -259,75 +350,92 @@ export function AgentPanel({ className, onCollapse }: AgentPanelProps) {
       <CardContent className="flex-1 flex flex-col min-h-0 p-4">
         {/* Messages */}
         <div className="flex-1 overflow-y-auto space-y-4 mb-4 pr-2">
-          {messages.map((message) => (
-            <div
-              key={message.id}
-              className={cn(
-                'flex gap-3',
-                message.role === 'user' ? 'justify-end' : 'justify-start'
-              )}
-            >
+          {messages.map((message, messageIndex) => {
+            const turnId = isLoading ? null : getTurnEndingAt(messageIndex)
+
+            return (
               <div
+                key={message.id}
                 className={cn(
-                  'flex items-start gap-2 max-w-[85%]',
-                  message.role === 'user' ? 'flex-row-reverse' : 'flex-row'
+                  'flex gap-3',
+                  message.role === 'user' ? 'justify-end' : 'justify-start'
                 )}
               >
                 <div
                   className={cn(
-                    'w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0',
-                    message.role === 'user'
-                      ? 'bg-blue-500 text-white'
-                      : 'bg-gray-100 text-gray-600'
+                    'flex items-start gap-2 max-w-[85%]',
+                    message.role === 'user' ? 'flex-row-reverse' : 'flex-row'
                   )}
                 >
-                  {message.role === 'user' ? (
-                    <User className="h-4 w-4" />
-                  ) : (
-                    <Bot className="h-4 w-4" />
-                  )}
-                </div>
-                <div
-                  className={cn(
-                    'rounded-lg px-3 py-2 text-sm',
-                    message.role === 'user'
-                      ? 'bg-blue-500 text-white'
-                      : 'bg-gray-100 text-gray-900'
-                  )}
-                >
-                  {
-                    message.parts?.map((part, index) => {
-                      switch (part.type) {
-                        case 'text':
-                          return <MarkdownText key={index} isUser={message.role === 'user'}>{part.text}</MarkdownText>
-                        case 'tool-invocation':
-                          return <ToolInvocation key={index} toolInvocation={part.toolInvocation} />
-                        case 'reasoning':
-                          return <Reasoning key={index} reasoning={part.reasoning} />
-                        case 'step-start':
-                          return index > 0 ? (
-                            <div key={index} className="text-gray-500">
-                              <hr className="my-2 border-gray-300" />
-                            </div>
-                          ) : null;
-                        default:
-                          return null
-                      }
-                    })
-                  }
-
                   <div
                     className={cn(
-                      'text-xs mt-1 opacity-70',
-                      message.role === 'user' ? 'text-blue-100' : 'text-gray-500'
+                      'w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0',
+                      message.role === 'user'
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-100 text-gray-600'
                     )}
                   >
-                    {formatTime(new Date())}
+                    {message.role === 'user' ? (
+                      <User className="h-4 w-4" />
+                    ) : (
+                      <Bot className="h-4 w-4" />
+                    )}
+                  </div>
+                  <div
+                    className={cn(
+                      'rounded-lg px-3 py-2 text-sm',
+                      message.role === 'user'
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-100 text-gray-900'
+                    )}
+                  >
+                    {
+                      message.parts?.map((part, index) => {
+                        switch (part.type) {
+                          case 'text':
+                            return <MarkdownText key={index} isUser={message.role === 'user'}>{part.text}</MarkdownText>
+                          case 'tool-invocation':
+                            return <ToolInvocation key={index} toolInvocation={part.toolInvocation} />
+                          case 'reasoning':
+                            return <Reasoning key={index} reasoning={part.reasoning} />
+                          case 'step-start':
+                            return index > 0 ? (
+                              <div key={index} className="text-gray-500">
+                                <hr className="my-2 border-gray-300" />
+                              </div>
+                            ) : null;
+                          default:
+                            return null
+                        }
+                      })
+                    }
+
+                    <div
+                      className={cn(
+                        'text-xs mt-1 opacity-70',
+                        message.role === 'user' ? 'text-blue-100' : 'text-gray-500'
+                      )}
+                    >
+                      {formatTime(new Date())}
+                    </div>
+
+                    {turnId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevert(turnId)}
+                        disabled={agentTurns[turnId].reverted}
+                        className="h-6 px-2 mt-1 text-xs text-gray-600"
+                      >
+                        <Undo2 className="h-3 w-3 mr-1" />
+                        {agentTurns[turnId].reverted ? 'Reverted' : 'Revert this response'}
+                      </Button>
+                    )}
                   </div>
                 </div>
               </div>
-            </div>
-          ))}
+            )
+          })}
 
           {isLoading && (
             <div className="flex justify-start">
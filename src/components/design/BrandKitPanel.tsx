@@ -0,0 +1,400 @@
+'use client'
+
+import { Button } from '@/src/components/ui/button'
+import { Checkbox } from '@/src/components/ui/checkbox'
+import { Input } from '@/src/components/ui/input'
+import { Label } from '@/src/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/src/components/ui/select'
+import { getAllFontsFromCache } from '@/src/lib/cache-storage'
+import { useActiveBrandKit } from '@/src/lib/hooks/useActiveBrandKit'
+import { useActiveDesign } from '@/src/lib/hooks/useActiveDesign'
+import { createBrandPalette, readBrandLogo, type BrandKit, type BrandPalette } from '@/src/lib/persistence/brand-kits'
+import { useBrandKitStore } from '@/src/lib/stores/brand-kit-store'
+import { cn } from '@/src/lib/utils'
+import { Palette, Plus, Settings, Trash2, Upload, X } from 'lucide-react'
+import Image from 'next/image'
+import { useEffect, useRef, useState } from 'react'
+import { HexColorPicker } from 'react-colorful'
+import { toast } from 'sonner'
+import { FontManager } from './FontManager'
+
+interface BrandKitPanelProps {
+  onCollapse?: () => void
+  className?: string
+}
+
+const NO_KIT = 'none'
+
+const isHexColor = (value: string) => /^#[0-9a-f]{6}$/i.test(value)
+
+function PaletteEditor({ kit, palette }: { kit: BrandKit; palette: BrandPalette }) {
+  const updateKit = useBrandKitStore((state) => state.updateKit)
+  const [isAddingColor, setIsAddingColor] = useState(false)
+  const [newColor, setNewColor] = useState('#000000')
+
+  const updatePalette = (changes: Partial<BrandPalette>) => {
+    updateKit(kit.id, { palettes: kit.palettes.map(p => (p.id === palette.id ? { ...p, ...changes } : p)) })
+  }
+
+  const handleAddColor = () => {
+    const color = newColor.toLowerCase()
+    if (!palette.colors.includes(color)) updatePalette({ colors: [...palette.colors, color] })
+    setIsAddingColor(false)
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border border-gray-200 p-2">
+      <div className="flex items-center gap-2">
+        <Input
+          key={palette.name}
+          defaultValue={palette.name}
+          onBlur={(e) => {
+            const name = e.target.value.trim()
+            if (name && name !== palette.name) updatePalette({ name })
+            else e.target.value = palette.name
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className="flex-1 text-xs h-7"
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          title="Delete palette"
+          onClick={() => updateKit(kit.id, { palettes: kit.palettes.filter(p => p.id !== palette.id) })}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div className="relative flex flex-wrap gap-1.5">
+        {palette.colors.map((color) => (
+          <div key={color} className="group relative">
+            <div
+              className="w-7 h-7 rounded border-2 border-gray-200 shadow-sm"
+              style={{ backgroundColor: color }}
+              title={color}
+            />
+            <button
+              type="button"
+              className="absolute -top-1 -right-1 hidden group-hover:flex h-3.5 w-3.5 items-center justify-center rounded-full bg-gray-700 text-white"
+              title={`Remove ${color}`}
+              onClick={() => updatePalette({ colors: palette.colors.filter(c => c !== color) })}
+            >
+              <X className="h-2.5 w-2.5" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          className="w-7 h-7 rounded border-2 border-dashed border-gray-300 flex items-center justify-center text-gray-400 hover:border-gray-400 hover:text-gray-600 transition-colors"
+          title="Add color"
+          onClick={() => setIsAddingColor(!isAddingColor)}
+        >
+          <Plus className="h-3 w-3" />
+        </button>
+
+        {isAddingColor && (
+          <div className="absolute z-10 top-full left-0 mt-2">
+            <div
+              className="fixed inset-0"
+              onClick={() => setIsAddingColor(false)}
+            />
+            <div className="relative space-y-2 rounded-lg border border-gray-200 bg-white p-2 shadow-md">
+              <HexColorPicker color={newColor} onChange={setNewColor} />
+              <form
+                className="flex items-center gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  if (isHexColor(newColor)) handleAddColor()
+                }}
+              >
+                <Input
+                  value={newColor}
+                  onChange={(e) => setNewColor(e.target.value)}
+                  className="flex-1 text-xs h-8 font-mono"
+                />
+                <Button type="submit" size="sm" className="h-8" disabled={!isHexColor(newColor)}>
+                  Add
+                </Button>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Brand kits shared by all designs: palettes offered in every color picker,
+ * the fonts text may use, and logos to drop onto the canvas
+ */
+export function BrandKitPanel({ onCollapse, className }: BrandKitPanelProps) {
+  const activeDesign = useActiveDesign()
+  const kits = useBrandKitStore((state) => state.kits)
+  const createKit = useBrandKitStore((state) => state.createKit)
+  const updateKit = useBrandKitStore((state) => state.updateKit)
+  const deleteKit = useBrandKitStore((state) => state.deleteKit)
+  const setActiveKit = useBrandKitStore((state) => state.setActiveKit)
+  const kit = useActiveBrandKit()
+  const [newKitName, setNewKitName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const [isFontManagerOpen, setFontManagerOpen] = useState(false)
+  const [cachedFonts, setCachedFonts] = useState<string[]>([])
+  const logoInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    getAllFontsFromCache()
+      .then(fonts => setCachedFonts(fonts.map(font => font.name)))
+      .catch(error => console.error('Failed to load fonts:', error))
+  }, [isFontManagerOpen])
+
+  const handleCreateKit = () => {
+    const created = createKit(newKitName)
+    setActiveKit(created.id)
+    setNewKitName('')
+    setIsCreating(false)
+  }
+
+  const handleDeleteKit = () => {
+    if (kit && confirm(`Delete the brand kit "${kit.name}"?`)) {
+      deleteKit(kit.id)
+    }
+  }
+
+  const handleToggleFont = (font: string, isApproved: boolean) => {
+    if (!kit) return
+    updateKit(kit.id, { fonts: isApproved ? [...kit.fonts, font] : kit.fonts.filter(f => f !== font) })
+  }
+
+  const handleUploadLogos = async (files: FileList | null) => {
+    if (!kit || !files) return
+    try {
+      const logos = await Promise.all(Array.from(files).filter(file => file.type.startsWith('image/')).map(readBrandLogo))
+      updateKit(kit.id, { logos: [...kit.logos, ...logos] })
+    } catch (error) {
+      console.error('Failed to read logo:', error)
+      toast.error('Could not read the logo')
+    }
+  }
+
+  // Approved fonts that were since removed from the font manager are still listed, so they can be unapproved
+  const fontOptions = kit ? [...cachedFonts, ...kit.fonts.filter(font => !cachedFonts.includes(font))] : cachedFonts
+
+  return (
+    <div className={cn('flex flex-col h-full bg-white relative', className)}>
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-gray-900">Brand Kit</h3>
+          {onCollapse && (
+            <Button variant="ghost" size="sm" onClick={onCollapse}>
+              ×
+            </Button>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Select value={kit?.id ?? NO_KIT} onValueChange={(value) => setActiveKit(value === NO_KIT ? null : value)}>
+            <SelectTrigger className="flex-1 h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_KIT}>No brand kit</SelectItem>
+              {kits.map((k) => (
+                <SelectItem key={k.id} value={k.id}>{k.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" className="h-9" title="New brand kit" onClick={() => setIsCreating(!isCreating)}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isCreating && (
+          <form
+            className="flex gap-2 mt-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleCreateKit()
+            }}
+          >
+            <Input
+              autoFocus
+              placeholder="Brand name, e.g. Acme"
+              value={newKitName}
+              onChange={(e) => setNewKitName(e.target.value)}
+            />
+            <Button type="submit" size="sm">
+              Create
+            </Button>
+          </form>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto p-4">
+        {!kit ? (
+          <div className="text-center py-8">
+            <Palette className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500 text-sm">No brand kit is active</p>
+            <p className="text-gray-400 text-xs mt-1">Pick or create a kit to keep every design on brand</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Kit name */}
+            <div className="space-y-2">
+              <Label className="text-xs font-medium text-gray-600">Name</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  key={`${kit.id}-${kit.name}`}
+                  defaultValue={kit.name}
+                  onBlur={(e) => {
+                    const name = e.target.value.trim()
+                    if (name && name !== kit.name) updateKit(kit.id, { name })
+                    else e.target.value = kit.name
+                  }}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="flex-1 h-8 text-sm"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                  title="Delete brand kit"
+                  onClick={handleDeleteKit}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+
+            {/* Palettes */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-medium text-gray-600">Palettes</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => updateKit(kit.id, { palettes: [...kit.palettes, createBrandPalette(`Palette ${kit.palettes.length + 1}`)] })}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add
+                </Button>
+              </div>
+              {kit.palettes.map((palette) => (
+                <PaletteEditor key={palette.id} kit={kit} palette={palette} />
+              ))}
+            </div>
+
+            {/* Fonts */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-medium text-gray-600">Fonts</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setFontManagerOpen(true)}
+                >
+                  <Settings className="h-3 w-3 mr-1" />
+                  Manage
+                </Button>
+              </div>
+              {fontOptions.length === 0 ? (
+                <p className="text-xs text-gray-500">Upload fonts in the font manager to approve them for this brand.</p>
+              ) : (
+                <div className="space-y-1">
+                  {fontOptions.map((font) => (
+                    <label key={font} className="flex items-center gap-2 rounded px-1 py-1 hover:bg-gray-50 cursor-pointer">
+                      <Checkbox
+                        checked={kit.fonts.includes(font)}
+                        onCheckedChange={(checked) => handleToggleFont(font, checked === true)}
+                      />
+                      <span className="flex-1 text-sm truncate" style={{ fontFamily: font }}>{font}</span>
+                      {!cachedFonts.includes(font) && (
+                        <span className="text-[10px] text-gray-400">Missing</span>
+                      )}
+                    </label>
+                  ))}
+                </div>
+              )}
+              <p className="text-[10px] text-gray-400">
+                {kit.fonts.length > 0 ? 'Text can only use the approved fonts while this kit is active.' : 'No fonts approved; text can use any font.'}
+              </p>
+            </div>
+
+            {/* Logos */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-medium text-gray-600">Logos</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => logoInputRef.current?.click()}
+                >
+                  <Upload className="h-3 w-3 mr-1" />
+                  Upload
+                </Button>
+                <input
+                  ref={logoInputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    handleUploadLogos(e.target.files)
+                    e.target.value = ''
+                  }}
+                />
+              </div>
+              {kit.logos.length === 0 ? (
+                <p className="text-xs text-gray-500">Upload logos to place them on any design.</p>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  {kit.logos.map((logo) => (
+                    <div key={logo.id} className="group relative border border-gray-200 rounded-lg overflow-hidden hover:border-blue-300 transition-colors">
+                      <button
+                        type="button"
+                        className="w-full aspect-square bg-gray-50 flex items-center justify-center p-2 disabled:cursor-not-allowed"
+                        title={activeDesign ? `Add ${logo.name} to the canvas` : logo.name}
+                        disabled={!activeDesign}
+                        onClick={() => activeDesign?.addImageFromDataURL(logo.dataUrl, logo.name)}
+                      >
+                        <Image
+                          src={logo.dataUrl}
+                          alt={logo.name}
+                          width={0}
+                          height={0}
+                          unoptimized
+                          className="w-auto h-auto max-w-full max-h-full object-contain"
+                        />
+                      </button>
+                      <div className="px-2 py-1 text-xs text-gray-700 truncate">{logo.name}</div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="absolute top-1 right-1 h-6 w-6 p-0 hidden group-hover:flex bg-white/80 text-red-600 hover:text-red-700"
+                        title="Delete logo"
+                        onClick={() => updateKit(kit.id, { logos: kit.logos.filter(l => l.id !== logo.id) })}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <FontManager
+        open={isFontManagerOpen}
+        onOpenChange={setFontManagerOpen}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { useActiveBrandKit } from '@/src/lib/hooks/useActiveBrandKit'
+import { cn } from '@/src/lib/utils'
+
+interface BrandSwatchesProps {
+  onSelect: (color: string) => void
+  className?: string
+}
+
+/**
+ * Palettes of the active brand kit, shown under a color picker
+ */
+export function BrandSwatches({ onSelect, className }: BrandSwatchesProps) {
+  const brandKit = useActiveBrandKit()
+  const palettes = brandKit?.palettes.filter(palette => palette.colors.length > 0) ?? []
+  if (palettes.length === 0) return null
+
+  return (
+    // Positioned so it stays above the picker's click-away overlay
+    <div className={cn('relative w-[200px] mt-2 p-2 bg-white rounded-lg border border-gray-200 shadow-sm space-y-2', className)}>
+      {palettes.map((palette) => (
+        <div key={palette.id} className="space-y-1">
+          <div className="text-[10px] font-medium text-gray-500 truncate">{palette.name}</div>
+          <div className="flex flex-wrap gap-1">
+            {palette.colors.map((color, index) => (
+              <button
+                key={`${color}-${index}`}
+                type="button"
+                title={color}
+                className="w-5 h-5 rounded border border-gray-200 hover:scale-110 transition-transform"
+                style={{ backgroundColor: color }}
+                onClick={() => onSelect(color)}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
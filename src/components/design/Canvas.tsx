@@ -4,12 +4,16 @@ import {
   ContextMenu,
   ContextMenuContent,
   ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
   ContextMenuTrigger
 } from '@/src/components/ui/context-menu'
+import { BOOLEAN_OPERATION_LABELS, BOOLEAN_OPERATIONS, type BooleanOperation } from '@/src/lib/core/boolean'
+import { CompoundShape } from '@/src/lib/core/subclass/CompoundShape'
 import { useDesignStore } from '@/src/lib/stores/design-store'
 import { cn } from '@/src/lib/utils'
 import type * as fabric from 'fabric'
-import { CopyIcon, CropIcon, TrashIcon } from 'lucide-react'
+import { CopyIcon, CropIcon, SplineIcon, TrashIcon, UngroupIcon } from 'lucide-react'
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { CropImageDialog } from './CropImageDialog'
 
@@ -20,6 +24,13 @@ interface CanvasProps {
   onStateChange?: (state: { scrollLeft: number; scrollTop: number; zoom: number }) => void
 }
 
+const booleanShortcuts: Record<BooleanOperation, string> = {
+  union: 'Alt+Shift+U',
+  subtract: 'Alt+Shift+S',
+  intersect: 'Alt+Shift+I',
+  exclude: 'Alt+Shift+X',
+}
+
 export function Canvas({ className, width, height, onStateChange }: CanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const {
@@ -33,13 +44,17 @@ export function Canvas({ className, width, height, onStateChange }: CanvasProps)
     fontSize,
     fontFamily,
     opacity,
+    brushSettings,
+    shapeSettings,
     executeCanvasTool,
     replaceImage,
+    applyBooleanOperation,
   } = useDesignStore()
 
   const activeDesign = getActiveDesign()
   const [hasActiveObject, setHasActiveObject] = useState(false)
   const [activeObjectType, setActiveObjectType] = useState<string | null>(null)
+  const [canCombine, setCanCombine] = useState(false)
   const [isCropDialogOpen, setIsCropDialogOpen] = useState(false)
   const [imageToCrop, setImageToCrop] = useState<string | null>(null)
 
@@ -64,6 +79,14 @@ export function Canvas({ className, width, height, onStateChange }: CanvasProps)
     replaceImage(croppedImageUrl)
   }, [replaceImage])
 
+  const handleFlatten = useCallback(() => {
+    activeDesign?.flattenCompoundShape()
+  }, [activeDesign])
+  const handleReleaseCompound = useCallback(() => {
+    const layerId = activeDesign?.canvas?.getActiveObject()?.layerId
+    if (layerId) activeDesign.ungroupLayer(layerId)
+  }, [activeDesign])
+
   // Listen for active object changes
   useEffect(() => {
     if (!activeDesign?.canvas) return
@@ -72,6 +95,7 @@ export function Canvas({ className, width, height, onStateChange }: CanvasProps)
       const obj = canvas.getActiveObject()
       setHasActiveObject(!!obj && !('isBaseLayer' in obj && obj.isBaseLayer))
       setActiveObjectType(obj?.type || null)
+      setCanCombine(activeDesign.canCombineSelection())
     }
     canvas.on('selection:created', update)
     canvas.on('selection:updated', update)
@@ -125,7 +149,9 @@ export function Canvas({ className, width, height, onStateChange }: CanvasProps)
     activeDesign.setFontSize(fontSize)
     activeDesign.setFontFamily(fontFamily)
     activeDesign.setOpacity(opacity)
-  }, [activeDesign, selectedTool, fillColor, strokeColor, strokeWidth, fontSize, fontFamily, opacity])
+    activeDesign.setBrushSettings(brushSettings)
+    activeDesign.setShapeSettings(shapeSettings)
+  }, [activeDesign, selectedTool, fillColor, strokeColor, strokeWidth, fontSize, fontFamily, opacity, brushSettings, shapeSettings])
 
   // Resize observer effect
   useEffect(() => {
@@ -203,6 +229,24 @@ export function Canvas({ className, width, height, onStateChange }: CanvasProps)
             {activeObjectType === 'image' && (
               <ContextMenuItem onSelect={handleOpenCropDialog}><CropIcon /> Crop Image</ContextMenuItem>
             )}
+            {canCombine && (
+              <>
+                {BOOLEAN_OPERATIONS.map((operation) => (
+                  <ContextMenuItem key={operation} onSelect={() => applyBooleanOperation(operation)}>
+                    {BOOLEAN_OPERATION_LABELS[operation]}
+                    <ContextMenuShortcut>{booleanShortcuts[operation]}</ContextMenuShortcut>
+                  </ContextMenuItem>
+                ))}
+                <ContextMenuSeparator />
+              </>
+            )}
+            {activeObjectType === CompoundShape.type.toLowerCase() && (
+              <>
+                <ContextMenuItem onSelect={handleFlatten}><SplineIcon /> Flatten to path</ContextMenuItem>
+                <ContextMenuItem onSelect={handleReleaseCompound}><UngroupIcon /> Release shapes</ContextMenuItem>
+                <ContextMenuSeparator />
+              </>
+            )}
             <ContextMenuItem onSelect={handleDuplicate}><CopyIcon /> Duplicate</ContextMenuItem>
             <ContextMenuItem onSelect={handleDelete} variant="destructive"><TrashIcon /> Delete</ContextMenuItem>
           </ContextMenuContent>
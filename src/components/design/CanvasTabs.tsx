@@ -5,14 +5,18 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Input } from '@/src/components/ui/input'
 import { Label } from '@/src/components/ui/label'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/src/components/ui/tabs'
+import { isDesignJSONFile, readDesignJSONFile } from '@/src/lib/persistence/design-import'
+import { readRupixFile, RUPIX_FILE_EXTENSION } from '@/src/lib/persistence/rupix-file'
 import { useDesignStore } from '@/src/lib/stores/design-store'
 import { cn } from '@/src/lib/utils'
 import {
   FileText,
   Plus,
+  Upload,
   X
 } from 'lucide-react'
 import { useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
 
 interface CanvasTabsProps {
   children: React.ReactNode
@@ -59,6 +63,8 @@ export function CanvasTabs({ children, className }: CanvasTabsProps) {
     closeDesign,
     setActiveDesign,
     renameDesign,
+    openDesign,
+    isHydrated,
   } = useDesignStore()
 
   const [isRenaming, setIsRenaming] = useState<string | null>(null)
@@ -69,7 +75,9 @@ export function CanvasTabs({ children, className }: CanvasTabsProps) {
   const [selectedPreset, setSelectedPreset] = useState<string>('')
   const [customWidth, setCustomWidth] = useState<string>('800')
   const [customHeight, setCustomHeight] = useState<string>('600')
+  const [isDraggingFile, setIsDraggingFile] = useState(false)
   const initializedRef = useRef(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   const handleCreateTab = () => {
     let canvasWidth = 800
@@ -120,19 +128,69 @@ export function CanvasTabs({ children, className }: CanvasTabsProps) {
     setNewTabName('')
   }
 
-  // Create first tab on mount if none exist
+  const importDesignFiles = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        if (file.name.toLowerCase().endsWith(RUPIX_FILE_EXTENSION)) {
+          openDesign(await readRupixFile(file))
+        } else if (isDesignJSONFile(file)) {
+          openDesign(await readDesignJSONFile(file))
+        } else {
+          throw new Error('Only JSON design exports and .rupix projects can be imported.')
+        }
+      } catch (error) {
+        console.error(`Failed to import ${file.name}:`, error)
+        toast.error(`Could not import ${file.name}`, {
+          description: error instanceof Error ? error.message : undefined
+        })
+      }
+    }
+  }
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    // Allow picking the same file again later
+    e.target.value = ''
+    importDesignFiles(files)
+  }
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+    setIsDraggingFile(true)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDraggingFile(false)
+    importDesignFiles(Array.from(e.dataTransfer.files))
+  }
+
+  // Create first tab once persisted designs are restored, if none exist
   useEffect(() => {
-    if (!initializedRef.current && designs.length === 0) {
+    if (isHydrated && !initializedRef.current && designs.length === 0) {
       initializedRef.current = true
       createNewDesign()
     }
-  }, [designs.length, createNewDesign])
+  }, [isHydrated, designs.length, createNewDesign])
 
   return (
     <div className={cn('flex flex-col h-full', className)}>
       <Tabs value={activeDesignId || ''} onValueChange={setActiveDesign} className="gap-0 flex-1 flex flex-col h-full">
         {/* Tab Bar */}
-        <div className="flex items-center justify-between border-b bg-white px-4 py-2">
+        <div
+          className={cn(
+            'flex items-center justify-between border-b bg-white px-4 py-2 transition-colors',
+            isDraggingFile && 'bg-blue-50 ring-2 ring-inset ring-blue-400'
+          )}
+          onDragOver={handleDragOver}
+          onDragLeave={(e) => {
+            // Ignore leave events fired when moving between child elements
+            if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false)
+          }}
+          onDrop={handleDrop}
+        >
           <div className="flex items-center gap-2 flex-1 overflow-hidden">
             <TabsList className="h-auto p-1 bg-transparent gap-2">
               {designs.map((tab) => (
@@ -190,6 +248,25 @@ export function CanvasTabs({ children, className }: CanvasTabsProps) {
             </TabsList>
           </div>
 
+          {/* Import Button */}
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-2 shrink-0"
+            onClick={() => importInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            Import
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={`.json,application/json,${RUPIX_FILE_EXTENSION}`}
+            multiple
+            className="hidden"
+            onChange={handleImportChange}
+          />
+
           {/* Add New Tab Button */}
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
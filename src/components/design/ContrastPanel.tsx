@@ -0,0 +1,173 @@
+'use client'
+
+import { Badge } from '@/src/components/ui/badge'
+import { Button } from '@/src/components/ui/button'
+import { MIN_READABLE_FONT_SIZE, type TextContrastResult } from '@/src/lib/core/contrast'
+import { useActiveDesign } from '@/src/lib/hooks/useActiveDesign'
+import { cn } from '@/src/lib/utils'
+import { AlertTriangle, Contrast, RefreshCw } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+interface ContrastPanelProps {
+  onCollapse?: () => void
+  className?: string
+}
+
+const LEVEL_BADGES: Record<TextContrastResult['level'], { label: string; className: string }> = {
+  AAA: { label: 'AAA', className: 'bg-green-100 text-green-800' },
+  AA: { label: 'AA', className: 'bg-yellow-100 text-yellow-800' },
+  fail: { label: 'Fails AA', className: 'bg-red-100 text-red-800' },
+}
+
+const describeText = (result: TextContrastResult) => {
+  const text = result.object.text.trim().split('\n')[0]
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text
+}
+
+/**
+ * Accessibility audit of the text in the design: WCAG contrast against what
+ * is behind each text, and font sizes too small to read
+ */
+export function ContrastPanel({ onCollapse, className }: ContrastPanelProps) {
+  const activeDesign = useActiveDesign()
+  const [results, setResults] = useState<TextContrastResult[]>([])
+  const [checkedAt, setCheckedAt] = useState<Date | null>(null)
+
+  const runAudit = useCallback(() => {
+    if (!activeDesign) return
+    try {
+      setResults(activeDesign.auditTextContrast())
+      setCheckedAt(new Date())
+    } catch (error) {
+      console.error('Failed to check contrast:', error)
+      toast.error('Could not check contrast', { description: 'Images from other sites may block reading the design' })
+    }
+  }, [activeDesign])
+
+  useEffect(() => {
+    setResults([])
+    setCheckedAt(null)
+    runAudit()
+  }, [runAudit])
+
+  const handleApplySuggestion = (result: TextContrastResult) => {
+    if (!activeDesign || !result.suggestedColor) return
+    if (!activeDesign.setTextColor(result.object, result.suggestedColor)) {
+      toast.error('This text was removed or is locked', { description: 'Check again to refresh the results' })
+      return
+    }
+    runAudit()
+  }
+
+  const failing = results.filter(result => result.level === 'fail').length
+  const tooSmall = results.filter(result => result.isTooSmall).length
+
+  return (
+    <div className={cn('flex flex-col h-full bg-white relative', className)}>
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex flex-col">
+            <h3 className="font-semibold text-gray-900">Contrast</h3>
+            {checkedAt && (
+              <span className="text-xs text-gray-500">Checked {checkedAt.toLocaleTimeString()}</span>
+            )}
+          </div>
+          {onCollapse && (
+            <Button variant="ghost" size="sm" onClick={onCollapse}>
+              ×
+            </Button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="flex-1 text-xs text-gray-600">
+            {results.length === 0
+              ? 'No text to check'
+              : failing === 0 && tooSmall === 0
+                ? `All ${results.length} texts pass AA`
+                : [failing > 0 && `${failing} failing contrast`, tooSmall > 0 && `${tooSmall} too small`].filter(Boolean).join(' • ')}
+          </div>
+          <Button variant="outline" size="sm" className="h-8" onClick={runAudit} disabled={!activeDesign}>
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Check again
+          </Button>
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-auto p-4">
+        {results.length === 0 ? (
+          <div className="text-center py-8">
+            <Contrast className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500 text-sm">No text layers</p>
+            <p className="text-gray-400 text-xs mt-1">Add text, then check that it can be read on its background</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {results.map((result, index) => {
+              const badge = LEVEL_BADGES[result.level]
+              return (
+                <div
+                  key={`${result.layerId}-${index}`}
+                  className="rounded-lg border border-gray-200 p-3 space-y-2 cursor-pointer hover:border-blue-300 transition-colors"
+                  title="Select this layer"
+                  onClick={() => activeDesign?.setSelectedLayer(result.layerId)}
+                >
+                  <div className="flex items-center gap-3">
+                    <div
+                      className="w-10 h-10 shrink-0 rounded border border-gray-200 flex items-center justify-center text-sm font-semibold"
+                      style={{ backgroundColor: result.backgroundColor, color: result.textColor }}
+                    >
+                      Aa
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-gray-900 truncate">{describeText(result)}</div>
+                      <div className="text-xs text-gray-500 truncate">{result.layerName}</div>
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      <span className="text-sm font-medium text-gray-900">{result.ratio.toFixed(2)}:1</span>
+                      <Badge variant="secondary" className={cn('text-[10px]', badge.className)}>{badge.label}</Badge>
+                    </div>
+                  </div>
+
+                  <div className="text-[10px] text-gray-500">
+                    {result.fontSize}px{result.isLargeText ? ', large text' : ''} • {result.textColor} on {result.backgroundColor}
+                  </div>
+
+                  {result.isTooSmall && (
+                    <div className="flex items-center gap-1 text-xs text-amber-700">
+                      <AlertTriangle className="h-3 w-3" />
+                      Smaller than {MIN_READABLE_FONT_SIZE}px; hard to read at any contrast
+                    </div>
+                  )}
+
+                  {result.suggestedColor && (
+                    <div className="flex items-center gap-2">
+                      <div className="w-5 h-5 rounded border border-gray-200" style={{ backgroundColor: result.suggestedColor }} />
+                      <span className="flex-1 text-xs text-gray-600">
+                        {result.level === 'fail' ? 'Nearest passing color' : 'Nearest AAA color'} {result.suggestedColor}
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleApplySuggestion(result)
+                        }}
+                      >
+                        Use
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
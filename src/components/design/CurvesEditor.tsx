@@ -0,0 +1,140 @@
+'use client'
+
+import { Button } from '@/src/components/ui/button'
+import { evaluateCurve, type CurveChannel, type CurvePoint, type CurvesSettings, type ImageHistogram } from '@/src/lib/core/adjustments'
+import { cn } from '@/src/lib/utils'
+import { useRef, useState } from 'react'
+import { HistogramGraph } from './HistogramGraph'
+
+interface CurvesEditorProps {
+  curves: CurvesSettings
+  histogram: ImageHistogram | null
+  disabled?: boolean
+  onChange: (curves: CurvesSettings) => void
+}
+
+const CHANNELS: { id: CurveChannel; label: string; color: string }[] = [
+  { id: 'rgb', label: 'RGB', color: '#374151' },
+  { id: 'red', label: 'Red', color: '#ef4444' },
+  { id: 'green', label: 'Green', color: '#22c55e' },
+  { id: 'blue', label: 'Blue', color: '#3b82f6' },
+]
+
+const clampLevel = (value: number) => Math.min(255, Math.max(0, Math.round(value)))
+
+/**
+ * Tone curve of each channel over the image's histogram. Clicking adds a
+ * point, dragging moves it and double-clicking removes it.
+ */
+export function CurvesEditor({ curves, histogram, disabled, onChange }: CurvesEditorProps) {
+  const [channel, setChannel] = useState<CurveChannel>('rgb')
+  const svgRef = useRef<SVGSVGElement>(null)
+  const points = curves[channel]
+  const { color } = CHANNELS.find(c => c.id === channel)!
+  const curve = evaluateCurve(points)
+
+  const setPoints = (nextPoints: CurvePoint[]) => onChange({ ...curves, [channel]: nextPoints })
+
+  const toLevels = (e: { clientX: number; clientY: number }) => {
+    const rect = svgRef.current!.getBoundingClientRect()
+    return {
+      x: clampLevel(((e.clientX - rect.left) / rect.width) * 255),
+      y: clampLevel(255 - ((e.clientY - rect.top) / rect.height) * 255),
+    }
+  }
+
+  // Drags move one point between its neighbours, so the other points stay as they were at the start
+  const startDrag = (startPoints: CurvePoint[], index: number) => {
+    const minX = index === 0 ? 0 : startPoints[index - 1].x + 1
+    const maxX = index === startPoints.length - 1 ? 255 : startPoints[index + 1].x - 1
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const { x, y } = toLevels(e)
+      setPoints(startPoints.map((point, i) => (i === index ? { x: Math.min(maxX, Math.max(minX, x)), y } : point)))
+    }
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseup', handleMouseUp)
+    }
+
+    document.addEventListener('mousemove', handleMouseMove)
+    document.addEventListener('mouseup', handleMouseUp)
+  }
+
+  const handleAddPoint = (e: React.MouseEvent) => {
+    if (disabled) return
+    const point = toLevels(e)
+    const existing = points.findIndex(p => p.x === point.x)
+    if (existing !== -1) {
+      startDrag(points, existing)
+      return
+    }
+    const nextPoints = [...points, point].sort((a, b) => a.x - b.x)
+    setPoints(nextPoints)
+    startDrag(nextPoints, nextPoints.indexOf(point))
+  }
+
+  const curvePath = curve.map((level, input) => `${input === 0 ? 'M' : 'L'}${input},${255 - level}`).join(' ')
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {CHANNELS.map(({ id, label }) => (
+          <Button
+            key={id}
+            variant={channel === id ? 'default' : 'outline'}
+            size="sm"
+            className="h-6 flex-1 px-1 text-[10px]"
+            onClick={() => setChannel(id)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox="0 0 255 255"
+        preserveAspectRatio="none"
+        className={cn('w-full aspect-square rounded border border-gray-200 bg-white', disabled ? 'opacity-50' : 'cursor-crosshair')}
+        onMouseDown={handleAddPoint}
+      >
+        {histogram && <HistogramGraph counts={histogram[channel]} color={color} />}
+        {[64, 128, 192].map(level => (
+          <g key={level} stroke="#e5e7eb" strokeWidth={1}>
+            <line x1={level} y1={0} x2={level} y2={255} vectorEffect="non-scaling-stroke" />
+            <line x1={0} y1={level} x2={255} y2={level} vectorEffect="non-scaling-stroke" />
+          </g>
+        ))}
+        <line x1={0} y1={255} x2={255} y2={0} stroke="#d1d5db" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+        <path d={curvePath} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {points.map((point, index) => (
+          <circle
+            key={index}
+            cx={point.x}
+            cy={255 - point.y}
+            r={5}
+            fill="white"
+            stroke={color}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            className={disabled ? undefined : 'cursor-move'}
+            onMouseDown={(e) => {
+              e.stopPropagation()
+              if (!disabled) startDrag(points, index)
+            }}
+            onDoubleClick={() => {
+              // The end points stay, so the curve always covers every level
+              if (!disabled && index > 0 && index < points.length - 1) setPoints(points.filter((_, i) => i !== index))
+            }}
+          />
+        ))}
+      </svg>
+
+      <p className="text-[10px] text-gray-500">
+        {histogram ? 'Click to add a point, drag to move it, double-click to remove it' : 'The histogram of this image cannot be read'}
+      </p>
+    </div>
+  )
+}
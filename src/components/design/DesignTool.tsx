@@ -2,12 +2,15 @@
 
 import { cleanupHotkeys, initializeHotkeys } from '@/src/lib/hotkeys'
 import { cn } from '@/src/lib/utils'
-import { Bot, Settings } from 'lucide-react'
+import { Bot, History, Settings } from 'lucide-react'
 import { ElementRef, useEffect, useRef, useState } from 'react'
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels'
 import { AgentPanel } from './AgentPanel'
+import { BrandKitPanel } from './BrandKitPanel'
+import { ContrastPanel } from './ContrastPanel'
 import { Canvas } from './Canvas'
 import { CanvasTabs } from './CanvasTabs'
+import { HistoryPanel } from './HistoryPanel'
 import { ImagesPanel } from './ImagesPanel'
 import { LayersPanel } from './LayersPanel'
 import { NavigationSidebar } from './NavigationSidebar'
@@ -15,6 +18,7 @@ import { PropertiesPanel } from './PropertiesPanel'
 import { TemplatesPanel } from './TemplatesPanel'
 import { TextsPanel } from './TextsPanel'
 import { Toolbar } from './Toolbar'
+import { VersionsPanel } from './VersionsPanel'
 
 interface DesignToolProps {
   className?: string
@@ -108,6 +112,15 @@ export function DesignTool({ className }: DesignToolProps) {
                     {activeLeftTab === 'templates' && (
                       <TemplatesPanel onCollapse={toggleLeftSidebar} />
                     )}
+                    {activeLeftTab === 'versions' && (
+                      <VersionsPanel onCollapse={toggleLeftSidebar} />
+                    )}
+                    {activeLeftTab === 'brand' && (
+                      <BrandKitPanel onCollapse={toggleLeftSidebar} />
+                    )}
+                    {activeLeftTab === 'contrast' && (
+                      <ContrastPanel onCollapse={toggleLeftSidebar} />
+                    )}
                   </>
                 )}
               </div>
@@ -161,6 +174,25 @@ export function DesignTool({ className }: DesignToolProps) {
                       >
                         <Bot className="h-4 w-4" />
                       </button>
+                      <button
+                        onClick={() => {
+                          setActiveRightTab('history')
+                          if (!isRightSidebarCollapsed && activeRightTab === 'history') {
+                            toggleRightSidebar()
+                          } else {
+                            rightPanelRef.current?.expand()
+                            setIsRightSidebarCollapsed(false)
+                          }
+                        }}
+                        className={cn('p-3 hover:bg-gray-100 transition-colors border-b border-gray-200 last:border-b-0',
+                          activeRightTab === 'history' && !isRightSidebarCollapsed
+                            ? 'bg-gray-100'
+                            : 'hover:bg-gray-100'
+                        )}
+                        title="History"
+                      >
+                        <History className="h-4 w-4" />
+                      </button>
                     </div>
                   </div>
                   {/* )} */}
@@ -178,7 +210,7 @@ export function DesignTool({ className }: DesignToolProps) {
             </Panel>
             <PanelResizeHandle className="w-px bg-gray-200 hover:bg-blue-500 transition-colors" />
 
-            {/* Right Panel - Properties & Agent with Floating Tabs */}
+            {/* Right Panel - Properties, Agent & History with Floating Tabs */}
             <Panel
               ref={rightPanelRef}
               collapsible
@@ -232,6 +264,24 @@ export function DesignTool({ className }: DesignToolProps) {
                     >
                       <Bot className="h-4 w-4" />
                     </button>
+                    <button
+                      onClick={() => {
+                        setActiveRightTab('history')
+                        if (isRightSidebarCollapsed) {
+                          rightPanelRef.current?.expand()
+                          setIsRightSidebarCollapsed(false)
+                        }
+                      }}
+                      className={cn(
+                        'p-3 transition-colors border-b border-gray-200 last:border-b-0',
+                        activeRightTab === 'history' && !isRightSidebarCollapsed
+                          ? 'bg-blue-500 text-white'
+                          : 'hover:bg-gray-100'
+                      )}
+                      title="History"
+                    >
+                      <History className="h-4 w-4" />
+                    </button>
                   </div>
                 </div>
 
@@ -255,6 +305,9 @@ export function DesignTool({ className }: DesignToolProps) {
                       {activeRightTab === 'agent' && (
                         <AgentPanel onCollapse={toggleRightSidebar} className="h-full border-none" />
                       )}
+                      {activeRightTab === 'history' && (
+                        <HistoryPanel onCollapse={toggleRightSidebar} className="h-full border-none" />
+                      )}
                     </div>
                   </>
                 )}
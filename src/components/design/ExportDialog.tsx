@@ -0,0 +1,248 @@
+'use client'
+
+import { Button } from '@/src/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/src/components/ui/dialog'
+import { Input } from '@/src/components/ui/input'
+import { Label } from '@/src/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/src/components/ui/select'
+import { Slider } from '@/src/components/ui/slider'
+import { Switch } from '@/src/components/ui/switch'
+import { DesignManager, type ExportOptions } from '@/src/lib/core/DesignManager'
+import { cn } from '@/src/lib/utils'
+import { useEffect, useState } from 'react'
+
+interface ExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  design: DesignManager
+}
+
+type RasterFormat = 'png' | 'jpg' | 'webp'
+type SizeMode = 'scale' | 'dpi'
+
+const SCALE_PRESETS = [0.5, 1, 2, 3, 4]
+const DPI_PRESETS = [72, 150, 300]
+
+// Estimates render a downscaled copy above this many pixels and extrapolate
+const ESTIMATE_MAX_PIXELS = 4_000_000
+const ESTIMATE_DELAY = 300
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const getDataURLSize = (dataURL: string) => {
+  return Math.round((dataURL.length - dataURL.indexOf(',') - 1) * 3 / 4)
+}
+
+export function ExportDialog({ isOpen, onClose, design }: ExportDialogProps) {
+  const [format, setFormat] = useState<RasterFormat>('png')
+  const [sizeMode, setSizeMode] = useState<SizeMode>('scale')
+  const [scale, setScale] = useState(1)
+  const [dpi, setDpi] = useState(300)
+  const [quality, setQuality] = useState(80)
+  const [isTransparent, setIsTransparent] = useState(design.baseLayerConfig.opacity === 0)
+  const [fileName, setFileName] = useState(design.name)
+  const [appendScaleSuffix, setAppendScaleSuffix] = useState(true)
+  const [estimatedSize, setEstimatedSize] = useState<number | null>(null)
+
+  const supportsQuality = format !== 'png'
+  const supportsTransparency = format !== 'jpg'
+  const options: ExportOptions = {
+    format,
+    ...(sizeMode === 'dpi' ? { dpi } : { multiplier: scale }),
+    quality: quality / 100,
+    background: isTransparent && supportsTransparency ? 'transparent' : 'base-layer',
+  }
+  const multiplier = DesignManager.getExportMultiplier(options)
+  const outputWidth = Math.round(design.baseLayerConfig.width * multiplier)
+  const outputHeight = Math.round(design.baseLayerConfig.height * multiplier)
+
+  const suffix = appendScaleSuffix && multiplier !== 1 ? `@${Number(multiplier.toFixed(2))}x` : ''
+  const fullFileName = `${fileName.trim() || design.name}${suffix}.${format}`
+
+  // Re-estimate the file size shortly after the settings stop changing
+  const optionsKey = JSON.stringify(options)
+  useEffect(() => {
+    if (!isOpen) return
+
+    setEstimatedSize(null)
+    const timeout = setTimeout(() => {
+      const pixels = outputWidth * outputHeight
+      const ratio = Math.min(1, ESTIMATE_MAX_PIXELS / pixels)
+      const dataURL = design.exportCanvas({ ...options, dpi: undefined, multiplier: multiplier * Math.sqrt(ratio) })
+      if (typeof dataURL === 'string' && dataURL) {
+        setEstimatedSize(Math.round(getDataURLSize(dataURL) / ratio))
+      }
+    }, ESTIMATE_DELAY)
+    return () => clearTimeout(timeout)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, design, optionsKey])
+
+  const handleExport = () => {
+    const dataURL = design.exportCanvas(options)
+    if (typeof dataURL !== 'string' || !dataURL) return
+
+    const link = document.createElement('a')
+    link.download = fullFileName
+    link.href = dataURL
+    link.click()
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export image</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Format */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium text-gray-600">Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as RasterFormat)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="png">PNG</SelectItem>
+                <SelectItem value="jpg">JPG</SelectItem>
+                <SelectItem value="webp">WebP</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Size */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs font-medium text-gray-600">Size</Label>
+              <div className="flex text-xs border border-gray-200 rounded-md overflow-hidden">
+                {(['scale', 'dpi'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setSizeMode(mode)}
+                    className={cn('px-2 py-1', sizeMode === mode ? 'bg-gray-100 font-medium' : 'hover:bg-gray-50')}
+                  >
+                    {mode === 'scale' ? 'Scale' : 'DPI'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {sizeMode === 'scale' ? (
+              <div className="flex gap-1">
+                {SCALE_PRESETS.map(preset => (
+                  <Button
+                    key={preset}
+                    variant={scale === preset ? 'default' : 'outline'}
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => setScale(preset)}
+                  >
+                    {preset}x
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <div className="flex gap-1">
+                <Input
+                  type="number"
+                  min={18}
+                  max={1200}
+                  value={dpi}
+                  onChange={(e) => setDpi(Math.max(1, Number(e.target.value) || 0))}
+                  className="flex-1"
+                />
+                {DPI_PRESETS.map(preset => (
+                  <Button
+                    key={preset}
+                    variant={dpi === preset ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setDpi(preset)}
+                  >
+                    {preset}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Quality */}
+          {supportsQuality && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-medium text-gray-600">Quality</Label>
+                <span className="text-xs text-gray-500">{quality}%</span>
+              </div>
+              <Slider
+                value={[quality]}
+                onValueChange={([value]) => setQuality(value)}
+                min={10}
+                max={100}
+                step={1}
+              />
+            </div>
+          )}
+
+          {/* Background */}
+          <div className="flex items-center justify-between">
+            <Label htmlFor="export-transparent" className="text-xs font-medium text-gray-600">
+              Transparent background
+            </Label>
+            <Switch
+              id="export-transparent"
+              checked={isTransparent && supportsTransparency}
+              onCheckedChange={setIsTransparent}
+              disabled={!supportsTransparency}
+            />
+          </div>
+
+          {/* File name */}
+          <div className="space-y-2">
+            <Label htmlFor="export-file-name" className="text-xs font-medium text-gray-600">File name</Label>
+            <Input
+              id="export-file-name"
+              value={fileName}
+              onChange={(e) => setFileName(e.target.value)}
+            />
+            <div className="flex items-center justify-between">
+              <Label htmlFor="export-scale-suffix" className="text-xs text-gray-500">Add scale suffix (e.g. @2x)</Label>
+              <Switch
+                id="export-scale-suffix"
+                checked={appendScaleSuffix}
+                onCheckedChange={setAppendScaleSuffix}
+              />
+            </div>
+          </div>
+
+          {/* Summary */}
+          <div className="rounded-md bg-gray-50 p-3 text-xs text-gray-600 space-y-1">
+            <div className="truncate">{fullFileName}</div>
+            <div>
+              {outputWidth} × {outputHeight} px
+              {' · '}
+              {estimatedSize === null ? 'Estimating size…' : `≈ ${formatFileSize(estimatedSize)}`}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport}>
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,20 @@
+'use client'
+
+interface HistogramGraphProps {
+  // Count of each of the 256 levels
+  counts: number[]
+  color: string
+}
+
+/**
+ * Filled histogram drawn into a parent SVG whose viewBox is 0 0 255 255, so
+ * that each level is one unit wide
+ */
+export function HistogramGraph({ counts, color }: HistogramGraphProps) {
+  // Pure black and white often spike; scaling to the other levels keeps the rest readable
+  const peak = Math.max(1, ...counts.slice(1, 255))
+  const heights = counts.map(count => Math.min(1, count / peak) * 255)
+  const path = `M0,255 ${heights.map((height, level) => `L${level},${255 - height} L${level + 1},${255 - height}`).join(' ')} L256,255 Z`
+
+  return <path d={path} fill={color} fillOpacity={0.25} stroke="none" />
+}
@@ -0,0 +1,179 @@
+'use client'
+
+import { Button } from '@/src/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card'
+import type { HistoryNode, HistoryTree } from '@/src/lib/core/history'
+import { useActiveDesign } from '@/src/lib/hooks/useActiveDesign'
+import { cn } from '@/src/lib/utils'
+import { ChevronDown, ChevronRight, GitBranch, History } from 'lucide-react'
+import { useEffect, useState } from 'react'
+
+interface HistoryPanelProps {
+  className?: string
+  onCollapse?: () => void
+}
+
+/**
+ * Follow the redo path (`activeChildId`) from a node down to the tip of its branch
+ */
+const getBranch = (tree: HistoryTree, startId: string): Readonly<HistoryNode>[] => {
+  const branch: Readonly<HistoryNode>[] = []
+  let node = tree.nodes.get(startId)
+  while (node) {
+    branch.push(node)
+    node = node.activeChildId ? tree.nodes.get(node.activeChildId) : undefined
+  }
+  return branch
+}
+
+const formatTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+export function HistoryPanel({ className, onCollapse }: HistoryPanelProps) {
+  const activeDesign = useActiveDesign()
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
+
+  // Never leave a hover preview on the canvas when the panel goes away
+  useEffect(() => {
+    return () => {
+      activeDesign?.endHistoryPreview()
+    }
+  }, [activeDesign])
+
+  const toggleExpanded = (nodeId: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(nodeId)) {
+        next.delete(nodeId)
+      } else {
+        next.add(nodeId)
+      }
+      return next
+    })
+  }
+
+  // Show message if no active tab
+  if (!activeDesign) {
+    return (
+      <Card className={cn('min-w-80 w-full', className)}>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center justify-between">
+            History
+            {onCollapse && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onCollapse}
+                className="h-6 w-6 p-0 ml-2"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8 text-gray-500">
+            <p>No canvas selected</p>
+            <p className="text-sm">Create a new canvas to get started</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const tree = activeDesign.getHistoryTree()
+  const mainPath = getBranch(tree, tree.rootId)
+  const currentIndex = mainPath.findIndex(node => node.id === tree.currentId)
+
+  const renderStep = (node: Readonly<HistoryNode>, isFuture: boolean, isBranch = false) => {
+    const isCurrent = node.id === tree.currentId
+
+    return (
+      <button
+        key={node.id}
+        onClick={() => activeDesign.jumpToHistory(node.id)}
+        onMouseEnter={() => !isCurrent && activeDesign.previewHistory(node.id)}
+        className={cn(
+          'w-full flex items-center gap-2 px-2 py-1.5 rounded-md border text-left transition-colors min-w-0',
+          isCurrent
+            ? 'bg-blue-50 border-blue-200'
+            : 'bg-gray-50 border-gray-200 hover:bg-gray-100',
+          isFuture && 'opacity-50',
+          isBranch && 'bg-white'
+        )}
+      >
+        <span className={cn('flex-1 text-sm truncate', isCurrent ? 'font-medium' : 'font-normal')}>
+          {node.label}
+        </span>
+        <span className="text-xs text-gray-500 flex-shrink-0">{formatTime(node.timestamp)}</span>
+      </button>
+    )
+  }
+
+  return (
+    <Card className={cn('min-w-80 w-full border-none shadow-none h-full flex flex-col', className)}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between">
+          <div className="flex flex-col">
+            <span>History</span>
+            <div className="text-xs text-gray-500 font-normal">
+              Canvas: {activeDesign.name}
+            </div>
+          </div>
+          {onCollapse && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onCollapse}
+              className="h-6 w-6 p-0"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex-1 overflow-y-auto">
+        {mainPath.length <= 1 && tree.nodes.size <= 1 ? (
+          <div className="text-center py-8 text-gray-500">
+            <History className="h-12 w-12 mx-auto mb-2 opacity-30" />
+            <p>No changes yet</p>
+            <p className="text-sm">Your edits will show up here</p>
+          </div>
+        ) : (
+          <div className="space-y-1" onMouseLeave={() => activeDesign.endHistoryPreview()}>
+            {mainPath.map((node, index) => {
+              const otherBranches = node.childIds.filter(id => id !== node.activeChildId)
+              const isExpanded = expandedIds.has(node.id)
+
+              return (
+                <div key={node.id} className="space-y-1">
+                  {renderStep(node, index > currentIndex)}
+
+                  {/* Steps undone before a different change was made */}
+                  {otherBranches.length > 0 && (
+                    <div className="pl-4">
+                      <button
+                        onClick={() => toggleExpanded(node.id)}
+                        className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 py-0.5"
+                      >
+                        {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                        <GitBranch className="h-3 w-3" />
+                        {otherBranches.length} other {otherBranches.length === 1 ? 'branch' : 'branches'}
+                      </button>
+                      {isExpanded && otherBranches.map(branchId => (
+                        <div key={branchId} className="space-y-1 border-l-2 border-gray-200 pl-2 mt-1">
+                          {getBranch(tree, branchId).map(branchNode => renderStep(branchNode, true, true))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,267 @@
+'use client'
+
+import { Button } from '@/src/components/ui/button'
+import { Label } from '@/src/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/src/components/ui/select'
+import { Slider } from '@/src/components/ui/slider'
+import {
+  ADJUSTMENT_DEFINITIONS,
+  ADJUSTMENT_KINDS,
+  ADJUSTMENT_PRESETS,
+  createPresetAdjustments,
+  isDefaultAdjustment,
+  type AdjustmentKind
+} from '@/src/lib/core/adjustments'
+import type { DesignManager } from '@/src/lib/core/DesignManager'
+import { readLutFile } from '@/src/lib/persistence/luts'
+import { useLutStore } from '@/src/lib/stores/lut-store'
+import { cn } from '@/src/lib/utils'
+import { ChevronDown, ChevronUp, Eye, EyeOff, RotateCcw, Trash2, Upload, X } from 'lucide-react'
+import { useEffect, useRef } from 'react'
+import { toast } from 'sonner'
+import { CurvesEditor } from './CurvesEditor'
+import { LevelsEditor } from './LevelsEditor'
+
+interface ImageAdjustmentsSectionProps {
+  design: DesignManager
+  // Controls are disabled until an editable image is selected
+  hasImage: boolean
+}
+
+/**
+ * Adjustment stack of the selected image: presets and imported LUTs, then
+ * adjustments applied first to last, each of which can be reordered, hidden,
+ * reset or removed
+ */
+export function ImageAdjustmentsSection({ design, hasImage }: ImageAdjustmentsSectionProps) {
+  const adjustments = design.getImageAdjustments()
+  const { presets: lutPresets, loadPresets: loadLutPresets, addPreset: addLutPreset, deletePreset: deleteLutPreset } = useLutStore()
+  const lutInputRef = useRef<HTMLInputElement>(null)
+  // Only read when an editor shows it
+  const histogram = adjustments.some(adjustment => adjustment.curves || adjustment.levels) ? design.getImageHistogram() : null
+
+  useEffect(() => {
+    loadLutPresets()
+  }, [loadLutPresets])
+
+  const handleImportLuts = async (files: FileList | null) => {
+    if (!files) return
+    for (const file of Array.from(files)) {
+      try {
+        addLutPreset(await readLutFile(file))
+      } catch (error) {
+        console.error('Failed to read LUT:', error)
+        toast.error(`Could not import ${file.name}`, { description: error instanceof Error ? error.message : undefined })
+      }
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900">Image Adjustments</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => design.setImageAdjustments([], 'Reset adjustments')}
+          className="h-6 text-xs"
+          disabled={!hasImage || adjustments.length === 0}
+        >
+          <RotateCcw className="h-3 w-3 mr-1" />
+          Reset
+        </Button>
+      </div>
+
+      {/* Presets */}
+      <div className="space-y-3">
+        <h4 className="text-xs font-medium text-gray-600 uppercase tracking-wide">Presets</h4>
+        <div className="grid grid-cols-2 gap-2">
+          {ADJUSTMENT_PRESETS.map((preset) => (
+            <Button
+              key={preset.name}
+              variant="outline"
+              size="sm"
+              onClick={() => design.setImageAdjustments(createPresetAdjustments(preset), `${preset.name} preset`)}
+              disabled={!hasImage}
+              className="h-8 text-xs"
+            >
+              {preset.name}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* LUTs */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-medium text-gray-600 uppercase tracking-wide">LUTs</h4>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => lutInputRef.current?.click()}
+          >
+            <Upload className="h-3 w-3 mr-1" />
+            Import .cube
+          </Button>
+          <input
+            ref={lutInputRef}
+            type="file"
+            accept=".cube"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleImportLuts(e.target.files)
+              e.target.value = ''
+            }}
+          />
+        </div>
+        {lutPresets.length === 0 ? (
+          <p className="text-xs text-gray-500">Import .cube LUT files to grade images with them; they are kept on this device.</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {lutPresets.map((preset) => (
+              <div key={preset.id} className="group relative">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => design.addImageLut(preset)}
+                  disabled={!hasImage}
+                  className="h-8 w-full text-xs"
+                  title={`${preset.name} (${preset.size}³)`}
+                >
+                  <span className="truncate">{preset.name}</span>
+                </Button>
+                <button
+                  type="button"
+                  className="absolute -top-1 -right-1 hidden group-hover:flex h-3.5 w-3.5 items-center justify-center rounded-full bg-gray-700 text-white"
+                  title={`Delete ${preset.name}`}
+                  onClick={() => deleteLutPreset(preset.id)}
+                >
+                  <X className="h-2.5 w-2.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Adjustment stack */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-medium text-gray-600 uppercase tracking-wide">Adjustments</h4>
+          <Select value="" onValueChange={(kind) => design.addImageAdjustment(kind as AdjustmentKind)} disabled={!hasImage}>
+            <SelectTrigger className="w-28 h-7 text-xs">
+              <SelectValue placeholder="Add" />
+            </SelectTrigger>
+            <SelectContent>
+              {ADJUSTMENT_KINDS.map((kind) => (
+                <SelectItem key={kind} value={kind}>{ADJUSTMENT_DEFINITIONS[kind].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {adjustments.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            {hasImage ? 'No adjustments. Add one or pick a preset; the original image is kept.' : 'Select an image to adjust it.'}
+          </p>
+        ) : (
+          adjustments.map((adjustment, index) => {
+            const { label, range } = ADJUSTMENT_DEFINITIONS[adjustment.kind]
+            const isResettable = range || adjustment.curves || adjustment.levels
+            return (
+              <div key={adjustment.id} className={cn('space-y-2 rounded-lg border border-gray-200 p-2', !adjustment.enabled && 'opacity-60')}>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title={adjustment.enabled ? 'Hide adjustment' : 'Show adjustment'}
+                    onClick={() => design.updateImageAdjustment(adjustment.id, { enabled: !adjustment.enabled })}
+                  >
+                    {adjustment.enabled ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                  </Button>
+                  <Label className="flex-1 min-w-0 truncate text-xs font-medium text-gray-600">{adjustment.lut?.name ?? label}</Label>
+                  {range && (
+                    <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                      {adjustment.value}{range.unit}
+                    </span>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title="Move up"
+                    disabled={index === 0}
+                    onClick={() => design.moveImageAdjustment(adjustment.id, index - 1)}
+                  >
+                    <ChevronUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title="Move down"
+                    disabled={index === adjustments.length - 1}
+                    onClick={() => design.moveImageAdjustment(adjustment.id, index + 1)}
+                  >
+                    <ChevronDown className="h-3 w-3" />
+                  </Button>
+                  {isResettable && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      title="Reset"
+                      disabled={isDefaultAdjustment(adjustment)}
+                      onClick={() => design.resetImageAdjustment(adjustment.id)}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title="Remove"
+                    onClick={() => design.removeImageAdjustment(adjustment.id)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+                {range && (
+                  <Slider
+                    min={range.min}
+                    max={range.max}
+                    step={range.step}
+                    value={[adjustment.value]}
+                    onValueChange={(val) => design.updateImageAdjustment(adjustment.id, { value: val[0] })}
+                    disabled={!adjustment.enabled}
+                    className="w-full"
+                  />
+                )}
+                {adjustment.curves && (
+                  <CurvesEditor
+                    curves={adjustment.curves}
+                    histogram={histogram}
+                    disabled={!adjustment.enabled}
+                    onChange={(curves) => design.updateImageAdjustment(adjustment.id, { curves })}
+                  />
+                )}
+                {adjustment.levels && (
+                  <LevelsEditor
+                    levels={adjustment.levels}
+                    histogram={histogram}
+                    disabled={!adjustment.enabled}
+                    onChange={(levels) => design.updateImageAdjustment(adjustment.id, { levels })}
+                  />
+                )}
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+'use client'
+
+import { Button } from '@/src/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/src/components/ui/select'
+import { Separator } from '@/src/components/ui/separator'
+import type { DesignManager } from '@/src/lib/core/DesignManager'
+import { DEFAULT_PALETTE_SIZE, extractImagePalette, PALETTE_SIZES, type PaletteColor } from '@/src/lib/core/palette'
+import { useActiveBrandKit } from '@/src/lib/hooks/useActiveBrandKit'
+import { createBrandPalette } from '@/src/lib/persistence/brand-kits'
+import { useBrandKitStore } from '@/src/lib/stores/brand-kit-store'
+import * as fabric from 'fabric'
+import { BookmarkPlus, Loader2, Paintbrush, Pipette, X } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+interface ImagePaletteSectionProps {
+  design: DesignManager
+  activeObject: fabric.Object | null
+}
+
+interface ExtractedPalette {
+  sourceName: string
+  colors: PaletteColor[]
+}
+
+/**
+ * Dominant colors of the selected image. The palette stays after the image is
+ * deselected, so its colors can be applied to other layers.
+ */
+export function ImagePaletteSection({ design, activeObject }: ImagePaletteSectionProps) {
+  const brandKit = useActiveBrandKit()
+  const updateKit = useBrandKitStore((state) => state.updateKit)
+  const [palette, setPalette] = useState<ExtractedPalette | null>(null)
+  const [paletteSize, setPaletteSize] = useState(DEFAULT_PALETTE_SIZE)
+  const [isExtracting, setIsExtracting] = useState(false)
+
+  const image = activeObject instanceof fabric.FabricImage ? activeObject : null
+  if (!image && !palette) return null
+
+  const colors = palette?.colors.map(({ color }) => color) ?? []
+  const canApply = design.canApplyPalette()
+
+  const handleExtract = async () => {
+    if (!image) return
+
+    setIsExtracting(true)
+    try {
+      const layer = design.layers.find(l => l.object === image)
+      const extracted = await extractImagePalette(image, paletteSize)
+      if (extracted.length === 0) {
+        toast.info('The image has no opaque pixels to take colors from')
+        return
+      }
+      setPalette({ sourceName: layer?.name ?? 'Image', colors: extracted })
+    } catch (error) {
+      console.error('Failed to extract palette:', error)
+      toast.error('Could not read the colors of this image')
+    } finally {
+      setIsExtracting(false)
+    }
+  }
+
+  const handleAddToStyles = () => {
+    if (!palette) return
+    const styles = design.addPaletteStyles(colors, palette.sourceName)
+    if (styles.length === 0) toast.info('The document already has styles for these colors')
+    else toast.success(`Added ${styles.length} color style${styles.length === 1 ? '' : 's'}`)
+  }
+
+  const handleAddToBrandKit = () => {
+    if (!palette || !brandKit) return
+    updateKit(brandKit.id, { palettes: [...brandKit.palettes, createBrandPalette(palette.sourceName, colors)] })
+    toast.success(`Added the palette to ${brandKit.name}`)
+  }
+
+  return (
+    <>
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-900">Image Palette</h3>
+          {palette && (
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Clear palette" onClick={() => setPalette(null)}>
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+
+        {image && (
+          <div className="flex items-center gap-2">
+            <Select value={String(paletteSize)} onValueChange={(value) => setPaletteSize(Number(value))}>
+              <SelectTrigger className="w-24 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PALETTE_SIZES.map((size) => (
+                  <SelectItem key={size} value={String(size)}>{size} colors</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" className="flex-1 h-8 text-xs" onClick={handleExtract} disabled={isExtracting}>
+              {isExtracting ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Pipette className="h-3 w-3 mr-1" />}
+              Extract colors
+            </Button>
+          </div>
+        )}
+
+        {palette && (
+          <div className="space-y-2">
+            <div className="text-[10px] text-gray-500 truncate">From {palette.sourceName}</div>
+            <div className="flex h-8 overflow-hidden rounded border border-gray-200">
+              {palette.colors.map(({ color, weight }) => (
+                <button
+                  key={color}
+                  type="button"
+                  className="h-full basis-0 min-w-[12px] hover:opacity-80 transition-opacity disabled:cursor-default disabled:hover:opacity-100"
+                  style={{ backgroundColor: color, flexGrow: weight }}
+                  title={canApply ? `Fill the selection with ${color} (${Math.round(weight * 100)}%)` : `${color} (${Math.round(weight * 100)}%)`}
+                  disabled={!canApply}
+                  onClick={() => design.applyPaletteToSelection([color])}
+                />
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleAddToStyles}>
+                <BookmarkPlus className="h-3 w-3 mr-1" />
+                Add to styles
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs"
+                title="Fill the selected layers with the colors in turn"
+                disabled={!canApply}
+                onClick={() => design.applyPaletteToSelection(colors)}
+              >
+                <Paintbrush className="h-3 w-3 mr-1" />
+                Apply to selection
+              </Button>
+              {brandKit && (
+                <Button variant="outline" size="sm" className="col-span-2 h-8 text-xs" onClick={handleAddToBrandKit}>
+                  Add to {brandKit.name} palettes
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+      <Separator className="my-4" />
+    </>
+  )
+}
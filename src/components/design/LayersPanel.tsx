@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/ca
 import { Separator } from '@/src/components/ui/separator'
 import { useActiveDesign } from '@/src/lib/hooks/useActiveDesign'
 import { cn } from '@/src/lib/utils'
-import { ChevronLeft, Circle, Eye, EyeOff, GripVertical, Image, Lock, Square, Trash2, Type, Unlock } from 'lucide-react'
+import { ChevronLeft, Circle, Combine, Eye, EyeOff, GripVertical, Group, Hexagon, Image, Lock, MoveUpRight, Slash, Spline, Square, Star, Trash2, Triangle, Type, Ungroup, Unlock } from 'lucide-react'
 import { useState } from 'react'
 
 interface LayersPanelProps {
@@ -19,10 +19,26 @@ const getLayerIcon = (objectType: string) => {
       return Square
     case 'circle':
       return Circle
+    case 'triangle':
+      return Triangle
+    case 'regularpolygon':
+      return Hexagon
+    case 'star':
+      return Star
+    case 'line':
+      return Slash
+    case 'arrow':
+      return MoveUpRight
     case 'i-text':
       return Type
     case 'image':
       return Image
+    case 'group':
+      return Group
+    case 'compoundshape':
+      return Combine
+    case 'path':
+      return Spline
     default:
       return Square
   }
@@ -54,6 +70,10 @@ export function LayersPanel({ className, onCollapse }: LayersPanelProps) {
     }
   }
 
+  const handleUngroupLayer = (layerId: string) => {
+    activeDesign?.ungroupLayer(layerId)
+  }
+
   const handleLayerNameChange = (layerId: string, newName: string) => {
     activeDesign?.updateLayer(layerId, { name: newName })
   }
@@ -248,6 +268,22 @@ export function LayersPanel({ className, onCollapse }: LayersPanelProps) {
                         )}
                       </Button>
 
+                      {/* Ungroup */}
+                      {layer.object.type === 'group' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleUngroupLayer(layer.id)
+                          }}
+                          className="h-6 w-6 p-0"
+                          title="Ungroup"
+                        >
+                          <Ungroup className="h-3 w-3" />
+                        </Button>
+                      )}
+
                       {/* Delete */}
                       <Button
                         variant="ghost"
@@ -0,0 +1,87 @@
+'use client'
+
+import { Label } from '@/src/components/ui/label'
+import { Slider } from '@/src/components/ui/slider'
+import type { ImageHistogram, LevelsSettings } from '@/src/lib/core/adjustments'
+import { HistogramGraph } from './HistogramGraph'
+
+interface LevelsEditorProps {
+  levels: LevelsSettings
+  histogram: ImageHistogram | null
+  disabled?: boolean
+  onChange: (levels: LevelsSettings) => void
+}
+
+/**
+ * Input black and white points and midtone gamma over the image's luminance
+ * histogram, then the range of output levels
+ */
+export function LevelsEditor({ levels, histogram, disabled, onChange }: LevelsEditorProps) {
+  const update = (changes: Partial<LevelsSettings>) => onChange({ ...levels, ...changes })
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <svg viewBox="0 0 255 255" preserveAspectRatio="none" className="w-full h-16 rounded border border-gray-200 bg-white">
+          {histogram && <HistogramGraph counts={histogram.rgb} color="#374151" />}
+          <rect x={0} y={0} width={levels.inputBlack} height={255} fill="#111827" fillOpacity={0.1} />
+          <rect x={levels.inputWhite} y={0} width={255 - levels.inputWhite} height={255} fill="#111827" fillOpacity={0.1} />
+        </svg>
+        {!histogram && <p className="text-[10px] text-gray-500">The histogram of this image cannot be read</p>}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs text-gray-600">Input</Label>
+          <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+            {levels.inputBlack} – {levels.inputWhite}
+          </span>
+        </div>
+        <Slider
+          min={0}
+          max={255}
+          step={1}
+          minStepsBetweenThumbs={1}
+          value={[levels.inputBlack, levels.inputWhite]}
+          onValueChange={([inputBlack, inputWhite]) => update({ inputBlack, inputWhite })}
+          disabled={disabled}
+          className="w-full"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs text-gray-600">Midtones</Label>
+          <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">{levels.gamma.toFixed(2)}</span>
+        </div>
+        <Slider
+          min={0.1}
+          max={3}
+          step={0.01}
+          value={[levels.gamma]}
+          onValueChange={([gamma]) => update({ gamma })}
+          disabled={disabled}
+          className="w-full"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs text-gray-600">Output</Label>
+          <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+            {levels.outputBlack} – {levels.outputWhite}
+          </span>
+        </div>
+        <Slider
+          min={0}
+          max={255}
+          step={1}
+          value={[levels.outputBlack, levels.outputWhite]}
+          onValueChange={([outputBlack, outputWhite]) => update({ outputBlack, outputWhite })}
+          disabled={disabled}
+          className="w-full"
+        />
+      </div>
+    </div>
+  )
+}
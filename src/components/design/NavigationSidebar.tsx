@@ -1,7 +1,7 @@
 'use client'
 
 import { cn } from '@/src/lib/utils'
-import { FileText, Image as ImageIcon, Layers, Type } from 'lucide-react'
+import { Bookmark, Contrast, FileText, Image as ImageIcon, Layers, Palette, Type } from 'lucide-react'
 import Image from 'next/image'
 
 interface NavigationSidebarProps {
@@ -15,7 +15,10 @@ export function NavigationSidebar({ activeTab, onTabChange, className }: Navigat
     { id: 'images', icon: ImageIcon, label: 'Images' },
     { id: 'texts', icon: Type, label: 'Texts' },
     { id: 'layers', icon: Layers, label: 'Layers' },
-    { id: 'templates', icon: FileText, label: 'Templates' }
+    { id: 'templates', icon: FileText, label: 'Templates' },
+    { id: 'versions', icon: Bookmark, label: 'Versions' },
+    { id: 'brand', icon: Palette, label: 'Brand' },
+    { id: 'contrast', icon: Contrast, label: 'Contrast' }
   ]
 
   return (
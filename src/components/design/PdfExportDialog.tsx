@@ -0,0 +1,109 @@
+'use client'
+
+import { Button } from '@/src/components/ui/button'
+import { Checkbox } from '@/src/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/src/components/ui/dialog'
+import { Label } from '@/src/components/ui/label'
+import { useDesignStore } from '@/src/lib/stores/design-store'
+import { Loader2 } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+interface PdfExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function PdfExportDialog({ isOpen, onClose }: PdfExportDialogProps) {
+  const designs = useDesignStore((state) => state.designs)
+  const activeDesignId = useDesignStore((state) => state.activeDesignId)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set(activeDesignId ? [activeDesignId] : []))
+  const [isExporting, setIsExporting] = useState(false)
+
+  // Pages follow the tab order
+  const selectedDesigns = designs.filter(design => selectedIds.has(design.id))
+
+  const toggleDesign = (designId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(designId)
+      } else {
+        next.delete(designId)
+      }
+      return next
+    })
+  }
+
+  const handleExport = async () => {
+    const [firstDesign, ...pages] = selectedDesigns
+    if (!firstDesign) return
+
+    setIsExporting(true)
+    try {
+      const blob = await firstDesign.exportCanvas({ format: 'pdf', pages })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.download = `${firstDesign.name}.pdf`
+      link.href = url
+      link.click()
+      URL.revokeObjectURL(url)
+      onClose()
+    } catch (error) {
+      console.error('Failed to export PDF:', error)
+      toast.error('Could not export PDF', {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export PDF</DialogTitle>
+          <DialogDescription>
+            Shapes and text stay vectors. Each selected tab becomes a page sized to its canvas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {designs.map((design, index) => (
+            <div key={design.id} className="flex items-center gap-3 p-2 rounded-md border border-gray-200">
+              <Checkbox
+                id={`pdf-page-${design.id}`}
+                checked={selectedIds.has(design.id)}
+                onCheckedChange={(checked) => toggleDesign(design.id, checked === true)}
+              />
+              <Label htmlFor={`pdf-page-${design.id}`} className="flex-1 text-sm font-normal truncate">
+                {index + 1}. {design.name}
+              </Label>
+              <span className="text-xs text-gray-500">
+                {design.baseLayerConfig.width} × {design.baseLayerConfig.height}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={selectedDesigns.length === 0 || isExporting}>
+            {isExporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Export {selectedDesigns.length > 1 ? `${selectedDesigns.length} pages` : 'PDF'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -5,15 +5,62 @@ import { Button } from '@/src/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card'
 import { Input } from '@/src/components/ui/input'
 import { Label } from '@/src/components/ui/label'
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/src/components/ui/select'
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/src/components/ui/select'
 import { Separator } from '@/src/components/ui/separator'
 import { Slider } from '@/src/components/ui/slider'
+import { Switch } from '@/src/components/ui/switch'
 import { getAllFontsFromCache } from '@/src/lib/cache-storage'
+import { BLEND_MODE_GROUPS, BLEND_MODE_LABELS, type BlendMode } from '@/src/lib/core/blend'
+import { BOOLEAN_OPERATION_LABELS, BOOLEAN_OPERATIONS, type BooleanOperation } from '@/src/lib/core/boolean'
+import { BRUSH_LABELS, type BrushType } from '@/src/lib/core/brush'
+import type { FillType } from '@/src/lib/core/DesignManager'
+import {
+  getGradientAngle,
+  getGradientStops,
+  gradientToCss,
+  interpolateStops,
+  isGradient,
+  stopsToCss,
+  stopToCss,
+  type GradientKind,
+  type GradientStop
+} from '@/src/lib/core/gradient'
+import {
+  getPatternPlacement,
+  isPattern,
+  PATTERN_KIND_LABELS,
+  PATTERN_KINDS,
+  PATTERN_REPEAT_LABELS,
+  patternToCss,
+  type PatternKind
+} from '@/src/lib/core/pattern'
+import { ARROW_HEAD_LABELS, type ArrowHead, type ShapeSettings } from '@/src/lib/core/shapes'
+import {
+  createDashArray,
+  DASH_PRESET_LABELS,
+  formatDashArray,
+  getDashPreset,
+  getStrokeOptions,
+  LINE_CAP_LABELS,
+  LINE_JOIN_LABELS,
+  parseDashArray,
+  STROKE_ALIGNMENT_LABELS,
+  STROKE_ALIGNMENTS,
+  supportsStrokeAlignment,
+  type DashPreset
+} from '@/src/lib/core/stroke'
+import { Arrow } from '@/src/lib/core/subclass/Arrow'
+import { CompoundShape } from '@/src/lib/core/subclass/CompoundShape'
+import { FillPattern } from '@/src/lib/core/subclass/FillPattern'
+import { RegularPolygon } from '@/src/lib/core/subclass/RegularPolygon'
+import { Star } from '@/src/lib/core/subclass/Star'
 import { loadFont } from '@/src/lib/font-loader'
+import { useActiveBrandKit } from '@/src/lib/hooks/useActiveBrandKit'
 import { useActiveDesign } from '@/src/lib/hooks/useActiveDesign'
 import { useDesignStore } from '@/src/lib/stores/design-store'
 import { cn } from '@/src/lib/utils'
 import * as fabric from 'fabric'
+import type { PatternRepeat } from 'fabric'
 import {
   AlignCenter,
   AlignLeft,
@@ -22,71 +69,44 @@ import {
   ChevronRight,
   Eraser,
   Italic,
-  Palette,
   Plus,
-  RotateCcw,
   Settings,
+  Trash2,
   Underline
 } from 'lucide-react'
-import { useEffect, useState } from 'react'
+import { Fragment, useEffect, useState } from 'react'
 import { HexColorPicker } from 'react-colorful'
+import { BrandSwatches } from './BrandSwatches'
 import { FontManager } from './FontManager'
+import { ImageAdjustmentsSection } from './ImageAdjustmentsSection'
+import { ImagePaletteSection } from './ImagePaletteSection'
+import { StylesSection } from './StylesSection'
+
+/**
+ * Parameters of a selected polygon, star or arrow
+ */
+const getShapeParameters = (object: fabric.Object | null): Partial<ShapeSettings> => {
+  if (object instanceof RegularPolygon) return { sides: object.sides }
+  if (object instanceof Star) return { numPoints: object.numPoints, innerRadius: object.innerRadius }
+  if (object instanceof Arrow) return { startHead: object.startHead, endHead: object.endHead, headSize: object.headSize }
+  return {}
+}
+
+// What an object can be filled with, in the order the fill type menu lists them
+const FILL_TYPE_LABELS: Record<FillType, string> = {
+  solid: 'Solid',
+  linear: 'Linear gradient',
+  radial: 'Radial gradient',
+  conic: 'Conic gradient',
+  image: 'Image',
+  pattern: 'Pattern'
+}
 
 interface PropertiesPanelProps {
   className?: string
   onCollapse?: () => void
 }
 
-// Image filter presets
-const filterPresets = [
-  { name: 'None', filters: [] },
-  { name: 'Grayscale', filters: [{ type: 'Grayscale' }] },
-  { name: 'Sepia', filters: [{ type: 'Sepia' }] },
-  {
-    name: 'Vintage', filters: [
-      { type: 'Sepia' },
-      { type: 'Brightness', brightness: -0.1 },
-      { type: 'Contrast', contrast: 0.1 }
-    ]
-  },
-  {
-    name: 'Black & White', filters: [
-      { type: 'Grayscale' },
-      { type: 'Contrast', contrast: 0.2 }
-    ]
-  },
-  {
-    name: 'Bright', filters: [
-      { type: 'Brightness', brightness: 0.2 },
-      { type: 'Saturation', saturation: 0.1 }
-    ]
-  },
-  {
-    name: 'Cool', filters: [
-      { type: 'HueRotation', rotation: 0.1 },
-      { type: 'Saturation', saturation: 0.15 }
-    ]
-  },
-  {
-    name: 'Warm', filters: [
-      { type: 'HueRotation', rotation: -0.1 },
-      { type: 'Brightness', brightness: 0.1 }
-    ]
-  },
-  {
-    name: 'High Contrast', filters: [
-      { type: 'Contrast', contrast: 0.3 }
-    ]
-  },
-  {
-    name: 'Soft', filters: [
-      { type: 'Blur', blur: 0.1 },
-      { type: 'Brightness', brightness: 0.1 }
-    ]
-  },
-  { name: 'Invert', filters: [{ type: 'Invert' }] }
-] as const
-
 const fontFamilies = [
   // Modern Sans-Serif (Most Popular for Design)
   'Inter',
@@ -189,11 +209,23 @@ export function PropertiesPanel({ className, onCollapse }: PropertiesPanelProps)
     setShadow,
     setBackgroundColor,
     selectedTool,
+    brushSettings,
+    setBrushSettings,
+    shapeSettings,
+    setShapeSettings,
   } = useDesignStore()
 
   const activeDesign = useActiveDesign()
+  const brandKit = useActiveBrandKit()
+  // An active brand kit with approved fonts limits text to those fonts
+  const brandFonts = brandKit && brandKit.fonts.length > 0 ? brandKit.fonts : null
   const [showFillPicker, setShowFillPicker] = useState(false)
   const [showStrokePicker, setShowStrokePicker] = useState(false)
+  // Object the custom dash field was opened for, while its dashes still match a preset
+  const [customDashObject, setCustomDashObject] = useState<fabric.Object | null>(null)
+  const [activeStopIndex, setActiveStopIndex] = useState<number | null>(null)
+  const [patternColorPicker, setPatternColorPicker] = useState<'color' | 'backgroundColor' | null>(null)
+  const [showBrushColorPicker, setShowBrushColorPicker] = useState(false)
   const [activeObject, setActiveObject] = useState<fabric.Object | null>(null)
   const [isFontManagerOpen, setFontManagerOpen] = useState(false)
   const [customFonts, setCustomFonts] = useState<string[]>([])
@@ -206,150 +238,10 @@ export function PropertiesPanel({ className, onCollapse }: PropertiesPanelProps)
     loadCustomFonts()
   }, [isFontManagerOpen])
 
-  // Image filter states
-  const [imageFilters, setImageFilters] = useState({
-    brightness: 0,
-    contrast: 0,
-    saturation: 0,
-    hue: 0,
-    blur: 0,
-    noise: 0
-  })
-
-  // Apply filters to image
-  const applyFiltersToImage = (imageObj: fabric.Image, filters: readonly any[]) => {
-    const fabricFilters: any[] = []
-
-    filters.forEach(filterConfig => {
-      let filter: any = null
-
-      switch (filterConfig.type) {
-        case 'Brightness':
-          filter = new fabric.filters.Brightness({
-            brightness: filterConfig.brightness || 0
-          })
-          break
-        case 'Contrast':
-          filter = new fabric.filters.Contrast({
-            contrast: filterConfig.contrast || 0
-          })
-          break
-        case 'Saturation':
-          filter = new fabric.filters.Saturation({
-            saturation: filterConfig.saturation || 0
-          })
-          break
-        case 'HueRotation':
-          filter = new fabric.filters.HueRotation({
-            rotation: filterConfig.rotation || 0
-          })
-          break
-        case 'Blur':
-          filter = new fabric.filters.Blur({
-            blur: filterConfig.blur || 0
-          })
-          break
-        case 'Noise':
-          filter = new fabric.filters.Noise({
-            noise: filterConfig.noise || 0
-          })
-          break
-        case 'Grayscale':
-          filter = new fabric.filters.Grayscale()
-          break
-        case 'Sepia':
-          filter = new fabric.filters.Sepia()
-          break
-        case 'Invert':
-          filter = new fabric.filters.Invert()
-          break
-      }
-
-      if (filter) {
-        fabricFilters.push(filter)
-      }
-    })
-
-    imageObj.filters = fabricFilters
-    imageObj.applyFilters()
-    activeDesign?.canvas?.requestRenderAll()
-  }
-
-  // Apply preset filter
-  const applyPresetFilter = (preset: (typeof filterPresets)[number]) => {
-    if (activeObject && activeObject.type === 'image') {
-      const imageObj = activeObject as fabric.Image
-      applyFiltersToImage(imageObj, preset.filters)
-
-      // Reset individual filter states when applying preset
-      setImageFilters({
-        brightness: 0,
-        contrast: 0,
-        saturation: 0,
-        hue: 0,
-        blur: 0,
-        noise: 0
-      })
-    }
-  }
-
-  // Apply individual filter
-  const applyIndividualFilter = (filterType: string, value: number) => {
-    if (activeObject && activeObject.type === 'image') {
-      const imageObj = activeObject as fabric.Image
-
-      // Update the specific filter value
-      const newFilters = { ...imageFilters, [filterType]: value }
-      setImageFilters(newFilters)
-
-      // Build filter array from current individual values
-      const filters = []
-      if (newFilters.brightness !== 0) {
-        filters.push({ type: 'Brightness', brightness: newFilters.brightness })
-      }
-      if (newFilters.contrast !== 0) {
-        filters.push({ type: 'Contrast', contrast: newFilters.contrast })
-      }
-      if (newFilters.saturation !== 0) {
-        filters.push({ type: 'Saturation', saturation: newFilters.saturation })
-      }
-      if (newFilters.hue !== 0) {
-        filters.push({ type: 'HueRotation', rotation: newFilters.hue })
-      }
-      if (newFilters.blur !== 0) {
-        filters.push({ type: 'Blur', blur: newFilters.blur })
-      }
-      if (newFilters.noise !== 0) {
-        filters.push({ type: 'Noise', noise: newFilters.noise })
-      }
-
-      applyFiltersToImage(imageObj, filters)
-    }
-  }
-
-  // Reset all filters
-  const resetAllFilters = () => {
-    if (activeObject && activeObject.type === 'image') {
-      const imageObj = activeObject as fabric.Image
-      imageObj.filters = []
-      imageObj.applyFilters()
-      activeDesign?.canvas?.requestRenderAll()
-
-      setImageFilters({
-        brightness: 0,
-        contrast: 0,
-        saturation: 0,
-        hue: 0,
-        blur: 0,
-        noise: 0
-      })
-    }
-  }
-
   useEffect(() => {
     const updateStoreWithActiveObject = (obj: fabric.Object | null) => {
       if (obj) {
-        setFillColor(obj.fill as string || globalFillColor)
+        setFillColor(typeof obj.fill === 'string' && obj.fill ? obj.fill : globalFillColor)
         setStrokeColor(obj.stroke as string || globalStrokeColor)
         setStrokeWidth(obj.strokeWidth ?? globalStrokeWidth)
         setOpacity(obj.opacity ?? globalOpacity)
@@ -475,19 +367,12 @@ export function PropertiesPanel({ className, onCollapse }: PropertiesPanelProps)
   const isBaseLayerSelected = !isObjectSelected && activeDesign
 
   const effectiveFillColor = isObjectSelected
-    ? (activeObject?.fill as string) || globalFillColor
+    ? (typeof activeObject?.fill === 'string' && activeObject.fill) || globalFillColor
     : (activeDesign?.baseLayerConfig.fill || globalFillColor)
 
-  const effectiveStrokeColor = isObjectSelected
-    ? (activeObject?.stroke as string) || globalStrokeColor
-    : (activeDesign?.baseLayerConfig.stroke || globalStrokeColor)
-
-  const effectiveStrokeWidth = isObjectSelected
-    ? activeObject?.strokeWidth ?? globalStrokeWidth
-    : activeDesign?.baseLayerConfig.strokeWidth ?? globalStrokeWidth
-
+  // A multi-selection shows the first selected object's opacity
   const effectiveOpacity = isObjectSelected
-    ? activeObject?.opacity ?? globalOpacity
+    ? activeDesign?.getSelectedOpacity() ?? activeObject?.opacity ?? globalOpacity
     : activeDesign?.baseLayerConfig.opacity ?? globalOpacity
 
   let effectiveFontSize = globalFontSize
@@ -517,6 +402,110 @@ export function PropertiesPanel({ className, onCollapse }: PropertiesPanelProps)
     effectiveShadow = textObject.shadow || globalShadow
   }
 
+  // Shape parameters edit the selected shape, and become the defaults for new ones
+  const shapeKind = activeObject instanceof RegularPolygon || (!activeObject && selectedTool === 'polygon') ? 'polygon'
+    : activeObject instanceof Star || (!activeObject && selectedTool === 'star') ? 'star'
+      : activeObject instanceof Arrow || (!activeObject && selectedTool === 'arrow') ? 'arrow'
+        : null
+  const shapeParameters: ShapeSettings = { ...shapeSettings, ...getShapeParameters(activeObject) }
+
+  const handleShapeChange = (params: Partial<ShapeSettings>) => {
+    setShapeSettings(params)
+    activeDesign?.updateShapeParameters(params)
+  }
+
+  // Gradient, image or pattern fill of the selected object
+  const fillTarget = activeObject ? activeDesign?.getFillTarget() : null
+  const fillType = activeObject ? activeDesign?.getFillType() ?? null : null
+  const targetFill = fillTarget?.fill
+  const fillGradient = isGradient(targetFill) ? targetFill : null
+  const gradientStops = fillGradient ? getGradientStops(fillGradient) : []
+  const gradientAngle = fillGradient ? getGradientAngle(fillGradient) : 0
+  const fillPattern = isPattern(targetFill) ? targetFill : null
+  const patternPlacement = fillPattern ? getPatternPlacement(fillPattern) : null
+  const patternGenerator = fillPattern instanceof FillPattern ? fillPattern.generator : undefined
+
+  const selectedBlendMode = isObjectSelected ? activeDesign?.getSelectedBlendMode() : null
+
+  // Stroke style of the selected object
+  const strokeTarget = activeObject ? activeDesign?.getStrokeTarget() : null
+  const strokeOptions = strokeTarget ? getStrokeOptions(strokeTarget) : null
+  const strokeColor = typeof strokeTarget?.stroke === 'string' ? strokeTarget.stroke : null
+  const hasStroke = !!strokeOptions && strokeOptions.width > 0 && !!strokeColor && strokeColor !== 'transparent'
+  const dashPreset = strokeOptions ? getDashPreset(strokeOptions.dashArray, strokeOptions.width) : 'solid'
+  const showCustomDash = dashPreset === 'custom' || (!!activeObject && customDashObject === activeObject)
+
+  const handleToggleStroke = () => {
+    if (hasStroke) {
+      activeDesign?.setStrokeOptions({ width: 0 })
+    } else {
+      handlePropertyChange({ stroke: globalStrokeColor !== 'transparent' ? globalStrokeColor : '#000000' })
+      activeDesign?.setStrokeOptions({ width: Math.max(1, globalStrokeWidth) })
+    }
+  }
+
+  const handleDashPresetChange = (value: string) => {
+    if (value === 'custom') {
+      setCustomDashObject(activeObject)
+      return
+    }
+    setCustomDashObject(null)
+    activeDesign?.setStrokeOptions({ dashArray: createDashArray(value as DashPreset, strokeOptions?.width ?? 1) })
+  }
+
+  const handleCustomDashChange = (text: string) => {
+    const dashArray = parseDashArray(text)
+    if (dashArray) activeDesign?.setStrokeOptions({ dashArray })
+  }
+
+  const handleFillTypeChange = (value: string) => {
+    if (value === 'solid') {
+      activeDesign?.setSolidFill()
+    } else if (value === 'image') {
+      activeDesign?.chooseImagePatternFill()
+    } else if (value === 'pattern') {
+      activeDesign?.setProceduralPatternFill()
+    } else {
+      activeDesign?.setGradientFill(value as GradientKind)
+    }
+  }
+
+  const handleStopChange = (index: number, changes: Partial<GradientStop>) => {
+    activeDesign?.updateGradientFill({
+      stops: gradientStops.map((stop, i) => i === index ? { ...stop, ...changes } : stop)
+    })
+  }
+
+  const handleAddStop = () => {
+    // New stops go in the middle of the widest gap, in the color the gradient already has there
+    let offset = 0.5
+    let widest = 0
+    gradientStops.slice(1).forEach((stop, i) => {
+      const gap = stop.offset - gradientStops[i].offset
+      if (gap > widest) {
+        widest = gap
+        offset = gradientStops[i].offset + gap / 2
+      }
+    })
+    activeDesign?.updateGradientFill({
+      stops: [...gradientStops, { offset, ...interpolateStops(gradientStops, offset) }]
+    })
+  }
+
+  const handleRemoveStop = (index: number) => {
+    setActiveStopIndex(null)
+    activeDesign?.updateGradientFill({ stops: gradientStops.filter((_, i) => i !== index) })
+  }
+
+  const handleOpacityChange = (opacity: number) => {
+    if (isObjectSelected) {
+      activeDesign?.setObjectOpacity(opacity)
+      setOpacity(opacity)
+    } else {
+      handlePropertyChange({ opacity })
+    }
+  }
+
   const handlePropertyChange = async (properties: any) => {
     if (properties.fontFamily) {
       const allFonts = await getAllFontsFromCache()
@@ -530,6 +519,8 @@ export function PropertiesPanel({ className, onCollapse }: PropertiesPanelProps)
       // Update the selected object directly
       activeObject.set(properties)
       activeDesign?.canvas?.requestRenderAll()
+      // Slider drags arrive as many small changes; coalesce them into one step
+      activeDesign?.saveState({ coalesce: true })
     } else if (isBaseLayerSelected) {
       activeDesign.updateBaseLayer(properties)
     }
@@ -584,95 +575,1016 @@ export function PropertiesPanel({ className, onCollapse }: PropertiesPanelProps)
     )
   }
 
-  return (
-    <Card className={cn('min-w-80 w-full border-none shadow-none h-full', className)}>
-      <CardHeader>
-        <CardTitle className="text-lg flex items-center justify-between">
-          <div className="flex flex-col">
-            <span>Properties</span>
-            <div className="text-xs text-gray-500 font-normal">
-              Canvas: {activeDesign.name}
-              {isObjectSelected && activeObject ? (
-                <span className="ml-2 text-blue-600">
-                  • {activeObject?.type || 'Object'} selected
-                </span>
-              ) : (
-                <span className="ml-2 text-blue-600">• Canvas Properties</span>
-              )}
+  return (
+    <Card className={cn('min-w-80 w-full border-none shadow-none h-full', className)}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between">
+          <div className="flex flex-col">
+            <span>Properties</span>
+            <div className="text-xs text-gray-500 font-normal">
+              Canvas: {activeDesign.name}
+              {isObjectSelected && activeObject ? (
+                <span className="ml-2 text-blue-600">
+                  • {activeObject?.type || 'Object'} selected
+                </span>
+              ) : (
+                <span className="ml-2 text-blue-600">• Canvas Properties</span>
+              )}
+            </div>
+          </div>
+          {onCollapse && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onCollapse}
+              className="h-6 w-6 p-0"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 h-full overflow-y-auto">
+        {/* Basic Properties Section */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-900">Appearance</h3>
+          </div>
+
+          {fillTarget && (
+            <div className="space-y-2">
+              <Label className="text-xs font-medium text-gray-600">Fill type</Label>
+              <Select value={fillType ?? 'solid'} onValueChange={handleFillTypeChange}>
+                <SelectTrigger className="w-full h-9 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FILL_TYPE_LABELS) as FillType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {FILL_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            {/* Fill Color */}
+            <div className="space-y-2">
+              <Label htmlFor="fill-color" className="text-xs font-medium text-gray-600">Fill</Label>
+              <div className="flex items-center gap-2">
+                <div
+                  className="w-8 h-8 shrink-0 rounded border-2 border-gray-200 cursor-pointer shadow-sm hover:border-gray-300 transition-colors"
+                  style={
+                    fillGradient ? { background: gradientToCss(fillGradient) }
+                      : fillPattern ? { background: patternToCss(fillPattern), backgroundSize: 'contain' }
+                        : { backgroundColor: effectiveFillColor }
+                  }
+                  onClick={() => !fillGradient && !fillPattern && setShowFillPicker(!showFillPicker)}
+                />
+                <Input
+                  id="fill-color"
+                  value={fillType && fillType !== 'solid' ? FILL_TYPE_LABELS[fillType] : effectiveFillColor}
+                  readOnly={!!fillType && fillType !== 'solid'}
+                  onChange={(e) => handlePropertyChange({ fill: e.target.value })}
+                  className="font-mono text-xs h-8"
+                />
+              </div>
+              {showFillPicker && !fillGradient && !fillPattern && (
+                <div className="absolute z-10 mt-2">
+                  <div
+                    className="fixed inset-0"
+                    onClick={() => setShowFillPicker(false)}
+                  />
+                  <HexColorPicker
+                    color={effectiveFillColor}
+                    onChange={(color) => handlePropertyChange({ fill: color })}
+                  />
+                  <BrandSwatches onSelect={(color) => handlePropertyChange({ fill: color })} />
+                </div>
+              )}
+            </div>
+
+            {/* Opacity */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="opacity" className="text-xs font-medium text-gray-600">Opacity</Label>
+                <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                  {Math.round(effectiveOpacity * 100)}%
+                </span>
+              </div>
+              <Slider
+                id="opacity"
+                min={0}
+                max={100}
+                step={1}
+                value={[effectiveOpacity * 100]}
+                onValueChange={(val) => handleOpacityChange(val[0] / 100)}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          {selectedBlendMode && (
+            <div className="space-y-2">
+              <Label className="text-xs font-medium text-gray-600">Blend mode</Label>
+              <Select value={selectedBlendMode} onValueChange={(value) => activeDesign?.setBlendMode(value as BlendMode)}>
+                <SelectTrigger className="w-full h-9 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BLEND_MODE_GROUPS.map((modes, index) => (
+                    <Fragment key={modes[0]}>
+                      {index > 0 && <SelectSeparator />}
+                      {modes.map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {BLEND_MODE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                    </Fragment>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <Separator className="my-4" />
+
+        {/* Styles Section */}
+        {(isObjectSelected || activeDesign.styles.length > 0) && (
+          <>
+            <StylesSection design={activeDesign} activeObject={activeObject} />
+            <Separator className="my-4" />
+          </>
+        )}
+
+        {/* Image Palette Section */}
+        <ImagePaletteSection design={activeDesign} activeObject={activeObject} />
+
+        {/* Gradient Section */}
+        {fillGradient && fillType && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-900">Gradient</h3>
+              <Button
+                variant={activeDesign.gradientEditor?.isEditing ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => activeDesign.gradientEditor?.isEditing ? activeDesign.exitGradientEditing() : activeDesign.editGradient()}
+                className="h-7 text-xs"
+              >
+                {activeDesign.gradientEditor?.isEditing ? 'Done' : 'Edit on canvas'}
+              </Button>
+            </div>
+
+            <div
+              className="h-4 rounded border border-gray-200"
+              style={{ background: `linear-gradient(90deg, ${stopsToCss(gradientStops)})` }}
+            />
+
+            {fillType !== 'radial' && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="gradient-angle" className="text-xs font-medium text-gray-600">
+                    {fillType === 'conic' ? 'Start angle' : 'Angle'}
+                  </Label>
+                  <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">{gradientAngle}°</span>
+                </div>
+                <Slider
+                  id="gradient-angle"
+                  min={0}
+                  max={359}
+                  step={1}
+                  value={[gradientAngle]}
+                  onValueChange={(val) => activeDesign.updateGradientFill({ angle: val[0] })}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-medium text-gray-600">Stops</Label>
+                <Button variant="outline" size="sm" onClick={handleAddStop} className="h-7 text-xs">
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add stop
+                </Button>
+              </div>
+              <div className="grid grid-cols-[2rem_1fr_1fr_2rem] gap-2 text-xs text-gray-500">
+                <span />
+                <span>Position %</span>
+                <span>Opacity %</span>
+                <span />
+              </div>
+              {gradientStops.map((stop, index) => (
+                <div key={index}>
+                  <div className="grid grid-cols-[2rem_1fr_1fr_2rem] items-center gap-2">
+                    <div
+                      className="w-8 h-8 rounded border-2 border-gray-200 cursor-pointer shadow-sm hover:border-gray-300 transition-colors"
+                      style={{ backgroundColor: stopToCss(stop) }}
+                      onClick={() => setActiveStopIndex(activeStopIndex === index ? null : index)}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={Math.round(stop.offset * 100)}
+                      onChange={(e) => handleStopChange(index, { offset: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) / 100 })}
+                      className="text-xs h-8"
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={Math.round(stop.opacity * 100)}
+                      onChange={(e) => handleStopChange(index, { opacity: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) / 100 })}
+                      className="text-xs h-8"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={gradientStops.length <= 2}
+                      onClick={() => handleRemoveStop(index)}
+                      className="p-2 h-8"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  {activeStopIndex === index && (
+                    <div className="absolute z-10 mt-2">
+                      <div
+                        className="fixed inset-0"
+                        onClick={() => setActiveStopIndex(null)}
+                      />
+                      <HexColorPicker
+                        color={stop.color}
+                        onChange={(color) => handleStopChange(index, { color })}
+                      />
+                      <BrandSwatches onSelect={(color) => handleStopChange(index, { color })} />
+                    </div>
+                  )}
+                </div>
+              ))}
+              {activeDesign.gradientEditor?.isEditing && (
+                <p className="text-xs text-gray-500">
+                  Drag the handles on the canvas to move the gradient.
+                </p>
+              )}
+            </div>
+
+            <Separator className="my-4" />
+          </div>
+        )}
+
+        {/* Pattern Section */}
+        {fillPattern && patternPlacement && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-900">{patternGenerator ? 'Pattern' : 'Image fill'}</h3>
+              {!patternGenerator && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => activeDesign.chooseImagePatternFill()}
+                  className="h-7 text-xs"
+                >
+                  Replace image
+                </Button>
+              )}
+            </div>
+
+            {patternGenerator && (
+              <>
+                <div className="space-y-2">
+                  <Label className="text-xs font-medium text-gray-600">Type</Label>
+                  <Select
+                    value={patternGenerator.kind}
+                    onValueChange={(value) => activeDesign.setProceduralPatternFill({ kind: value as PatternKind })}
+                  >
+                    <SelectTrigger className="w-full h-9 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PATTERN_KINDS.map((kind) => (
+                        <SelectItem key={kind} value={kind}>
+                          {PATTERN_KIND_LABELS[kind]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label className="text-xs font-medium text-gray-600">Color</Label>
+                    <div
+                      className="w-8 h-8 rounded border-2 border-gray-200 cursor-pointer shadow-sm hover:border-gray-300 transition-colors"
+                      style={{ backgroundColor: patternGenerator.color }}
+                      onClick={() => setPatternColorPicker(patternColorPicker === 'color' ? null : 'color')}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-xs font-medium text-gray-600">Background</Label>
+                      <Switch
+                        checked={patternGenerator.backgroundColor !== 'transparent'}
+                        onCheckedChange={(checked) => activeDesign.setProceduralPatternFill({ backgroundColor: checked ? '#ffffff' : 'transparent' })}
+                      />
+                    </div>
+                    {patternGenerator.backgroundColor !== 'transparent' && (
+                      <div
+                        className="w-8 h-8 rounded border-2 border-gray-200 cursor-pointer shadow-sm hover:border-gray-300 transition-colors"
+                        style={{ backgroundColor: patternGenerator.backgroundColor }}
+                        onClick={() => setPatternColorPicker(patternColorPicker === 'backgroundColor' ? null : 'backgroundColor')}
+                      />
+                    )}
+                  </div>
+                </div>
+                {patternColorPicker && (
+                  <div className="absolute z-10">
+                    <div
+                      className="fixed inset-0"
+                      onClick={() => setPatternColorPicker(null)}
+                    />
+                    <HexColorPicker
+                      color={patternGenerator[patternColorPicker] === 'transparent' ? '#ffffff' : patternGenerator[patternColorPicker]}
+                      onChange={(color) => activeDesign.setProceduralPatternFill({ [patternColorPicker]: color })}
+                    />
+                    <BrandSwatches onSelect={(color) => activeDesign.setProceduralPatternFill({ [patternColorPicker]: color })} />
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="pattern-size" className="text-xs font-medium text-gray-600">Tile size</Label>
+                    <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">{patternGenerator.size}px</span>
+                  </div>
+                  <Slider
+                    id="pattern-size"
+                    min={4}
+                    max={128}
+                    step={1}
+                    value={[patternGenerator.size]}
+                    onValueChange={(val) => activeDesign.setProceduralPatternFill({ size: val[0] })}
+                    className="w-full"
+                  />
+                </div>
+              </>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="pattern-scale" className="text-xs font-medium text-gray-600">Scale</Label>
+                <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">{Math.round(patternPlacement.scale * 100)}%</span>
+              </div>
+              <Slider
+                id="pattern-scale"
+                min={5}
+                max={400}
+                step={1}
+                value={[patternPlacement.scale * 100]}
+                onValueChange={(val) => activeDesign.updatePatternFill({ scale: val[0] / 100 })}
+                className="w-full"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="pattern-rotation" className="text-xs font-medium text-gray-600">Rotation</Label>
+                <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">{patternPlacement.rotation}°</span>
+              </div>
+              <Slider
+                id="pattern-rotation"
+                min={0}
+                max={359}
+                step={1}
+                value={[patternPlacement.rotation]}
+                onValueChange={(val) => activeDesign.updatePatternFill({ rotation: val[0] })}
+                className="w-full"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="pattern-offset-x" className="text-xs font-medium text-gray-600">Offset X</Label>
+                <Input
+                  id="pattern-offset-x"
+                  type="number"
+                  value={Math.round(patternPlacement.offsetX)}
+                  onChange={(e) => activeDesign.updatePatternFill({ offsetX: parseInt(e.target.value) || 0 })}
+                  className="text-xs h-8"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pattern-offset-y" className="text-xs font-medium text-gray-600">Offset Y</Label>
+                <Input
+                  id="pattern-offset-y"
+                  type="number"
+                  value={Math.round(patternPlacement.offsetY)}
+                  onChange={(e) => activeDesign.updatePatternFill({ offsetY: parseInt(e.target.value) || 0 })}
+                  className="text-xs h-8"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs font-medium text-gray-600">Repeat</Label>
+              <Select
+                value={patternPlacement.repeat}
+                onValueChange={(value) => activeDesign.updatePatternFill({ repeat: value as PatternRepeat })}
+              >
+                <SelectTrigger className="w-full h-9 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PATTERN_REPEAT_LABELS) as PatternRepeat[]).map((repeat) => (
+                    <SelectItem key={repeat} value={repeat}>
+                      {PATTERN_REPEAT_LABELS[repeat]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Separator className="my-4" />
+          </div>
+        )}
+
+        {/* Stroke Section */}
+        {strokeTarget && strokeOptions && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-900">Stroke</h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={handleToggleStroke}
+              >
+                {hasStroke ? <Eraser className="h-3 w-3" /> : <Plus className="h-3 w-3" />}
+              </Button>
+            </div>
+
+            {hasStroke && strokeColor && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="stroke-color" className="text-xs font-medium text-gray-600">Color</Label>
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="w-8 h-8 shrink-0 rounded border-2 border-gray-200 cursor-pointer shadow-sm hover:border-gray-300 transition-colors"
+                        style={{ backgroundColor: strokeColor }}
+                        onClick={() => setShowStrokePicker(!showStrokePicker)}
+                      />
+                      <Input
+                        id="stroke-color"
+                        value={strokeColor}
+                        onChange={(e) => handlePropertyChange({ stroke: e.target.value })}
+                        className="font-mono text-xs h-8"
+                      />
+                    </div>
+                    {showStrokePicker && (
+                      <div className="absolute z-10 mt-2">
+                        <div
+                          className="fixed inset-0"
+                          onClick={() => setShowStrokePicker(false)}
+                        />
+                        <HexColorPicker
+                          color={strokeColor}
+                          onChange={(color) => handlePropertyChange({ stroke: color })}
+                        />
+                        <BrandSwatches onSelect={(color) => handlePropertyChange({ stroke: color })} />
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="stroke-width" className="text-xs font-medium text-gray-600">Width</Label>
+                      <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                        {strokeOptions.width}px
+                      </span>
+                    </div>
+                    <Slider
+                      id="stroke-width"
+                      min={1}
+                      max={50}
+                      step={1}
+                      value={[strokeOptions.width]}
+                      onValueChange={(val) => {
+                        activeDesign?.setStrokeOptions({ width: val[0] })
+                        setStrokeWidth(val[0])
+                      }}
+                      className="w-full"
+                    />
+                  </div>
+                </div>
+
+                {supportsStrokeAlignment(strokeTarget) && (
+                  <div className="space-y-2">
+                    <Label className="text-xs font-medium text-gray-600">Position</Label>
+                    <div className="flex items-center space-x-1">
+                      {STROKE_ALIGNMENTS.map((alignment) => (
+                        <Button
+                          key={alignment}
+                          variant={strokeOptions.alignment === alignment ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => activeDesign?.setStrokeOptions({ alignment })}
+                          className="flex-1 h-8 text-xs"
+                        >
+                          {STROKE_ALIGNMENT_LABELS[alignment]}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label className="text-xs font-medium text-gray-600">Dashes</Label>
+                  <Select value={showCustomDash ? 'custom' : dashPreset} onValueChange={handleDashPresetChange}>
+                    <SelectTrigger className="w-full h-9 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DASH_PRESET_LABELS) as (DashPreset | 'custom')[]).map((preset) => (
+                        <SelectItem key={preset} value={preset}>
+                          {DASH_PRESET_LABELS[preset]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {showCustomDash && (
+                    <Input
+                      // Remounted when the dashes change elsewhere, e.g. on undo
+                      key={formatDashArray(strokeOptions.dashArray)}
+                      defaultValue={formatDashArray(strokeOptions.dashArray)}
+                      placeholder="Dash and gap lengths, e.g. 8 4"
+                      onBlur={(e) => handleCustomDashChange(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      className="font-mono text-xs h-8"
+                    />
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label className="text-xs font-medium text-gray-600">Caps</Label>
+                    <Select
+                      value={strokeOptions.lineCap}
+                      onValueChange={(value) => activeDesign?.setStrokeOptions({ lineCap: value as CanvasLineCap })}
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(LINE_CAP_LABELS) as CanvasLineCap[]).map((cap) => (
+                          <SelectItem key={cap} value={cap}>
+                            {LINE_CAP_LABELS[cap]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-xs font-medium text-gray-600">Corners</Label>
+                    <Select
+                      value={strokeOptions.lineJoin}
+                      onValueChange={(value) => activeDesign?.setStrokeOptions({ lineJoin: value as CanvasLineJoin })}
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(LINE_JOIN_LABELS) as CanvasLineJoin[]).map((join) => (
+                          <SelectItem key={join} value={join}>
+                            {LINE_JOIN_LABELS[join]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {strokeOptions.lineJoin === 'miter' && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="stroke-miter-limit" className="text-xs font-medium text-gray-600">Miter limit</Label>
+                      <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                        {strokeOptions.miterLimit}
+                      </span>
+                    </div>
+                    <Slider
+                      id="stroke-miter-limit"
+                      min={1}
+                      max={20}
+                      step={0.5}
+                      value={[strokeOptions.miterLimit]}
+                      onValueChange={(val) => activeDesign?.setStrokeOptions({ miterLimit: val[0] })}
+                      className="w-full"
+                    />
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="stroke-uniform" className="text-xs font-medium text-gray-600">Keep width when resizing</Label>
+                  <Switch
+                    id="stroke-uniform"
+                    checked={strokeOptions.uniform}
+                    onCheckedChange={(uniform) => activeDesign?.setStrokeOptions({ uniform })}
+                  />
+                </div>
+
+                {strokeTarget instanceof fabric.Line && !(strokeTarget instanceof Arrow) && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {(['startHead', 'endHead'] as const).map((end) => (
+                      <div key={end} className="space-y-2">
+                        <Label className="text-xs font-medium text-gray-600">{end === 'startHead' ? 'Start' : 'End'}</Label>
+                        <Select value="none" onValueChange={(value) => activeDesign?.setArrowHeads({ [end]: value as ArrowHead })}>
+                          <SelectTrigger className="w-full h-9 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(ARROW_HEAD_LABELS) as ArrowHead[]).map((head) => (
+                              <SelectItem key={head} value={head}>
+                                {ARROW_HEAD_LABELS[head]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+
+            <Separator className="my-4" />
+          </div>
+        )}
+
+        {/* Brush Section */}
+        {selectedTool === 'pen' && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-900">Brush</h3>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs font-medium text-gray-600">Type</Label>
+              <Select
+                value={brushSettings.type}
+                onValueChange={(value) => setBrushSettings({ type: value as BrushType })}
+              >
+                <SelectTrigger className="w-full h-9 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BRUSH_LABELS) as BrushType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {BRUSH_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="brush-color" className="text-xs font-medium text-gray-600">Color</Label>
+              <div className="flex items-center gap-2">
+                <div
+                  className="w-8 h-8 rounded border-2 border-gray-200 cursor-pointer shadow-sm hover:border-gray-300 transition-colors"
+                  style={{ backgroundColor: brushSettings.color }}
+                  onClick={() => setShowBrushColorPicker(!showBrushColorPicker)}
+                />
+                <Input
+                  id="brush-color"
+                  value={brushSettings.color}
+                  onChange={(e) => setBrushSettings({ color: e.target.value })}
+                  className="font-mono text-xs h-8"
+                />
+              </div>
+              {showBrushColorPicker && (
+                <div className="absolute z-10 mt-2">
+                  <div
+                    className="fixed inset-0"
+                    onClick={() => setShowBrushColorPicker(false)}
+                  />
+                  <HexColorPicker
+                    color={brushSettings.color}
+                    onChange={(color) => setBrushSettings({ color })}
+                  />
+                  <BrandSwatches onSelect={(color) => setBrushSettings({ color })} />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="brush-size" className="text-xs font-medium text-gray-600">Size</Label>
+                <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                  {brushSettings.size}px
+                </span>
+              </div>
+              <Slider
+                id="brush-size"
+                min={1}
+                max={brushSettings.type === 'spray' ? 200 : 100}
+                step={1}
+                value={[brushSettings.size]}
+                onValueChange={(val) => setBrushSettings({ size: val[0] })}
+                className="w-full"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="brush-opacity" className="text-xs font-medium text-gray-600">Opacity</Label>
+                <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                  {Math.round(brushSettings.opacity * 100)}%
+                </span>
+              </div>
+              <Slider
+                id="brush-opacity"
+                min={0}
+                max={100}
+                step={1}
+                value={[brushSettings.opacity * 100]}
+                onValueChange={(val) => setBrushSettings({ opacity: val[0] / 100 })}
+                className="w-full"
+              />
+            </div>
+
+            {brushSettings.type !== 'spray' && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="brush-smoothing" className="text-xs font-medium text-gray-600">Smoothing</Label>
+                  <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                    {Math.round(brushSettings.smoothing * 100)}%
+                  </span>
+                </div>
+                <Slider
+                  id="brush-smoothing"
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={[brushSettings.smoothing * 100]}
+                  onValueChange={(val) => setBrushSettings({ smoothing: val[0] / 100 })}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            {brushSettings.type !== 'marker' && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="brush-pressure" className="text-xs font-medium text-gray-600">
+                  Pen pressure
+                </Label>
+                <Switch
+                  id="brush-pressure"
+                  checked={brushSettings.pressure}
+                  onCheckedChange={(pressure) => setBrushSettings({ pressure })}
+                />
+              </div>
+            )}
+
+            <Separator className="my-4" />
+          </div>
+        )}
+
+        {/* Shape Section */}
+        {shapeKind && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-900">Shape</h3>
+            </div>
+
+            {shapeKind === 'polygon' && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="shape-sides" className="text-xs font-medium text-gray-600">Sides</Label>
+                  <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                    {shapeParameters.sides}
+                  </span>
+                </div>
+                <Slider
+                  id="shape-sides"
+                  min={3}
+                  max={12}
+                  step={1}
+                  value={[shapeParameters.sides]}
+                  onValueChange={(val) => handleShapeChange({ sides: val[0] })}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            {shapeKind === 'star' && (
+              <>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="shape-points" className="text-xs font-medium text-gray-600">Points</Label>
+                    <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                      {shapeParameters.numPoints}
+                    </span>
+                  </div>
+                  <Slider
+                    id="shape-points"
+                    min={3}
+                    max={20}
+                    step={1}
+                    value={[shapeParameters.numPoints]}
+                    onValueChange={(val) => handleShapeChange({ numPoints: val[0] })}
+                    className="w-full"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="shape-inner-radius" className="text-xs font-medium text-gray-600">Inner radius</Label>
+                    <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                      {Math.round(shapeParameters.innerRadius * 100)}%
+                    </span>
+                  </div>
+                  <Slider
+                    id="shape-inner-radius"
+                    min={10}
+                    max={95}
+                    step={1}
+                    value={[shapeParameters.innerRadius * 100]}
+                    onValueChange={(val) => handleShapeChange({ innerRadius: val[0] / 100 })}
+                    className="w-full"
+                  />
+                </div>
+              </>
+            )}
+
+            {shapeKind === 'arrow' && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label className="text-xs font-medium text-gray-600">Start</Label>
+                    <Select
+                      value={shapeParameters.startHead}
+                      onValueChange={(value) => handleShapeChange({ startHead: value as ArrowHead })}
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ARROW_HEAD_LABELS) as ArrowHead[]).map((head) => (
+                          <SelectItem key={head} value={head}>
+                            {ARROW_HEAD_LABELS[head]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-xs font-medium text-gray-600">End</Label>
+                    <Select
+                      value={shapeParameters.endHead}
+                      onValueChange={(value) => handleShapeChange({ endHead: value as ArrowHead })}
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ARROW_HEAD_LABELS) as ArrowHead[]).map((head) => (
+                          <SelectItem key={head} value={head}>
+                            {ARROW_HEAD_LABELS[head]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="shape-head-size" className="text-xs font-medium text-gray-600">Head size</Label>
+                    <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                      {shapeParameters.headSize}px
+                    </span>
+                  </div>
+                  <Slider
+                    id="shape-head-size"
+                    min={4}
+                    max={60}
+                    step={1}
+                    value={[shapeParameters.headSize]}
+                    onValueChange={(val) => handleShapeChange({ headSize: val[0] })}
+                    className="w-full"
+                  />
+                </div>
+              </>
+            )}
+
+            <Separator className="my-4" />
+          </div>
+        )}
+
+        {/* Compound Shape Section */}
+        {activeObject instanceof CompoundShape && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-900">Compound shape</h3>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs font-medium text-gray-600">Operation</Label>
+              <Select
+                value={activeObject.operation}
+                onValueChange={(value) => activeDesign?.setCompoundOperation(value as BooleanOperation)}
+              >
+                <SelectTrigger className="w-full h-9 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BOOLEAN_OPERATIONS.map((operation) => (
+                    <SelectItem key={operation} value={operation}>
+                      {BOOLEAN_OPERATION_LABELS[operation]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center space-x-1">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => activeObject.layerId && activeDesign?.ungroupLayer(activeObject.layerId)}
+                className="flex-1 h-8 text-xs"
+              >
+                Release shapes
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => activeDesign?.flattenCompoundShape()}
+                className="flex-1 h-8 text-xs"
+              >
+                Flatten to path
+              </Button>
             </div>
+
+            <Separator className="my-4" />
           </div>
-          {onCollapse && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={onCollapse}
-              className="h-6 w-6 p-0"
-            >
-              <ChevronRight className="h-4 w-4" />
-            </Button>
-          )}
-        </CardTitle>
-      </CardHeader>
-      <CardContent className="p-4 h-full overflow-y-auto">
-        {/* Basic Properties Section */}
-        <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <h3 className="text-sm font-semibold text-gray-900">Appearance</h3>
-          </div>
+        )}
 
-          <div className="grid grid-cols-2 gap-3">
-            {/* Fill Color */}
-            <div className="space-y-2">
-              <Label htmlFor="fill-color" className="text-xs font-medium text-gray-600">Fill</Label>
-              <div className="flex items-center gap-2">
-                <div
-                  className="w-8 h-8 rounded border-2 border-gray-200 cursor-pointer shadow-sm hover:border-gray-300 transition-colors"
-                  style={{ backgroundColor: effectiveFillColor }}
-                  onClick={() => setShowFillPicker(!showFillPicker)}
-                />
-                <Input
-                  id="fill-color"
-                  value={effectiveFillColor}
-                  onChange={(e) => handlePropertyChange({ fill: e.target.value })}
-                  className="font-mono text-xs h-8"
-                />
-              </div>
-              {showFillPicker && (
-                <div className="absolute z-10 mt-2">
-                  <div
-                    className="fixed inset-0"
-                    onClick={() => setShowFillPicker(false)}
-                  />
-                  <HexColorPicker
-                    color={effectiveFillColor}
-                    onChange={(color) => handlePropertyChange({ fill: color })}
-                  />
-                </div>
-              )}
+        {/* Path Nodes Section */}
+        {activeDesign?.nodeEditor?.isEditing && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-900">Path nodes</h3>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => activeDesign.exitNodeEditing()}
+                className="h-7 text-xs"
+              >
+                Done
+              </Button>
             </div>
 
-            {/* Opacity */}
             <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label htmlFor="opacity" className="text-xs font-medium text-gray-600">Opacity</Label>
-                <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
-                  {Math.round(effectiveOpacity * 100)}%
-                </span>
+              <Label className="text-xs font-medium text-gray-600">Selected node</Label>
+              <div className="flex items-center space-x-1">
+                <Button
+                  variant={activeDesign.nodeEditor.selectedNodeType === 'corner' ? 'default' : 'outline'}
+                  size="sm"
+                  disabled={!activeDesign.nodeEditor.selectedNode}
+                  onClick={() => activeDesign.setSelectedPathNodeType('corner')}
+                  className="flex-1 h-8 text-xs"
+                >
+                  Corner
+                </Button>
+                <Button
+                  variant={activeDesign.nodeEditor.selectedNodeType === 'smooth' ? 'default' : 'outline'}
+                  size="sm"
+                  disabled={!activeDesign.nodeEditor.selectedNode}
+                  onClick={() => activeDesign.setSelectedPathNodeType('smooth')}
+                  className="flex-1 h-8 text-xs"
+                >
+                  Smooth
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!activeDesign.nodeEditor.selectedNode}
+                  onClick={() => activeDesign.deleteSelectedPathNode()}
+                  className="p-2 h-8"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
               </div>
-              <Slider
-                id="opacity"
-                min={0}
-                max={100}
-                step={1}
-                value={[effectiveOpacity * 100]}
-                onValueChange={(val) => handlePropertyChange({ opacity: val[0] / 100 })}
-                className="w-full"
-              />
+              <p className="text-xs text-gray-500">
+                Double-click the path to add a node. Alt-click a node to toggle it, Alt-drag a handle to break it.
+              </p>
             </div>
-          </div>
-        </div>
 
-        <Separator className="my-4" />
+            <Separator className="my-4" />
+          </div>
+        )}
 
         {/* Typography Section */}
         {(selectedTool === 'text' || activeObject?.type === 'i-text') && (
@@ -693,19 +1605,42 @@ export function PropertiesPanel({ className, onCollapse }: PropertiesPanelProps)
                     <SelectValue placeholder="Select a font" />
                   </SelectTrigger>
                   <SelectContent>
-                    {fontFamilies.map((font) => (
-                      <SelectItem key={font} value={font}>
-                        <span style={{ fontFamily: font }}>{font}</span>
-                      </SelectItem>
-                    ))}
-                    {customFonts.map((font) => (
-                      <SelectItem key={font} value={font}>
-                        <div className="flex items-center justify-between w-full gap-2">
-                          <span style={{ fontFamily: font }} className="text-ellipsis">{font}</span>
-                          <Badge variant="default" className="text-xs">Custom</Badge>
-                        </div>
-                      </SelectItem>
-                    ))}
+                    {brandFonts ? (
+                      <>
+                        {!brandFonts.includes(effectiveFontFamily) && (
+                          <SelectItem value={effectiveFontFamily}>
+                            <div className="flex items-center justify-between w-full gap-2">
+                              <span style={{ fontFamily: effectiveFontFamily }} className="text-ellipsis">{effectiveFontFamily}</span>
+                              <Badge variant="outline" className="text-xs">Off-brand</Badge>
+                            </div>
+                          </SelectItem>
+                        )}
+                        {brandFonts.map((font) => (
+                          <SelectItem key={font} value={font}>
+                            <div className="flex items-center justify-between w-full gap-2">
+                              <span style={{ fontFamily: font }} className="text-ellipsis">{font}</span>
+                              <Badge variant="default" className="text-xs">Brand</Badge>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </>
+                    ) : (
+                      <>
+                        {fontFamilies.map((font) => (
+                          <SelectItem key={font} value={font}>
+                            <span style={{ fontFamily: font }}>{font}</span>
+                          </SelectItem>
+                        ))}
+                        {customFonts.map((font) => (
+                          <SelectItem key={font} value={font}>
+                            <div className="flex items-center justify-between w-full gap-2">
+                              <span style={{ fontFamily: font }} className="text-ellipsis">{font}</span>
+                              <Badge variant="default" className="text-xs">Custom</Badge>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </>
+                    )}
                   </SelectContent>
                 </Select>
                 <Button
@@ -1065,84 +2000,6 @@ export function PropertiesPanel({ className, onCollapse }: PropertiesPanelProps)
                   </div>
                 </Card>
 
-                {/* Stroke Effect */}
-                <Card className="p-3 border border-gray-200 hover:border-gray-300 transition-colors">
-                  <div className="space-y-3">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-2">
-                        <span className="text-sm font-medium">Stroke</span>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        {effectiveStrokeWidth > 0 && (
-                          <div className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded-full">
-                            {effectiveStrokeWidth}px
-                          </div>
-                        )}
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-6 w-6 p-0"
-                          onClick={() => {
-                            if (effectiveStrokeWidth > 0) {
-                              handlePropertyChange({ strokeWidth: 0, stroke: 'transparent' })
-                            } else {
-                              handlePropertyChange({ strokeWidth: 2, stroke: '#000000' })
-                            }
-                          }}
-                        >
-                          {effectiveStrokeWidth > 0 ? <Eraser className="h-3 w-3" /> : <Plus className="h-3 w-3" />}
-                        </Button>
-                      </div>
-                    </div>
-
-                    {effectiveStrokeWidth > 0 && (
-                      <div className="space-y-3 pt-2 border-t border-gray-100">
-                        <div className="space-y-2">
-                          <div className="flex items-center gap-2">
-                            <div
-                              className="w-6 h-6 rounded border cursor-pointer"
-                              style={{ backgroundColor: effectiveStrokeColor !== 'transparent' ? effectiveStrokeColor : '#000000' }}
-                              onClick={() => setShowStrokePicker(!showStrokePicker)}
-                            />
-                            <Input
-                              value={effectiveStrokeColor}
-                              onChange={(e) => handlePropertyChange({ stroke: e.target.value })}
-                              className="text-xs h-8"
-                              placeholder="Color"
-                            />
-                          </div>
-                          {showStrokePicker && (
-                            <div className="absolute z-10 mt-2">
-                              <div
-                                className="fixed inset-0"
-                                onClick={() => setShowStrokePicker(false)}
-                              />
-                              <HexColorPicker
-                                color={effectiveStrokeColor !== 'transparent' ? effectiveStrokeColor : '#000000'}
-                                onChange={(color) => handlePropertyChange({ stroke: color })}
-                              />
-                            </div>
-                          )}
-                        </div>
-                        <div className="space-y-1">
-                          <div className="flex items-center justify-between">
-                            <Label className="text-xs text-gray-500">Width</Label>
-                            <span className="text-xs text-gray-500">{effectiveStrokeWidth}px</span>
-                          </div>
-                          <Slider
-                            min={0}
-                            max={20}
-                            step={1}
-                            value={[effectiveStrokeWidth]}
-                            onValueChange={(val) => handlePropertyChange({ strokeWidth: val[0] })}
-                            className="w-full"
-                          />
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                </Card>
-
                 {/* Glow Effect */}
                 <Card className="p-3 border border-gray-200 hover:border-gray-300 transition-colors opacity-50">
                   <div className="flex items-center justify-between">
@@ -1283,188 +2140,12 @@ export function PropertiesPanel({ className, onCollapse }: PropertiesPanelProps)
           </div>
         )}
 
-        {/* Image Filters Section */}
+        {/* Image Adjustments Section */}
         {(selectedTool === 'image' || activeObject?.type === 'image') && (
-          <div className="space-y-4">
+          <>
             <Separator className="my-4" />
-            <div className="flex items-center justify-between">
-              <h3 className="text-sm font-semibold text-gray-900">Image Filters</h3>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={resetAllFilters}
-                className="h-6 text-xs"
-                disabled={!activeObject || activeObject.type !== 'image'}
-              >
-                <RotateCcw className="h-3 w-3 mr-1" />
-                Reset
-              </Button>
-            </div>
-
-            {/* Filter Presets */}
-            <div className="space-y-3">
-              <h4 className="text-xs font-medium text-gray-600 uppercase tracking-wide">Presets</h4>
-              <div className="grid grid-cols-2 gap-2">
-                {filterPresets.map((preset) => (
-                  <Button
-                    key={preset.name}
-                    variant="outline"
-                    size="sm"
-                    onClick={() => applyPresetFilter(preset)}
-                    disabled={!activeObject || activeObject.type !== 'image'}
-                    className="h-8 text-xs"
-                  >
-                    {preset.name}
-                  </Button>
-                ))}
-              </div>
-            </div>
-
-            {/* Individual Filter Controls */}
-            <div className="space-y-4">
-              <h4 className="text-xs font-medium text-gray-600 uppercase tracking-wide">Adjustments</h4>
-
-              {/* Brightness */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label className="text-xs font-medium text-gray-600">Brightness</Label>
-                  <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
-                    {Math.round(imageFilters.brightness * 100)}
-                  </span>
-                </div>
-                <Slider
-                  min={-100}
-                  max={100}
-                  step={1}
-                  value={[imageFilters.brightness * 100]}
-                  onValueChange={(val) => applyIndividualFilter('brightness', val[0] / 100)}
-                  disabled={!activeObject || activeObject.type !== 'image'}
-                  className="w-full"
-                />
-              </div>
-
-              {/* Contrast */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label className="text-xs font-medium text-gray-600">Contrast</Label>
-                  <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
-                    {Math.round(imageFilters.contrast * 100)}
-                  </span>
-                </div>
-                <Slider
-                  min={-100}
-                  max={100}
-                  step={1}
-                  value={[imageFilters.contrast * 100]}
-                  onValueChange={(val) => applyIndividualFilter('contrast', val[0] / 100)}
-                  disabled={!activeObject || activeObject.type !== 'image'}
-                  className="w-full"
-                />
-              </div>
-
-              {/* Saturation */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label className="text-xs font-medium text-gray-600">Saturation</Label>
-                  <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
-                    {Math.round(imageFilters.saturation * 100)}
-                  </span>
-                </div>
-                <Slider
-                  min={-100}
-                  max={100}
-                  step={1}
-                  value={[imageFilters.saturation * 100]}
-                  onValueChange={(val) => applyIndividualFilter('saturation', val[0] / 100)}
-                  disabled={!activeObject || activeObject.type !== 'image'}
-                  className="w-full"
-                />
-              </div>
-
-              {/* Hue */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label className="text-xs font-medium text-gray-600">Hue</Label>
-                  <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
-                    {Math.round(imageFilters.hue * 360)}°
-                  </span>
-                </div>
-                <Slider
-                  min={-180}
-                  max={180}
-                  step={1}
-                  value={[imageFilters.hue * 360]}
-                  onValueChange={(val) => applyIndividualFilter('hue', val[0] / 360)}
-                  disabled={!activeObject || activeObject.type !== 'image'}
-                  className="w-full"
-                />
-              </div>
-
-              {/* Blur */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label className="text-xs font-medium text-gray-600">Blur</Label>
-                  <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
-                    {Math.round(imageFilters.blur * 100)}
-                  </span>
-                </div>
-                <Slider
-                  min={0}
-                  max={100}
-                  step={1}
-                  value={[imageFilters.blur * 100]}
-                  onValueChange={(val) => applyIndividualFilter('blur', val[0] / 100)}
-                  disabled={!activeObject || activeObject.type !== 'image'}
-                  className="w-full"
-                />
-              </div>
-
-              {/* Noise */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label className="text-xs font-medium text-gray-600">Noise</Label>
-                  <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
-                    {Math.round(imageFilters.noise * 1000)}
-                  </span>
-                </div>
-                <Slider
-                  min={0}
-                  max={1000}
-                  step={10}
-                  value={[imageFilters.noise * 1000]}
-                  onValueChange={(val) => applyIndividualFilter('noise', val[0] / 1000)}
-                  disabled={!activeObject || activeObject.type !== 'image'}
-                  className="w-full"
-                />
-              </div>
-            </div>
-
-            {/* Quick Actions */}
-            <div className="space-y-3">
-              <h4 className="text-xs font-medium text-gray-600 uppercase tracking-wide">Quick Actions</h4>
-              <div className="grid grid-cols-2 gap-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => applyPresetFilter({ name: 'Grayscale', filters: [{ type: 'Grayscale' }] })}
-                  disabled={!activeObject || activeObject.type !== 'image'}
-                  className="h-8 text-xs"
-                >
-                  <Palette className="h-3 w-3 mr-1" />
-                  Grayscale
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => applyPresetFilter({ name: 'Invert', filters: [{ type: 'Invert' }] })}
-                  disabled={!activeObject || activeObject.type !== 'image'}
-                  className="h-8 text-xs"
-                >
-                  Invert
-                </Button>
-              </div>
-            </div>
-          </div>
+            <ImageAdjustmentsSection design={activeDesign} hasImage={!!activeDesign.getAdjustmentTarget()} />
+          </>
         )}
       </CardContent>
     </Card>
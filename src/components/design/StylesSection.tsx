@@ -0,0 +1,249 @@
+'use client'
+
+import { Button } from '@/src/components/ui/button'
+import { Input } from '@/src/components/ui/input'
+import { Label } from '@/src/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/src/components/ui/select'
+import { getAllFontsFromCache } from '@/src/lib/cache-storage'
+import type { DesignManager } from '@/src/lib/core/DesignManager'
+import {
+  getSlotKind,
+  getTextStyleProperties,
+  STYLE_SLOT_LABELS,
+  type DocumentStyle,
+  type StyleSlot,
+  type TextStyle
+} from '@/src/lib/core/styles'
+import { loadFont } from '@/src/lib/font-loader'
+import * as fabric from 'fabric'
+import { Plus, RefreshCw, Trash2, Unlink } from 'lucide-react'
+import { useState } from 'react'
+import { HexColorPicker } from 'react-colorful'
+import { toast } from 'sonner'
+import { BrandSwatches } from './BrandSwatches'
+
+interface StylesSectionProps {
+  design: DesignManager
+  activeObject: fabric.Object | null
+}
+
+/**
+ * Load a font from the font cache, if it is a custom one, before text uses it
+ */
+const ensureFontLoaded = async (family: string) => {
+  const font = (await getAllFontsFromCache()).find(f => f.name === family)
+  if (font) await loadFont(font.name, font.url)
+}
+
+const describeStyle = (style: DocumentStyle) =>
+  style.kind === 'color' ? style.color : `${style.fontFamily} • ${style.fontSize}px • ${style.fontWeight}`
+
+function TextStylePreview({ style }: { style: TextStyle }) {
+  return (
+    <span
+      className="w-6 shrink-0 text-center text-sm text-gray-700"
+      style={{ fontFamily: style.fontFamily, fontWeight: style.fontWeight, fontStyle: style.fontStyle }}
+    >
+      Aa
+    </span>
+  )
+}
+
+/**
+ * Shared color and text styles: link the selection to them, detach it, or
+ * create new ones from it, and edit the document's styles
+ */
+export function StylesSection({ design, activeObject }: StylesSectionProps) {
+  const [creatingSlot, setCreatingSlot] = useState<StyleSlot | null>(null)
+  const [newStyleName, setNewStyleName] = useState('')
+  const [editingColorId, setEditingColorId] = useState<string | null>(null)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+
+  const slots = activeObject ? design.getSelectedStyleSlots() : []
+  const selectedText = activeObject instanceof fabric.FabricText ? activeObject : null
+
+  const handleApply = async (styleId: string, slot: StyleSlot) => {
+    const style = design.getStyle(styleId)
+    if (style?.kind === 'text') await ensureFontLoaded(style.fontFamily)
+    design.applyStyle(styleId, slot)
+  }
+
+  const handleCreate = (slot: StyleSlot) => {
+    const style = design.createStyleFromSelection(slot, newStyleName)
+    if (!style) {
+      toast.error(`The selection has no solid ${STYLE_SLOT_LABELS[slot].toLowerCase()} color to make a style from`)
+      return
+    }
+    setCreatingSlot(null)
+    setNewStyleName('')
+    toast.success(`Created style "${style.name}"`)
+  }
+
+  const handleRename = (style: DocumentStyle, name: string) => {
+    setRenamingId(null)
+    if (name.trim() && name.trim() !== style.name) design.updateStyle(style.id, { name: name.trim() })
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold text-gray-900">Styles</h3>
+
+      {slots.map((slot) => {
+        const linkedStyle = design.getSelectedStyle(slot)
+        const options = design.styles.filter(style => style.kind === getSlotKind(slot))
+        return (
+          <div key={slot} className="space-y-2">
+            <Label className="text-xs font-medium text-gray-600">{STYLE_SLOT_LABELS[slot]}</Label>
+            <div className="flex items-center gap-2">
+              <Select
+                value={linkedStyle?.id ?? ''}
+                onValueChange={(styleId) => handleApply(styleId, slot)}
+                disabled={options.length === 0}
+              >
+                <SelectTrigger className="flex-1 h-9 text-sm">
+                  <SelectValue placeholder={options.length > 0 ? 'No style' : 'No styles yet'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((style) => (
+                    <SelectItem key={style.id} value={style.id}>
+                      <span className="flex items-center gap-2">
+                        {style.kind === 'color' ? (
+                          <span className="w-4 h-4 shrink-0 rounded border border-gray-200" style={{ backgroundColor: style.color }} />
+                        ) : (
+                          <TextStylePreview style={style} />
+                        )}
+                        {style.name}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {linkedStyle ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Detach style"
+                  onClick={() => design.detachStyle(slot)}
+                >
+                  <Unlink className="h-3 w-3" />
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Create style from selection"
+                  onClick={() => {
+                    setCreatingSlot(creatingSlot === slot ? null : slot)
+                    setNewStyleName('')
+                  }}
+                >
+                  <Plus className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+            {creatingSlot === slot && !linkedStyle && (
+              <form
+                className="flex items-center gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  handleCreate(slot)
+                }}
+              >
+                <Input
+                  autoFocus
+                  placeholder={slot === 'text' ? 'Style name, e.g. Heading 1' : 'Style name, e.g. Brand Blue'}
+                  value={newStyleName}
+                  onChange={(e) => setNewStyleName(e.target.value)}
+                  className="text-xs h-8"
+                />
+                <Button type="submit" size="sm" className="h-8">
+                  Create
+                </Button>
+              </form>
+            )}
+          </div>
+        )
+      })}
+
+      {design.styles.length > 0 ? (
+        <div className="space-y-1">
+          <Label className="text-xs font-medium text-gray-600">Document styles</Label>
+          {design.styles.map((style) => (
+            <div key={style.id} className="relative flex items-center gap-2 rounded px-1 py-1 hover:bg-gray-50">
+              {style.kind === 'color' ? (
+                <button
+                  type="button"
+                  className="w-6 h-6 shrink-0 rounded border-2 border-gray-200 shadow-sm hover:border-gray-300 transition-colors"
+                  style={{ backgroundColor: style.color }}
+                  title="Edit color"
+                  onClick={() => setEditingColorId(editingColorId === style.id ? null : style.id)}
+                />
+              ) : (
+                <TextStylePreview style={style} />
+              )}
+
+              {renamingId === style.id ? (
+                <Input
+                  autoFocus
+                  defaultValue={style.name}
+                  onBlur={(e) => handleRename(style, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') e.currentTarget.value = style.name
+                    if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur()
+                  }}
+                  className="flex-1 text-xs h-7"
+                />
+              ) : (
+                <div className="flex-1 min-w-0" title="Double-click to rename" onDoubleClick={() => setRenamingId(style.id)}>
+                  <div className="text-xs text-gray-900 truncate">{style.name}</div>
+                  <div className="text-[10px] text-gray-400 truncate">{describeStyle(style)}</div>
+                </div>
+              )}
+
+              {style.kind === 'text' && selectedText && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  title="Update to match the selected text"
+                  onClick={() => design.updateStyle(style.id, getTextStyleProperties(selectedText))}
+                >
+                  <RefreshCw className="h-3 w-3" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                title="Delete style"
+                onClick={() => design.deleteStyle(style.id)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+
+              {editingColorId === style.id && style.kind === 'color' && (
+                <div className="absolute z-10 top-full left-0 mt-1">
+                  <div
+                    className="fixed inset-0"
+                    onClick={() => setEditingColorId(null)}
+                  />
+                  <HexColorPicker
+                    color={style.color}
+                    onChange={(color) => design.updateStyle(style.id, { color })}
+                  />
+                  <BrandSwatches onSelect={(color) => design.updateStyle(style.id, { color })} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Create a style from the selection, or save a preset from the Texts panel, to reuse it across layers.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+'use client'
+
+import { Button } from '@/src/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/src/components/ui/dialog'
+import { Label } from '@/src/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/src/components/ui/select'
+import { Switch } from '@/src/components/ui/switch'
+import type { DesignManager } from '@/src/lib/core/DesignManager'
+import type { SvgExportOptions } from '@/src/lib/export/svg'
+import { Loader2 } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+interface SvgExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  design: DesignManager
+}
+
+export function SvgExportDialog({ isOpen, onClose, design }: SvgExportDialogProps) {
+  const [embedFonts, setEmbedFonts] = useState(true)
+  const [subsetFonts, setSubsetFonts] = useState(false)
+  const [images, setImages] = useState<NonNullable<SvgExportOptions['images']>>('inline')
+  const [isExporting, setIsExporting] = useState(false)
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      const blob = await design.exportCanvas({
+        format: 'svg',
+        svg: { embedFonts, subsetFonts: embedFonts && subsetFonts, images },
+      })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.download = `${design.name}.${blob.type === 'application/zip' ? 'zip' : 'svg'}`
+      link.href = url
+      link.click()
+      URL.revokeObjectURL(url)
+      onClose()
+    } catch (error) {
+      console.error('Failed to export SVG:', error)
+      toast.error('Could not export SVG', {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export SVG</DialogTitle>
+          <DialogDescription>
+            Editor-only markup is removed so the file renders the same in other apps.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="svg-embed-fonts" className="text-xs font-medium text-gray-600">
+              Embed custom fonts
+            </Label>
+            <Switch id="svg-embed-fonts" checked={embedFonts} onCheckedChange={setEmbedFonts} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="svg-subset-fonts" className="text-xs font-medium text-gray-600">
+              Only include used characters
+            </Label>
+            <Switch
+              id="svg-subset-fonts"
+              checked={embedFonts && subsetFonts}
+              onCheckedChange={setSubsetFonts}
+              disabled={!embedFonts}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs font-medium text-gray-600">Images</Label>
+            <Select value={images} onValueChange={(value) => setImages(value as typeof images)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="inline">Embed in the SVG</SelectItem>
+                <SelectItem value="external">Separate files (zip)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
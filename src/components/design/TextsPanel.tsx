@@ -2,11 +2,13 @@
 
 import { Button } from '@/src/components/ui/button'
 import { Input } from '@/src/components/ui/input'
-import { useDesignStore } from '@/src/lib/stores/design-store'
+import { createTextStyle, type TextStyle, type TextStyleProperties } from '@/src/lib/core/styles'
+import { useActiveDesign } from '@/src/lib/hooks/useActiveDesign'
 import { cn } from '@/src/lib/utils'
 import fabric from 'fabric'
-import { Search, Type } from 'lucide-react'
+import { BookmarkPlus, Search, Type } from 'lucide-react'
 import { useState } from 'react'
+import { toast } from 'sonner'
 
 interface TextsPanelProps {
   onCollapse?: () => void
@@ -507,39 +509,65 @@ const textStyles: Array<{
     }
   ]
 
+type TextPreset = (typeof textStyles)[number]
+
 const categories = ['All', 'Headers', 'Body', 'Display', 'Special', 'UI', 'Fun', 'Code']
 
+// Convert CSS font sizes to canvas pixels
+const convertFontSize = (fontSize: string): number => {
+  if (fontSize.endsWith('rem')) {
+    return parseFloat(fontSize) * 16 // Convert rem to px (assuming 16px = 1rem)
+  } else if (fontSize.endsWith('px')) {
+    return parseFloat(fontSize)
+  } else if (fontSize.endsWith('em')) {
+    return parseFloat(fontSize) * 16 // Convert em to px
+  }
+  return parseFloat(fontSize) || 16
+}
+
+/**
+ * Typography of a preset, as used on the canvas and by document text styles
+ */
+const toTextStyleProperties = ({ style }: TextPreset): TextStyleProperties => ({
+  fontSize: convertFontSize(style.fontSize),
+  fontFamily: style.fontFamily,
+  fontWeight: style.fontWeight || 'normal',
+  fontStyle: style.fontStyle || 'normal',
+  underline: false,
+  lineHeight: style.lineHeight || 1.2,
+  charSpacing: style.charSpacing || 0,
+})
+
 export function TextsPanel({ onCollapse, className }: TextsPanelProps) {
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedCategory, setSelectedCategory] = useState('All')
-  const { getActiveDesign } = useDesignStore()
+  const activeDesign = useActiveDesign()
+
+  const matchesSearch = (...texts: string[]) => texts.some(text => text.toLowerCase().includes(searchQuery.toLowerCase()))
 
   const filteredStyles = textStyles.filter(style => {
-    const matchesSearch = style.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      style.preview.toLowerCase().includes(searchQuery.toLowerCase())
     const matchesCategory = selectedCategory === 'All' || style.category === selectedCategory
-    return matchesSearch && matchesCategory
+    return matchesSearch(style.name, style.preview) && matchesCategory
   })
 
-  const handleAddTextToCanvas = (style: typeof textStyles[0]) => {
-    const activeDesign = getActiveDesign()
+  // The document's own text styles come first, outside of the preset categories
+  const documentStyles = selectedCategory === 'All'
+    ? (activeDesign?.styles ?? []).filter((style): style is TextStyle => style.kind === 'text' && matchesSearch(style.name, style.fontFamily))
+    : []
+
+  /**
+   * Add text at the center of the view, optionally linked to a document text style
+   */
+  const addTextToCanvas = (
+    properties: TextStyleProperties,
+    displayText: string,
+    { fill = '#000000', textAlign = 'left', offsetY = 0, styleId }: { fill?: string; textAlign?: string; offsetY?: number; styleId?: string } = {}
+  ) => {
     if (!activeDesign || !activeDesign.canvas) {
       console.warn('No active canvas found')
       return
     }
 
-    // Convert CSS properties to fabric.js compatible properties
-    const convertFontSize = (fontSize: string): number => {
-      if (fontSize.endsWith('rem')) {
-        return parseFloat(fontSize) * 16 // Convert rem to px (assuming 16px = 1rem)
-      } else if (fontSize.endsWith('px')) {
-        return parseFloat(fontSize)
-      } else if (fontSize.endsWith('em')) {
-        return parseFloat(fontSize) * 16 // Convert em to px
-      }
-      return parseFloat(fontSize) || 16
-    }
-
     // Get canvas center for positioning
     const canvasCenter = activeDesign.canvas.getWidth() / 2
     const canvasCenterY = activeDesign.canvas.getHeight() / 2
@@ -551,20 +579,31 @@ export function TextsPanel({ onCollapse, className }: TextsPanelProps) {
     const centerY = (canvasCenterY - (viewportTransform?.[5] || 0)) / zoom
 
     const textProps = {
-      fontSize: convertFontSize(style.style.fontSize),
-      fontFamily: style.style.fontFamily,
-      fontWeight: style.style.fontWeight || 'normal',
-      fontStyle: style.style.fontStyle || 'normal',
-      underline: false,
-      textAlign: style.style.textAlign || 'left',
-      lineHeight: style.style.lineHeight || 1.2,
-      charSpacing: style.style.charSpacing || 0,
-      fill: style.style.color || '#000000',
+      ...properties,
+      textAlign,
+      fill,
       opacity: 1,
       shadow: null,
       backgroundColor: 'transparent'
     }
 
+    // Add text to canvas, as one step with linking it to its style
+    activeDesign.recordStep('Add Text', () => {
+      activeDesign.addText({ x: centerX, y: centerY + offsetY }, textProps)
+      if (styleId) activeDesign.applyStyle(styleId, 'text')
+    })
+
+    // Set the text content to the preview text
+    setTimeout(() => {
+      const activeObject = activeDesign.canvas?.getActiveObject()
+      if (activeObject && activeObject.type === 'i-text') {
+        (activeObject as fabric.IText).set('text', displayText)
+        activeDesign.canvas?.requestRenderAll()
+      }
+    }, 10)
+  }
+
+  const handleAddTextToCanvas = (style: TextPreset) => {
     // Apply text transform to the preview text if specified
     let displayText = style.preview
     if (style.style.textTransform === 'uppercase') {
@@ -575,29 +614,22 @@ export function TextsPanel({ onCollapse, className }: TextsPanelProps) {
       displayText = style.preview.replace(/\b\w/g, l => l.toUpperCase())
     }
 
-    // Adjust positioning based on text alignment and category
-    const textX = centerX
-    let textY = centerY
+    addTextToCanvas(toTextStyleProperties(style), displayText, {
+      fill: style.style.color,
+      textAlign: style.style.textAlign,
+      // For display fonts, position them slightly higher
+      offsetY: style.category === 'Display' ? -50 : 0
+    })
+  }
 
-    // For display fonts, position them slightly higher and consider centering
-    if (style.category === 'Display') {
-      textY = centerY - 50 // Position display text higher
-      if (textProps.textAlign === 'center') {
-        // Text will be centered from its anchor point
-      }
+  const handleSaveAsDocumentStyle = (style: TextPreset) => {
+    if (!activeDesign) return
+    if (activeDesign.styles.some(s => s.kind === 'text' && s.name === style.name)) {
+      toast.info(`"${style.name}" is already a document style`)
+      return
     }
-
-    // Add text to canvas
-    activeDesign.addText({ x: textX, y: textY }, textProps)
-
-    // Set the text content to the preview text
-    setTimeout(() => {
-      const activeObject = activeDesign.canvas?.getActiveObject()
-      if (activeObject && activeObject.type === 'i-text') {
-        (activeObject as fabric.IText).set('text', displayText)
-        activeDesign.canvas?.requestRenderAll()
-      }
-    }, 10)
+    activeDesign.addStyle(createTextStyle(style.name, toTextStyleProperties(style)))
+    toast.success(`Saved "${style.name}" as a document text style`)
   }
 
   return (
@@ -642,6 +674,36 @@ export function TextsPanel({ onCollapse, className }: TextsPanelProps) {
 
       {/* Text Styles List */}
       <div className="flex-1 overflow-auto p-4">
+        {documentStyles.length > 0 && (
+          <div className="mb-4 space-y-3">
+            <h4 className="text-xs font-medium text-gray-600">Document styles</h4>
+            {documentStyles.map((style) => (
+              <div
+                key={style.id}
+                className="border border-gray-200 rounded-lg p-4 hover:border-blue-300 hover:shadow-sm transition-all cursor-pointer"
+                onClick={() => addTextToCanvas(style, style.name, { styleId: style.id })}
+              >
+                <div
+                  className="mb-2 break-words"
+                  style={{
+                    fontSize: `${style.fontSize}px`,
+                    fontWeight: style.fontWeight,
+                    fontFamily: style.fontFamily,
+                    fontStyle: style.fontStyle,
+                    textDecoration: style.underline ? 'underline' : undefined,
+                    lineHeight: '1.2'
+                  }}
+                >
+                  {style.name}
+                </div>
+                <div className="mt-2 text-xs text-gray-400">
+                  {style.fontFamily} • {style.fontSize}px • {style.fontWeight}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="space-y-3">
           {filteredStyles.map((style) => (
             <div
@@ -649,6 +711,20 @@ export function TextsPanel({ onCollapse, className }: TextsPanelProps) {
               className="group relative border border-gray-200 rounded-lg p-4 hover:border-blue-300 hover:shadow-sm transition-all cursor-pointer"
               onClick={() => handleAddTextToCanvas(style)}
             >
+              {activeDesign && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="absolute top-2 right-2 h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                  title="Save as document text style"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    handleSaveAsDocumentStyle(style)
+                  }}
+                >
+                  <BookmarkPlus className="h-3 w-3" />
+                </Button>
+              )}
               {/* Style Preview */}
               <div
                 className="mb-2 break-words"
@@ -673,7 +749,7 @@ export function TextsPanel({ onCollapse, className }: TextsPanelProps) {
           ))}
         </div>
 
-        {filteredStyles.length === 0 && (
+        {filteredStyles.length === 0 && documentStyles.length === 0 && (
           <div className="text-center py-8">
             <Type className="h-12 w-12 text-gray-300 mx-auto mb-3" />
             <p className="text-gray-500 text-sm">No text styles found</p>
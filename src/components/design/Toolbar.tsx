@@ -4,23 +4,43 @@ import { Button } from '@/src/components/ui/button'
 import { Popover, PopoverContent, PopoverTrigger } from '@/src/components/ui/popover'
 import { Separator } from '@/src/components/ui/separator'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/src/components/ui/tooltip'
+import { BOOLEAN_OPERATION_LABELS, BOOLEAN_OPERATIONS, type BooleanOperation } from '@/src/lib/core/boolean'
 import { useActiveDesign } from '@/src/lib/hooks/useActiveDesign'
+import { createRupixFile, readRupixFile, RUPIX_FILE_EXTENSION } from '@/src/lib/persistence/rupix-file'
 import { useDesignStore, type ToolType } from '@/src/lib/stores/design-store'
 import { cn } from '@/src/lib/utils'
 import fabric from 'fabric'
 import {
   Circle,
+  Combine,
   Copy,
   Download,
   Focus,
+  FolderOpen,
+  Hexagon,
   Image,
   MousePointer,
+  MoveUpRight,
+  Pencil,
+  PenTool,
   Redo,
+  Slash,
   Square,
+  SquaresExclude,
+  SquaresIntersect,
+  SquaresSubtract,
+  SquaresUnite,
+  Star,
+  Triangle,
   Type,
   Undo
 } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { ExportDialog } from './ExportDialog'
 import { HotkeyHelp } from './HotkeyHelp'
+import { PdfExportDialog } from './PdfExportDialog'
+import { SvgExportDialog } from './SvgExportDialog'
 
 interface ToolbarProps {
   className?: string
@@ -34,10 +54,24 @@ const tools = [
   { id: 'select' as ToolType, icon: MousePointer, label: 'Select' },
   { id: 'rectangle' as ToolType, icon: Square, label: 'Rectangle' },
   { id: 'circle' as ToolType, icon: Circle, label: 'Circle' },
+  { id: 'triangle' as ToolType, icon: Triangle, label: 'Triangle' },
+  { id: 'polygon' as ToolType, icon: Hexagon, label: 'Polygon' },
+  { id: 'star' as ToolType, icon: Star, label: 'Star' },
+  { id: 'line' as ToolType, icon: Slash, label: 'Line' },
+  { id: 'arrow' as ToolType, icon: MoveUpRight, label: 'Arrow' },
   { id: 'text' as ToolType, icon: Type, label: 'Text' },
   { id: 'image' as ToolType, icon: Image, label: 'Image' },
+  { id: 'pen' as ToolType, icon: Pencil, label: 'Pen' },
+  { id: 'bezier' as ToolType, icon: PenTool, label: 'Bezier pen' },
 ]
 
+const booleanOperations: Record<BooleanOperation, { icon: typeof SquaresUnite; shortcut: string }> = {
+  union: { icon: SquaresUnite, shortcut: 'Alt+Shift+U' },
+  subtract: { icon: SquaresSubtract, shortcut: 'Alt+Shift+S' },
+  intersect: { icon: SquaresIntersect, shortcut: 'Alt+Shift+I' },
+  exclude: { icon: SquaresExclude, shortcut: 'Alt+Shift+X' },
+}
+
 export function Toolbar({ className }: ToolbarProps) {
   const {
     selectedTool,
@@ -46,10 +80,35 @@ export function Toolbar({ className }: ToolbarProps) {
     setCameraLocked,
     duplicateActiveObject,
     undo,
-    redo
+    redo,
+    openDesign,
+    applyBooleanOperation,
+    keepBooleanOriginals,
+    setKeepBooleanOriginals
   } = useDesignStore()
 
   const activeDesign = useActiveDesign()
+  const projectInputRef = useRef<HTMLInputElement>(null)
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false)
+  const [isPdfDialogOpen, setIsPdfDialogOpen] = useState(false)
+  const [isSvgDialogOpen, setIsSvgDialogOpen] = useState(false)
+  const [canCombine, setCanCombine] = useState(false)
+
+  // Boolean operations need at least two shapes selected
+  useEffect(() => {
+    const canvas = activeDesign?.canvas
+    if (!canvas) return
+    const update = () => setCanCombine(activeDesign.canCombineSelection())
+    canvas.on('selection:created', update)
+    canvas.on('selection:updated', update)
+    canvas.on('selection:cleared', update)
+    update()
+    return () => {
+      canvas.off('selection:created', update)
+      canvas.off('selection:updated', update)
+      canvas.off('selection:cleared', update)
+    }
+  }, [activeDesign, activeDesign?.canvas])
 
   const handleToolSelect = (tool: ToolType) => {
     setSelectedTool(tool)
@@ -69,25 +128,52 @@ export function Toolbar({ className }: ToolbarProps) {
     await redo()
   }
 
-  const handleExport = (format: 'png' | 'jpg' | 'svg' | 'json') => {
+  const handleExportJSON = () => {
     if (!activeDesign) return
 
-    const data = activeDesign.exportCanvas(format)
-    if (typeof data === 'string' && format !== 'json') {
-      // Download image
-      const link = document.createElement('a')
-      link.download = `${activeDesign.name}.${format}`
-      link.href = data
-      link.click()
-    } else if (format === 'json') {
-      // Download JSON
-      const blob = new Blob([JSON.stringify(data)], { type: 'application/json' })
+    const data = activeDesign.exportCanvas({ format: 'json' })
+    const blob = new Blob([JSON.stringify(data)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.download = `${activeDesign.name}.json`
+    link.href = url
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleSaveProject = async () => {
+    if (!activeDesign) return
+
+    try {
+      const blob = await createRupixFile(activeDesign)
       const url = URL.createObjectURL(blob)
       const link = document.createElement('a')
-      link.download = `${activeDesign.name}.json`
+      link.download = `${activeDesign.name}${RUPIX_FILE_EXTENSION}`
       link.href = url
       link.click()
       URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Failed to save project:', error)
+      toast.error('Could not save project', {
+        description: error instanceof Error ? error.message : undefined
+      })
+    }
+  }
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Allow picking the same file again later
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const snapshot = await readRupixFile(file)
+      openDesign(snapshot)
+    } catch (error) {
+      console.error('Failed to open project:', error)
+      toast.error(`Could not open ${file.name}`, {
+        description: error instanceof Error ? error.message : undefined
+      })
     }
   }
 
@@ -183,6 +269,67 @@ export function Toolbar({ className }: ToolbarProps) {
 
         <Separator orientation="vertical" className="h-6" />
 
+        {/* Boolean Operations */}
+        <div className="flex items-center gap-1">
+          {BOOLEAN_OPERATIONS.map((operation) => {
+            const { icon: Icon, shortcut } = booleanOperations[operation]
+            return (
+              <Tooltip key={operation}>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => applyBooleanOperation(operation)}
+                    disabled={isDisabled || !canCombine}
+                  >
+                    <Icon className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{BOOLEAN_OPERATION_LABELS[operation]} ({shortcut})</p>
+                </TooltipContent>
+              </Tooltip>
+            )
+          })}
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={keepBooleanOriginals ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setKeepBooleanOriginals(!keepBooleanOriginals)}
+                disabled={isDisabled}
+              >
+                <Combine className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>{keepBooleanOriginals ? 'Keep shapes editable in a compound shape' : 'Replace shapes with a path'}</p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+
+        <Separator orientation="vertical" className="h-6" />
+
+        {/* Project file */}
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button variant="ghost" size="sm" onClick={() => projectInputRef.current?.click()}>
+              <FolderOpen className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Open project</p>
+          </TooltipContent>
+        </Tooltip>
+        <input
+          ref={projectInputRef}
+          type="file"
+          accept={RUPIX_FILE_EXTENSION}
+          className="hidden"
+          onChange={handleOpenProject}
+        />
+
         {/* Export options */}
         <Popover>
           <PopoverTrigger asChild>
@@ -196,17 +343,42 @@ export function Toolbar({ className }: ToolbarProps) {
                 variant="ghost"
                 size="sm"
                 className="w-full justify-start"
-                onClick={() => handleExport('png')}
+                onClick={() => setIsExportDialogOpen(true)}
+              >
+                Image (PNG, JPG, WebP)…
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start"
+                onClick={() => setIsPdfDialogOpen(true)}
               >
-                PNG
+                PDF…
               </Button>
               <Button
                 variant="ghost"
                 size="sm"
                 className="w-full justify-start"
-                onClick={() => handleExport('jpg')}
+                onClick={() => setIsSvgDialogOpen(true)}
               >
-                JPG
+                SVG…
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start"
+                onClick={handleExportJSON}
+              >
+                JSON
+              </Button>
+              <Separator />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start"
+                onClick={handleSaveProject}
+              >
+                Rupix project
               </Button>
             </div>
           </PopoverContent>
@@ -241,6 +413,24 @@ export function Toolbar({ className }: ToolbarProps) {
         </div>
 
       </div>
+
+      {activeDesign && isExportDialogOpen && (
+        <ExportDialog
+          isOpen
+          onClose={() => setIsExportDialogOpen(false)}
+          design={activeDesign}
+        />
+      )}
+      {activeDesign && isSvgDialogOpen && (
+        <SvgExportDialog
+          isOpen
+          onClose={() => setIsSvgDialogOpen(false)}
+          design={activeDesign}
+        />
+      )}
+      {isPdfDialogOpen && (
+        <PdfExportDialog isOpen onClose={() => setIsPdfDialogOpen(false)} />
+      )}
     </TooltipProvider>
   )
 } 
\ No newline at end of file
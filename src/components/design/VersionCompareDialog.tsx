@@ -0,0 +1,167 @@
+'use client'
+
+import { Button } from '@/src/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/src/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/src/components/ui/select'
+import { Slider } from '@/src/components/ui/slider'
+import { DesignManager } from '@/src/lib/core/DesignManager'
+import type { DesignVersion } from '@/src/lib/persistence/versions'
+import { cn } from '@/src/lib/utils'
+import { Columns2, Layers2, Loader2 } from 'lucide-react'
+import Image from 'next/image'
+import { useEffect, useRef, useState } from 'react'
+
+interface VersionCompareDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  design: DesignManager
+  versions: DesignVersion[]
+  initialVersionId: string
+}
+
+type CompareMode = 'side-by-side' | 'onion-skin'
+
+// Pseudo version id for the design as it is now
+const CURRENT_ID = 'current'
+const PREVIEW_SIZE = 1024
+
+export function VersionCompareDialog({ isOpen, onClose, design, versions, initialVersionId }: VersionCompareDialogProps) {
+  const [leftId, setLeftId] = useState(initialVersionId)
+  const [rightId, setRightId] = useState(CURRENT_ID)
+  const [mode, setMode] = useState<CompareMode>('side-by-side')
+  const [overlayOpacity, setOverlayOpacity] = useState(50)
+  const [renders, setRenders] = useState<Record<string, string>>({})
+  const requestedIdsRef = useRef(new Set<string>())
+
+  const getLabel = (id: string) => {
+    return id === CURRENT_ID ? 'Current canvas' : versions.find(v => v.id === id)?.name ?? 'Deleted version'
+  }
+
+  // Render each compared version from its JSON once
+  useEffect(() => {
+    [leftId, rightId].forEach(async id => {
+      if (requestedIdsRef.current.has(id)) return
+      const snapshot = id === CURRENT_ID ? design.serialize() : versions.find(v => v.id === id)?.snapshot
+      if (!snapshot) return
+
+      requestedIdsRef.current.add(id)
+      try {
+        const dataURL = await DesignManager.renderSnapshot(snapshot, PREVIEW_SIZE)
+        setRenders(prev => ({ ...prev, [id]: dataURL }))
+      } catch (error) {
+        console.error('Failed to render version:', error)
+      }
+    })
+  }, [leftId, rightId, design, versions])
+
+  const renderPreview = (id: string, style?: React.CSSProperties) => {
+    return renders[id] ? (
+      <Image
+        src={renders[id]}
+        alt={getLabel(id)}
+        width={0}
+        height={0}
+        unoptimized
+        className="w-auto h-auto max-w-full max-h-full object-contain"
+        style={style}
+      />
+    ) : (
+      <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+    )
+  }
+
+  const renderSourceSelect = (value: string, onChange: (id: string) => void) => {
+    return (
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="flex-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={CURRENT_ID}>Current canvas</SelectItem>
+          {versions.map(version => (
+            <SelectItem key={version.id} value={version.id}>
+              {version.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Compare versions</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          {renderSourceSelect(leftId, setLeftId)}
+          <span className="text-sm text-gray-500">vs</span>
+          {renderSourceSelect(rightId, setRightId)}
+          <div className="flex border border-gray-200 rounded-md overflow-hidden ml-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setMode('side-by-side')}
+              className={cn('rounded-none', mode === 'side-by-side' && 'bg-gray-100')}
+              title="Side by side"
+            >
+              <Columns2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setMode('onion-skin')}
+              className={cn('rounded-none', mode === 'onion-skin' && 'bg-gray-100')}
+              title="Onion skin"
+            >
+              <Layers2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {mode === 'side-by-side' ? (
+          <div className="grid grid-cols-2 gap-4">
+            {[leftId, rightId].map((id, index) => (
+              <div key={`${index}-${id}`} className="flex flex-col gap-2">
+                <div className="h-96 bg-gray-100 rounded-md flex items-center justify-center p-2">
+                  {renderPreview(id)}
+                </div>
+                <span className="text-xs text-gray-500 text-center">{getLabel(id)}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3">
+            <div className="relative h-[28rem] bg-gray-100 rounded-md flex items-center justify-center p-2">
+              {renderPreview(leftId)}
+              {renders[rightId] && (
+                <div className="absolute inset-2 flex items-center justify-center">
+                  {renderPreview(rightId, { opacity: overlayOpacity / 100 })}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-3 text-xs text-gray-500">
+              <span className="truncate max-w-40">{getLabel(leftId)}</span>
+              <Slider
+                value={[overlayOpacity]}
+                onValueChange={([value]) => setOverlayOpacity(value)}
+                min={0}
+                max={100}
+                step={1}
+                className="flex-1"
+              />
+              <span className="truncate max-w-40">{getLabel(rightId)}</span>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
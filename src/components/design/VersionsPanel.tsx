@@ -0,0 +1,198 @@
+'use client'
+
+import { Button } from '@/src/components/ui/button'
+import { Input } from '@/src/components/ui/input'
+import { useActiveDesign } from '@/src/lib/hooks/useActiveDesign'
+import { createVersion, deleteVersion, type DesignVersion, listVersions } from '@/src/lib/persistence/versions'
+import { useDesignStore } from '@/src/lib/stores/design-store'
+import { cn } from '@/src/lib/utils'
+import { Bookmark, Columns2, CopyPlus, RotateCcw, Trash2 } from 'lucide-react'
+import Image from 'next/image'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { v4 as uuidv4 } from 'uuid'
+import { VersionCompareDialog } from './VersionCompareDialog'
+
+interface VersionsPanelProps {
+  onCollapse?: () => void
+  className?: string
+}
+
+export function VersionsPanel({ onCollapse, className }: VersionsPanelProps) {
+  const activeDesign = useActiveDesign()
+  const openDesign = useDesignStore((state) => state.openDesign)
+  const [versions, setVersions] = useState<DesignVersion[]>([])
+  const [versionName, setVersionName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [compareVersion, setCompareVersion] = useState<DesignVersion | null>(null)
+
+  const designId = activeDesign?.id
+
+  useEffect(() => {
+    if (!designId) {
+      setVersions([])
+      return
+    }
+
+    let isCancelled = false
+    listVersions(designId)
+      .then(result => !isCancelled && setVersions(result))
+      .catch(error => console.error('Failed to load versions:', error))
+    return () => {
+      isCancelled = true
+    }
+  }, [designId])
+
+  const handleSaveVersion = async () => {
+    if (!activeDesign) return
+
+    setIsSaving(true)
+    try {
+      const version = await createVersion(activeDesign, versionName)
+      setVersions(prev => [version, ...prev])
+      setVersionName('')
+      toast.success(`Saved version "${version.name}"`)
+    } catch (error) {
+      console.error('Failed to save version:', error)
+      toast.error('Could not save this version')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRestore = async (version: DesignVersion) => {
+    if (!activeDesign) return
+    await activeDesign.restoreSnapshot(version.snapshot, `Restore ${version.name}`)
+    toast.success(`Restored "${version.name}"`, { description: 'Undo to go back to the previous state' })
+  }
+
+  const handleOpenInNewTab = (version: DesignVersion) => {
+    openDesign({
+      ...version.snapshot,
+      id: uuidv4(),
+      name: `${version.snapshot.name} (${version.name})`,
+    })
+  }
+
+  const handleDelete = async (version: DesignVersion) => {
+    try {
+      await deleteVersion(version.id)
+      setVersions(prev => prev.filter(v => v.id !== version.id))
+    } catch (error) {
+      console.error('Failed to delete version:', error)
+      toast.error('Could not delete this version')
+    }
+  }
+
+  return (
+    <div className={cn('flex flex-col h-full bg-white relative', className)}>
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex flex-col">
+            <h3 className="font-semibold text-gray-900">Versions</h3>
+            {activeDesign && (
+              <span className="text-xs text-gray-500">Canvas: {activeDesign.name}</span>
+            )}
+          </div>
+          {onCollapse && (
+            <Button variant="ghost" size="sm" onClick={onCollapse}>
+              ×
+            </Button>
+          )}
+        </div>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleSaveVersion()
+          }}
+        >
+          <Input
+            placeholder="Version name, e.g. v1 client review"
+            value={versionName}
+            onChange={(e) => setVersionName(e.target.value)}
+            disabled={!activeDesign}
+          />
+          <Button type="submit" size="sm" disabled={!activeDesign || isSaving}>
+            <Bookmark className="h-4 w-4 mr-1" />
+            Save
+          </Button>
+        </form>
+      </div>
+
+      {/* Versions List */}
+      <div className="flex-1 overflow-auto p-4">
+        {versions.length === 0 ? (
+          <div className="text-center py-8">
+            <Bookmark className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500 text-sm">No versions yet</p>
+            <p className="text-gray-400 text-xs mt-1">Save a version to restore or compare it later</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-4">
+            {versions.map((version) => (
+              <div
+                key={version.id}
+                className="border border-gray-200 rounded-lg overflow-hidden hover:border-blue-300 hover:shadow-md transition-all"
+              >
+                {/* Thumbnail */}
+                <div className="aspect-[4/3] bg-gray-100 flex items-center justify-center">
+                  {version.thumbnail ? (
+                    <Image
+                      src={version.thumbnail}
+                      alt={version.name}
+                      width={0}
+                      height={0}
+                      unoptimized
+                      className="w-auto h-auto max-w-full max-h-full object-contain"
+                    />
+                  ) : (
+                    <Bookmark className="h-12 w-12 text-gray-400" />
+                  )}
+                </div>
+
+                {/* Info and actions */}
+                <div className="p-3">
+                  <div className="font-medium text-gray-900 text-sm truncate mb-1">{version.name}</div>
+                  <div className="text-xs text-gray-500 mb-2">{new Date(version.createdAt).toLocaleString()}</div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => handleRestore(version)} title="Restore into this tab">
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => handleOpenInNewTab(version)} title="Open in new tab">
+                      <CopyPlus className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setCompareVersion(version)} title="Compare">
+                      <Columns2 className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 ml-auto text-red-600 hover:text-red-700"
+                      onClick={() => handleDelete(version)}
+                      title="Delete version"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {activeDesign && compareVersion && (
+        <VersionCompareDialog
+          isOpen
+          onClose={() => setCompareVersion(null)}
+          design={activeDesign}
+          versions={versions}
+          initialVersionId={compareVersion.id}
+        />
+      )}
+    </div>
+  )
+}
@@ -260,6 +260,65 @@ function intervalControl() {
   }
 }
 
+/**
+ * Square anchor of a path node in node-edit mode, filled when selected
+ */
+export function renderPathAnchor(ctx: CanvasRenderingContext2D, left: number, top: number, selected: boolean) {
+  const size = 8
+  ctx.save()
+  ctx.fillStyle = selected ? controlOptions.cornerStrokeColor : controlOptions.cornerColor
+  ctx.strokeStyle = controlOptions.cornerStrokeColor
+  ctx.lineWidth = 1.5
+  ctx.fillRect(left - size / 2, top - size / 2, size, size)
+  ctx.strokeRect(left - size / 2, top - size / 2, size, size)
+  ctx.restore()
+}
+
+/**
+ * Round bezier handle of a path node, with a line back to its anchor
+ */
+export function renderPathHandle(ctx: CanvasRenderingContext2D, left: number, top: number, anchor: fabric.XY) {
+  ctx.save()
+  ctx.strokeStyle = controlOptions.cornerStrokeColor
+  ctx.fillStyle = controlOptions.cornerColor
+  ctx.lineWidth = 1
+  ctx.beginPath()
+  ctx.moveTo(anchor.x, anchor.y)
+  ctx.lineTo(left, top)
+  ctx.stroke()
+  ctx.beginPath()
+  ctx.arc(left, top, 4, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.stroke()
+  ctx.restore()
+}
+
+/**
+ * Round gradient handle filled with the color of its end of the gradient,
+ * optionally with a line back to the other handle
+ */
+export function renderGradientHandle(ctx: CanvasRenderingContext2D, left: number, top: number, color: string, from?: fabric.XY) {
+  ctx.save()
+  ctx.strokeStyle = controlOptions.cornerStrokeColor
+  ctx.lineWidth = 1.5
+  if (from) {
+    ctx.beginPath()
+    ctx.moveTo(from.x, from.y)
+    ctx.lineTo(left, top)
+    ctx.stroke()
+  }
+  ctx.beginPath()
+  ctx.arc(left, top, 6, 0, Math.PI * 2)
+  ctx.fillStyle = controlOptions.cornerColor
+  ctx.fill()
+  ctx.stroke()
+  ctx.beginPath()
+  ctx.arc(left, top, 3.5, 0, Math.PI * 2)
+  ctx.fillStyle = color
+  ctx.fill()
+  ctx.restore()
+}
+
 export function initControls() {
   setControlConfig()
 
@@ -1,11 +1,83 @@
 import type { TEvent } from 'fabric';
 import * as fabric from 'fabric';
+import { toast } from 'sonner';
 import { v4 as uuidv4 } from 'uuid';
 import { useDesignStore } from '../stores/design-store';
 import { controlOptions, initControls } from './Control';
+import {
+  ADJUSTMENT_DEFINITIONS,
+  applyImageAdjustments,
+  createAdjustment,
+  addImageLutTable,
+  createLutAdjustment,
+  getImageAdjustments,
+  getImageHistogram,
+  resetAdjustment,
+  type Adjustment,
+  type AdjustmentKind,
+  type ColorLut,
+} from './adjustments';
+import { getBlendMode, getBlendTargets, toCompositeOperation, type BlendMode } from './blend';
+import { BOOLEAN_OPERATION_LABELS, combineRegions, getObjectRegion, isBooleanOperand, regionToPathData, type BooleanOperation, type BooleanOptions } from './boolean';
+import { BRUSH_LABELS, createBrush, DEFAULT_BRUSH_SETTINGS, type BrushSettings } from './brush';
+import { auditTextContrast, type TextContrastResult } from './contrast';
+import {
+  createGradient,
+  getDefaultStops,
+  getGradientAngle,
+  getGradientKind,
+  getGradientStops,
+  GradientEditor,
+  GRADIENT_KIND_LABELS,
+  isGradient,
+  setGradientAngle,
+  setGradientStops,
+  type Gradient,
+  type GradientKind,
+  type GradientOptions,
+} from './gradient';
+import { HistoryManager, type HistoryHost, type HistoryOptions, type HistoryTree, type LayerData, type RecordOptions } from './history';
+import { createPdf } from '../export/pdf';
+import { createPortableSvg, type SvgExportOptions } from '../export/svg';
+import { isSvgFile, isSvgMarkup, sanitizeSvg } from '../import/svg';
+import { NodeEditor, PenTool, type NodeType } from './path';
+import {
+  copyPattern,
+  createImagePattern,
+  createProceduralPattern,
+  isPattern,
+  type PatternPlacement,
+  type ProceduralPatternSettings,
+} from './pattern';
 import { CanvasRuler } from './ruler';
-import initAligningGuidelines from './ruler/SnapLine';
+import { changeStrokeOptions, getStrokeOptions, toStrokeProps, type StrokeOptions } from './stroke';
+import initAligningGuidelines, { type AligningGuidelines } from './ruler/SnapLine';
+import { DEFAULT_SHAPE_SETTINGS, fitPointsToBox, regularPolygonPoints, starPoints, type ShapeSettings } from './shapes';
+import {
+  changeStyle,
+  createColorStyle,
+  createTextStyle,
+  forEachStyleLink,
+  getLinkedStyleId,
+  getSlotKind,
+  getTextStyleProperties,
+  linkStyle,
+  matchesStyle,
+  STYLE_LINK_PROPERTIES,
+  STYLE_SLOT_LABELS,
+  STYLE_SLOTS,
+  supportsStyleSlot,
+  unlinkStyle,
+  type DocumentStyle,
+  type StyleChanges,
+  type StyleSlot,
+} from './styles';
+import { Arrow } from './subclass/Arrow';
 import { BaseLayer } from './subclass/BaseLayer';
+import { CompoundShape } from './subclass/CompoundShape';
+import { FillPattern } from './subclass/FillPattern';
+import { RegularPolygon } from './subclass/RegularPolygon';
+import { Star } from './subclass/Star';
 
 declare module "fabric" {
   interface CanvasEvents {
@@ -26,7 +98,30 @@ declare module 'fabric' {
   }
 }
 
-export type ToolType = 'select' | 'rectangle' | 'circle' | 'text' | 'image' | 'pen'
+export type ToolType =
+  | 'select'
+  | 'rectangle'
+  | 'circle'
+  | 'line'
+  | 'arrow'
+  | 'triangle'
+  | 'polygon'
+  | 'star'
+  | 'text'
+  | 'image'
+  | 'pen'
+  | 'bezier'
+
+// What the selected object is filled with: a color, a kind of gradient, an uploaded image or a built-in pattern
+export type FillType = 'solid' | GradientKind | 'image' | 'pattern'
+
+// Tools that create an object by dragging out its size
+const DRAG_TO_CREATE_TOOLS: ToolType[] = ['rectangle', 'circle', 'line', 'arrow', 'triangle', 'polygon', 'star', 'image']
+
+// Tools whose object spans from the drag start to the drag end, rather than a box
+const LINE_TOOLS: ToolType[] = ['line', 'arrow']
+
+type ShapeProps = { fill: string; stroke: string; strokeWidth: number; opacity: number }
 
 export interface CanvasLayer {
   id: string
@@ -47,6 +142,66 @@ export interface BaseLayerConfig {
   opacity?: number
 }
 
+export interface CameraState {
+  viewportTransform: fabric.TMat2D | null
+  cameraLocked: boolean
+}
+
+/**
+ * Plain-data snapshot of a design. Produced by `serialize()` and accepted by
+ * `DesignManager.fromSnapshot()` so designs can be persisted and re-opened.
+ */
+export interface SerializedDesign {
+  version: number
+  id: string
+  name: string
+  lastModified: string
+  baseLayerConfig: BaseLayerConfig
+  clippingEnabled: boolean
+  canvas: Record<string, unknown> | null
+  layers: Omit<CanvasLayer, 'object'>[]
+  camera: CameraState
+  // Missing in snapshots saved before shared styles
+  styles?: DocumentStyle[]
+}
+
+export type ExportFormat = 'png' | 'jpg' | 'webp' | 'svg' | 'json' | 'pdf'
+
+export interface ExportOptions {
+  format: ExportFormat
+  // Output scale for raster formats, ignored when `dpi` is set
+  multiplier?: number
+  // Target resolution for raster formats, converted to a multiplier via `CANVAS_DPI`
+  dpi?: number
+  // 0-1, used by JPG and WebP
+  quality?: number
+  // Defaults to transparent when the base layer is fully transparent. JPG is always opaque.
+  background?: 'base-layer' | 'transparent'
+  // Further designs to append as pages after this one, for PDF
+  pages?: DesignManager[]
+  // Produce a portable SVG file (fonts, images, no editor markup) instead of raw canvas markup
+  svg?: SvgExportOptions
+}
+
+// Canvas units are CSS pixels, 96 per inch
+export const CANVAS_DPI = 96
+
+const DEFAULT_EXPORT_QUALITY = 0.8
+
+// Bump when the shape of `SerializedDesign` changes; importers migrate older versions
+export const DESIGN_SCHEMA_VERSION = 1
+
+// History key for the base layer, which has no layerId
+const BASE_LAYER_HISTORY_KEY = '__base-layer__'
+
+// Custom object properties that must survive canvas serialization, copies and history
+export const SERIALIZED_OBJECT_PROPERTIES = [
+  'layerId', 'originalSrc', 'isBaseLayer', 'name', 'text',
+  'strokeAlign',
+  ...Object.values(STYLE_LINK_PROPERTIES),
+  'adjustments', 'lutTables',
+]
+
 type DesignManagerListener = (manager: DesignManager) => void
 
 export class DesignManager {
@@ -73,6 +228,9 @@ export class DesignManager {
   }
   public clippingEnabled: boolean = true
 
+  // Shared color and text styles that linked objects follow
+  public styles: DocumentStyle[] = []
+
   // Tool properties
   public selectedTool: ToolType = 'select'
   public fillColor = '#3b82f6'
@@ -99,6 +257,20 @@ export class DesignManager {
   public shadow: fabric.Shadow | null = null
   public backgroundColor = 'transparent'
 
+  // Pen tool properties
+  public brushSettings: BrushSettings = DEFAULT_BRUSH_SETTINGS
+
+  // Parameters of new polygons, stars and arrows
+  public shapeSettings: ShapeSettings = DEFAULT_SHAPE_SETTINGS
+
+  // Vector paths: the bezier pen and node editing of existing paths
+  public nodeEditor: NodeEditor | null = null
+  private penTool: PenTool | null = null
+  private guidelines: AligningGuidelines | null = null
+
+  // On-canvas handles for the gradient fill of the selected object
+  public gradientEditor: GradientEditor | null = null
+
   // Pan state
   public isDragging = false
   public lastPosX = 0
@@ -110,9 +282,18 @@ export class DesignManager {
   public cameraLocked = true // Default to locked
 
   // History state
-  private historyStack: { canvas: string; layers: Omit<CanvasLayer, 'object'>[] }[] = []
-  private historyPointer = -1
+  private history: HistoryManager
   private isRestoringState = false // To prevent saving state during undo/redo
+  // Open transaction; its steps merge into one labeled node
+  private transaction: { label: string; group: string; startId: string } | null = null
+  private transactionCount = 0
+  // Nesting of `runInTransaction` calls, whose changes are the transaction's steps
+  private transactionDepth = 0
+  // Node to return to when a hover preview of another history state ends
+  private previewOriginId: string | null = null
+
+  // Snapshot waiting to be loaded once the canvas element is available
+  private pendingSnapshot: SerializedDesign | null = null
 
   private listeners: Set<DesignManagerListener> = new Set()
 
@@ -120,12 +301,78 @@ export class DesignManager {
     this.id = uuidv4()
     this.name = name
     this.lastModified = new Date()
+    this.history = new HistoryManager(this.createHistoryHost())
 
     if (baseLayerConfig) {
       this.baseLayerConfig = { ...this.baseLayerConfig, ...baseLayerConfig }
     }
   }
 
+  /**
+   * Recreate a design from a snapshot. The canvas content is loaded lazily in
+   * `initCanvas`, since restored tabs have no canvas element until shown.
+   */
+  public static fromSnapshot(snapshot: SerializedDesign): DesignManager {
+    const design = new DesignManager(snapshot.name, snapshot.baseLayerConfig)
+    design.id = snapshot.id
+    design.lastModified = new Date(snapshot.lastModified)
+    design.clippingEnabled = snapshot.clippingEnabled
+    design.styles = snapshot.styles ?? []
+    design.cameraLocked = snapshot.camera.cameraLocked
+    design.pendingSnapshot = snapshot
+    return design
+  }
+
+  /**
+   * Render a snapshot's base layer area to a PNG data URL on an offscreen
+   * canvas, without opening it in a tab
+   */
+  public static async renderSnapshot(snapshot: SerializedDesign, maxSize = 1024): Promise<string> {
+    const { x, y, width, height } = snapshot.baseLayerConfig
+    const scale = Math.min(1, maxSize / Math.max(width, height))
+    const canvas = new fabric.StaticCanvas(undefined, {
+      width: Math.round(width * scale),
+      height: Math.round(height * scale),
+      renderOnAddRemove: false,
+    })
+
+    try {
+      if (snapshot.canvas) {
+        await canvas.loadFromJSON(snapshot.canvas)
+      }
+      canvas.setViewportTransform([scale, 0, 0, scale, -x * scale, -y * scale])
+      canvas.renderAll()
+      return canvas.toDataURL({ format: 'png', multiplier: 1 })
+    } finally {
+      canvas.dispose()
+    }
+  }
+
+  /**
+   * Vector SVG of a snapshot's base layer area, built on an offscreen canvas
+   */
+  public static async renderSnapshotSVG(snapshot: SerializedDesign): Promise<string> {
+    const { width, height } = snapshot.baseLayerConfig
+    const canvas = new fabric.StaticCanvas(undefined, { width, height, renderOnAddRemove: false })
+
+    try {
+      if (snapshot.canvas) {
+        await canvas.loadFromJSON(snapshot.canvas)
+      }
+      return canvas.toSVG(DesignManager.getSVGOptions(snapshot.baseLayerConfig))
+    } finally {
+      canvas.dispose()
+    }
+  }
+
+  private static getSVGOptions({ x, y, width, height }: BaseLayerConfig) {
+    return {
+      width: width.toString(),
+      height: height.toString(),
+      viewBox: { x, y, width, height },
+    }
+  }
+
   public subscribe(listener: DesignManagerListener) {
     this.listeners.add(listener)
     return () => this.listeners.delete(listener)
@@ -148,7 +395,15 @@ export class DesignManager {
     initControls()
 
     // init snap line
-    initAligningGuidelines(this.canvas)
+    this.guidelines = initAligningGuidelines(this.canvas)
+    this.penTool = new PenTool(this.canvas, this.guidelines, this.handlePenPathComplete)
+    this.nodeEditor = new NodeEditor(this.canvas, this.guidelines, {
+      onChange: (label) => this.saveState({ label }),
+      onUpdate: () => this.notify(),
+    })
+    this.gradientEditor = new GradientEditor(this.canvas, {
+      onUpdate: () => this.notify(),
+    })
 
     this.setupEventListeners()
     this.ruler = new CanvasRuler(this.canvas)
@@ -157,6 +412,14 @@ export class DesignManager {
     // Initialize base layer
     this.initializeBaseLayer()
 
+    if (this.pendingSnapshot) {
+      this.loadSnapshot(this.pendingSnapshot)
+      return
+    }
+
+    // The base layer is the starting point, not an undoable step
+    this.resetHistory()
+
     // Center camera if locked (default behavior)
     if (this.cameraLocked) {
       // Delay centering to ensure base layer is fully rendered
@@ -171,11 +434,22 @@ export class DesignManager {
     this.canvas.on('mouse:down', this.handleMouseDown)
     this.canvas.on('mouse:move', this.handleMouseMove)
     this.canvas.on('mouse:up', this.handleMouseUp)
+    this.canvas.on('mouse:dblclick', this.handleDoubleClick)
     this.canvas.on('object:moving', this.handleObjectMoving)
     this.canvas.on('selection:created', this.updateCursor)
     this.canvas.on('selection:cleared', this.updateCursor)
     this.canvas.on('selection:updated', this.updateCursor)
 
+    // Node and gradient editing end when the edited object is deselected or removed
+    this.canvas.on('selection:cleared', () => {
+      this.nodeEditor?.exit()
+      this.gradientEditor?.exit()
+    })
+    this.canvas.on('selection:updated', ({ selected }) => {
+      if (!selected.some(object => object === this.nodeEditor?.path)) this.nodeEditor?.exit()
+      if (!selected.some(object => object === this.gradientEditor?.object)) this.gradientEditor?.exit()
+    })
+
     // History-related events
     this.canvas.on('object:added', (e) => {
       if (e.target?.isDrawingPreview) return
@@ -183,10 +457,15 @@ export class DesignManager {
     })
     this.canvas.on('object:removed', (e) => {
       if (e.target?.isDrawingPreview) return
+      if (e.target === this.nodeEditor?.path) this.nodeEditor?.exit()
+      if (e.target === this.gradientEditor?.object) this.gradientEditor?.exit()
       this.saveState()
     })
     this.canvas.on('object:modified', () => this.saveState())
 
+    // Strokes finished with the pen tool
+    this.canvas.on('path:created', this.handlePathCreated)
+
     // Add drag and drop support
     this.setupDragAndDrop()
 
@@ -235,7 +514,10 @@ export class DesignManager {
       const files = e.dataTransfer?.files
       if (files) {
         Array.from(files).forEach(file => {
-          if (file.type.startsWith('image/')) {
+          if (isSvgFile(file)) {
+            const canvasPoint = this.canvas?.getScenePoint(e as MouseEvent)
+            file.text().then(markup => this.addSVGFromString(markup, file.name, canvasPoint))
+          } else if (file.type.startsWith('image/')) {
             const reader = new FileReader()
             reader.onload = (event) => {
               const result = event.target?.result as string
@@ -269,11 +551,21 @@ export class DesignManager {
         return
       }
 
+      // SVG copied from a code editor or design tool arrives as plain text
+      const text = e.clipboardData?.getData('text/plain')
+      if (text && isSvgMarkup(text)) {
+        this.addSVGFromString(text, 'Pasted SVG', this.getCanvasCenter())
+        e.preventDefault()
+        return
+      }
+
       const items = e.clipboardData?.items
       if (!items) return
 
       Array.from(items).forEach(item => {
-        if (item.type.startsWith('image/')) {
+        if (item.type === 'image/svg+xml') {
+          item.getAsFile()?.text().then(markup => this.addSVGFromString(markup, 'Pasted SVG', this.getCanvasCenter()))
+        } else if (item.type.startsWith('image/')) {
           const file = item.getAsFile()
           if (file) {
             const reader = new FileReader()
@@ -297,87 +589,43 @@ export class DesignManager {
   public async pasteObject(clipboardData: any) {
     if (!this.canvas || !clipboardData) return;
 
-    // Handle different object types
-    let newObject: fabric.Object | null = null;
-
-    const clipboardObject: any = {
-      ...clipboardData,
-      borderScaleFactor: 2.5,
-      cornerStrokeColor: '#3b82f6',
-      borderColor: '#3b82f6',
-    }
-
     try {
-      switch (clipboardObject.type) {
-        case 'Rect':
-          newObject = new fabric.Rect(clipboardObject);
-          break;
-        case 'Circle':
-          newObject = new fabric.Circle(clipboardObject);
-          break;
-        case 'IText':
-          newObject = new fabric.IText(clipboardObject.text, clipboardObject);
-          break;
-        case 'Image':
-          // Handle image paste asynchronously
-          fabric.Image.fromURL(clipboardObject.src, {
-            crossOrigin: 'anonymous'
-          }).then((img: fabric.Image) => {
-            img.set({
-              ...clipboardObject,
-              left: (clipboardObject.left || 0) + 20,
-              top: (clipboardObject.top || 0) + 20
-            });
-            img.originalSrc = clipboardObject.originalSrc || clipboardObject.src
-            this.canvas!.add(img);
-            this.canvas!.setActiveObject(img);
-
-            // Ensure base layer stays at bottom
-            if (this.baseLayer) {
-              this.canvas!.sendObjectToBack(this.baseLayer);
-            }
+      // Revive through the class registry, so every object type keeps its
+      // gradients, patterns and other enlivened properties
+      const [newObject] = await fabric.util.enlivenObjects<fabric.FabricObject>([clipboardData]);
+      if (!this.canvas || !newObject) return;
 
-            this.canvas!.renderAll();
-
-            // Add to layers
-            this.addLayer({
-              name: `${clipboardObject.type} Copy`,
-              object: img,
-              visible: true,
-              locked: false
-            });
-          });
-          return;
-        default:
-          console.warn('Unknown object type for paste:', clipboardObject.type);
-          return;
-      }
-
-      if (newObject) {
+      newObject.set({
+        borderScaleFactor: 2.5,
+        cornerStrokeColor: '#3b82f6',
+        borderColor: '#3b82f6',
         // Offset the pasted object
-        newObject.set({
-          left: (clipboardObject.left || 0) + 20,
-          top: (clipboardObject.top || 0) + 20
-        });
+        left: (clipboardData.left || 0) + 20,
+        top: (clipboardData.top || 0) + 20
+      });
+      if (newObject instanceof fabric.FabricImage) {
+        newObject.originalSrc = clipboardData.originalSrc || clipboardData.src
+        // Filters are rebuilt from the copied adjustment stack, which is the source of truth
+        applyImageAdjustments(newObject, getImageAdjustments(newObject))
+      }
 
-        this.canvas.add(newObject);
-        this.canvas.setActiveObject(newObject);
+      this.canvas.add(newObject);
+      this.canvas.setActiveObject(newObject);
 
-        // Ensure base layer stays at bottom
-        if (this.baseLayer) {
-          this.canvas.sendObjectToBack(this.baseLayer);
-        }
+      // Ensure base layer stays at bottom
+      if (this.baseLayer) {
+        this.canvas.sendObjectToBack(this.baseLayer);
+      }
 
-        this.canvas.renderAll();
+      this.canvas.renderAll();
 
-        // Add to layers
-        this.addLayer({
-          name: `${clipboardObject.type} Copy`,
-          object: newObject,
-          visible: true,
-          locked: false
-        });
-      }
+      // Add to layers
+      this.addLayer({
+        name: `${clipboardData.type} Copy`,
+        object: newObject,
+        visible: true,
+        locked: false
+      });
     } catch (error) {
       console.error('Error pasting object:', error);
     }
@@ -408,6 +656,25 @@ export class DesignManager {
     })
   }
 
+  /**
+   * Free drawing is on while the pen tool is selected, with a brush built from the brush settings.
+   * The bezier pen places nodes on top of objects rather than selecting them.
+   */
+  private updateDrawingMode() {
+    if (!this.canvas) return
+
+    const isDrawingMode = this.selectedTool === 'pen'
+    this.canvas.isDrawingMode = isDrawingMode
+    if (isDrawingMode) {
+      this.canvas.freeDrawingBrush = createBrush(this.canvas, this.brushSettings)
+      this.canvas.freeDrawingCursor = 'crosshair'
+    }
+
+    const isBezier = this.selectedTool === 'bezier'
+    this.canvas.skipTargetFind = isBezier
+    this.canvas.selection = !isBezier
+  }
+
   private updateCursor = () => {
     if (!this.canvas) return
 
@@ -497,8 +764,13 @@ export class DesignManager {
         return
       }
 
-      // Start drawing for rectangle, circle, and image
-      if (this.selectedTool === 'rectangle' || this.selectedTool === 'circle' || this.selectedTool === 'image') {
+      if (this.selectedTool === 'bezier') {
+        this.penTool?.onMouseDown(pointer)
+        return
+      }
+
+      // Start drawing for shapes, lines and image
+      if (DRAG_TO_CREATE_TOOLS.includes(this.selectedTool)) {
         this.startDrawing(pointer)
         return
       }
@@ -506,6 +778,10 @@ export class DesignManager {
   }
 
   private handleMouseMove = (opt: fabric.TEvent) => {
+    if (this.canvas && this.selectedTool === 'bezier') {
+      this.penTool?.onMouseMove(this.canvas.getScenePoint(opt.e))
+      return
+    }
     if (!this.canvas || !this.isDrawingObject || !this.drawingStartPoint) return
 
     opt.e.preventDefault()
@@ -514,6 +790,10 @@ export class DesignManager {
   }
 
   private handleMouseUp = (opt: fabric.TEvent) => {
+    if (this.selectedTool === 'bezier') {
+      this.penTool?.onMouseUp()
+      return
+    }
     if (!this.canvas || !this.isDrawingObject) return
 
     opt.e.preventDefault()
@@ -521,6 +801,30 @@ export class DesignManager {
     this.finishDrawing(pointer)
   }
 
+  /**
+   * Double-click finishes a bezier path, or with the select tool enters node editing
+   * on a path and inserts nodes on the path being edited
+   */
+  private handleDoubleClick = (opt: fabric.TPointerEventInfo) => {
+    if (!this.canvas || !this.nodeEditor) return
+
+    if (this.selectedTool === 'bezier') {
+      this.penTool?.finish()
+      return
+    }
+    if (this.selectedTool !== 'select') return
+
+    const target = opt.target
+    if (target && target === this.nodeEditor.path) {
+      this.nodeEditor.insertNodeAt(this.canvas.getScenePoint(opt.e))
+      return
+    }
+    const layer = this.layers.find(l => l.object === target)
+    if (target instanceof fabric.Path && layer && !layer.locked) {
+      this.nodeEditor.enter(target)
+    }
+  }
+
   private handleObjectMoving = (opt: { target?: fabric.Object }) => {
     const obj = opt.target
     if (!obj || !this.canvas) return
@@ -532,6 +836,40 @@ export class DesignManager {
     }
   }
 
+  private handlePathCreated = ({ path }: { path: fabric.FabricObject }) => {
+    path.set(controlOptions)
+    this.addLayer({
+      name: `${BRUSH_LABELS[this.brushSettings.type]} stroke`,
+      object: path,
+      visible: true,
+      locked: false
+    })
+  }
+
+  private handlePenPathComplete = (commands: fabric.TSimplePathData, closed: boolean) => {
+    if (!this.canvas) return
+
+    const path = new fabric.Path(commands, {
+      fill: closed ? this.fillColor : 'transparent',
+      ...(closed ? { stroke: this.strokeColor, strokeWidth: this.strokeWidth } : this.getVisibleStroke()),
+      opacity: this.opacity,
+    })
+    path.set(controlOptions)
+
+    this.recordStep('Draw path', () => {
+      this.canvas!.add(path)
+      this.addLayer({ name: 'Path', object: path, visible: true, locked: false })
+    })
+    this.canvas.setActiveObject(path)
+
+    // Unless the path was finished by switching to another tool
+    if (this.selectedTool === 'bezier') {
+      this.selectedTool = 'select'
+      this.canvas.fire('tool_change', { tool: this.selectedTool })
+      this.updateCursor()
+    }
+  }
+
   // --- Drawing Methods ---
   private startDrawing = (point: { x: number; y: number }) => {
     this.isDrawingObject = true
@@ -566,9 +904,36 @@ export class DesignManager {
     const finalWidth = Math.max(width, minSize)
     const finalHeight = Math.max(height, minSize)
 
+    const previewProps = {
+      fill: 'transparent',
+      stroke: '#3b82f6',
+      strokeWidth: 1,
+      strokeDashArray: [4, 4],
+      selectable: false,
+      evented: false,
+      opacity: 0.8,
+      isDrawingPreview: true,
+    }
+
     let previewObject: fabric.Object
 
-    if (this.selectedTool === 'rectangle') {
+    if (this.selectedTool === 'line' || this.selectedTool === 'arrow') {
+      const points: [number, number, number, number] = [startPoint.x, startPoint.y, endPoint.x, endPoint.y]
+      previewObject = this.selectedTool === 'arrow'
+        ? new Arrow(points, {
+          ...previewProps,
+          startHead: this.shapeSettings.startHead,
+          endHead: this.shapeSettings.endHead,
+          headSize: this.shapeSettings.headSize,
+        })
+        : new fabric.Line(points, previewProps)
+    } else if (this.selectedTool === 'triangle') {
+      previewObject = new fabric.Triangle({ left, top, width: finalWidth, height: finalHeight, ...previewProps })
+    } else if (this.selectedTool === 'polygon' || this.selectedTool === 'star') {
+      const { sides, numPoints, innerRadius } = this.shapeSettings
+      const params = this.selectedTool === 'star' ? { numPoints, innerRadius } : { sides }
+      previewObject = this.createPolygonShape({ x: left, y: top }, finalWidth, finalHeight, previewProps, params)
+    } else if (this.selectedTool === 'rectangle') {
       previewObject = new fabric.Rect({
         left,
         top,
@@ -659,7 +1024,9 @@ export class DesignManager {
 
     // Only create object if minimum size is met
     const minSize = 10
-    if (width >= minSize && height >= minSize) {
+    const isLine = LINE_TOOLS.includes(this.selectedTool)
+    const length = Math.hypot(endPoint.x - this.drawingStartPoint.x, endPoint.y - this.drawingStartPoint.y)
+    if (isLine ? length >= minSize : width >= minSize && height >= minSize) {
       const props = {
         fill: this.fillColor,
         stroke: this.strokeColor,
@@ -667,7 +1034,17 @@ export class DesignManager {
         opacity: this.opacity,
       }
 
-      if (this.selectedTool === 'rectangle') {
+      if (this.selectedTool === 'line') {
+        this.addLine(this.drawingStartPoint, endPoint, props)
+      } else if (this.selectedTool === 'arrow') {
+        this.addArrow(this.drawingStartPoint, endPoint, props)
+      } else if (this.selectedTool === 'triangle') {
+        this.addTriangleWithDimensions({ x: left, y: top }, width, height, props)
+      } else if (this.selectedTool === 'polygon') {
+        this.addPolygonWithDimensions({ x: left, y: top }, width, height, props)
+      } else if (this.selectedTool === 'star') {
+        this.addStarWithDimensions({ x: left, y: top }, width, height, props)
+      } else if (this.selectedTool === 'rectangle') {
         this.addRectangleWithDimensions({ x: left, y: top }, width, height, props)
       } else if (this.selectedTool === 'circle') {
         const radius = Math.min(width, height) / 2
@@ -818,6 +1195,7 @@ export class DesignManager {
       }
 
       this.canvas?.renderAll()
+      this.saveState({ coalesce: true })
       this.notify()
     }
   }
@@ -892,6 +1270,8 @@ export class DesignManager {
       this.canvas.sendObjectToBack(this.baseLayer)
     }
 
+    // The object was added to the canvas before it had a layerId, so record it now
+    this.saveState()
     this.notify()
     return newLayer
   }
@@ -1033,6 +1413,123 @@ export class DesignManager {
     this.addLayer({ name: 'Circle', object: circle, visible: true, locked: false })
   }
 
+  public addLine(start: { x: number; y: number }, end: { x: number; y: number }, props: ShapeProps) {
+    const line = new fabric.Line([start.x, start.y, end.x, end.y], {
+      ...this.getVisibleStroke(props.stroke, props.strokeWidth),
+      opacity: props.opacity,
+    })
+    this.addShape(line, 'Line')
+  }
+
+  public addArrow(
+    start: { x: number; y: number },
+    end: { x: number; y: number },
+    props: ShapeProps,
+    heads: Partial<Pick<ShapeSettings, 'startHead' | 'endHead' | 'headSize'>> = {}
+  ) {
+    const arrow = new Arrow([start.x, start.y, end.x, end.y], {
+      ...this.getVisibleStroke(props.stroke, props.strokeWidth),
+      opacity: props.opacity,
+      startHead: heads.startHead ?? this.shapeSettings.startHead,
+      endHead: heads.endHead ?? this.shapeSettings.endHead,
+      headSize: heads.headSize ?? this.shapeSettings.headSize,
+    })
+    this.addShape(arrow, 'Arrow')
+  }
+
+  public addTriangleWithDimensions(pos: { x: number; y: number }, width: number, height: number, props: ShapeProps) {
+    const triangle = new fabric.Triangle({ left: pos.x, top: pos.y, width, height, ...props })
+    this.addShape(triangle, 'Triangle')
+  }
+
+  public addPolygonWithDimensions(
+    pos: { x: number; y: number },
+    width: number,
+    height: number,
+    props: ShapeProps,
+    sides = this.shapeSettings.sides
+  ) {
+    const polygon = this.createPolygonShape(pos, width, height, props, { sides })
+    this.addShape(polygon, 'Polygon')
+  }
+
+  public addStarWithDimensions(
+    pos: { x: number; y: number },
+    width: number,
+    height: number,
+    props: ShapeProps,
+    star: Partial<Pick<ShapeSettings, 'numPoints' | 'innerRadius'>> = {}
+  ) {
+    const shape = this.createPolygonShape(pos, width, height, props, {
+      numPoints: star.numPoints ?? this.shapeSettings.numPoints,
+      innerRadius: star.innerRadius ?? this.shapeSettings.innerRadius,
+    })
+    this.addShape(shape, 'Star')
+  }
+
+  /**
+   * Polygon or star spanning the given box; a star if star parameters are given,
+   * otherwise a polygon with the current number of sides
+   */
+  private createPolygonShape(
+    pos: { x: number; y: number },
+    width: number,
+    height: number,
+    options: Partial<fabric.FabricObjectProps>,
+    params: Partial<Pick<ShapeSettings, 'sides' | 'numPoints' | 'innerRadius'>>
+  ) {
+    if (params.numPoints !== undefined) {
+      const numPoints = params.numPoints
+      const innerRadius = params.innerRadius ?? this.shapeSettings.innerRadius
+      return new Star(fitPointsToBox(starPoints(numPoints, innerRadius), width, height), {
+        ...options,
+        left: pos.x,
+        top: pos.y,
+        numPoints,
+        innerRadius,
+      })
+    }
+    const sides = params.sides ?? this.shapeSettings.sides
+    return new RegularPolygon(fitPointsToBox(regularPolygonPoints(sides), width, height), {
+      ...options,
+      left: pos.x,
+      top: pos.y,
+      sides,
+    })
+  }
+
+  /**
+   * Stroke for objects that are nothing but a stroke, like lines and open paths:
+   * falls back to a thin black one when the given stroke wouldn't show
+   */
+  private getVisibleStroke(stroke = this.strokeColor, strokeWidth = this.strokeWidth) {
+    const hasStroke = stroke !== 'transparent' && strokeWidth > 0
+    return hasStroke ? { stroke, strokeWidth } : { stroke: '#000000', strokeWidth: 2 }
+  }
+
+  private addShape(object: fabric.FabricObject, name: string) {
+    if (!this.canvas) return
+    object.set({
+      cornerColor: '#ffffff',
+      cornerStrokeColor: '#3b82f6',
+      borderColor: '#3b82f6',
+      cornerSize: 8,
+      transparentCorners: false,
+      cornerStyle: 'rect',
+      borderScaleFactor: 2,
+    })
+    this.canvas.add(object)
+    this.canvas.setActiveObject(object)
+
+    // Ensure base layer stays at bottom
+    if (this.baseLayer) {
+      this.canvas.sendObjectToBack(this.baseLayer)
+    }
+
+    this.canvas.renderAll()
+    this.addLayer({ name, object, visible: true, locked: false })
+  }
+
   public addText(
     pos: { x: number; y: number },
     props: {
@@ -1175,91 +1672,952 @@ export class DesignManager {
     })
   }
 
-  public replaceImage(dataUrl: string) {
+  /**
+   * Parse SVG markup into editable fabric shapes and add them as one group layer.
+   * Without `size` the result is centered on `position` and scaled down to a
+   * reasonable size; with it, the result fits the box whose corner is `position`.
+   */
+  public async addSVGFromString(
+    markup: string,
+    name: string,
+    position?: { x: number; y: number },
+    size?: { width: number; height: number }
+  ) {
     if (!this.canvas) return
 
-    const activeObject = this.canvas.getActiveObject()
-    if (!activeObject || activeObject.type !== 'image') {
+    let parsed: fabric.FabricObject | fabric.Group
+    try {
+      const { objects, options } = await fabric.loadSVGFromString(sanitizeSvg(markup), (element, object) => {
+        // Keep element ids as layer names once the group is split up
+        const id = element.getAttribute('id')
+        if (id) object.name = id
+      })
+      const shapes = objects.filter((object): object is fabric.FabricObject => !!object)
+      if (shapes.length === 0) {
+        throw new Error('The SVG has no shapes that can be edited')
+      }
+      parsed = fabric.util.groupSVGElements(shapes, options)
+    } catch (error) {
+      console.error('Failed to import SVG:', error)
+      toast.error(`Could not import ${name}`, {
+        description: error instanceof Error ? error.message : undefined
+      })
       return
     }
 
-    const oldImage = activeObject as fabric.Image
-    const originalSrc = oldImage.originalSrc || oldImage.getSrc()
+    if (!this.canvas) return
 
-    fabric.Image.fromURL(dataUrl, {
-      crossOrigin: 'anonymous'
-    }).then((newImage: fabric.Image) => {
-      if (!this.canvas) return
-      newImage.set({
-        left: oldImage.left,
-        top: oldImage.top,
-        angle: oldImage.angle,
-        scaleX: oldImage.scaleX,
-        scaleY: oldImage.scaleY,
-        cornerColor: '#ffffff',
-        cornerStrokeColor: '#3b82f6',
-        borderColor: '#3b82f6',
-        cornerSize: 8,
-        transparentCorners: false,
-        cornerStyle: 'rect',
-        borderScaleFactor: 2,
-      })
-      newImage.originalSrc = originalSrc
+    const { width, height } = parsed.getBoundingRect()
+    const maxWidth = size?.width ?? 300
+    const maxHeight = size?.height ?? 300
+    const scale = size ? Math.min(maxWidth / width, maxHeight / height) : Math.min(maxWidth / width, maxHeight / height, 1)
+    const pos = position || this.getCanvasCenter()
 
-      this.canvas.remove(oldImage)
-      this.canvas.add(newImage)
-      this.canvas.setActiveObject(newImage)
+    parsed.set({
+      left: size ? pos.x : pos.x - (width * scale) / 2,
+      top: size ? pos.y : pos.y - (height * scale) / 2,
+      scaleX: (parsed.scaleX ?? 1) * scale,
+      scaleY: (parsed.scaleY ?? 1) * scale,
+      ...controlOptions,
+    })
+    parsed.setCoords()
 
-      const layer = this.layers.find(l => l.object === oldImage)
-      if (layer) {
-        layer.object = newImage
-        newImage.layerId = layer.id // Ensure the new object has the same layerId
+    this.recordStep(`Import ${name}`, () => {
+      this.canvas!.add(parsed)
+      this.canvas!.setActiveObject(parsed)
+
+      // Ensure base layer stays at bottom
+      if (this.baseLayer) {
+        this.canvas!.sendObjectToBack(this.baseLayer)
       }
 
-      this.canvas.renderAll()
-      this.saveState()
+      this.canvas!.renderAll()
+      this.addLayer({ name: name.replace(/\.svg$/i, '') || 'SVG', object: parsed, visible: true, locked: false })
     })
   }
 
-  private triggerImageUpload(position: { x: number; y: number }) {
-    // Create file input for image upload
-    const input = document.createElement('input')
-    input.type = 'file'
-    input.accept = 'image/*'
-    input.multiple = false
-
-    input.onchange = (e) => {
-      const files = (e.target as HTMLInputElement).files
-      if (files && files[0]) {
-        const file = files[0]
-        if (file.type.startsWith('image/')) {
-          const reader = new FileReader()
-          reader.onload = (e) => {
-            const result = e.target?.result as string
-            if (result) {
-              this.addImageFromDataURL(result, file.name, position)
-            }
-          }
-          reader.readAsDataURL(file)
+  /**
+   * Split a group layer into one layer per shape, keeping their look and stacking position
+   */
+  public ungroupLayer = (layerId: string) => {
+    const layer = this.layers.find(l => l.id === layerId)
+    if (!this.canvas || !layer || !(layer.object instanceof fabric.Group)) return
+
+    const group = layer.object
+    this.recordStep(`Ungroup ${layer.name}`, () => {
+      const canvas = this.canvas!
+      canvas.discardActiveObject()
+
+      // Children take over the group's transform as they leave it
+      const objects = group.removeAll()
+      canvas.remove(group)
+
+      const childLayers: CanvasLayer[] = objects.map((object, index) => {
+        const id = uuidv4()
+        object.layerId = id
+        object.set({ ...controlOptions, selectable: !layer.locked, evented: !layer.locked })
+        // Children also take over how the group was faded and blended
+        object.set('opacity', object.opacity * group.opacity)
+        if (getBlendMode(object) === 'normal') {
+          object.set('globalCompositeOperation', group.globalCompositeOperation)
         }
+        if (!layer.visible) object.set('visible', false)
+        canvas.add(object)
+        const typeName = object.type.charAt(0).toUpperCase() + object.type.slice(1)
+        return { id, name: object.name || `${typeName} ${index + 1}`, object, visible: layer.visible, locked: layer.locked }
+      })
+
+      const groupIndex = this.layers.indexOf(layer)
+      this.layers = [...this.layers.slice(0, groupIndex), ...childLayers, ...this.layers.slice(groupIndex + 1)]
+      this.updateCanvasObjectOrder()
+
+      if (!layer.locked) {
+        canvas.setActiveObject(new fabric.ActiveSelection(objects, { canvas }))
       }
-    }
+      this.selectedLayerId = childLayers[0]?.id ?? null
+      canvas.renderAll()
 
-    input.click()
+      // Record the new layer ids together with the canvas changes
+      this.saveState()
+      this.notify()
+    })
   }
 
-  private triggerImageUploadWithDimensions(position: { x: number; y: number }, width: number, height: number) {
-    // Create file input for image upload
-    const input = document.createElement('input')
-    input.type = 'file'
-    input.accept = 'image/*'
-    input.multiple = false
+  // --- Boolean Operations ---
 
-    input.onchange = (e) => {
+  /**
+   * Selected, unlocked layers a boolean operation can combine, from the bottom of the stack up
+   */
+  private getBooleanOperands() {
+    const selected = this.canvas?.getActiveObjects() ?? []
+    return this.layers.filter(layer => !layer.locked && selected.includes(layer.object) && isBooleanOperand(layer.object))
+  }
+
+  public canCombineSelection = () => this.getBooleanOperands().length >= 2
+
+  /**
+   * Combine the selected shapes into one layer, placed where the topmost of them was.
+   * The result is a path, or with `keepOriginals` a compound shape that can be
+   * ungrouped to edit the shapes again.
+   */
+  public applyBooleanOperation = (operation: BooleanOperation, { keepOriginals }: BooleanOptions) => {
+    if (!this.canvas) return false
+
+    const operands = this.getBooleanOperands()
+    if (operands.length < 2) {
+      toast.error('Select at least two shapes to combine')
+      return false
+    }
+
+    const canvas = this.canvas
+    // Leaving the active selection puts the shapes back in canvas coordinates
+    canvas.discardActiveObject()
+    const objects = operands.map(layer => layer.object)
+
+    const region = combineRegions(operation, objects.map(object => getObjectRegion(object)))
+    if (region.length === 0) {
+      toast.error('Nothing is left of the shapes', {
+        description: `${BOOLEAN_OPERATION_LABELS[operation]} of these shapes is empty`
+      })
+      return false
+    }
+
+    // The result takes the look of the bottom shape
+    const [bottom] = objects
+    const style = {
+      fill: bottom.fill,
+      stroke: bottom.stroke,
+      strokeWidth: bottom.strokeWidth,
+      strokeDashArray: bottom.strokeDashArray,
+      opacity: bottom.opacity,
+    }
+
+    const label = BOOLEAN_OPERATION_LABELS[operation]
+    this.recordStep(label, () => {
+      objects.forEach(object => canvas.remove(object))
+
+      let result: fabric.FabricObject
+      if (keepOriginals) {
+        // Layer names come back when the compound shape is ungrouped
+        operands.forEach(layer => layer.object.set('name', layer.name))
+        result = new CompoundShape(objects, { ...style, operation })
+      } else {
+        result = new fabric.Path(regionToPathData(region), { ...style, fillRule: 'evenodd' })
+      }
+      result.set(controlOptions)
+
+      const id = uuidv4()
+      result.layerId = id
+      canvas.add(result)
+
+      const topIndex = this.layers.indexOf(operands[operands.length - 1])
+      const layer: CanvasLayer = { id, name: label, object: result, visible: true, locked: false }
+      this.layers = [
+        ...this.layers.slice(0, topIndex + 1).filter(l => !operands.includes(l)),
+        layer,
+        ...this.layers.slice(topIndex + 1),
+      ]
+      this.updateCanvasObjectOrder()
+
+      canvas.setActiveObject(result)
+      this.selectedLayerId = id
+      canvas.renderAll()
+
+      // Record the new layer together with the canvas changes
+      this.saveState()
+      this.notify()
+    })
+    return true
+  }
+
+  /**
+   * Switch the operation of the selected compound shape
+   */
+  public setCompoundOperation = (operation: BooleanOperation) => {
+    const object = this.canvas?.getActiveObject()
+    if (!(object instanceof CompoundShape) || object.operation === operation) return
+
+    object.set('operation', operation)
+    this.canvas!.requestRenderAll()
+    this.saveState()
+    this.notify()
+  }
+
+  /**
+   * Replace the selected compound shape with its result path, dropping the original shapes
+   */
+  public flattenCompoundShape = () => {
+    const object = this.canvas?.getActiveObject()
+    const layer = this.layers.find(l => l.object === object)
+    if (!this.canvas || !(object instanceof CompoundShape) || !layer || layer.locked) return
+
+    const commands = regionToPathData(getObjectRegion(object))
+    if (commands.length === 0) return
+
+    const canvas = this.canvas
+    this.recordStep(`Flatten ${layer.name}`, () => {
+      const path = new fabric.Path(commands, {
+        fill: object.fill,
+        stroke: object.stroke,
+        opacity: object.opacity,
+        globalCompositeOperation: object.globalCompositeOperation,
+        fillRule: 'evenodd',
+      })
+      path.set(toStrokeProps(path, getStrokeOptions(object)))
+      path.set(controlOptions)
+      path.layerId = layer.id
+
+      canvas.discardActiveObject()
+      canvas.remove(object)
+      canvas.add(path)
+      layer.object = path
+      this.updateCanvasObjectOrder()
+      canvas.setActiveObject(path)
+      canvas.renderAll()
+
+      this.saveState()
+      this.notify()
+    })
+  }
+
+  // --- Fills ---
+
+  /**
+   * The selected object, if its fill can be a gradient or pattern. Images,
+   * lines and plain groups don't paint their fill.
+   */
+  public getFillTarget = () => {
+    const object = this.canvas?.getActiveObject()
+    const layer = this.layers.find(l => l.object === object)
+    if (!object || !layer || layer.locked) return null
+    if (object instanceof fabric.FabricImage || object instanceof fabric.Line) return null
+    if (object instanceof fabric.Group && !(object instanceof CompoundShape)) return null
+    return object
+  }
+
+  public getFillType = (): FillType | null => {
+    const fill = this.getFillTarget()?.fill
+    if (isGradient(fill)) return getGradientKind(fill)
+    if (isPattern(fill)) return fill instanceof FillPattern && fill.generator ? 'pattern' : 'image'
+    return fill === undefined ? null : 'solid'
+  }
+
+  /**
+   * Solid color to start a gradient or pattern from, or to go back to
+   */
+  private getFillColor(fill: fabric.FabricObject['fill']) {
+    if (typeof fill === 'string' && fill) return fill
+    if (isGradient(fill)) return getGradientStops(fill)[0]?.color ?? this.fillColor
+    if (fill instanceof FillPattern && fill.generator) return fill.generator.color
+    return this.fillColor
+  }
+
+  /**
+   * Fill the selected object with a gradient of `kind`. An existing gradient
+   * keeps its stops and angle; a solid color becomes the start of a fade.
+   */
+  public setGradientFill = (kind: GradientKind, options: Partial<GradientOptions> = {}) => {
+    const object = this.getFillTarget()
+    if (!this.canvas || !object) return false
+
+    const current = object.fill
+    object.set('fill', createGradient(kind, object, {
+      stops: options.stops ?? (isGradient(current) ? getGradientStops(current) : getDefaultStops(this.getFillColor(current))),
+      angle: options.angle ?? (isGradient(current) ? getGradientAngle(current) : 0),
+    }))
+    this.canvas.requestRenderAll()
+    this.saveState({ label: `${GRADIENT_KIND_LABELS[kind]} gradient fill` })
+    this.notify()
+    return true
+  }
+
+  /**
+   * Change the stops or angle of the selected object's gradient, keeping where it is
+   */
+  public updateGradientFill = ({ stops, angle }: Partial<GradientOptions>) => {
+    const object = this.getFillTarget()
+    if (!this.canvas || !object || !isGradient(object.fill)) return false
+
+    let gradient: Gradient = object.fill
+    if (stops) gradient = setGradientStops(gradient, stops)
+    if (angle !== undefined && angle !== getGradientAngle(gradient)) gradient = setGradientAngle(gradient, angle)
+    object.set('fill', gradient)
+    this.canvas.requestRenderAll()
+    // Slider drags and color picking arrive as many small changes
+    this.saveState({ coalesce: true })
+    this.notify()
+    return true
+  }
+
+  /**
+   * Fill the selected object with a built-in pattern, or change the tile of the one it has
+   */
+  public setProceduralPatternFill = (settings: Partial<Omit<ProceduralPatternSettings, 'seed'>> = {}) => {
+    const object = this.getFillTarget()
+    if (!this.canvas || !object) return false
+
+    const current = object.fill
+    if (current instanceof FillPattern && current.generator) {
+      object.set('fill', createProceduralPattern(settings, current))
+      this.saveState({ coalesce: true })
+    } else {
+      object.set('fill', createProceduralPattern({ color: this.getFillColor(current), ...settings }))
+      this.saveState({ label: 'Pattern fill' })
+    }
+    this.canvas.requestRenderAll()
+    this.notify()
+    return true
+  }
+
+  /**
+   * Fill the selected object with an image, scaled to cover it
+   */
+  public setImagePatternFill = async (dataUrl: string) => {
+    const object = this.getFillTarget()
+    if (!this.canvas || !object) return false
+
+    try {
+      const image = await fabric.util.loadImage(dataUrl, { crossOrigin: 'anonymous' })
+      object.set('fill', createImagePattern(image, object))
+    } catch (error) {
+      console.error('Error loading fill image:', error)
+      toast.error('Could not load the image')
+      return false
+    }
+    this.canvas.requestRenderAll()
+    this.saveState({ label: 'Image fill' })
+    this.notify()
+    return true
+  }
+
+  /**
+   * Ask for an image file and fill the selected object with it
+   */
+  public chooseImagePatternFill = () => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = 'image/*'
+
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0]
+      if (!file || !file.type.startsWith('image/')) return
+
+      const reader = new FileReader()
+      reader.onload = (event) => {
+        const result = event.target?.result as string
+        if (result) this.setImagePatternFill(result)
+      }
+      reader.readAsDataURL(file)
+    }
+
+    input.click()
+  }
+
+  /**
+   * Move, scale, turn or change the repeat of the selected object's image or pattern fill
+   */
+  public updatePatternFill = (placement: Partial<PatternPlacement>) => {
+    const object = this.getFillTarget()
+    if (!this.canvas || !object || !isPattern(object.fill)) return false
+
+    object.set('fill', copyPattern(object.fill, placement))
+    this.canvas.requestRenderAll()
+    this.saveState({ coalesce: true })
+    this.notify()
+    return true
+  }
+
+  /**
+   * Replace the selected object's gradient or pattern with a solid color, by
+   * default the main color it had
+   */
+  public setSolidFill = (color?: string) => {
+    const object = this.getFillTarget()
+    if (!this.canvas || !object || typeof object.fill === 'string') return false
+
+    this.gradientEditor?.exit()
+    object.set('fill', color ?? this.getFillColor(object.fill))
+    this.canvas.requestRenderAll()
+    this.saveState({ label: 'Solid fill' })
+    this.notify()
+    return true
+  }
+
+  public editGradient = () => {
+    const object = this.getFillTarget()
+    if (!object || !isGradient(object.fill)) return
+    this.nodeEditor?.exit()
+    this.gradientEditor?.enter(object)
+  }
+
+  public exitGradientEditing = () => {
+    this.gradientEditor?.exit()
+  }
+
+  // --- Strokes ---
+
+  /**
+   * The selected object, if it paints a stroke. Images and plain groups don't.
+   */
+  public getStrokeTarget = () => {
+    const object = this.canvas?.getActiveObject()
+    const layer = this.layers.find(l => l.object === object)
+    if (!object || !layer || layer.locked) return null
+    if (object instanceof fabric.FabricImage) return null
+    if (object instanceof fabric.Group && !(object instanceof CompoundShape)) return null
+    return object
+  }
+
+  public getSelectedStrokeOptions = (): StrokeOptions | null => {
+    const object = this.getStrokeTarget()
+    return object ? getStrokeOptions(object) : null
+  }
+
+  public setStrokeOptions = (changes: Partial<StrokeOptions>) => {
+    const object = this.getStrokeTarget()
+    if (!this.canvas || !object) return false
+
+    object.set(toStrokeProps(object, changeStrokeOptions(getStrokeOptions(object), changes)))
+    object.setCoords()
+    this.canvas.requestRenderAll()
+    this.saveState({ coalesce: true })
+    this.notify()
+    return true
+  }
+
+  /**
+   * Change the heads of the selected arrow, or turn the selected line into an arrow
+   */
+  public setArrowHeads = async (heads: Partial<Pick<ShapeSettings, 'startHead' | 'endHead'>>) => {
+    const object = this.canvas?.getActiveObject()
+    const layer = this.layers.find(l => l.object === object)
+    if (!this.canvas || !layer || layer.locked) return false
+    if (object instanceof Arrow) return this.updateShapeParameters(heads)
+    if (!(object instanceof fabric.Line)) return false
+
+    const arrow = await Arrow.fromObject({
+      ...layer.object.toObject(SERIALIZED_OBJECT_PROPERTIES),
+      startHead: 'none',
+      endHead: 'none',
+      headSize: this.shapeSettings.headSize,
+      ...heads,
+    })
+    if (!this.canvas || layer.object !== object) return false
+
+    const canvas = this.canvas
+    this.recordStep(`Add arrowheads to ${layer.name}`, () => {
+      arrow.set(controlOptions)
+      arrow.layerId = layer.id
+
+      canvas.discardActiveObject()
+      canvas.remove(object)
+      canvas.add(arrow)
+      layer.object = arrow
+      this.updateCanvasObjectOrder()
+      canvas.setActiveObject(arrow)
+      canvas.renderAll()
+
+      this.saveState()
+      this.notify()
+    })
+    return true
+  }
+
+  // --- Blending ---
+
+  /**
+   * Unlocked objects in the selection that blend mode and opacity changes apply to
+   */
+  private getSelectedBlendTargets = () => {
+    const object = this.canvas?.getActiveObject()
+    if (!object) return []
+    return getBlendTargets(object).filter(target => this.layers.some(l => l.object === target && !l.locked))
+  }
+
+  public getSelectedBlendMode = (): BlendMode | null => {
+    const [object] = this.getSelectedBlendTargets()
+    return object ? getBlendMode(object) : null
+  }
+
+  public getSelectedOpacity = (): number | null => {
+    const [object] = this.getSelectedBlendTargets()
+    return object ? object.opacity : null
+  }
+
+  /**
+   * Blend the selected objects with what is below them. A group blends as a
+   * whole, after its children are drawn together.
+   */
+  public setBlendMode = (mode: BlendMode) => {
+    const objects = this.getSelectedBlendTargets()
+    if (!this.canvas || objects.length === 0) return false
+
+    objects.forEach(object => object.set('globalCompositeOperation', toCompositeOperation(mode)))
+    this.canvas.requestRenderAll()
+    this.saveState()
+    this.notify()
+    return true
+  }
+
+  /**
+   * Opacity of the selected objects. A group fades as a whole, so its
+   * overlapping children don't show through each other.
+   */
+  public setObjectOpacity = (opacity: number) => {
+    const objects = this.getSelectedBlendTargets()
+    if (!this.canvas || objects.length === 0) return false
+
+    objects.forEach(object => object.set('opacity', opacity))
+    this.canvas.requestRenderAll()
+    // Slider drags arrive as many small changes; coalesce them into one step
+    this.saveState({ coalesce: true })
+    this.notify()
+    return true
+  }
+
+  // --- Styles ---
+
+  public getStyle = (styleId: string) => this.styles.find(style => style.id === styleId)
+
+  /**
+   * Unlocked objects in the selection that have a `slot` to link a style to
+   */
+  private getStyleTargets = (slot: StyleSlot) => {
+    const object = this.canvas?.getActiveObject()
+    if (!object) return []
+    const objects = object instanceof fabric.ActiveSelection ? object.getObjects() : [object]
+    return objects.filter(target => supportsStyleSlot(target, slot) && this.layers.some(l => l.object === target && !l.locked))
+  }
+
+  public getSelectedStyleSlots = (): StyleSlot[] => STYLE_SLOTS.filter(slot => this.getStyleTargets(slot).length > 0)
+
+  /**
+   * Style the selection follows in `slot`, judged by its first object
+   */
+  public getSelectedStyle = (slot: StyleSlot): DocumentStyle | null => {
+    const [object] = this.getStyleTargets(slot)
+    const styleId = object && getLinkedStyleId(object, slot)
+    return (styleId && this.getStyle(styleId)) || null
+  }
+
+  private addStyleDefinition(style: DocumentStyle) {
+    this.styles = [...this.styles, style]
+  }
+
+  /**
+   * Add a style to the document without linking anything to it
+   */
+  public addStyle = (style: DocumentStyle) => {
+    this.addStyleDefinition(style)
+    this.saveState({ label: `Create style ${style.name}` })
+    this.notify()
+  }
+
+  /**
+   * New style from the color or typography the selection has in `slot`, which
+   * the selected objects are then linked to
+   */
+  public createStyleFromSelection = (slot: StyleSlot, name?: string): DocumentStyle | null => {
+    const objects = this.getStyleTargets(slot)
+    const [object] = objects
+    if (!this.canvas || !object) return null
+
+    const styleName = name?.trim() || this.getDefaultStyleName(slot)
+    let style: DocumentStyle
+    if (slot === 'text') {
+      if (!(object instanceof fabric.FabricText)) return null
+      style = createTextStyle(styleName, getTextStyleProperties(object))
+    } else {
+      const color = object[slot]
+      if (typeof color !== 'string' || !color || color === 'transparent') return null
+      style = createColorStyle(styleName, color)
+    }
+
+    this.addStyleDefinition(style)
+    objects.forEach(target => linkStyle(target, style, slot))
+    this.canvas.requestRenderAll()
+    this.saveState({ label: `Create style ${style.name}` })
+    this.notify()
+    return style
+  }
+
+  private getDefaultStyleName(slot: StyleSlot) {
+    const kind = getSlotKind(slot)
+    const count = this.styles.filter(style => style.kind === kind).length
+    return `${kind === 'text' ? 'Text style' : 'Color'} ${count + 1}`
+  }
+
+  /**
+   * Give the selection's `slot` the look of a style and keep it following the style
+   */
+  public applyStyle = (styleId: string, slot: StyleSlot) => {
+    const style = this.getStyle(styleId)
+    const objects = this.getStyleTargets(slot)
+    if (!this.canvas || !style || style.kind !== getSlotKind(slot) || objects.length === 0) return false
+
+    objects.forEach(object => linkStyle(object, style, slot))
+    this.canvas.requestRenderAll()
+    this.saveState({ label: `Apply ${style.name}` })
+    this.notify()
+    return true
+  }
+
+  /**
+   * Stop the selection's `slot` from following its style, keeping its current look
+   */
+  public detachStyle = (slot: StyleSlot) => {
+    const objects = this.getStyleTargets(slot).filter(object => getLinkedStyleId(object, slot))
+    if (!this.canvas || objects.length === 0) return false
+
+    objects.forEach(object => unlinkStyle(object, slot))
+    this.saveState({ label: `Detach ${STYLE_SLOT_LABELS[slot].toLowerCase()} style` })
+    this.notify()
+    return true
+  }
+
+  /**
+   * Change a style, updating every object linked to it in the same step
+   */
+  public updateStyle = (styleId: string, changes: StyleChanges) => {
+    const style = this.getStyle(styleId)
+    if (!style) return false
+
+    const updated = changeStyle(style, changes)
+    this.styles = this.styles.map(s => (s.id === styleId ? updated : s))
+    if (this.canvas) {
+      forEachStyleLink(this.canvas.getObjects(), (object, slot, linkedId) => {
+        if (linkedId === styleId) linkStyle(object, updated, slot)
+      })
+      this.canvas.requestRenderAll()
+    }
+    // Color picking and renaming arrive as many small changes
+    this.saveState({ label: `Edit style ${style.name}`, coalesce: true })
+    this.notify()
+    return true
+  }
+
+  /**
+   * Remove a style. Objects linked to it are detached and keep their look.
+   */
+  public deleteStyle = (styleId: string) => {
+    const style = this.getStyle(styleId)
+    if (!style) return false
+
+    this.styles = this.styles.filter(s => s.id !== styleId)
+    if (this.canvas) {
+      forEachStyleLink(this.canvas.getObjects(), (object, slot, linkedId) => {
+        if (linkedId === styleId) unlinkStyle(object, slot)
+      })
+    }
+    this.saveState({ label: `Delete style ${style.name}` })
+    this.notify()
+    return true
+  }
+
+  /**
+   * Detach objects that were edited away from their style, or whose style is
+   * gone, so later style changes leave their own look alone
+   */
+  private unlinkOverriddenStyles() {
+    if (!this.canvas) return
+    forEachStyleLink(this.canvas.getObjects(), (object, slot, styleId) => {
+      const style = this.getStyle(styleId)
+      if (!style || !matchesStyle(object, style, slot)) unlinkStyle(object, slot)
+    })
+  }
+
+  // --- Palettes ---
+
+  /**
+   * Add the colors of a palette the document has no color style for yet, as
+   * styles named after the palette. Returns the styles added.
+   */
+  public addPaletteStyles = (colors: string[], paletteName: string) => {
+    const existing = new Set(this.styles.flatMap(style => (style.kind === 'color' ? [style.color.toLowerCase()] : [])))
+    const styles = Array.from(new Set(colors.map(color => color.toLowerCase())))
+      .filter(color => !existing.has(color))
+      .map((color, index) => createColorStyle(`${paletteName} ${index + 1}`, color))
+    if (styles.length === 0) return styles
+
+    styles.forEach(style => this.addStyleDefinition(style))
+    this.saveState({ label: `Add ${paletteName} colors` })
+    this.notify()
+    return styles
+  }
+
+  public canApplyPalette = () => this.getStyleTargets('fill').length > 0
+
+  /**
+   * Fill the selected objects with the palette's colors in turn, starting over
+   * when there are more objects than colors
+   */
+  public applyPaletteToSelection = (colors: string[]) => {
+    const objects = this.getStyleTargets('fill')
+    if (!this.canvas || objects.length === 0 || colors.length === 0) return false
+
+    this.gradientEditor?.exit()
+    objects.forEach((object, index) => {
+      if (object instanceof fabric.FabricText) object.removeStyle('fill')
+      object.set('fill', colors[index % colors.length])
+      object.group?.set('dirty', true)
+    })
+    this.canvas.requestRenderAll()
+    this.saveState({ label: colors.length === 1 ? 'Fill with palette color' : 'Apply palette' })
+    this.notify()
+    return true
+  }
+
+  // --- Accessibility ---
+
+  /**
+   * WCAG contrast of every visible text against what is rendered behind it, failures first
+   */
+  public auditTextContrast = (): TextContrastResult[] => {
+    if (!this.canvas) return []
+    return auditTextContrast(this.canvas, this.layers.filter(layer => layer.visible))
+  }
+
+  /**
+   * Give a text one solid color, replacing colors set on single characters.
+   * Fails if the text was removed or its layer is locked.
+   */
+  public setTextColor = (text: fabric.FabricText, color: string) => {
+    const layer = this.layers.find(l => l.object === text || (l.object instanceof fabric.Group && l.object.contains(text, true)))
+    if (!this.canvas || !layer || layer.locked) return false
+
+    text.removeStyle('fill')
+    text.set('fill', color)
+    text.group?.set('dirty', true)
+    this.canvas.requestRenderAll()
+    this.saveState({ label: 'Fix text contrast' })
+    this.notify()
+    return true
+  }
+
+  // --- Image Adjustments ---
+
+  /**
+   * The selected image, if its layer can be edited
+   */
+  public getAdjustmentTarget = () => {
+    const object = this.canvas?.getActiveObject()
+    const layer = this.layers.find(l => l.object === object)
+    if (!(object instanceof fabric.FabricImage) || !layer || layer.locked) return null
+    return object
+  }
+
+  public getImageAdjustments = (): Adjustment[] => {
+    const image = this.getAdjustmentTarget()
+    return image ? getImageAdjustments(image) : []
+  }
+
+  /**
+   * Histogram of the selected image before its adjustments, for the curves and levels editors
+   */
+  public getImageHistogram = () => {
+    const image = this.getAdjustmentTarget()
+    return image ? getImageHistogram(image) : null
+  }
+
+  private changeImageAdjustments(change: (adjustments: Adjustment[]) => Adjustment[], options: RecordOptions) {
+    const image = this.getAdjustmentTarget()
+    if (!this.canvas || !image) return false
+
+    applyImageAdjustments(image, change(getImageAdjustments(image)))
+    this.canvas.requestRenderAll()
+    this.saveState(options)
+    this.notify()
+    return true
+  }
+
+  public addImageAdjustment = (kind: AdjustmentKind) =>
+    this.changeImageAdjustments(
+      adjustments => [...adjustments, createAdjustment(kind)],
+      { label: `Add ${ADJUSTMENT_DEFINITIONS[kind].label.toLowerCase()}` }
+    )
+
+  /**
+   * Add a LUT to the top of the selected image's adjustments
+   */
+  public addImageLut = (lut: ColorLut) => {
+    const image = this.getAdjustmentTarget()
+    if (image) addImageLutTable(image, lut)
+    return this.changeImageAdjustments(adjustments => [...adjustments, createLutAdjustment(lut)], { label: `Apply ${lut.name}` })
+  }
+
+  /**
+   * Change the value, curves or levels of an adjustment, or switch it on or off
+   */
+  public updateImageAdjustment = (id: string, changes: Partial<Pick<Adjustment, 'value' | 'enabled' | 'curves' | 'levels'>>) =>
+    this.changeImageAdjustments(
+      adjustments => adjustments.map(adjustment => (adjustment.id === id ? { ...adjustment, ...changes } : adjustment)),
+      changes.enabled !== undefined
+        ? { label: changes.enabled ? 'Show adjustment' : 'Hide adjustment' }
+        // Slider and curve point drags arrive as many small changes; coalesce them into one step
+        : { label: changes.curves ? 'Adjust curves' : changes.levels ? 'Adjust levels' : 'Adjust image', coalesce: true }
+    )
+
+  public resetImageAdjustment = (id: string) =>
+    this.changeImageAdjustments(
+      adjustments => adjustments.map(adjustment => (adjustment.id === id ? resetAdjustment(adjustment) : adjustment)),
+      { label: 'Reset adjustment' }
+    )
+
+  /**
+   * Move an adjustment to `index` in the stack. Adjustments apply first to last.
+   */
+  public moveImageAdjustment = (id: string, index: number) =>
+    this.changeImageAdjustments(adjustments => {
+      const moved = adjustments.find(adjustment => adjustment.id === id)
+      if (!moved) return adjustments
+      const rest = adjustments.filter(adjustment => adjustment !== moved)
+      return [...rest.slice(0, index), moved, ...rest.slice(index)]
+    }, { label: 'Reorder adjustments' })
+
+  public removeImageAdjustment = (id: string) =>
+    this.changeImageAdjustments(
+      adjustments => adjustments.filter(adjustment => adjustment.id !== id),
+      { label: 'Remove adjustment' }
+    )
+
+  /**
+   * Replace all of the selected image's adjustments, e.g. with a preset's, or with none
+   */
+  public setImageAdjustments = (adjustments: Adjustment[], label: string) =>
+    this.changeImageAdjustments(() => adjustments, { label })
+
+  public replaceImage(dataUrl: string) {
+    if (!this.canvas) return
+
+    const activeObject = this.canvas.getActiveObject()
+    if (!activeObject || activeObject.type !== 'image') {
+      return
+    }
+
+    const oldImage = activeObject as fabric.Image
+    const originalSrc = oldImage.originalSrc || oldImage.getSrc()
+
+    fabric.Image.fromURL(dataUrl, {
+      crossOrigin: 'anonymous'
+    }).then((newImage: fabric.Image) => {
+      if (!this.canvas) return
+      newImage.set({
+        left: oldImage.left,
+        top: oldImage.top,
+        angle: oldImage.angle,
+        scaleX: oldImage.scaleX,
+        scaleY: oldImage.scaleY,
+        cornerColor: '#ffffff',
+        cornerStrokeColor: '#3b82f6',
+        borderColor: '#3b82f6',
+        cornerSize: 8,
+        transparentCorners: false,
+        cornerStyle: 'rect',
+        borderScaleFactor: 2,
+      })
+      newImage.originalSrc = originalSrc
+      // The new pixels get the same adjustments
+      newImage.lutTables = oldImage.lutTables
+      applyImageAdjustments(newImage, getImageAdjustments(oldImage))
+
+      this.canvas.remove(oldImage)
+      this.canvas.add(newImage)
+      this.canvas.setActiveObject(newImage)
+
+      const layer = this.layers.find(l => l.object === oldImage)
+      if (layer) {
+        layer.object = newImage
+        newImage.layerId = layer.id // Ensure the new object has the same layerId
+      }
+
+      this.canvas.renderAll()
+      this.saveState()
+    })
+  }
+
+  private triggerImageUpload(position: { x: number; y: number }) {
+    // Create file input for image upload
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = 'image/*'
+    input.multiple = false
+
+    input.onchange = (e) => {
       const files = (e.target as HTMLInputElement).files
       if (files && files[0]) {
         const file = files[0]
-        if (file.type.startsWith('image/')) {
+        if (isSvgFile(file)) {
+          file.text().then(markup => this.addSVGFromString(markup, file.name, position))
+        } else if (file.type.startsWith('image/')) {
+          const reader = new FileReader()
+          reader.onload = (e) => {
+            const result = e.target?.result as string
+            if (result) {
+              this.addImageFromDataURL(result, file.name, position)
+            }
+          }
+          reader.readAsDataURL(file)
+        }
+      }
+    }
+
+    input.click()
+  }
+
+  private triggerImageUploadWithDimensions(position: { x: number; y: number }, width: number, height: number) {
+    // Create file input for image upload
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = 'image/*'
+    input.multiple = false
+
+    input.onchange = (e) => {
+      const files = (e.target as HTMLInputElement).files
+      if (files && files[0]) {
+        const file = files[0]
+        if (isSvgFile(file)) {
+          file.text().then(markup => this.addSVGFromString(markup, file.name, position, { width, height }))
+        } else if (file.type.startsWith('image/')) {
           const reader = new FileReader()
           reader.onload = (e) => {
             const result = e.target?.result as string
@@ -1282,47 +2640,56 @@ export class DesignManager {
     const activeObject = this.canvas.getActiveObject()
     if (!activeObject || activeObject.isBaseLayer) return null
 
+    // Taken before the clone is awaited, so a duplicate made in a transaction step stays in it
+    const resume = this.bindTransaction()
     try {
       // Clone the active object using the fabric clone method
-      const cloned = await activeObject.clone()
+      const cloned = await activeObject.clone(SERIALIZED_OBJECT_PROPERTIES)
       if (activeObject.originalSrc) {
         cloned.originalSrc = activeObject.originalSrc
       }
+      // LUT filters are cloned without their tables; rebuild them from the stack
+      if (cloned instanceof fabric.FabricImage && cloned.adjustments) {
+        applyImageAdjustments(cloned, cloned.adjustments)
+      }
 
-      if (!this.canvas) return null
+      const canvas = this.canvas
+      if (!canvas) return null
 
-      // Offset the cloned object slightly
-      const offset = 20
-      cloned.set({
-        left: (cloned.left || 0) + offset,
-        top: (cloned.top || 0) + offset,
-      })
-      cloned.set('cornerStrokeColor', '#3b82f6')
-      cloned.set('borderColor', '#3b82f6')
-      cloned.set('borderScaleFactor', 2.5)
+      return resume(() => {
+        // Offset the cloned object slightly
+        const offset = 20
+        cloned.set({
+          left: (cloned.left || 0) + offset,
+          top: (cloned.top || 0) + offset,
+        })
+        cloned.set('cornerStrokeColor', '#3b82f6')
+        cloned.set('borderColor', '#3b82f6')
+        cloned.set('borderScaleFactor', 2.5)
 
-      // Add to canvas
-      this.canvas.add(cloned)
-      this.canvas.setActiveObject(cloned)
+        // Add to canvas
+        canvas.add(cloned)
+        canvas.setActiveObject(cloned)
 
-      // Ensure base layer stays at bottom
-      if (this.baseLayer) {
-        this.canvas.sendObjectToBack(this.baseLayer)
-      }
+        // Ensure base layer stays at bottom
+        if (this.baseLayer) {
+          canvas.sendObjectToBack(this.baseLayer)
+        }
 
-      this.canvas.renderAll()
+        canvas.renderAll()
 
-      // Add to layers
-      const originalLayer = this.layers.find(l => l.object === activeObject)
-      const layerName = originalLayer ? `${originalLayer.name} Copy` : 'Duplicated Object'
-      this.addLayer({
-        name: layerName,
-        object: cloned,
-        visible: true,
-        locked: false
-      })
+        // Add to layers
+        const originalLayer = this.layers.find(l => l.object === activeObject)
+        const layerName = originalLayer ? `${originalLayer.name} Copy` : 'Duplicated Object'
+        this.addLayer({
+          name: layerName,
+          object: cloned,
+          visible: true,
+          locked: false
+        })
 
-      return cloned
+        return cloned
+      })
     } catch (error) {
       console.error('Error duplicating object:', error)
       return null
@@ -1341,40 +2708,57 @@ export class DesignManager {
     this.notify()
   }
 
-  public exportCanvas = (format: 'png' | 'jpg' | 'svg' | 'json'): string | object => {
+  /**
+   * Pixel scale an export will be rendered at
+   */
+  public static getExportMultiplier(options: Pick<ExportOptions, 'multiplier' | 'dpi'>): number {
+    return options.dpi ? options.dpi / CANVAS_DPI : options.multiplier ?? 1
+  }
+
+  public exportCanvas(options: ExportOptions & { format: 'pdf' }): Promise<Blob>
+  public exportCanvas(options: ExportOptions & { format: 'svg'; svg: SvgExportOptions }): Promise<Blob>
+  public exportCanvas(options: ExportOptions): string | object
+  public exportCanvas(options: ExportOptions): string | object | Promise<Blob> {
+    if (options.format === 'pdf') {
+      return createPdf([this, ...(options.pages ?? [])])
+    }
+
     if (!this.canvas) return ''
 
-    // For PNG and JPG, we need to reset the viewport to export the base layer area correctly
-    if (format === 'png' || format === 'jpg') {
+    const { format } = options
+
+    // For raster formats, we need to reset the viewport to export the base layer area correctly
+    if (format === 'png' || format === 'jpg' || format === 'webp') {
       const originalTransform = this.canvas.viewportTransform
       // Reset viewport to default (no pan, no zoom)
       this.canvas.setViewportTransform([1, 0, 0, 1, 0, 0])
 
       const exportOptions = {
+        format: format === 'jpg' ? 'jpeg' as const : format,
+        quality: options.quality ?? DEFAULT_EXPORT_QUALITY,
         left: this.baseLayerConfig.x,
         top: this.baseLayerConfig.y,
         width: this.baseLayerConfig.width,
         height: this.baseLayerConfig.height,
-        multiplier: 1,
+        multiplier: DesignManager.getExportMultiplier(options),
       }
 
-      let dataURL;
-      if (format === 'png') {
-        const originalBackgroundColor = this.canvas.backgroundColor;
-        // Temporarily set background to transparent for PNG export if base layer is transparent
-        if (this.baseLayerConfig.opacity === 0) {
-          this.canvas.backgroundColor = 'transparent';
-          this.baseLayer?.set('visible', false)
-          this.canvas.renderAll()
-        }
+      const background = options.background ?? (this.baseLayerConfig.opacity === 0 ? 'transparent' : 'base-layer')
+      const isTransparent = background === 'transparent' && format !== 'jpg'
+      const originalBackgroundColor = this.canvas.backgroundColor
+      // Temporarily hide the base layer and canvas background for transparent exports
+      if (isTransparent) {
+        this.canvas.backgroundColor = 'transparent'
+        this.baseLayer?.set('visible', false)
+        this.canvas.renderAll()
+      }
 
-        dataURL = this.canvas.toDataURL({ format: 'png', ...exportOptions });
+      const dataURL = this.canvas.toDataURL(exportOptions)
 
-        // Restore original background color
+      // Restore original background color
+      if (isTransparent) {
         this.baseLayer?.set('visible', true)
-        this.canvas.backgroundColor = originalBackgroundColor;
-      } else { // jpg
-        dataURL = this.canvas.toDataURL({ format: 'jpeg', quality: 0.8, ...exportOptions });
+        this.canvas.backgroundColor = originalBackgroundColor
       }
 
       // Restore original viewport transform
@@ -1388,25 +2772,55 @@ export class DesignManager {
 
     // For SVG, viewBox can handle the clipping without changing viewport
     if (format === 'svg') {
-      return this.canvas.toSVG({
-        width: this.baseLayerConfig.width.toString(),
-        height: this.baseLayerConfig.height.toString(),
-        viewBox: {
-          x: this.baseLayerConfig.x,
-          y: this.baseLayerConfig.y,
-          width: this.baseLayerConfig.width,
-          height: this.baseLayerConfig.height,
-        },
-      })
+      const svg = this.canvas.toSVG(DesignManager.getSVGOptions(this.baseLayerConfig))
+      return options.svg ? createPortableSvg(svg, this.name, options.svg) : svg
     }
 
     if (format === 'json') {
-      return this.canvas.toJSON() // Consider enhancing to export full design state
+      // Full design state, so the export can be opened again as a design
+      return this.serialize()
     }
 
     return ''
   }
 
+  /**
+   * Vector SVG of the base layer area. Tabs that were never shown are rendered from their snapshot.
+   */
+  public toSVG = async (): Promise<string> => {
+    if (this.canvas) {
+      return this.exportCanvas({ format: 'svg' }) as string
+    }
+    return DesignManager.renderSnapshotSVG(this.serialize())
+  }
+
+  /**
+   * Render the base layer area to a small PNG data URL for previews
+   */
+  public createThumbnail = (maxSize = 256): string | null => {
+    if (!this.canvas) return null
+
+    const { x, y, width, height } = this.baseLayerConfig
+    const originalTransform = this.canvas.viewportTransform
+    this.canvas.setViewportTransform([1, 0, 0, 1, 0, 0])
+
+    const dataURL = this.canvas.toDataURL({
+      format: 'png',
+      left: x,
+      top: y,
+      width,
+      height,
+      multiplier: Math.min(1, maxSize / Math.max(width, height)),
+    })
+
+    if (originalTransform) {
+      this.canvas.setViewportTransform(originalTransform)
+    }
+    this.canvas.renderAll()
+
+    return dataURL
+  }
+
   // --- Cleanup ---
   public dispose() {
     if (this.canvas) {
@@ -1420,6 +2834,13 @@ export class DesignManager {
   // --- Property Setters ---
   public setSelectedTool = (tool: ToolType) => {
     this.selectedTool = tool
+    // Leaving the bezier pen keeps the path drawn so far
+    if (tool !== 'bezier') this.penTool?.finish()
+    if (tool !== 'select') {
+      this.nodeEditor?.exit()
+      this.gradientEditor?.exit()
+    }
+    this.updateDrawingMode()
     this.updateCursor()
   }
   public setFillColor = (color: string) => { this.fillColor = color }
@@ -1441,6 +2862,61 @@ export class DesignManager {
   public setShadow = (shadow: fabric.Shadow | null) => { this.shadow = shadow }
   public setBackgroundColor = (color: string) => { this.backgroundColor = color }
 
+  // Pen tool
+  public setBrushSettings = (settings: BrushSettings) => {
+    this.brushSettings = settings
+    this.updateDrawingMode()
+  }
+
+  // Shape tools
+  public setShapeSettings = (settings: ShapeSettings) => {
+    this.shapeSettings = settings
+  }
+
+  /**
+   * Change the parameters of the selected polygon, star or arrow
+   */
+  public updateShapeParameters = (params: Partial<ShapeSettings>) => {
+    const object = this.canvas?.getActiveObject()
+    if (!object) return false
+
+    let changes: Partial<ShapeSettings>
+    if (object instanceof RegularPolygon) {
+      changes = { sides: params.sides }
+    } else if (object instanceof Star) {
+      changes = { numPoints: params.numPoints, innerRadius: params.innerRadius }
+    } else if (object instanceof Arrow) {
+      changes = { startHead: params.startHead, endHead: params.endHead, headSize: params.headSize }
+    } else {
+      return false
+    }
+    const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined))
+    if (Object.keys(defined).length === 0) return false
+
+    object.set(defined)
+    object.setCoords()
+    this.canvas!.requestRenderAll()
+    this.saveState({ coalesce: true })
+    return true
+  }
+
+  // Bezier pen and node editing
+  public finishPenPath = () => {
+    this.penTool?.finish()
+  }
+
+  public setSelectedPathNodeType = (type: NodeType) => {
+    this.nodeEditor?.setSelectedNodeType(type)
+  }
+
+  public deleteSelectedPathNode = () => {
+    return this.nodeEditor?.deleteSelectedNode() ?? false
+  }
+
+  public exitNodeEditing = () => {
+    this.nodeEditor?.exit()
+  }
+
   // --- Camera Controls ---
   public setCameraLocked = (locked: boolean) => {
     this.cameraLocked = locked
@@ -1522,6 +2998,7 @@ export class DesignManager {
       }
       return layer
     })
+    this.saveState()
     this.notify()
   }
 
@@ -1553,6 +3030,7 @@ export class DesignManager {
     // Layers array index 0 should be at bottom of canvas (lowest z-index)
     // So we need to reorder canvas objects accordingly
     this.updateCanvasObjectOrder()
+    this.saveState()
 
     this.notify()
   }
@@ -1560,15 +3038,11 @@ export class DesignManager {
   private updateCanvasObjectOrder = () => {
     if (!this.canvas) return
 
-    // Get all objects except base layer
-    const objects = this.canvas.getObjects().filter(obj => !obj.isBaseLayer)
-
-    // Clear all objects except base layer
-    objects.forEach(obj => this.canvas?.remove(obj))
-
-    // Re-add objects in layer order (index 0 = bottom, higher index = top)
-    this.layers.forEach(layer => {
-      this.canvas?.add(layer.object)
+    // Move objects in place (index 0 = bottom, higher index = top) rather than
+    // removing and re-adding them, which would fire add/remove history events
+    const offset = this.baseLayer ? 1 : 0
+    this.layers.forEach((layer, index) => {
+      this.canvas?.moveObjectTo(layer.object, index + offset)
     })
 
     // Ensure base layer stays at the bottom
@@ -1585,6 +3059,7 @@ export class DesignManager {
       layer.visible = !layer.visible
       layer.object.set('visible', layer.visible)
       this.canvas?.renderAll()
+      this.saveState()
       this.notify()
     }
   }
@@ -1596,6 +3071,7 @@ export class DesignManager {
       layer.object.set('selectable', !layer.locked)
       layer.object.set('evented', !layer.locked)
       this.canvas?.renderAll()
+      this.saveState()
       this.notify()
     }
   }
@@ -1610,102 +3086,378 @@ export class DesignManager {
     }
   }
 
-  // --- History Management ---
-  public saveState = () => {
-    if (this.isRestoringState || !this.canvas) return
+  // --- Serialization ---
+  private serializeCanvas(): Record<string, unknown> | null {
+    if (!this.canvas) return null
+    return this.canvas.toObject(SERIALIZED_OBJECT_PROPERTIES)
+  }
+
+  /**
+   * Serialize an object as it would be once the active selection holding it is
+   * dropped, so history never records transforms relative to the selection
+   */
+  private serializeObject(obj: fabric.FabricObject): Record<string, unknown> {
+    if (!(obj.group instanceof fabric.ActiveSelection)) return obj.toObject(SERIALIZED_OBJECT_PROPERTIES)
+
+    const transform = fabric.util.saveObjectTransform(obj)
+    fabric.util.addTransformToObject(obj, obj.group.calcOwnMatrix())
+    try {
+      return obj.toObject(SERIALIZED_OBJECT_PROPERTIES)
+    } finally {
+      obj.set(transform)
+    }
+  }
 
+  private serializeLayers(): Omit<CanvasLayer, 'object'>[] {
     // Create a serializable version of layers (without fabric objects)
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const serializableLayers = this.layers.map(({ object, ...rest }) => rest)
-
-    const state = {
-      canvas: JSON.stringify((this.canvas as any).toJSON(['layerId', 'originalSrc', 'isBaseLayer', 'name', 'text'])),
-      layers: serializableLayers
+    return this.layers.map(({ object, ...rest }) => rest)
+  }
+
+  public serialize(): SerializedDesign {
+    const snapshot: SerializedDesign = {
+      version: DESIGN_SCHEMA_VERSION,
+      id: this.id,
+      name: this.name,
+      lastModified: this.lastModified.toISOString(),
+      baseLayerConfig: { ...this.baseLayerConfig },
+      clippingEnabled: this.clippingEnabled,
+      canvas: this.serializeCanvas(),
+      layers: this.serializeLayers(),
+      camera: {
+        viewportTransform: this.canvas?.viewportTransform ? [...this.canvas.viewportTransform] as fabric.TMat2D : null,
+        cameraLocked: this.cameraLocked,
+      },
+      styles: this.styles,
     }
 
-    // If we are in the middle of history, truncate the future
-    if (this.historyPointer < this.historyStack.length - 1) {
-      this.historyStack = this.historyStack.slice(0, this.historyPointer + 1)
+    // A restored tab that was never opened still only has its pending snapshot
+    if (!this.canvas && this.pendingSnapshot) {
+      return {
+        ...snapshot,
+        canvas: this.pendingSnapshot.canvas,
+        layers: this.pendingSnapshot.layers,
+        camera: { ...this.pendingSnapshot.camera, cameraLocked: this.cameraLocked },
+      }
     }
 
-    this.historyStack.push(state)
-    this.historyPointer = this.historyStack.length - 1
+    return snapshot
+  }
+
+  private async loadSnapshot(snapshot: SerializedDesign) {
+    if (!this.canvas) return
+
+    this.isRestoringState = true
+    try {
+      await this.loadCanvasContent(snapshot)
+    } catch (error) {
+      console.error('Failed to restore design:', error)
+    } finally {
+      this.pendingSnapshot = null
+      this.isRestoringState = false
+    }
 
-    this.notify() // Notify store to update canUndo/canRedo
+    this.restoreCamera(snapshot.camera)
+    this.resetHistory()
+    this.notify()
   }
 
-  public undo = async () => {
-    if (!this.canUndo()) return
+  /**
+   * Replace the canvas content with a saved snapshot, e.g. a named version, as
+   * one undoable step. The design keeps its own id, name and camera.
+   */
+  public restoreSnapshot = async (snapshot: SerializedDesign, label: string) => {
+    if (!this.canvas) return
 
+    this.canvas.discardActiveObject()
     this.isRestoringState = true
-    this.historyPointer--
-    const prevState = this.historyStack[this.historyPointer]
+    try {
+      await this.loadCanvasContent(snapshot)
+    } finally {
+      this.isRestoringState = false
+    }
 
-    if (this.canvas && prevState) {
-      // Clear canvas before loading
-      this.canvas.clear()
-      await this.canvas.loadFromJSON(JSON.parse(prevState.canvas))
-      this.rebindState(prevState.layers)
+    this.selectedLayerId = null
+    this.saveState({ label })
+    this.canvas.renderAll()
+    this.notify()
+  }
+
+  private async loadCanvasContent(snapshot: SerializedDesign) {
+    if (!this.canvas || !snapshot.canvas) return
+
+    this.baseLayerConfig = { ...snapshot.baseLayerConfig }
+    this.clippingEnabled = snapshot.clippingEnabled
+    this.styles = snapshot.styles ?? []
+    await this.canvas.loadFromJSON(snapshot.canvas)
+    // Imported payloads may not carry a base layer, so recreate it with clipping
+    if (!this.canvas.getObjects().some(obj => obj instanceof BaseLayer)) {
+      this.initializeBaseLayer()
     }
+    this.rebindState(snapshot.layers)
+    // set control options, somehow the control options are not set when loading from JSON
+    this.canvas.getObjects().forEach(obj => obj.set(controlOptions))
+  }
 
-    const objects = this.canvas?.getObjects()
-    if (objects) {
-      // set control options, somehow the control options are not set when loading from JSON
-      objects.forEach(obj => {
-        obj.set(controlOptions)
-      })
-      console.log('objects', objects)
-
-      // update layers array
-      this.layers = objects.filter(obj => !(obj instanceof BaseLayer)).map(obj => {
-        return {
-          id: obj.layerId ?? uuidv4(),
-          name: obj.name ?? obj.text ?? obj.type ?? '',
-          object: obj,
-          visible: obj.visible,
-          locked: !obj.selectable,
+  private restoreCamera(camera: CameraState) {
+    if (!this.canvas) return
+
+    if (this.cameraLocked || !camera.viewportTransform) {
+      // Delay centering to ensure base layer is fully rendered
+      setTimeout(() => this.centerCamera(), 10)
+      return
+    }
+
+    this.canvas.setViewportTransform(camera.viewportTransform)
+    this.canvas.renderAll()
+    this.updateRuler()
+  }
+
+  // --- History Management ---
+  private createHistoryHost(): HistoryHost {
+    return {
+      getCanvas: () => this.canvas,
+      getLayers: () => this.serializeLayers(),
+      getDocumentData: () => ({ styles: this.styles }),
+      getObjectKey: (obj) => {
+        if (obj instanceof BaseLayer) return BASE_LAYER_HISTORY_KEY
+        if (obj.isDrawingPreview) return null
+        return obj.layerId ?? null
+      },
+      serializeObject: (obj) => this.serializeObject(obj),
+      prepareObject: (obj) => {
+        if (obj instanceof BaseLayer) {
+          obj.set({ selectable: false, evented: false })
+        } else {
+          obj.set(controlOptions)
         }
-      })
+      },
+      onApplied: (layers, documentData) => {
+        this.styles = (documentData.styles as DocumentStyle[] | undefined) ?? []
+        this.applyHistoryLayers(layers)
+      },
     }
+  }
 
-    this.isRestoringState = false
-    this.canvas?.renderAll()
+  /**
+   * Re-link layers and base layer state after history patched the canvas
+   */
+  private applyHistoryLayers(layers: LayerData[]) {
+    if (!this.canvas) return
+
+    // Base layer edits may have been undone, so read its config back from the object
+    const baseLayer = this.canvas.getObjects().find(obj => obj instanceof BaseLayer) as BaseLayer | undefined
+    if (baseLayer) {
+      this.baseLayerConfig = {
+        ...this.baseLayerConfig,
+        x: baseLayer.left,
+        y: baseLayer.top,
+        width: baseLayer.width,
+        height: baseLayer.height,
+        fill: baseLayer.fill as string,
+        stroke: baseLayer.stroke as string,
+        strokeWidth: baseLayer.strokeWidth,
+        opacity: baseLayer.opacity,
+      }
+    }
+
+    this.rebindState(layers)
+  }
+
+  public configureHistory(options: Partial<HistoryOptions>) {
+    this.history.configure(options)
+  }
+
+  private resetHistory() {
+    this.history.reset()
     this.notify()
   }
 
+  public saveState = (options: RecordOptions = {}) => {
+    if (this.isRestoringState || !this.canvas) return
+
+    this.unlinkOverriddenStyles()
+    // Changes made outside the transaction's own steps, e.g. by the user while the agent works, stay separate
+    const scope = this.transaction && this.transactionDepth > 0
+      ? { label: this.transaction.label, group: this.transaction.group }
+      : null
+    if (this.history.record({ ...scope, ...options })) {
+      this.lastModified = new Date()
+      this.notify() // Notify store to update canUndo/canRedo
+    }
+  }
+
+  /**
+   * Open a transaction labeled `label`. Changes made through `runInTransaction` until
+   * `commitTransaction` or `rollbackTransaction` merge into one history step.
+   * Returns false if one is already open.
+   */
+  public beginTransaction = (label: string): boolean => {
+    if (this.transaction || !this.canvas) return false
+
+    // Keep changes made before the transaction out of it
+    this.saveState()
+    this.transaction = { label, group: `transaction-${this.transactionCount++}`, startId: this.history.getCurrentId() }
+    return true
+  }
+
+  /**
+   * Run changes that belong to the open transaction. Only what `mutate` changes before
+   * it returns joins it; async changes continue through `bindTransaction`.
+   */
+  public runInTransaction = <T>(mutate: () => T): T => {
+    this.transactionDepth++
+    try {
+      return mutate()
+    } finally {
+      // Catch changes made without firing canvas events, e.g. direct `set` calls
+      this.saveState()
+      this.transactionDepth--
+    }
+  }
+
+  /**
+   * Runner for changes made after an await, which keeps them in the transaction step
+   * running now, if any
+   */
+  private bindTransaction = () => {
+    const transaction = this.transactionDepth > 0 ? this.transaction : null
+    return <T>(mutate: () => T): T =>
+      transaction && transaction === this.transaction ? this.runInTransaction(mutate) : mutate()
+  }
+
+  /**
+   * Close the open transaction. Returns the ids of its history steps, newest first;
+   * there is more than one when other changes were recorded between its own.
+   */
+  public commitTransaction = (): string[] => {
+    if (!this.transaction) return []
+
+    const nodeIds = this.getTransactionNodeIds(this.transaction)
+    this.transaction = null
+    return nodeIds
+  }
+
+  /**
+   * Close the open transaction and undo its changes. When its steps are the latest ones
+   * they are dropped without leaving a redo step behind, otherwise they are reverted as a new step.
+   */
+  public rollbackTransaction = async () => {
+    if (!this.transaction) return
+
+    const { label } = this.transaction
+    this.saveState()
+    const nodeIds = this.commitTransaction()
+    if (nodeIds.length === 0) return
+
+    const { nodes, currentId } = this.history.getTree()
+    const isLatest = nodeIds.every((nodeId, i) => nodeId === (i === 0 ? currentId : nodes.get(nodeIds[i - 1])?.parentId))
+    if (!isLatest) {
+      await this.revertHistorySteps(nodeIds, `Revert ${label}`)
+      return
+    }
+
+    this.previewOriginId = null
+    await this.history.discard(nodeIds[nodeIds.length - 1])
+    this.afterHistoryJump()
+  }
+
+  private getTransactionNodeIds({ group, startId }: { group: string; startId: string }): string[] {
+    const { nodes, currentId } = this.history.getTree()
+    const nodeIds: string[] = []
+    for (let id: string | null = currentId; id && id !== startId; id = nodes.get(id)?.parentId ?? null) {
+      if (nodes.get(id)?.group === group) nodeIds.push(id)
+    }
+    return nodeIds
+  }
+
+  /**
+   * Run canvas changes and record them as one step with the given label. When `mutate`
+   * returns a promise, the step is recorded once it settles.
+   * Inside an open transaction the changes simply become part of it.
+   */
+  public recordStep = <T>(label: string, mutate: () => T): T => {
+    if (this.transaction || !this.beginTransaction(label)) return mutate()
+
+    let pending = false
+    try {
+      const result = this.runInTransaction(mutate)
+      if (result instanceof Promise) {
+        pending = true
+        return result.finally(() => this.commitTransaction()) as T
+      }
+      return result
+    } finally {
+      if (!pending) this.commitTransaction()
+    }
+  }
+
+  /**
+   * Undo the changes of earlier steps, given newest first, as one new step, keeping
+   * everything done after them
+   */
+  public revertHistorySteps = async (nodeIds: string[], label: string): Promise<boolean> => {
+    this.saveState()
+    this.previewOriginId = null
+    const group = `revert-${this.transactionCount++}`
+    let reverted = false
+    for (const nodeId of nodeIds) {
+      if (await this.history.revert(nodeId, { label, group })) reverted = true
+    }
+    if (reverted) this.afterHistoryJump()
+    return reverted
+  }
+
+  public getHistoryTree = (): HistoryTree => {
+    const tree = this.history.getTree()
+    return this.previewOriginId === null ? tree : { ...tree, currentId: this.previewOriginId }
+  }
+
+  public undo = async () => {
+    if (!this.canUndo()) return
+    this.previewOriginId = null
+    await this.history.undo()
+    this.afterHistoryJump()
+  }
+
   public redo = async () => {
     if (!this.canRedo()) return
+    this.previewOriginId = null
+    await this.history.redo()
+    this.afterHistoryJump()
+  }
 
-    this.isRestoringState = true
-    this.historyPointer++
-    const nextState = this.historyStack[this.historyPointer]
+  public jumpToHistory = async (nodeId: string) => {
+    this.previewOriginId = null
+    await this.history.jumpTo(nodeId)
+    this.afterHistoryJump()
+  }
 
-    if (this.canvas && nextState) {
-      this.canvas.clear()
-      await this.canvas.loadFromJSON(JSON.parse(nextState.canvas))
-      this.rebindState(nextState.layers)
+  /**
+   * Temporarily show another history state, e.g. while hovering it in the history panel
+   */
+  public previewHistory = async (nodeId: string) => {
+    this.nodeEditor?.exit()
+    if (this.previewOriginId === null) {
+      this.previewOriginId = this.history.getCurrentId()
     }
+    await this.history.jumpTo(nodeId, { updateRedoPath: false })
+    this.canvas?.renderAll()
+  }
 
-    const objects = this.canvas?.getObjects()
-    if (objects) {
-      // set control options, somehow the control options are not set when loading from JSON
-      objects.forEach(obj => {
-        obj.set(controlOptions)
-      })
+  public endHistoryPreview = async () => {
+    if (this.previewOriginId === null) return
 
-      // update layers array
-      this.layers = objects.filter(obj => !(obj instanceof BaseLayer)).map(obj => {
-        return {
-          id: obj.layerId ?? uuidv4(),
-          name: obj.name ?? obj.text ?? obj.type ?? '',
-          object: obj,
-          visible: obj.visible,
-          locked: !obj.selectable,
-        }
-      })
-    }
+    const originId = this.previewOriginId
+    this.previewOriginId = null
+    await this.history.jumpTo(originId, { updateRedoPath: false })
+    this.canvas?.renderAll()
+  }
 
-    this.isRestoringState = false
+  private afterHistoryJump() {
+    // The edited path may have been replaced by the jump
+    this.nodeEditor?.exit()
+    this.lastModified = new Date()
     this.canvas?.renderAll()
     this.notify()
   }
@@ -1731,17 +3483,17 @@ export class DesignManager {
       }
     }).filter(layer => layer.object) // Filter out any layers where the object wasn't found
 
-    // Re-initialize snap lines
-    initAligningGuidelines(this.canvas)
-
-    // Re-attach listeners to objects if needed (usually handled by fabric)
+    // Lock state is not part of the fabric JSON, so re-apply it from layer data
+    this.layers.forEach(layer => {
+      layer.object.set({ selectable: !layer.locked, evented: !layer.locked })
+    })
   }
 
   public canUndo = (): boolean => {
-    return this.historyPointer > 0
+    return this.history.canUndo()
   }
 
   public canRedo = (): boolean => {
-    return this.historyPointer < this.historyStack.length - 1
+    return this.history.canRedo()
   }
 } 
\ No newline at end of file
@@ -0,0 +1,200 @@
+import * as fabric from 'fabric';
+import { v4 as uuidv4 } from 'uuid';
+import { ColorLookup } from '../subclass/ColorLookup';
+import { Curves } from '../subclass/Curves';
+import { Levels } from '../subclass/Levels';
+import { Vignette } from '../subclass/Vignette';
+import {
+  ADJUSTMENT_DEFINITIONS,
+  DEFAULT_CURVES,
+  DEFAULT_LEVELS,
+  type Adjustment,
+  type AdjustmentKind,
+  type AdjustmentPreset,
+  type ColorLut,
+} from './types';
+import { getLutKey } from './lut';
+
+declare module 'fabric' {
+  interface Object {
+    // Ordered adjustments of an image, which its filters are built from
+    adjustments?: Adjustment[];
+    // Tables of the image's LUT adjustments by key, kept apart so that
+    // changing the stack does not copy them
+    lutTables?: Record<string, string>;
+  }
+}
+
+type ImageFilter = fabric.FabricImage['filters'][number];
+
+// Exposure reaches two stops either way
+const EXPOSURE_STOPS = 2;
+// Shift of the red and blue channels at full temperature, from 0 to 1
+const TEMPERATURE_SHIFT = 0.1;
+
+const colorMatrix = (scale: number, redOffset = 0, blueOffset = 0) =>
+  new fabric.filters.ColorMatrix({
+    matrix: [
+      scale, 0, 0, 0, redOffset,
+      0, scale, 0, 0, 0,
+      0, 0, scale, 0, blueOffset,
+      0, 0, 0, 1, 0,
+    ],
+  });
+
+/**
+ * Value and settings a new adjustment of a kind starts with
+ */
+const getDefaults = (kind: AdjustmentKind): Pick<Adjustment, 'value' | 'curves' | 'levels'> => ({
+  value: ADJUSTMENT_DEFINITIONS[kind].range?.initial ?? 0,
+  ...(kind === 'curves' && { curves: DEFAULT_CURVES }),
+  ...(kind === 'levels' && { levels: DEFAULT_LEVELS }),
+});
+
+export const createAdjustment = (kind: AdjustmentKind, value?: number): Adjustment => ({
+  id: uuidv4(),
+  kind,
+  enabled: true,
+  ...getDefaults(kind),
+  ...(value !== undefined && { value }),
+});
+
+/**
+ * Adjustment that applies a LUT to an image. The image needs the LUT's table,
+ * which `addImageLutTable` gives it.
+ */
+export const createLutAdjustment = ({ name, size, table }: ColorLut): Adjustment => ({
+  ...createAdjustment('lut'),
+  lut: { key: getLutKey({ size, table }), name, size },
+});
+
+export const addImageLutTable = (image: fabric.FabricImage, lut: ColorLut) => {
+  const key = getLutKey(lut);
+  if (image.lutTables?.[key] === lut.table) return;
+  image.lutTables = { ...image.lutTables, [key]: lut.table };
+};
+
+/**
+ * The adjustment with its value and settings back to how they started. LUTs keep their table.
+ */
+export const resetAdjustment = (adjustment: Adjustment): Adjustment => ({ ...adjustment, ...getDefaults(adjustment.kind) });
+
+export const isDefaultAdjustment = (adjustment: Adjustment) =>
+  JSON.stringify(resetAdjustment(adjustment)) === JSON.stringify(adjustment);
+
+export const createPresetAdjustments = (preset: AdjustmentPreset) =>
+  preset.adjustments.map(({ kind, value }) => createAdjustment(kind, value));
+
+/**
+ * Whether an adjustment leaves the image as it is
+ */
+export const isNeutralAdjustment = ({ kind, value, enabled }: Adjustment) =>
+  !enabled || (ADJUSTMENT_DEFINITIONS[kind].range !== null && value === 0);
+
+/**
+ * fabric filter that performs an adjustment
+ */
+const toFilter = ({ kind, value, curves, levels, lut }: Adjustment, lutTables: Record<string, string>): ImageFilter => {
+  const amount = value / 100;
+  switch (kind) {
+    case 'exposure':
+      return colorMatrix(2 ** (amount * EXPOSURE_STOPS));
+    case 'brightness':
+      return new fabric.filters.Brightness({ brightness: amount });
+    case 'contrast':
+      return new fabric.filters.Contrast({ contrast: amount });
+    case 'saturation':
+      return new fabric.filters.Saturation({ saturation: amount });
+    case 'vibrance':
+      return new fabric.filters.Vibrance({ vibrance: amount });
+    case 'temperature':
+      return colorMatrix(1, amount * TEMPERATURE_SHIFT, -amount * TEMPERATURE_SHIFT);
+    case 'hue':
+      return new fabric.filters.HueRotation({ rotation: value / 180 });
+    case 'blur':
+      return new fabric.filters.Blur({ blur: amount });
+    case 'sharpen':
+      return new fabric.filters.Convolute({
+        matrix: [0, -amount, 0, -amount, 1 + 4 * amount, -amount, 0, -amount, 0],
+      });
+    case 'noise':
+      return new fabric.filters.Noise({ noise: value * 10 });
+    case 'vignette':
+      return new Vignette({ vignette: amount });
+    case 'grayscale':
+      return new fabric.filters.Grayscale();
+    case 'sepia':
+      return new fabric.filters.Sepia();
+    case 'invert':
+      return new fabric.filters.Invert();
+    case 'curves':
+      return new Curves({ curves: curves ?? DEFAULT_CURVES });
+    case 'levels':
+      return new Levels({ levels: levels ?? DEFAULT_LEVELS });
+    case 'lut':
+      return new ColorLookup({ ...(lut && { size: lut.size, table: lutTables[lut.key] ?? '' }), intensity: amount });
+  }
+};
+
+/**
+ * Adjustment kind and value matching a filter set before images had
+ * adjustment stacks. Null for filters those images could not have.
+ */
+const fromFilter = (filter: ImageFilter): Pick<Adjustment, 'kind' | 'value'> | null => {
+  if (filter instanceof fabric.filters.Brightness) return { kind: 'brightness', value: Math.round(filter.brightness * 100) };
+  if (filter instanceof fabric.filters.Contrast) return { kind: 'contrast', value: Math.round(filter.contrast * 100) };
+  if (filter instanceof fabric.filters.Saturation) return { kind: 'saturation', value: Math.round(filter.saturation * 100) };
+  if (filter instanceof fabric.filters.HueRotation) return { kind: 'hue', value: Math.round(filter.rotation * 180) };
+  if (filter instanceof fabric.filters.Blur) return { kind: 'blur', value: Math.round(filter.blur * 100) };
+  if (filter instanceof fabric.filters.Noise) return { kind: 'noise', value: Math.round(filter.noise / 10) };
+  if (filter instanceof fabric.filters.Grayscale) return { kind: 'grayscale', value: 0 };
+  if (filter instanceof fabric.filters.Sepia) return { kind: 'sepia', value: 0 };
+  if (filter instanceof fabric.filters.Invert) return { kind: 'invert', value: 0 };
+  return null;
+};
+
+/**
+ * The image's adjustments, first to last. Images saved before adjustment
+ * stacks get theirs read from their filters, with ids that stay the same
+ * until the stack is first changed.
+ */
+export const getImageAdjustments = (image: fabric.FabricImage): Adjustment[] =>
+  image.adjustments ??
+  image.filters.flatMap((filter, index) => {
+    const adjustment = fromFilter(filter);
+    return adjustment ? [{ ...adjustment, id: `filter-${index}`, enabled: true }] : [];
+  });
+
+/**
+ * Give an image a new adjustment stack and redraw its filters from it. The
+ * stack is replaced rather than changed in place, as history keeps the old one.
+ * LUT tables the stack no longer uses are dropped.
+ */
+export const applyImageAdjustments = (image: fabric.FabricImage, adjustments: Adjustment[]) => {
+  const lutTables = image.lutTables ?? {};
+  const usedKeys = new Set(adjustments.flatMap(adjustment => (adjustment.lut ? [adjustment.lut.key] : [])));
+  if (Object.keys(lutTables).some(key => !usedKeys.has(key))) {
+    const kept = Object.entries(lutTables).filter(([key]) => usedKeys.has(key));
+    image.lutTables = kept.length > 0 ? Object.fromEntries(kept) : undefined;
+  }
+
+  image.adjustments = adjustments;
+  image.filters = adjustments
+    .filter(adjustment => !isNeutralAdjustment(adjustment))
+    .map(adjustment => toFilter(adjustment, lutTables));
+  image.applyFilters();
+};
+
+/**
+ * Images revive with their filters rebuilt from their adjustments, as LUT
+ * filters are saved without their tables
+ */
+class AdjustableImage extends fabric.FabricImage {
+  static async fromObject(object: Parameters<typeof fabric.FabricImage.fromObject>[0], options?: fabric.Abortable) {
+    const image = await super.fromObject(object, options);
+    if (image.adjustments) applyImageAdjustments(image, image.adjustments);
+    return image;
+  }
+}
+
+fabric.classRegistry.setClass(AdjustableImage);
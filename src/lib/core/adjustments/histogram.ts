@@ -0,0 +1,44 @@
+import * as fabric from 'fabric';
+import { readImagePixels } from '../palette/palette';
+import type { ImageHistogram } from './types';
+
+// Histograms of original images only change with their crop
+const histogramCache = new WeakMap<object, { crop: string; histogram: ImageHistogram | null }>();
+
+const countLevels = (pixels: Uint8ClampedArray): ImageHistogram => {
+  const histogram: ImageHistogram = {
+    rgb: new Array<number>(256).fill(0),
+    red: new Array<number>(256).fill(0),
+    green: new Array<number>(256).fill(0),
+    blue: new Array<number>(256).fill(0),
+  };
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] === 0) continue;
+    const [red, green, blue] = [pixels[i], pixels[i + 1], pixels[i + 2]];
+    histogram.red[red]++;
+    histogram.green[green]++;
+    histogram.blue[blue]++;
+    histogram.rgb[Math.round(0.2126 * red + 0.7152 * green + 0.0722 * blue)]++;
+  }
+  return histogram;
+};
+
+/**
+ * Histogram of an image's original pixels, before its adjustments. Null when
+ * the image cannot be read, as happens for images from other origins.
+ */
+export const getImageHistogram = (image: fabric.FabricImage): ImageHistogram | null => {
+  const element = image._originalElement;
+  const crop = [image.cropX, image.cropY, image.width, image.height].join();
+  const cached = histogramCache.get(element);
+  if (cached?.crop === crop) return cached.histogram;
+
+  let histogram: ImageHistogram | null = null;
+  try {
+    histogram = countLevels(readImagePixels(image, element));
+  } catch (error) {
+    console.warn('Could not read image for its histogram:', error);
+  }
+  histogramCache.set(element, { crop, histogram });
+  return histogram;
+};
@@ -0,0 +1,6 @@
+export * from './adjustments';
+export * from './histogram';
+export * from './lut';
+export * from './presets';
+export * from './tone';
+export * from './types';
@@ -0,0 +1,86 @@
+import { decodeLutTable, encodeLutTable, getLutKey, parseCubeLut } from './lut';
+
+const identityEntries = (size: number) => {
+  const lines: string[] = [];
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        lines.push([r, g, b].map(value => (value / (size - 1)).toFixed(6)).join(' '));
+      }
+    }
+  }
+  return lines;
+};
+
+const cube = (...header: string[]) => [...header, ...identityEntries(2)].join('\n');
+
+describe('parseCubeLut', () => {
+  it('reads the size, title and entries', () => {
+    const lut = parseCubeLut(cube('# Created by hand', 'TITLE "Identity"', 'LUT_3D_SIZE 2', ''), 'identity.cube');
+    expect(lut.name).toBe('Identity');
+    expect(lut.size).toBe(2);
+    expect(Array.from(decodeLutTable(lut.table))).toEqual([
+      0, 0, 0, 255, 0, 0, 0, 255, 0, 255, 255, 0,
+      0, 0, 255, 255, 0, 255, 0, 255, 255, 255, 255, 255,
+    ]);
+  });
+
+  it('names untitled LUTs after the fallback', () => {
+    expect(parseCubeLut(cube('LUT_3D_SIZE 2'), 'warm.cube').name).toBe('warm.cube');
+  });
+
+  it('accepts CRLF line endings and the default domain', () => {
+    const text = cube('LUT_3D_SIZE 2', 'DOMAIN_MIN 0 0 0', 'DOMAIN_MAX 1 1 1').replace(/\n/g, '\r\n');
+    expect(parseCubeLut(text, 'lut').size).toBe(2);
+  });
+
+  it('clamps values outside 0 to 1', () => {
+    const text = ['LUT_3D_SIZE 2', '-0.5 1.5 0.5', ...identityEntries(2).slice(1)].join('\n');
+    expect(Array.from(decodeLutTable(parseCubeLut(text, 'lut').table).subarray(0, 3))).toEqual([0, 255, 128]);
+  });
+
+  it('rejects invalid numbers and entries', () => {
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE two'), 'lut')).toThrow('invalid number on line 1');
+    expect(() => parseCubeLut(['LUT_3D_SIZE 2', '0 0'].join('\n'), 'lut')).toThrow('invalid entry on line 2');
+    expect(() => parseCubeLut(['LUT_3D_SIZE 2', '0 0 x'].join('\n'), 'lut')).toThrow('invalid number on line 2');
+  });
+
+  it('rejects 1D LUTs and other input domains', () => {
+    expect(() => parseCubeLut('LUT_1D_SIZE 2', 'lut')).toThrow('Only 3D LUTs are supported.');
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', 'DOMAIN_MAX 1 1 2'), 'lut')).toThrow(
+      'Only LUTs with an input domain of 0 to 1 are supported.',
+    );
+  });
+
+  it('rejects files without a usable size', () => {
+    expect(() => parseCubeLut(identityEntries(2).join('\n'), 'lut')).toThrow('The file is not a 3D .cube LUT.');
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 1'), 'lut')).toThrow('The file is not a 3D .cube LUT.');
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2.5'), 'lut')).toThrow('The file is not a 3D .cube LUT.');
+    expect(() => parseCubeLut('LUT_3D_SIZE 65', 'lut')).toThrow('LUTs larger than 64³ are not supported.');
+  });
+
+  it('rejects a wrong number of entries', () => {
+    const text = ['LUT_3D_SIZE 2', ...identityEntries(2).slice(1)].join('\n');
+    expect(() => parseCubeLut(text, 'lut')).toThrow('The LUT should have 8 entries but has 7.');
+  });
+});
+
+describe('encodeLutTable', () => {
+  it('round-trips tables larger than one chunk', () => {
+    const bytes = Uint8Array.from({ length: 0x8000 * 2 + 5 }, (_, i) => i % 256);
+    expect(decodeLutTable(encodeLutTable(bytes))).toEqual(bytes);
+  });
+});
+
+describe('getLutKey', () => {
+  it('gives the same table the same key', () => {
+    const { size, table } = parseCubeLut(cube('LUT_3D_SIZE 2'), 'lut');
+    expect(getLutKey({ size, table })).toBe(getLutKey({ size, table: `${table}` }));
+    expect(getLutKey({ size, table })).toMatch(/^2-[0-9a-f]+$/);
+  });
+
+  it('gives different tables different keys', () => {
+    expect(getLutKey({ size: 2, table: 'AAAA' })).not.toBe(getLutKey({ size: 2, table: 'AAAB' }));
+    expect(getLutKey({ size: 2, table: 'AAAA' })).not.toBe(getLutKey({ size: 3, table: 'AAAA' }));
+  });
+});
@@ -0,0 +1,89 @@
+import type { ColorLut } from './types';
+
+// Larger LUTs are rare, and the WebGL filter lays a LUT out in a texture
+// size² pixels wide
+const MIN_LUT_SIZE = 2;
+const MAX_LUT_SIZE = 64;
+
+export const encodeLutTable = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked, as spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const decodeLutTable = (table: string) => Uint8Array.from(atob(table), char => char.charCodeAt(0));
+
+/**
+ * Key of a LUT table among an image's tables; the same table always gets the same key
+ */
+export const getLutKey = ({ size, table }: Pick<ColorLut, 'size' | 'table'>) => {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < table.length; i++) {
+    hash ^= table.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${size}-${(hash >>> 0).toString(16)}`;
+};
+
+const parseNumbers = (values: string[], line: number) =>
+  values.map(value => {
+    const number = Number(value);
+    if (!Number.isFinite(number)) throw new Error(`The LUT has an invalid number on line ${line}.`);
+    return number;
+  });
+
+/**
+ * Read a 3D LUT from the text of a .cube file. `fallbackName` names LUTs
+ * whose file has no title.
+ */
+export const parseCubeLut = (text: string, fallbackName: string): ColorLut => {
+  let title = '';
+  let size = 0;
+  const entries: number[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const [keyword, ...values] = line.split(/\s+/);
+    if (/^[-+.\d]/.test(keyword)) {
+      const entry = parseNumbers([keyword, ...values], index + 1);
+      if (entry.length !== 3) throw new Error(`The LUT has an invalid entry on line ${index + 1}.`);
+      entries.push(...entry);
+      return;
+    }
+
+    switch (keyword) {
+      case 'TITLE':
+        title = line.slice(keyword.length).trim().replace(/^"(.*)"$/, '$1');
+        break;
+      case 'LUT_3D_SIZE':
+        size = parseNumbers(values, index + 1)[0];
+        break;
+      case 'LUT_1D_SIZE':
+        throw new Error('Only 3D LUTs are supported.');
+      case 'DOMAIN_MIN':
+      case 'DOMAIN_MAX': {
+        const expected = keyword === 'DOMAIN_MIN' ? 0 : 1;
+        if (parseNumbers(values, index + 1).some(value => value !== expected)) {
+          throw new Error('Only LUTs with an input domain of 0 to 1 are supported.');
+        }
+        break;
+      }
+      // Other keywords, such as LUT_IN_VIDEO_RANGE, do not change the colors
+    }
+  });
+
+  if (!Number.isInteger(size) || size < MIN_LUT_SIZE) throw new Error('The file is not a 3D .cube LUT.');
+  if (size > MAX_LUT_SIZE) throw new Error(`LUTs larger than ${MAX_LUT_SIZE}³ are not supported.`);
+  if (entries.length !== size ** 3 * 3) {
+    throw new Error(`The LUT should have ${size ** 3} entries but has ${Math.floor(entries.length / 3)}.`);
+  }
+
+  const bytes = Uint8Array.from(entries, value => Math.round(Math.min(1, Math.max(0, value)) * 255));
+  return { name: title || fallbackName, size, table: encodeLutTable(bytes) };
+};
@@ -0,0 +1,54 @@
+import type { AdjustmentPreset } from './types';
+
+// Applying a preset replaces the image's adjustments
+export const ADJUSTMENT_PRESETS: AdjustmentPreset[] = [
+  { name: 'None', adjustments: [] },
+  { name: 'Grayscale', adjustments: [{ kind: 'grayscale', value: 0 }] },
+  { name: 'Sepia', adjustments: [{ kind: 'sepia', value: 0 }] },
+  {
+    name: 'Vintage',
+    adjustments: [
+      { kind: 'sepia', value: 0 },
+      { kind: 'brightness', value: -10 },
+      { kind: 'contrast', value: 10 },
+      { kind: 'vignette', value: 40 },
+    ],
+  },
+  {
+    name: 'Black & White',
+    adjustments: [
+      { kind: 'grayscale', value: 0 },
+      { kind: 'contrast', value: 20 },
+    ],
+  },
+  {
+    name: 'Bright',
+    adjustments: [
+      { kind: 'brightness', value: 20 },
+      { kind: 'saturation', value: 10 },
+    ],
+  },
+  {
+    name: 'Cool',
+    adjustments: [
+      { kind: 'temperature', value: -30 },
+      { kind: 'saturation', value: 15 },
+    ],
+  },
+  {
+    name: 'Warm',
+    adjustments: [
+      { kind: 'temperature', value: 30 },
+      { kind: 'brightness', value: 10 },
+    ],
+  },
+  { name: 'High Contrast', adjustments: [{ kind: 'contrast', value: 30 }] },
+  {
+    name: 'Soft',
+    adjustments: [
+      { kind: 'blur', value: 10 },
+      { kind: 'brightness', value: 10 },
+    ],
+  },
+  { name: 'Invert', adjustments: [{ kind: 'invert', value: 0 }] },
+];
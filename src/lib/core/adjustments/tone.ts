@@ -0,0 +1,108 @@
+import { DEFAULT_LEVELS, type CurvePoint, type CurvesSettings, type LevelsSettings } from './types';
+
+const LEVELS = 256;
+
+/**
+ * Output of a curve for each of the 256 input levels. The curve is a monotone
+ * cubic through its points, so it never overshoots between them, and is flat
+ * before the first point and after the last.
+ */
+export const evaluateCurve = (points: CurvePoint[]): number[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+  const count = sorted.length;
+  if (count === 0) return Array.from({ length: LEVELS }, (_, level) => level);
+  if (count === 1) return new Array<number>(LEVELS).fill(sorted[0].y);
+
+  // Slopes of the segments, then tangents at the points (Fritsch–Carlson)
+  const slopes = sorted.slice(1).map((point, i) => (point.y - sorted[i].y) / (point.x - sorted[i].x || 1));
+  const tangents = sorted.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === count - 1) return slopes[count - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  slopes.forEach((slope, i) => {
+    if (slope === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      return;
+    }
+    const a = tangents[i] / slope;
+    const b = tangents[i + 1] / slope;
+    const length = a * a + b * b;
+    if (length > 9) {
+      const scale = 3 / Math.sqrt(length);
+      tangents[i] = scale * a * slope;
+      tangents[i + 1] = scale * b * slope;
+    }
+  });
+
+  const output: number[] = [];
+  let segment = 0;
+  for (let level = 0; level < LEVELS; level++) {
+    if (level <= sorted[0].x) {
+      output.push(sorted[0].y);
+      continue;
+    }
+    if (level >= sorted[count - 1].x) {
+      output.push(sorted[count - 1].y);
+      continue;
+    }
+    while (level > sorted[segment + 1].x) segment++;
+    const start = sorted[segment];
+    const end = sorted[segment + 1];
+    const width = end.x - start.x;
+    const t = (level - start.x) / width;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    output.push(
+      (2 * t3 - 3 * t2 + 1) * start.y +
+        (t3 - 2 * t2 + t) * width * tangents[segment] +
+        (-2 * t3 + 3 * t2) * end.y +
+        (t3 - t2) * width * tangents[segment + 1]
+    );
+  }
+  return output.map(value => Math.min(255, Math.max(0, Math.round(value))));
+};
+
+/**
+ * Output level of each input level after levels
+ */
+export const evaluateLevels = ({ inputBlack, inputWhite, gamma, outputBlack, outputWhite }: LevelsSettings): number[] =>
+  Array.from({ length: LEVELS }, (_, level) => {
+    const input = Math.min(1, Math.max(0, (level - inputBlack) / Math.max(1, inputWhite - inputBlack)));
+    return Math.round(outputBlack + (outputWhite - outputBlack) * input ** (1 / gamma));
+  });
+
+/**
+ * RGBA lookup of 256 entries, one for each input level, as read by the
+ * curves and levels filters
+ */
+const toLookup = (red: number[], green: number[], blue: number[]) => {
+  const lookup = new Uint8ClampedArray(LEVELS * 4);
+  for (let level = 0; level < LEVELS; level++) {
+    lookup[level * 4] = red[level];
+    lookup[level * 4 + 1] = green[level];
+    lookup[level * 4 + 2] = blue[level];
+    lookup[level * 4 + 3] = 255;
+  }
+  return lookup;
+};
+
+export const getCurvesLookup = (curves: CurvesSettings) => {
+  const rgb = evaluateCurve(curves.rgb);
+  const [red, green, blue] = [curves.red, curves.green, curves.blue].map(points =>
+    evaluateCurve(points).map(level => rgb[level])
+  );
+  return toLookup(red, green, blue);
+};
+
+export const getLevelsLookup = (levels: LevelsSettings) => {
+  const output = evaluateLevels(levels);
+  return toLookup(output, output, output);
+};
+
+export const isIdentityLookup = (lookup: Uint8ClampedArray) =>
+  lookup.every((value, i) => value === (i % 4 === 3 ? 255 : i >> 2));
+
+export const isDefaultLevels = (levels: LevelsSettings) =>
+  (Object.keys(DEFAULT_LEVELS) as (keyof LevelsSettings)[]).every(key => levels[key] === DEFAULT_LEVELS[key]);
@@ -0,0 +1,154 @@
+export type AdjustmentKind =
+  | 'exposure'
+  | 'brightness'
+  | 'contrast'
+  | 'saturation'
+  | 'vibrance'
+  | 'temperature'
+  | 'hue'
+  | 'blur'
+  | 'sharpen'
+  | 'noise'
+  | 'vignette'
+  | 'grayscale'
+  | 'sepia'
+  | 'invert'
+  | 'curves'
+  | 'levels'
+  | 'lut';
+
+export type CurveChannel = 'rgb' | 'red' | 'green' | 'blue';
+
+// Input and output levels, from 0 to 255
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+// Points of each channel's curve, sorted by input. The rgb curve applies
+// after the red, green and blue ones.
+export type CurvesSettings = Record<CurveChannel, CurvePoint[]>;
+
+export interface LevelsSettings {
+  // Input levels that become black and white, from 0 to 255
+  inputBlack: number;
+  inputWhite: number;
+  // Brightness of the midtones; above 1 lightens them
+  gamma: number;
+  // Darkest and lightest output levels, from 0 to 255
+  outputBlack: number;
+  outputWhite: number;
+}
+
+/** 3D color lookup table, as read from a .cube file */
+export interface ColorLut {
+  name: string;
+  // Entries along each side of the cube
+  size: number;
+  // Base64 of the RGB bytes of each entry, red changing fastest, then green, then blue
+  table: string;
+}
+
+/**
+ * LUT of an adjustment. Its table is kept once per image, in the image's
+ * `lutTables` under `key`, so that changes to the stack do not copy it.
+ */
+export interface AdjustmentLut {
+  key: string;
+  name: string;
+  size: number;
+}
+
+export interface Adjustment {
+  id: string;
+  kind: AdjustmentKind;
+  // In the units the slider shows; ignored by kinds without a range
+  value: number;
+  enabled: boolean;
+  // Set for the kinds they belong to
+  curves?: CurvesSettings;
+  levels?: LevelsSettings;
+  lut?: AdjustmentLut;
+}
+
+export interface AdjustmentRange {
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+  // Value new adjustments start at and reset to, when not 0
+  initial?: number;
+}
+
+export interface AdjustmentDefinition {
+  label: string;
+  // Null for adjustments that are either on or off
+  range: AdjustmentRange | null;
+}
+
+// In the order the add menu lists them. LUTs are added from imported presets.
+export const ADJUSTMENT_KINDS: AdjustmentKind[] = [
+  'exposure',
+  'brightness',
+  'contrast',
+  'saturation',
+  'vibrance',
+  'temperature',
+  'hue',
+  'blur',
+  'sharpen',
+  'noise',
+  'vignette',
+  'grayscale',
+  'sepia',
+  'invert',
+  'curves',
+  'levels',
+];
+
+const SIGNED: AdjustmentRange = { min: -100, max: 100, step: 1 };
+const AMOUNT: AdjustmentRange = { min: 0, max: 100, step: 1 };
+
+export const ADJUSTMENT_DEFINITIONS: Record<AdjustmentKind, AdjustmentDefinition> = {
+  exposure: { label: 'Exposure', range: SIGNED },
+  brightness: { label: 'Brightness', range: SIGNED },
+  contrast: { label: 'Contrast', range: SIGNED },
+  saturation: { label: 'Saturation', range: SIGNED },
+  vibrance: { label: 'Vibrance', range: SIGNED },
+  temperature: { label: 'Temperature', range: SIGNED },
+  hue: { label: 'Hue', range: { min: -180, max: 180, step: 1, unit: '°' } },
+  blur: { label: 'Blur', range: AMOUNT },
+  sharpen: { label: 'Sharpen', range: AMOUNT },
+  noise: { label: 'Noise', range: AMOUNT },
+  vignette: { label: 'Vignette', range: AMOUNT },
+  grayscale: { label: 'Grayscale', range: null },
+  sepia: { label: 'Sepia', range: null },
+  invert: { label: 'Invert', range: null },
+  curves: { label: 'Curves', range: null },
+  levels: { label: 'Levels', range: null },
+  // The value is how strongly the LUT applies
+  lut: { label: 'LUT', range: { min: 0, max: 100, step: 1, unit: '%', initial: 100 } },
+};
+
+export interface AdjustmentPreset {
+  name: string;
+  adjustments: Pick<Adjustment, 'kind' | 'value'>[];
+}
+
+export const DEFAULT_CURVES: CurvesSettings = {
+  rgb: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+  red: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+  green: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+  blue: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+};
+
+export const DEFAULT_LEVELS: LevelsSettings = {
+  inputBlack: 0,
+  inputWhite: 255,
+  gamma: 1,
+  outputBlack: 0,
+  outputWhite: 255,
+};
+
+// Histogram counts of the 256 levels of each channel; rgb counts luminance
+export type ImageHistogram = Record<CurveChannel, number[]>;
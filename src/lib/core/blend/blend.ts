@@ -0,0 +1,22 @@
+import * as fabric from 'fabric';
+import { BLEND_MODES, type BlendMode } from './types';
+
+export const isBlendMode = (value: unknown): value is BlendMode => BLEND_MODES.includes(value as BlendMode);
+
+/**
+ * Blend mode an object is drawn with. Canvas blend modes and CSS `mix-blend-mode`
+ * share their names, except that canvas calls normal blending `source-over`.
+ */
+export const getBlendMode = (object: fabric.FabricObject): BlendMode =>
+  isBlendMode(object.globalCompositeOperation) ? object.globalCompositeOperation : 'normal';
+
+export const toCompositeOperation = (mode: BlendMode): GlobalCompositeOperation =>
+  mode === 'normal' ? 'source-over' : mode;
+
+/**
+ * Objects a blend mode or opacity change applies to. A multi-selection only
+ * exists while selected, so its members are changed one by one; a group is
+ * changed as a whole.
+ */
+export const getBlendTargets = (object: fabric.FabricObject): fabric.FabricObject[] =>
+  object instanceof fabric.ActiveSelection ? object.getObjects() : [object];
@@ -0,0 +1,4 @@
+import '../svg';
+
+export * from './blend';
+export * from './types';
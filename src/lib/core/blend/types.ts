@@ -0,0 +1,48 @@
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+// Grouped the way design tools list them: darken, lighten, contrast, inversion, component
+export const BLEND_MODE_GROUPS: BlendMode[][] = [
+  ['normal'],
+  ['multiply', 'darken', 'color-burn'],
+  ['screen', 'lighten', 'color-dodge'],
+  ['overlay', 'soft-light', 'hard-light'],
+  ['difference', 'exclusion'],
+  ['hue', 'saturation', 'color', 'luminosity'],
+];
+
+export const BLEND_MODES: BlendMode[] = BLEND_MODE_GROUPS.flat();
+
+export const BLEND_MODE_LABELS: Record<BlendMode, string> = {
+  normal: 'Normal',
+  multiply: 'Multiply',
+  screen: 'Screen',
+  overlay: 'Overlay',
+  darken: 'Darken',
+  lighten: 'Lighten',
+  'color-dodge': 'Color dodge',
+  'color-burn': 'Color burn',
+  'hard-light': 'Hard light',
+  'soft-light': 'Soft light',
+  difference: 'Difference',
+  exclusion: 'Exclusion',
+  hue: 'Hue',
+  saturation: 'Saturation',
+  color: 'Color',
+  luminosity: 'Luminosity',
+};
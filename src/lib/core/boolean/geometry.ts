@@ -0,0 +1,200 @@
+import type { TMat2D, TSimplePathData, XY } from 'fabric';
+import * as fabric from 'fabric';
+import polygonClipping, { type MultiPolygon, type Ring } from 'polygon-clipping';
+import { parsePathNodes, pointOnSegment } from '../path/nodes';
+import type { BooleanOperation } from './types';
+
+/**
+ * Filled area of one or more shapes, as polygons in some plane. Curves are
+ * flattened into straight segments; strokes are not part of the area.
+ */
+export type Region = MultiPolygon;
+
+// Length in scene pixels of the straight segments that replace curves
+const FLATTEN_STEP = 2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const getScale = (matrix: TMat2D) => Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]));
+
+/**
+ * Number of segments for a curve of `length` local units, so each is about
+ * `FLATTEN_STEP` long once transformed
+ */
+const getSegmentCount = (length: number, matrix: TMat2D, min: number, max: number) =>
+  clamp(Math.ceil((length * getScale(matrix)) / FLATTEN_STEP), min, max);
+
+const toRing = (points: XY[], matrix: TMat2D): Ring =>
+  points.map(point => {
+    const { x, y } = fabric.util.transformPoint(point, matrix);
+    return [x, y];
+  });
+
+const arcPoints = (center: XY, rx: number, ry: number, start: number, end: number, segments: number): XY[] =>
+  Array.from({ length: segments + 1 }, (_, index) => {
+    const angle = start + ((end - start) * index) / segments;
+    return { x: center.x + Math.cos(angle) * rx, y: center.y + Math.sin(angle) * ry };
+  });
+
+const ellipsePoints = (rx: number, ry: number, matrix: TMat2D, start = 0, end = Math.PI * 2) => {
+  const segments = getSegmentCount(Math.max(rx, ry) * Math.abs(end - start), matrix, 16, 256);
+  const points = arcPoints({ x: 0, y: 0 }, rx, ry, start, end, segments);
+  // A full turn ends where it started
+  return Math.abs(end - start) >= Math.PI * 2 ? points.slice(0, -1) : points;
+};
+
+const rectPoints = ({ width, height, rx, ry }: fabric.Rect, matrix: TMat2D): XY[] => {
+  const w = width / 2;
+  const h = height / 2;
+  const cornerX = Math.min(rx || ry || 0, w);
+  const cornerY = Math.min(ry || rx || 0, h);
+  if (cornerX === 0 || cornerY === 0) {
+    return [{ x: -w, y: -h }, { x: w, y: -h }, { x: w, y: h }, { x: -w, y: h }];
+  }
+
+  const segments = getSegmentCount((Math.max(cornerX, cornerY) * Math.PI) / 2, matrix, 4, 64);
+  const corner = (x: number, y: number, start: number) =>
+    arcPoints({ x, y }, cornerX, cornerY, start, start + Math.PI / 2, segments);
+  return [
+    ...corner(w - cornerX, -h + cornerY, -Math.PI / 2),
+    ...corner(w - cornerX, h - cornerY, 0),
+    ...corner(-w + cornerX, h - cornerY, Math.PI / 2),
+    ...corner(-w + cornerX, -h + cornerY, Math.PI),
+  ];
+};
+
+/**
+ * One ring per sub-path; open sub-paths are closed, as they are when filled
+ */
+const pathRings = (path: fabric.Path, matrix: TMat2D): Ring[] => {
+  const offset = path.pathOffset;
+  return parsePathNodes(path.path).map(({ nodes, closed }) => {
+    const points: XY[] = [nodes[0]];
+    const count = closed ? nodes.length : nodes.length - 1;
+    for (let i = 0; i < count; i++) {
+      const from = nodes[i];
+      const to = nodes[(i + 1) % nodes.length];
+      if (from.handleOut || to.handleIn) {
+        const c1 = from.handleOut ?? from;
+        const c2 = to.handleIn ?? to;
+        const length = Math.hypot(c1.x - from.x, c1.y - from.y)
+          + Math.hypot(c2.x - c1.x, c2.y - c1.y)
+          + Math.hypot(to.x - c2.x, to.y - c2.y);
+        const segments = getSegmentCount(length, matrix, 2, 64);
+        for (let step = 1; step < segments; step++) {
+          points.push(pointOnSegment(from, to, step / segments));
+        }
+      }
+      points.push(to);
+    }
+    return toRing(points.map(point => ({ x: point.x - offset.x, y: point.y - offset.y })), matrix);
+  });
+};
+
+/**
+ * Even-odd combination of rings, so inner sub-paths punch holes
+ */
+const ringsToRegion = (rings: Ring[]): Region => {
+  const [first, ...rest] = rings.filter(ring => ring.length >= 3).map((ring): Region => [[ring]]);
+  if (!first) return [];
+  return rest.length > 0 ? polygonClipping.xor(first, ...rest) : first;
+};
+
+/**
+ * Whether the filled area of an object can be computed. Groups qualify if all of their objects do.
+ */
+export const isBooleanOperand = (object: fabric.FabricObject): boolean => {
+  if (object instanceof fabric.Group) {
+    return object.size() > 0 && object.getObjects().every(isBooleanOperand);
+  }
+  return object instanceof fabric.Rect
+    || object instanceof fabric.Circle
+    || object instanceof fabric.Ellipse
+    || object instanceof fabric.Triangle
+    || object instanceof fabric.Polyline
+    || object instanceof fabric.Path;
+};
+
+/**
+ * Filled area of an object, in the plane `matrix` maps its own coordinates to
+ */
+export const getObjectRegion = (
+  object: fabric.FabricObject,
+  matrix: TMat2D = object.calcTransformMatrix(),
+): Region => {
+  if (object instanceof fabric.Group) {
+    const regions = object
+      .getObjects()
+      .map(child => getObjectRegion(child, fabric.util.multiplyTransformMatrices(matrix, child.calcOwnMatrix())));
+    // Compound shapes combine their objects with their own operation
+    const operation: BooleanOperation = 'operation' in object ? (object.operation as BooleanOperation) : 'union';
+    return combineRegions(operation, regions);
+  }
+  if (object instanceof fabric.Rect) {
+    return ringsToRegion([toRing(rectPoints(object, matrix), matrix)]);
+  }
+  if (object instanceof fabric.Circle) {
+    const start = fabric.util.degreesToRadians(object.startAngle);
+    const end = fabric.util.degreesToRadians(object.endAngle);
+    return ringsToRegion([toRing(ellipsePoints(object.radius, object.radius, matrix, start, end), matrix)]);
+  }
+  if (object instanceof fabric.Ellipse) {
+    return ringsToRegion([toRing(ellipsePoints(object.rx, object.ry, matrix), matrix)]);
+  }
+  if (object instanceof fabric.Triangle) {
+    const w = object.width / 2;
+    const h = object.height / 2;
+    return ringsToRegion([toRing([{ x: -w, y: h }, { x: 0, y: -h }, { x: w, y: h }], matrix)]);
+  }
+  if (object instanceof fabric.Polyline) {
+    const offset = object.pathOffset;
+    const points = object.points.map(point => ({ x: point.x - offset.x, y: point.y - offset.y }));
+    return ringsToRegion([toRing(points, matrix)]);
+  }
+  if (object instanceof fabric.Path) {
+    return ringsToRegion(pathRings(object, matrix));
+  }
+  return [];
+};
+
+/**
+ * Combine regions listed from the bottom of the stack up. Subtract removes
+ * everything above the bottom region from it.
+ */
+export const combineRegions = (operation: BooleanOperation, regions: Region[]): Region => {
+  const [first, ...rest] = regions;
+  if (!first) return [];
+  if (rest.length === 0) return first;
+
+  switch (operation) {
+    case 'union':
+      return polygonClipping.union(first, ...rest);
+    case 'subtract':
+      return polygonClipping.difference(first, ...rest);
+    case 'intersect':
+      return polygonClipping.intersection(first, ...rest);
+    case 'exclude':
+      return polygonClipping.xor(first, ...rest);
+  }
+};
+
+/**
+ * Path commands for a region. Holes are separate sub-paths, so the path
+ * has to be filled with the even-odd rule.
+ */
+export const regionToPathData = (region: Region): TSimplePathData => {
+  const commands: TSimplePathData = [];
+  region.forEach(polygon => polygon.forEach(ring => {
+    // Rings repeat their first point at the end
+    const points = ring.slice(0, -1);
+    if (points.length < 3) return;
+
+    points.forEach(([x, y], index) => {
+      commands.push(index === 0 ? ['M', round(x), round(y)] : ['L', round(x), round(y)]);
+    });
+    commands.push(['Z']);
+  }));
+  return commands;
+};
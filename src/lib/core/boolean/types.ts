@@ -0,0 +1,15 @@
+export type BooleanOperation = 'union' | 'subtract' | 'intersect' | 'exclude';
+
+export const BOOLEAN_OPERATIONS: BooleanOperation[] = ['union', 'subtract', 'intersect', 'exclude'];
+
+export const BOOLEAN_OPERATION_LABELS: Record<BooleanOperation, string> = {
+  union: 'Union',
+  subtract: 'Subtract',
+  intersect: 'Intersect',
+  exclude: 'Exclude',
+};
+
+export interface BooleanOptions {
+  // Keep the shapes in an editable compound shape instead of replacing them with a path
+  keepOriginals: boolean;
+}
@@ -0,0 +1,210 @@
+import type { TBrushEventData } from 'fabric';
+import * as fabric from 'fabric';
+import { getPointerPressure } from './pressure';
+
+/**
+ * Shape of the tip that sweeps out the stroke:
+ * - `round`: circular tip, round ends
+ * - `square`: circular width but squared-off ends
+ * - `flat`: a fixed-angle chisel, thin along its edge and wide across it
+ */
+export type NibShape = 'round' | 'square' | 'flat';
+
+interface StrokePoint {
+  x: number;
+  y: number;
+  pressure: number;
+}
+
+// Chisel angle of the flat nib, pointing up and to the right
+const NIB_ANGLE = -Math.PI / 4;
+// Width at zero pressure, as a share of the full width
+const MIN_PRESSURE_WIDTH = 0.25;
+// Neighbours averaged on each side of a point at full smoothing
+const MAX_SMOOTHING_RADIUS = 6;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Freehand brush that draws each stroke as a filled outline, so its width can
+ * change along the stroke with pressure or nib angle. Strokes become a single
+ * `fabric.Path` with a fill and no stroke.
+ */
+export class RibbonBrush extends fabric.BaseBrush {
+  nib: NibShape = 'round';
+  opacity = 1;
+  smoothing = 0.5;
+  pressure = true;
+  compositeOperation: GlobalCompositeOperation = 'source-over';
+
+  private points: StrokePoint[] = [];
+
+  onMouseDown(pointer: fabric.Point, { e }: TBrushEventData) {
+    if (!this.canvas._isMainEvent(e)) return;
+
+    this.points = [];
+    this.addPoint(pointer, e);
+    this.canvas.clearContext(this.canvas.contextTop);
+    this._render();
+  }
+
+  onMouseMove(pointer: fabric.Point, { e }: TBrushEventData) {
+    if (!this.canvas._isMainEvent(e) || this.points.length === 0) return;
+    if (this.limitedToCanvasSize && this._isOutSideCanvas(pointer)) return;
+
+    if (this.addPoint(pointer, e)) {
+      this.canvas.clearContext(this.canvas.contextTop);
+      this._render();
+    }
+  }
+
+  onMouseUp({ e }: TBrushEventData) {
+    if (!this.canvas._isMainEvent(e)) return true;
+
+    this.finalizeStroke();
+    return false;
+  }
+
+  _render(ctx = this.canvas.contextTop) {
+    if (this.points.length === 0) return;
+
+    this._saveAndTransform(ctx);
+    ctx.fillStyle = this.color;
+    ctx.globalAlpha = this.opacity;
+    ctx.fill(new Path2D(this.buildOutline()));
+    ctx.restore();
+  }
+
+  private addPoint(pointer: fabric.Point, e: TBrushEventData['e']) {
+    const last = this.points[this.points.length - 1];
+    // Skip points closer than a screen pixel; they only add noise
+    const minDistance = 1 / this.canvas.getZoom();
+    if (last && Math.hypot(pointer.x - last.x, pointer.y - last.y) < minDistance) return false;
+
+    this.points.push({ x: pointer.x, y: pointer.y, pressure: this.pressure ? getPointerPressure(e) : 1 });
+    return true;
+  }
+
+  private finalizeStroke() {
+    const canvas = this.canvas;
+    canvas.clearContext(canvas.contextTop);
+    if (this.points.length === 0) return;
+
+    const path = new fabric.Path(this.buildOutline(), {
+      fill: this.color,
+      stroke: null,
+      strokeWidth: 0,
+      opacity: this.opacity,
+      globalCompositeOperation: this.compositeOperation,
+    });
+    if (this.shadow) {
+      path.shadow = new fabric.Shadow(this.shadow);
+    }
+    this.points = [];
+
+    canvas.fire('before:path:created', { path });
+    canvas.add(path);
+    canvas.requestRenderAll();
+    path.setCoords();
+    canvas.fire('path:created', { path });
+  }
+
+  /**
+   * Average each point with its neighbours; the ends stay where the pointer was
+   */
+  private smoothPoints(points: StrokePoint[]): StrokePoint[] {
+    const radius = Math.round(this.smoothing * MAX_SMOOTHING_RADIUS);
+    if (radius === 0 || points.length < 3) return points;
+
+    return points.map((point, index) => {
+      if (index === 0 || index === points.length - 1) return point;
+
+      const reach = Math.min(radius, index, points.length - 1 - index);
+      const window = points.slice(index - reach, index + reach + 1);
+      return {
+        x: window.reduce((sum, p) => sum + p.x, 0) / window.length,
+        y: window.reduce((sum, p) => sum + p.y, 0) / window.length,
+        pressure: window.reduce((sum, p) => sum + p.pressure, 0) / window.length,
+      };
+    });
+  }
+
+  /**
+   * SVG path data for the outline of the current stroke: the left edge, the end
+   * cap, the right edge backwards and the start cap
+   */
+  private buildOutline(): string {
+    const points = this.smoothPoints(this.points);
+    // A click without movement draws a dot
+    if (points.length === 1) {
+      points.push({ ...points[0], x: points[0].x + 0.01 });
+    }
+
+    const left: fabric.Point[] = [];
+    const right: fabric.Point[] = [];
+    const directions: fabric.Point[] = [];
+
+    points.forEach((point, index) => {
+      const previous = points[Math.max(0, index - 1)];
+      const next = points[Math.min(points.length - 1, index + 1)];
+      const length = Math.hypot(next.x - previous.x, next.y - previous.y) || 1;
+      const direction = new fabric.Point((next.x - previous.x) / length, (next.y - previous.y) / length);
+      directions.push(direction);
+
+      const halfWidth = (this.width / 2) * (MIN_PRESSURE_WIDTH + (1 - MIN_PRESSURE_WIDTH) * point.pressure);
+      const offset = this.nib === 'flat'
+        ? new fabric.Point(Math.cos(NIB_ANGLE), Math.sin(NIB_ANGLE)).scalarMultiply(halfWidth)
+        : new fabric.Point(-direction.y, direction.x).scalarMultiply(halfWidth);
+
+      left.push(new fabric.Point(point.x, point.y).add(offset));
+      right.push(new fabric.Point(point.x, point.y).subtract(offset));
+    });
+
+    const last = points.length - 1;
+    const commands = [`M ${round(left[0].x)} ${round(left[0].y)}`];
+    commands.push(...this.edgeCommands(left));
+    commands.push(...this.capCommands(left[last], right[last], directions[last], points[last]));
+    commands.push(...this.edgeCommands([...right].reverse()));
+    commands.push(...this.capCommands(right[0], left[0], directions[0].scalarMultiply(-1), points[0]));
+    commands.push('Z');
+    return commands.join(' ');
+  }
+
+  /**
+   * Curve through the midpoints of an edge, using the recorded points as control points
+   */
+  private edgeCommands(edge: fabric.Point[]): string[] {
+    const commands: string[] = [];
+    for (let i = 1; i < edge.length - 1; i++) {
+      const mid = edge[i].midPointFrom(edge[i + 1]);
+      commands.push(`Q ${round(edge[i].x)} ${round(edge[i].y)} ${round(mid.x)} ${round(mid.y)}`);
+    }
+    const end = edge[edge.length - 1];
+    commands.push(`L ${round(end.x)} ${round(end.y)}`);
+    return commands;
+  }
+
+  /**
+   * Close one end of the stroke, going from `from` to `to` around the tip
+   */
+  private capCommands(from: fabric.Point, to: fabric.Point, direction: fabric.Point, center: StrokePoint): string[] {
+    if (this.nib === 'flat') {
+      return [`L ${round(to.x)} ${round(to.y)}`];
+    }
+
+    const radius = from.distanceFrom(to) / 2;
+    const reach = direction.scalarMultiply(radius);
+    const fromOut = from.add(reach);
+    const toOut = to.add(reach);
+
+    if (this.nib === 'square') {
+      return [`L ${round(fromOut.x)} ${round(fromOut.y)}`, `L ${round(toOut.x)} ${round(toOut.y)}`, `L ${round(to.x)} ${round(to.y)}`];
+    }
+
+    const tip = new fabric.Point(center.x, center.y).add(reach);
+    return [
+      `Q ${round(fromOut.x)} ${round(fromOut.y)} ${round(tip.x)} ${round(tip.y)}`,
+      `Q ${round(toOut.x)} ${round(toOut.y)} ${round(to.x)} ${round(to.y)}`,
+    ];
+  }
+}
@@ -0,0 +1,100 @@
+import type { TBrushEventData } from 'fabric';
+import * as fabric from 'fabric';
+import { getPointerPressure } from './pressure';
+
+interface SprayDot {
+  x: number;
+  y: number;
+  size: number;
+}
+
+// Dots sprayed per pointer event at full pressure
+const DOTS_PER_CHUNK = 20;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Airbrush that scatters square dots inside a circle around the pointer.
+ * Unlike `fabric.SprayBrush`, which creates a group of rectangles, a stroke
+ * becomes a single `fabric.Path` like the other brushes.
+ */
+export class SprayPathBrush extends fabric.BaseBrush {
+  opacity = 1;
+  pressure = true;
+
+  private dots: SprayDot[] = [];
+
+  onMouseDown(pointer: fabric.Point, { e }: TBrushEventData) {
+    if (!this.canvas._isMainEvent(e)) return;
+
+    this.dots = [];
+    this.canvas.clearContext(this.canvas.contextTop);
+    this.renderDots(this.spray(pointer, e));
+  }
+
+  onMouseMove(pointer: fabric.Point, { e }: TBrushEventData) {
+    if (!this.canvas._isMainEvent(e)) return;
+    if (this.limitedToCanvasSize && this._isOutSideCanvas(pointer)) return;
+
+    this.renderDots(this.spray(pointer, e));
+  }
+
+  onMouseUp({ e }: TBrushEventData) {
+    if (!this.canvas._isMainEvent(e)) return true;
+
+    const canvas = this.canvas;
+    canvas.clearContext(canvas.contextTop);
+    if (this.dots.length === 0) return false;
+
+    const pathData = this.dots
+      .map(({ x, y, size }) => `M ${round(x)} ${round(y)} h ${round(size)} v ${round(size)} h ${round(-size)} Z`)
+      .join(' ');
+    const path = new fabric.Path(pathData, {
+      fill: this.color,
+      stroke: null,
+      strokeWidth: 0,
+      opacity: this.opacity,
+    });
+    this.dots = [];
+
+    canvas.fire('before:path:created', { path });
+    canvas.add(path);
+    canvas.requestRenderAll();
+    path.setCoords();
+    canvas.fire('path:created', { path });
+    return false;
+  }
+
+  _render() {
+    this.renderDots(this.dots);
+  }
+
+  private spray(pointer: fabric.Point, e: TBrushEventData['e']): SprayDot[] {
+    const radius = this.width / 2;
+    const dotSize = Math.max(1, this.width / 20);
+    const count = Math.max(1, Math.round(DOTS_PER_CHUNK * (this.pressure ? getPointerPressure(e) : 1)));
+
+    const chunk: SprayDot[] = [];
+    for (let i = 0; i < count; i++) {
+      // Uniform over the circle's area rather than bunched at its center
+      const angle = Math.random() * Math.PI * 2;
+      const distance = Math.sqrt(Math.random()) * radius;
+      chunk.push({
+        x: pointer.x + Math.cos(angle) * distance - dotSize / 2,
+        y: pointer.y + Math.sin(angle) * distance - dotSize / 2,
+        size: dotSize * (0.5 + Math.random()),
+      });
+    }
+    this.dots.push(...chunk);
+    return chunk;
+  }
+
+  private renderDots(dots: SprayDot[]) {
+    const ctx = this.canvas.contextTop;
+    this._saveAndTransform(ctx);
+    ctx.fillStyle = this.color;
+    ctx.globalAlpha = this.opacity;
+    dots.forEach(({ x, y, size }) => ctx.fillRect(x, y, size, size));
+    ctx.restore();
+  }
+}
@@ -0,0 +1,44 @@
+import type * as fabric from 'fabric';
+import { RibbonBrush, type NibShape } from './RibbonBrush';
+import { SprayPathBrush } from './SprayPathBrush';
+import type { BrushSettings, BrushType } from './types';
+
+export * from './types';
+
+const NIBS: Record<Exclude<BrushType, 'spray'>, NibShape> = {
+  pencil: 'round',
+  marker: 'square',
+  calligraphy: 'flat',
+};
+
+export const BRUSH_LABELS: Record<BrushType, string> = {
+  pencil: 'Pencil',
+  marker: 'Marker',
+  spray: 'Spray',
+  calligraphy: 'Calligraphy',
+};
+
+/**
+ * Free-drawing brush for the pen tool, configured from the brush settings
+ */
+export const createBrush = (canvas: fabric.Canvas, settings: BrushSettings): fabric.BaseBrush => {
+  if (settings.type === 'spray') {
+    const brush = new SprayPathBrush(canvas);
+    brush.width = settings.size;
+    brush.color = settings.color;
+    brush.opacity = settings.opacity;
+    brush.pressure = settings.pressure;
+    return brush;
+  }
+
+  const brush = new RibbonBrush(canvas);
+  brush.nib = NIBS[settings.type];
+  brush.width = settings.size;
+  brush.color = settings.color;
+  brush.opacity = settings.opacity;
+  brush.smoothing = settings.smoothing;
+  // Markers keep an even width and darken where strokes overlap, like ink
+  brush.pressure = settings.type !== 'marker' && settings.pressure;
+  brush.compositeOperation = settings.type === 'marker' ? 'multiply' : 'source-over';
+  return brush;
+};
@@ -0,0 +1,11 @@
+import type { TPointerEvent } from 'fabric';
+
+/**
+ * Stylus pressure of a pointer event between 0 and 1. Mice and touch screens
+ * without pressure sensing report full pressure.
+ */
+export const getPointerPressure = (e: TPointerEvent): number => {
+  if (!('pointerType' in e) || e.pointerType !== 'pen') return 1;
+  // Some tablets report 0 for the first event of a stroke
+  return e.pressure > 0 ? e.pressure : 0.5;
+};
@@ -0,0 +1,22 @@
+export type BrushType = 'pencil' | 'marker' | 'spray' | 'calligraphy';
+
+export interface BrushSettings {
+  type: BrushType;
+  // Stroke width in canvas pixels; the spray diameter for the spray brush
+  size: number;
+  color: string;
+  opacity: number;
+  // 0 keeps every wobble of the pointer, 1 smooths the stroke the most
+  smoothing: number;
+  // Vary the stroke width with stylus pressure; mouse input always draws at full size
+  pressure: boolean;
+}
+
+export const DEFAULT_BRUSH_SETTINGS: BrushSettings = {
+  type: 'pencil',
+  size: 4,
+  color: '#000000',
+  opacity: 1,
+  smoothing: 0.5,
+  pressure: true,
+};
@@ -0,0 +1,133 @@
+import * as fabric from 'fabric';
+import { getGradientStops, isGradient } from '../gradient';
+import {
+  blendColors,
+  findContrastingColor,
+  getContrastLevel,
+  isLargeText,
+  measureContrast,
+  parseColor,
+  toHexColor,
+} from './contrast';
+import { CONTRAST_THRESHOLDS, MIN_READABLE_FONT_SIZE, type AuditLayer, type RGB, type TextContrastResult } from './types';
+
+// Backgrounds are sampled down to this many pixels on their longest side
+const SAMPLE_SIZE = 96;
+
+const WHITE: RGB = [255, 255, 255];
+
+const collectTexts = (object: fabric.FabricObject): fabric.FabricText[] => {
+  if (!object.visible) return [];
+  if (object instanceof fabric.FabricText) return object.text.trim() ? [object] : [];
+  if (object instanceof fabric.Group) return object.getObjects().flatMap(collectTexts);
+  return [];
+};
+
+/**
+ * Solid colors the text is painted with, and their opacity: its fill or
+ * gradient stops, and the fills of characters styled on their own. Pattern
+ * fills can't be checked.
+ */
+const getTextColors = (text: fabric.FabricText) => {
+  const { fill } = text;
+  const colors: { color: string; opacity: number }[] = isGradient(fill) ? getGradientStops(fill) : typeof fill === 'string' && fill ? [{ color: fill, opacity: 1 }] : [];
+  Object.values(text.styles ?? {}).forEach(line => {
+    Object.values(line).forEach(style => {
+      if (typeof style.fill === 'string') colors.push({ color: style.fill, opacity: 1 });
+    });
+  });
+  return colors;
+};
+
+const setDirtyUpwards = (object: fabric.FabricObject) => {
+  for (let group = object.group; group; group = group.group) group.set('dirty', true);
+};
+
+/**
+ * Pixels of the design behind a text, inside its bounds: everything below it,
+ * including the base layer, with the text itself hidden. Objects above the text
+ * in its own group are drawn too.
+ */
+const sampleBackground = (canvas: fabric.Canvas, text: fabric.FabricText): RGB[] => {
+  const objects = canvas.getObjects();
+  const topLevel = objects.find(object => object === text || (object instanceof fabric.Group && object.contains(text, true)));
+  const below = new Set<object>(topLevel ? objects.slice(0, objects.indexOf(topLevel) + 1) : objects);
+  const bounds = text.getBoundingRect();
+  const zoom = canvas.getZoom();
+  const [, , , , panX, panY] = canvas.viewportTransform;
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(bounds.width, bounds.height, 1));
+
+  const wasVisible = text.visible;
+  text.visible = false;
+  setDirtyUpwards(text);
+  let element: HTMLCanvasElement;
+  try {
+    element = canvas.toCanvasElement(scale / zoom, {
+      left: panX + bounds.left * zoom,
+      top: panY + bounds.top * zoom,
+      width: Math.max(1, bounds.width * zoom),
+      height: Math.max(1, bounds.height * zoom),
+      filter: object => below.has(object),
+    });
+  } finally {
+    text.visible = wasVisible;
+    setDirtyUpwards(text);
+  }
+
+  const { data } = element.getContext('2d')!.getImageData(0, 0, element.width, element.height);
+  const pixels: RGB[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    // Uncovered areas are shown on white, as in exports
+    pixels.push(blendColors([data[i], data[i + 1], data[i + 2]], WHITE, data[i + 3] / 255));
+  }
+  return pixels;
+};
+
+const auditText = (canvas: fabric.Canvas, layer: AuditLayer, text: fabric.FabricText): TextContrastResult | null => {
+  const colors = getTextColors(text);
+  if (colors.length === 0) return null;
+
+  const background = sampleBackground(canvas, text);
+  if (background.length === 0) return null;
+
+  const fontSize = Math.round(text.fontSize * text.getObjectScaling().y * 10) / 10;
+  const largeText = isLargeText(fontSize, text.fontWeight);
+  // The least readable of the text's colors decides
+  const [worst] = colors
+    .map(({ color, opacity }) => {
+      const { rgb, alpha } = parseColor(color);
+      const effectiveAlpha = alpha * opacity * text.opacity;
+      return { rgb, alpha: effectiveAlpha, ...measureContrast(rgb, effectiveAlpha, background) };
+    })
+    .sort((a, b) => a.ratio - b.ratio);
+  const level = getContrastLevel(worst.ratio, largeText);
+  const thresholds = CONTRAST_THRESHOLDS[largeText ? 'large' : 'normal'];
+
+  return {
+    layerId: layer.id,
+    layerName: layer.name,
+    object: text,
+    textColor: toHexColor(worst.rgb),
+    backgroundColor: toHexColor(worst.pixel),
+    ratio: worst.ratio,
+    level,
+    isLargeText: largeText,
+    fontSize,
+    isTooSmall: fontSize < MIN_READABLE_FONT_SIZE,
+    suggestedColor: level !== 'AAA' && typeof text.fill === 'string'
+      ? findContrastingColor(worst.rgb, worst.alpha, background, level === 'fail' ? thresholds.AA : thresholds.AAA)
+      : null,
+  };
+};
+
+/**
+ * Check the contrast of every visible text in `layers`, including texts in
+ * groups, against what is rendered behind it. Failures come first.
+ */
+export const auditTextContrast = (canvas: fabric.Canvas, layers: AuditLayer[]): TextContrastResult[] => {
+  const results = layers.flatMap(layer =>
+    collectTexts(layer.object).flatMap(text => auditText(canvas, layer, text) ?? []),
+  );
+  canvas.requestRenderAll();
+  return results.sort((a, b) => a.ratio - b.ratio);
+};
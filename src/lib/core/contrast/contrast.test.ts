@@ -0,0 +1,99 @@
+import {
+  blendColors,
+  findContrastingColor,
+  getContrastLevel,
+  getContrastRatio,
+  isLargeText,
+  measureContrast,
+  parseColor,
+} from './contrast';
+import type { RGB } from './types';
+
+const BLACK: RGB = [0, 0, 0];
+const WHITE: RGB = [255, 255, 255];
+const GRAY: RGB = [119, 119, 119];
+
+describe('getContrastRatio', () => {
+  it('spans 1 to 21', () => {
+    expect(getContrastRatio(BLACK, WHITE)).toBeCloseTo(21);
+    expect(getContrastRatio(GRAY, GRAY)).toBeCloseTo(1);
+  });
+
+  it('does not depend on the order of the colors', () => {
+    expect(getContrastRatio(WHITE, GRAY)).toBeCloseTo(getContrastRatio(GRAY, WHITE));
+  });
+
+  it('matches the WCAG reference values', () => {
+    // #777 on white is the classic "just fails AA" gray
+    expect(getContrastRatio(GRAY, WHITE)).toBeCloseTo(4.48, 2);
+    expect(getContrastRatio([255, 0, 0], WHITE)).toBeCloseTo(4, 2);
+  });
+});
+
+describe('getContrastLevel', () => {
+  it('uses the normal text thresholds', () => {
+    expect(getContrastLevel(7, false)).toBe('AAA');
+    expect(getContrastLevel(6.99, false)).toBe('AA');
+    expect(getContrastLevel(4.5, false)).toBe('AA');
+    expect(getContrastLevel(4.49, false)).toBe('fail');
+  });
+
+  it('uses the lower large text thresholds', () => {
+    expect(getContrastLevel(4.5, true)).toBe('AAA');
+    expect(getContrastLevel(4.49, true)).toBe('AA');
+    expect(getContrastLevel(3, true)).toBe('AA');
+    expect(getContrastLevel(2.99, true)).toBe('fail');
+  });
+});
+
+describe('isLargeText', () => {
+  it('counts 18pt text as large', () => {
+    expect(isLargeText(24, 'normal')).toBe(true);
+    expect(isLargeText(23.9, 'normal')).toBe(false);
+  });
+
+  it('counts bold 14pt text as large', () => {
+    expect(isLargeText(18.66, 'bold')).toBe(true);
+    expect(isLargeText(18.66, 700)).toBe(true);
+    expect(isLargeText(18.66, '600')).toBe(false);
+    expect(isLargeText(18, 'bold')).toBe(false);
+  });
+});
+
+describe('blendColors', () => {
+  it('lays a color over the background by its alpha', () => {
+    expect(blendColors(WHITE, BLACK, 1)).toEqual(WHITE);
+    expect(blendColors(WHITE, BLACK, 0)).toEqual(BLACK);
+    expect(blendColors(WHITE, BLACK, 0.5)).toEqual([127.5, 127.5, 127.5]);
+  });
+});
+
+describe('measureContrast', () => {
+  it('ignores the least contrasting tenth of the background', () => {
+    const background: RGB[] = [...Array(19).fill(WHITE), BLACK];
+    expect(measureContrast(BLACK, 1, background).ratio).toBeCloseTo(21);
+  });
+
+  it('reports the background pixel with the lowest remaining contrast', () => {
+    const background: RGB[] = [WHITE, GRAY];
+    expect(measureContrast(BLACK, 1, background).pixel).toEqual(GRAY);
+  });
+
+  it('blends translucent text with the background first', () => {
+    expect(measureContrast(BLACK, 0, [WHITE]).ratio).toBeCloseTo(1);
+  });
+});
+
+describe('findContrastingColor', () => {
+  it('returns the nearest hex color that passes', () => {
+    const fixed = findContrastingColor(GRAY, 1, [WHITE], 4.5)!;
+    const { rgb } = parseColor(fixed);
+    expect(getContrastRatio(rgb, WHITE)).toBeGreaterThanOrEqual(4.5);
+    // Darkened just a little, not replaced by black
+    expect(rgb[0]).toBeGreaterThan(100);
+  });
+
+  it('returns null when neither black nor white passes', () => {
+    expect(findContrastingColor(GRAY, 1, [GRAY], 21)).toBeNull();
+  });
+});
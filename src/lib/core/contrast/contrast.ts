@@ -0,0 +1,99 @@
+import * as fabric from 'fabric';
+import {
+  CONTRAST_THRESHOLDS,
+  LARGE_BOLD_TEXT_SIZE,
+  LARGE_TEXT_SIZE,
+  type ContrastLevel,
+  type RGB,
+} from './types';
+
+// Share of the background that may contrast less than the reported ratio, so
+// a few stray pixels under the text don't decide the result
+const BACKGROUND_PERCENTILE = 0.1;
+
+// Steps of the search for a passing color; enough to land on a single hex value
+const SEARCH_STEPS = 16;
+
+export const parseColor = (color: string): { rgb: RGB; alpha: number } => {
+  const [r, g, b, alpha] = new fabric.Color(color).getSource();
+  return { rgb: [r, g, b], alpha };
+};
+
+export const toHexColor = (rgb: RGB) => `#${rgb.map(value => Math.round(value).toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * `color` laid over `background` with `alpha`
+ */
+export const blendColors = (color: RGB, background: RGB, alpha: number): RGB =>
+  color.map((value, i) => value * alpha + background[i] * (1 - alpha)) as RGB;
+
+const channelLuminance = (value: number) => {
+  const channel = value / 255;
+  return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+};
+
+export const getRelativeLuminance = ([r, g, b]: RGB) =>
+  0.2126 * channelLuminance(r) + 0.7152 * channelLuminance(g) + 0.0722 * channelLuminance(b);
+
+/**
+ * WCAG 2.x contrast ratio, from 1 (none) to 21 (black on white)
+ */
+export const getContrastRatio = (a: RGB, b: RGB) => {
+  const [lighter, darker] = [getRelativeLuminance(a), getRelativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+export const isLargeText = (fontSize: number, fontWeight: string | number) => {
+  const isBold = fontWeight === 'bold' || Number(fontWeight) >= 700;
+  return fontSize >= LARGE_TEXT_SIZE || (isBold && fontSize >= LARGE_BOLD_TEXT_SIZE);
+};
+
+export const getContrastLevel = (ratio: number, largeText: boolean): ContrastLevel => {
+  const thresholds = CONTRAST_THRESHOLDS[largeText ? 'large' : 'normal'];
+  if (ratio >= thresholds.AAA) return 'AAA';
+  if (ratio >= thresholds.AA) return 'AA';
+  return 'fail';
+};
+
+/**
+ * Lowest contrast of a text color across a background, ignoring the least
+ * contrasting tenth of it. Returns the ratio and the background color it was measured against.
+ */
+export const measureContrast = (color: RGB, alpha: number, background: RGB[]) => {
+  const measured = background.map(pixel => ({ pixel, ratio: getContrastRatio(blendColors(color, pixel, alpha), pixel) }));
+  measured.sort((a, b) => a.ratio - b.ratio);
+  return measured[Math.floor((measured.length - 1) * BACKGROUND_PERCENTILE)];
+};
+
+/**
+ * Nearest color to `color` that reaches `minRatio` on `background`, found by
+ * darkening or lightening it as little as possible. Null if neither can.
+ */
+export const findContrastingColor = (color: RGB, alpha: number, background: RGB[], minRatio: number) => {
+  const mix = (target: RGB, amount: number) => blendColors(target, color, amount);
+  const passes = (candidate: RGB) => measureContrast(candidate, alpha, background).ratio >= minRatio;
+
+  const candidates = ([[0, 0, 0], [255, 255, 255]] as RGB[])
+    .filter(passes)
+    .map(target => {
+      // Smallest share of black or white that passes
+      let low = 0;
+      let high = 1;
+      for (let step = 0; step < SEARCH_STEPS; step++) {
+        const middle = (low + high) / 2;
+        if (passes(mix(target, middle))) high = middle;
+        else low = middle;
+      }
+      return { amount: high, target };
+    })
+    .sort((a, b) => a.amount - b.amount);
+
+  const [nearest] = candidates;
+  if (!nearest) return null;
+  // Rounding to hex can land just short of the ratio, so step on until it passes
+  for (let amount = nearest.amount; amount < 1; amount += 1 / 255) {
+    const hex = toHexColor(mix(nearest.target, amount));
+    if (passes(parseColor(hex).rgb)) return hex;
+  }
+  return toHexColor(nearest.target);
+};
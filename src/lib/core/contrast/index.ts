@@ -0,0 +1,3 @@
+export * from './audit';
+export * from './contrast';
+export * from './types';
@@ -0,0 +1,41 @@
+import type * as fabric from 'fabric';
+
+export type RGB = [number, number, number];
+
+export type ContrastLevel = 'AAA' | 'AA' | 'fail';
+
+// Minimum contrast ratios of WCAG 2.x success criteria 1.4.3 (AA) and 1.4.6 (AAA)
+export const CONTRAST_THRESHOLDS: Record<'normal' | 'large', Record<Exclude<ContrastLevel, 'fail'>, number>> = {
+  normal: { AA: 4.5, AAA: 7 },
+  large: { AA: 3, AAA: 4.5 },
+};
+
+// Text this size or larger (18pt), or bold and at least 14pt, counts as large
+export const LARGE_TEXT_SIZE = 24;
+export const LARGE_BOLD_TEXT_SIZE = 18.66;
+
+// Rendered font sizes below this are flagged as hard to read at any contrast
+export const MIN_READABLE_FONT_SIZE = 12;
+
+export interface AuditLayer {
+  id: string;
+  name: string;
+  object: fabric.FabricObject;
+}
+
+export interface TextContrastResult {
+  layerId: string;
+  layerName: string;
+  object: fabric.FabricText;
+  // Hex colors of the text and of the background where contrast is lowest
+  textColor: string;
+  backgroundColor: string;
+  ratio: number;
+  level: ContrastLevel;
+  isLargeText: boolean;
+  // Font size as rendered in the design, after scaling
+  fontSize: number;
+  isTooSmall: boolean;
+  // Nearest solid color reaching the next level, for solid text that isn't AAA
+  suggestedColor: string | null;
+}
@@ -0,0 +1,162 @@
+import type { GradientCoords, GradientType, TPointerEvent, Transform, XY } from 'fabric';
+import * as fabric from 'fabric';
+import { renderGradientHandle } from '../Control';
+import { ConicGradient } from '../subclass/ConicGradient';
+import { copyGradient, getGradientStops, gradientToScene, isGradient, sceneToGradient, type Gradient } from './gradient';
+
+type HandleEnd = 'start' | 'end';
+
+interface SavedObjectState {
+  controls: fabric.FabricObject['controls'];
+  lockMovementX: boolean;
+  lockMovementY: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Gradient-edit mode for an object with a gradient fill: while active, the
+ * object's transform controls are swapped for two handles on its gradient.
+ *
+ * - Linear: the handles are where the gradient starts and ends
+ * - Radial: the start handle moves the center, the end handle sets the radius
+ * - Conic: the start handle moves the center, the end handle turns where the sweep starts
+ *
+ * Dragging a handle swaps in a moved copy of the gradient, and ends in
+ * `object:modified`, which records the change.
+ */
+export class GradientEditor {
+  object: fabric.FabricObject | null = null;
+
+  private savedState: SavedObjectState | null = null;
+
+  constructor(
+    private canvas: fabric.Canvas,
+    private callbacks: {
+      // The edited object changed
+      onUpdate: () => void;
+    },
+  ) { }
+
+  get isEditing() {
+    return this.object !== null;
+  }
+
+  enter(object: fabric.FabricObject) {
+    if (this.object === object) return;
+    this.exit();
+    if (!isGradient(object.fill)) return;
+
+    this.object = object;
+    this.savedState = {
+      controls: object.controls,
+      lockMovementX: object.lockMovementX,
+      lockMovementY: object.lockMovementY,
+    };
+    // Dragging the body while aiming for a handle would move the whole object
+    object.set({ lockMovementX: true, lockMovementY: true });
+    object.controls = {
+      start: this.createHandleControl('start'),
+      end: this.createHandleControl('end'),
+    };
+    object.setCoords();
+    this.canvas.setActiveObject(object);
+    this.canvas.requestRenderAll();
+    this.callbacks.onUpdate();
+  }
+
+  exit() {
+    const object = this.object;
+    if (!object || !this.savedState) return;
+
+    object.controls = this.savedState.controls;
+    object.set({
+      lockMovementX: this.savedState.lockMovementX,
+      lockMovementY: this.savedState.lockMovementY,
+    });
+    object.setCoords();
+    this.object = null;
+    this.savedState = null;
+    this.canvas.requestRenderAll();
+    this.callbacks.onUpdate();
+  }
+
+  private getGradient(): Gradient | null {
+    const fill = this.object?.fill;
+    return isGradient(fill) ? fill : null;
+  }
+
+  /**
+   * Position of a handle in gradient coordinates
+   */
+  private getHandlePoint(gradient: Gradient, end: HandleEnd): XY {
+    if (gradient.type === 'radial') {
+      const { x2, y2, r2 } = gradient.coords as GradientCoords<'radial'>;
+      return end === 'start' ? { x: x2, y: y2 } : { x: x2 + r2, y: y2 };
+    }
+    const { x1, y1, x2, y2 } = gradient.coords;
+    return end === 'start' ? { x: x1, y: y1 } : { x: x2, y: y2 };
+  }
+
+  /**
+   * Coordinates of the gradient with a handle moved to `point`, in gradient coordinates
+   */
+  private moveHandle(gradient: Gradient, end: HandleEnd, point: XY): GradientCoords<GradientType> {
+    const x = round(point.x);
+    const y = round(point.y);
+
+    if (gradient.type === 'radial') {
+      const coords = gradient.coords as GradientCoords<'radial'>;
+      return end === 'start'
+        // The focal point keeps its place relative to the center
+        ? { ...coords, x1: x + coords.x1 - coords.x2, y1: y + coords.y1 - coords.y2, x2: x, y2: y }
+        : { ...coords, r2: Math.max(1, round(Math.hypot(point.x - coords.x2, point.y - coords.y2))) };
+    }
+
+    const coords = gradient.coords;
+    if (end === 'end') {
+      // A conic gradient needs some distance to know which way it starts
+      if (gradient instanceof ConicGradient && x === coords.x1 && y === coords.y1) return coords;
+      return { ...coords, x2: x, y2: y };
+    }
+    return gradient instanceof ConicGradient
+      // The start direction moves with the center
+      ? { x1: x, y1: y, x2: x + coords.x2 - coords.x1, y2: y + coords.y2 - coords.y1 }
+      : { ...coords, x1: x, y1: y };
+  }
+
+  private toViewport(gradient: Gradient, end: HandleEnd) {
+    const scene = gradientToScene(this.object!, gradient, this.getHandlePoint(gradient, end));
+    return new fabric.Point(scene).transform(this.canvas.viewportTransform);
+  }
+
+  private createHandleControl(end: HandleEnd) {
+    return new fabric.Control({
+      sizeX: 14,
+      sizeY: 14,
+      actionName: 'modifyGradient',
+      cursorStyle: 'move',
+      getVisibility: () => !!this.getGradient(),
+      positionHandler: () => {
+        const gradient = this.getGradient();
+        return gradient ? this.toViewport(gradient, end) : new fabric.Point(0, 0);
+      },
+      actionHandler: (eventData: TPointerEvent, transform: Transform, x: number, y: number) => {
+        const gradient = this.getGradient();
+        if (!gradient || !this.object) return false;
+
+        const coords = this.moveHandle(gradient, end, sceneToGradient(this.object, gradient, { x, y }));
+        this.object.set('fill', copyGradient(gradient, { coords }));
+        return true;
+      },
+      render: (ctx: CanvasRenderingContext2D, left: number, top: number) => {
+        const gradient = this.getGradient();
+        if (!gradient) return;
+
+        const stops = getGradientStops(gradient);
+        const stop = end === 'start' ? stops[0] : stops[stops.length - 1];
+        renderGradientHandle(ctx, left, top, stop?.color ?? 'transparent', end === 'end' ? this.toViewport(gradient, 'start') : undefined);
+      },
+    });
+  }
+}
@@ -0,0 +1,172 @@
+import type { GradientType, TMat2D, XY } from 'fabric';
+import * as fabric from 'fabric';
+import { ConicGradient } from '../subclass/ConicGradient';
+import { fromColorStops, stopsToCss, toColorStops } from './stops';
+import type { GradientKind, GradientOptions, GradientStop } from './types';
+
+export type Gradient = fabric.Gradient<GradientType>;
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toRadians = (degrees: number) => fabric.util.degreesToRadians(degrees);
+
+const toDegrees = (radians: number) => (fabric.util.radiansToDegrees(radians) + 360) % 360;
+
+export const isGradient = (value: unknown): value is Gradient => value instanceof fabric.Gradient;
+
+export const getGradientKind = (gradient: Gradient): GradientKind =>
+  gradient instanceof ConicGradient ? 'conic' : gradient.type;
+
+export const getGradientStops = (gradient: Gradient) => fromColorStops(gradient.colorStops);
+
+/**
+ * Direction of a linear gradient, or where a conic one starts, in degrees
+ */
+export const getGradientAngle = (gradient: Gradient) => {
+  if (gradient.type === 'radial') return 0;
+  const { x1, y1, x2, y2 } = gradient.coords;
+  return Math.round(toDegrees(Math.atan2(y2 - y1, x2 - x1)));
+};
+
+/**
+ * Default stops for turning a solid color into a gradient: the color fading out
+ */
+export const getDefaultStops = (color: string): GradientStop[] => [
+  { offset: 0, color, opacity: 1 },
+  { offset: 1, color, opacity: 0 },
+];
+
+/**
+ * Gradient spanning an object of `size`. Coordinates are in pixels from the
+ * object's top left corner, which is how fabric places `pixels` gradients.
+ */
+export const createGradient = (kind: GradientKind, size: Size, { stops, angle }: GradientOptions): Gradient => {
+  const { width, height } = size;
+  const center = { x: width / 2, y: height / 2 };
+  const direction = { x: Math.cos(toRadians(angle)), y: Math.sin(toRadians(angle)) };
+  const colorStops = toColorStops(stops);
+
+  switch (kind) {
+    case 'linear': {
+      // Long enough for the ends to touch the corners of the box, whatever the angle
+      const half = Math.abs(direction.x) * center.x + Math.abs(direction.y) * center.y;
+      return new fabric.Gradient({
+        type: 'linear',
+        gradientUnits: 'pixels',
+        coords: {
+          x1: round(center.x - direction.x * half),
+          y1: round(center.y - direction.y * half),
+          x2: round(center.x + direction.x * half),
+          y2: round(center.y + direction.y * half),
+        },
+        colorStops,
+      });
+    }
+    case 'radial':
+      return new fabric.Gradient({
+        type: 'radial',
+        gradientUnits: 'pixels',
+        coords: { x1: center.x, y1: center.y, r1: 0, x2: center.x, y2: center.y, r2: round(Math.max(width, height) / 2) },
+        colorStops,
+      });
+    case 'conic': {
+      const length = Math.max(Math.min(width, height) / 4, 1);
+      return new ConicGradient({
+        gradientUnits: 'pixels',
+        coords: {
+          x1: center.x,
+          y1: center.y,
+          x2: round(center.x + direction.x * length),
+          y2: round(center.y + direction.y * length),
+        },
+        colorStops,
+      });
+    }
+  }
+};
+
+/**
+ * Copy of a gradient with some of its options replaced. Gradients are
+ * swapped rather than changed in place, so fabric sees the fill change.
+ */
+export const copyGradient = (gradient: Gradient, changes: fabric.GradientOptions<GradientType> = {}): Gradient => {
+  const options = { ...gradient.toObject(), ...changes } as fabric.GradientOptions<GradientType>;
+  return gradient instanceof ConicGradient
+    ? new ConicGradient(options as fabric.GradientOptions<'linear'>)
+    : new fabric.Gradient(options);
+};
+
+export const setGradientStops = (gradient: Gradient, stops: GradientStop[]) =>
+  copyGradient(gradient, { colorStops: toColorStops(stops) });
+
+/**
+ * Turn a linear gradient around its middle, or a conic one around its center,
+ * keeping its length
+ */
+export const setGradientAngle = (gradient: Gradient, angle: number) => {
+  if (gradient.type === 'radial') return gradient;
+
+  const { x1, y1, x2, y2 } = gradient.coords;
+  const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+  const direction = { x: Math.cos(toRadians(angle)), y: Math.sin(toRadians(angle)) };
+  if (gradient instanceof ConicGradient) {
+    return copyGradient(gradient, {
+      coords: { x1, y1, x2: round(x1 + direction.x * length), y2: round(y1 + direction.y * length) },
+    });
+  }
+
+  const middle = { x: (x1 + x2) / 2, y: (y1 + y2) / 2 };
+  const half = length / 2;
+  return copyGradient(gradient, {
+    coords: {
+      x1: round(middle.x - direction.x * half),
+      y1: round(middle.y - direction.y * half),
+      x2: round(middle.x + direction.x * half),
+      y2: round(middle.y + direction.y * half),
+    },
+  });
+};
+
+/**
+ * Maps gradient coordinates into the scene, the way fabric transforms the
+ * context before filling an object with a gradient
+ */
+const getGradientSceneMatrix = (object: fabric.FabricObject, gradient: Gradient): TMat2D => {
+  const { width, height } = object;
+  const origin: TMat2D = gradient.gradientUnits === 'percentage'
+    ? [width, 0, 0, height, gradient.offsetX - width / 2, gradient.offsetY - height / 2]
+    : [1, 0, 0, 1, gradient.offsetX - width / 2, gradient.offsetY - height / 2];
+  const local = gradient.gradientTransform
+    ? fabric.util.multiplyTransformMatrices(origin, gradient.gradientTransform)
+    : origin;
+  return fabric.util.multiplyTransformMatrices(object.calcTransformMatrix(), local);
+};
+
+export const gradientToScene = (object: fabric.FabricObject, gradient: Gradient, point: XY) =>
+  fabric.util.transformPoint(point, getGradientSceneMatrix(object, gradient));
+
+export const sceneToGradient = (object: fabric.FabricObject, gradient: Gradient, point: XY) =>
+  fabric.util.transformPoint(point, fabric.util.invertTransform(getGradientSceneMatrix(object, gradient)));
+
+/**
+ * CSS background for previewing a gradient in the UI. Shows the kind, angle
+ * and stops, but not the gradient's exact position.
+ */
+export const gradientToCss = (gradient: Gradient) => {
+  const stops = stopsToCss(getGradientStops(gradient));
+  // CSS angles start from the top, canvas ones from the right
+  const angle = (getGradientAngle(gradient) + 90) % 360;
+  switch (getGradientKind(gradient)) {
+    case 'linear':
+      return `linear-gradient(${angle}deg, ${stops})`;
+    case 'radial':
+      return `radial-gradient(circle, ${stops})`;
+    case 'conic':
+      return `conic-gradient(from ${angle}deg, ${stops})`;
+  }
+};
@@ -0,0 +1,4 @@
+export * from './gradient';
+export { GradientEditor } from './GradientEditor';
+export * from './stops';
+export * from './types';
@@ -0,0 +1,58 @@
+import type { ColorStop } from 'fabric';
+import * as fabric from 'fabric';
+import type { GradientStop } from './types';
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export const toHexColor = (color: string) => `#${new fabric.Color(color).toHex().toLowerCase()}`;
+
+/**
+ * Stops of a fabric gradient in offset order, with hex colors and an opacity
+ * on every stop. Stop colors with their own alpha fold it into the opacity.
+ */
+export const fromColorStops = (colorStops: ColorStop[]): GradientStop[] =>
+  colorStops
+    .map(({ offset, color, opacity }) => {
+      const parsed = new fabric.Color(color);
+      return {
+        offset: clamp(offset),
+        color: toHexColor(color),
+        opacity: clamp((opacity ?? 1) * parsed.getAlpha()),
+      };
+    })
+    .sort((a, b) => a.offset - b.offset);
+
+export const toColorStops = (stops: GradientStop[]): ColorStop[] =>
+  [...stops]
+    .sort((a, b) => a.offset - b.offset)
+    .map(({ offset, color, opacity }) => ({ offset: clamp(offset), color, opacity: clamp(opacity) }));
+
+export const stopToCss = ({ color, opacity }: Pick<GradientStop, 'color' | 'opacity'>) =>
+  new fabric.Color(color).setAlpha(opacity).toRgba();
+
+/**
+ * Comma separated CSS color stops, for gradient previews
+ */
+export const stopsToCss = (stops: GradientStop[]) =>
+  stops.map(stop => `${stopToCss(stop)} ${Math.round(stop.offset * 1000) / 10}%`).join(', ');
+
+/**
+ * Color and opacity the gradient has at `offset`, blending the stops on either side
+ */
+export const interpolateStops = (stops: GradientStop[], offset: number): Omit<GradientStop, 'offset'> => {
+  const sorted = [...stops].sort((a, b) => a.offset - b.offset);
+  const after = sorted.findIndex(stop => stop.offset >= offset);
+  if (after === -1) return sorted[sorted.length - 1];
+  if (after === 0) return sorted[0];
+
+  const from = sorted[after - 1];
+  const to = sorted[after];
+  const t = to.offset === from.offset ? 0 : (offset - from.offset) / (to.offset - from.offset);
+  const [r1, g1, b1] = new fabric.Color(from.color).getSource();
+  const [r2, g2, b2] = new fabric.Color(to.color).getSource();
+  const mix = (a: number, b: number) => a + (b - a) * t;
+  return {
+    color: toHexColor(`rgb(${Math.round(mix(r1, r2))},${Math.round(mix(g1, g2))},${Math.round(mix(b1, b2))})`),
+    opacity: mix(from.opacity, to.opacity),
+  };
+};
@@ -0,0 +1,23 @@
+export type GradientKind = 'linear' | 'radial' | 'conic';
+
+export const GRADIENT_KINDS: GradientKind[] = ['linear', 'radial', 'conic'];
+
+export const GRADIENT_KIND_LABELS: Record<GradientKind, string> = {
+  linear: 'Linear',
+  radial: 'Radial',
+  conic: 'Conic',
+};
+
+export interface GradientStop {
+  // Position along the gradient, from 0 to 1
+  offset: number;
+  // Hex color
+  color: string;
+  opacity: number;
+}
+
+export interface GradientOptions {
+  stops: GradientStop[];
+  // Direction in degrees, clockwise from pointing right. Radial gradients have none.
+  angle: number;
+}
@@ -0,0 +1,178 @@
+import * as fabric from 'fabric';
+import type { HistoryHost, HistoryOperation, HistoryState, LayerData, ObjectJSON } from './types';
+
+// Properties that cannot be patched onto a live object and need it recreated
+const REBUILD_KEYS = new Set(['type', 'src', 'filters', 'resizeFilter', 'clipPath', 'objects', 'path', 'points']);
+
+const needsRebuild = (patch: ObjectJSON) =>
+  Object.entries(patch).some(([key, value]) =>
+    REBUILD_KEYS.has(key) || ((key === 'fill' || key === 'stroke') && value !== null && typeof value === 'object')
+  );
+
+export const createEmptyState = (): HistoryState => ({ objects: new Map(), order: [], layers: new Map(), document: {} });
+
+export const cloneState = (state: HistoryState): HistoryState => ({
+  objects: new Map(state.objects),
+  order: [...state.order],
+  layers: new Map(state.layers),
+  document: { ...state.document },
+});
+
+/**
+ * Reads tracked objects off the canvas and patches them in place from history
+ * operations, recreating an object only when a change cannot be set on it.
+ */
+export class CanvasPatcher {
+  private host: HistoryHost;
+
+  constructor(host: HistoryHost) {
+    this.host = host;
+  }
+
+  capture(): HistoryState {
+    const state = createEmptyState();
+    const canvas = this.host.getCanvas();
+    if (!canvas) return state;
+
+    state.document = this.host.getDocumentData();
+    canvas.getObjects().forEach(object => {
+      const key = this.host.getObjectKey(object);
+      if (!key) return;
+      state.objects.set(key, this.host.serializeObject(object));
+      state.order.push(key);
+    });
+    this.host.getLayers().forEach(layer => {
+      if (state.objects.has(layer.id)) state.layers.set(layer.id, { ...layer });
+    });
+    return state;
+  }
+
+  private findObject(key: string): fabric.Object | undefined {
+    return this.host.getCanvas()?.getObjects().find(object => this.host.getObjectKey(object) === key);
+  }
+
+  /**
+   * Map an index among tracked objects to a canvas index, skipping untracked objects
+   */
+  private toCanvasIndex(canvas: fabric.Canvas, trackedIndex: number): number {
+    const objects = canvas.getObjects();
+    const tracked = objects.filter(object => this.host.getObjectKey(object));
+    return trackedIndex < tracked.length ? objects.indexOf(tracked[trackedIndex]) : objects.length;
+  }
+
+  /**
+   * Apply operations to the canvas, keeping `state` in step with it
+   */
+  async apply(state: HistoryState, operations: HistoryOperation[]) {
+    const canvas = this.host.getCanvas();
+    if (!canvas) return;
+
+    // Members of a multi-selection hold group-relative coordinates, so release them first
+    const activeObject = canvas.getActiveObject();
+    const selectedKeys = (activeObject instanceof fabric.ActiveSelection ? activeObject.getObjects() : activeObject ? [activeObject] : [])
+      .map(object => this.host.getObjectKey(object))
+      .filter((key): key is string => !!key);
+    if (activeObject instanceof fabric.ActiveSelection) {
+      canvas.discardActiveObject();
+    }
+
+    for (const operation of operations) {
+      await this.applyOperation(canvas, state, operation);
+    }
+
+    this.host.onApplied(state.order
+      .map(key => state.layers.get(key))
+      .filter((layer): layer is LayerData => !!layer), state.document);
+    this.restoreSelection(canvas, selectedKeys);
+    canvas.requestRenderAll();
+  }
+
+  private async applyOperation(canvas: fabric.Canvas, state: HistoryState, operation: HistoryOperation) {
+    switch (operation.type) {
+      case 'add': {
+        // Reverting an older step can re-add an object that is still there
+        if (state.objects.has(operation.key)) break;
+        const object = await this.createObject(operation.object);
+        canvas.insertAt(this.toCanvasIndex(canvas, operation.index), object);
+        state.objects.set(operation.key, operation.object);
+        state.order.splice(operation.index, 0, operation.key);
+        if (operation.layer) state.layers.set(operation.key, operation.layer);
+        break;
+      }
+      case 'remove': {
+        const object = this.findObject(operation.key);
+        if (object) canvas.remove(object);
+        state.objects.delete(operation.key);
+        state.order = state.order.filter(key => key !== operation.key);
+        state.layers.delete(operation.key);
+        break;
+      }
+      case 'modify': {
+        if (!state.objects.has(operation.key)) break;
+        const json = { ...state.objects.get(operation.key), ...operation.after };
+        Object.keys(json).forEach(key => json[key] === undefined && delete json[key]);
+        state.objects.set(operation.key, json);
+
+        const object = this.findObject(operation.key);
+        if (!object) break;
+        if (needsRebuild(operation.after)) {
+          const replacement = await this.createObject(json);
+          const index = canvas.getObjects().indexOf(object);
+          canvas.remove(object);
+          canvas.insertAt(index, replacement);
+        } else {
+          object.set(operation.after);
+          object.setCoords();
+        }
+        break;
+      }
+      case 'layer':
+        if (!state.objects.has(operation.key)) break;
+        state.layers.set(operation.key, operation.after);
+        break;
+      case 'reorder':
+        this.applyOrder(canvas, operation.after);
+        state.order = [
+          ...operation.after.filter(key => state.objects.has(key)),
+          ...state.order.filter(key => !operation.after.includes(key)),
+        ];
+        break;
+      case 'document': {
+        const document = { ...state.document, ...operation.after };
+        Object.keys(document).forEach(key => document[key] === undefined && delete document[key]);
+        state.document = document;
+        break;
+      }
+    }
+  }
+
+  /**
+   * Put the listed objects in the given relative order, reusing the canvas
+   * slots they already occupy so unlisted objects keep their place.
+   */
+  private applyOrder(canvas: fabric.Canvas, keys: string[]) {
+    const objects = keys.map(key => this.findObject(key)).filter((object): object is fabric.Object => !!object);
+    const slots = objects.map(object => canvas.getObjects().indexOf(object)).sort((a, b) => a - b);
+    objects.forEach((object, index) => canvas.moveObjectTo(object, slots[index]));
+  }
+
+  private async createObject(json: ObjectJSON): Promise<fabric.Object> {
+    const [object] = await fabric.util.enlivenObjects<fabric.Object>([json]);
+    this.host.prepareObject(object);
+    return object;
+  }
+
+  private restoreSelection(canvas: fabric.Canvas, keys: string[]) {
+    const objects = keys
+      .map(key => this.findObject(key))
+      .filter((object): object is fabric.Object => !!object && object.selectable);
+
+    if (objects.length === 0) {
+      canvas.discardActiveObject();
+    } else if (objects.length === 1) {
+      if (canvas.getActiveObject() !== objects[0]) canvas.setActiveObject(objects[0]);
+    } else {
+      canvas.setActiveObject(new fabric.ActiveSelection(objects, { canvas }));
+    }
+  }
+}
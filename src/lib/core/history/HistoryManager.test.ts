@@ -0,0 +1,307 @@
+import * as fabric from 'fabric';
+import { HistoryManager } from './HistoryManager';
+import type { HistoryHost, LayerData } from './types';
+
+/**
+ * Just enough of a fabric canvas for history to read and patch its objects
+ */
+class FakeCanvas {
+  objects: fabric.Object[] = [];
+
+  getObjects() {
+    return [...this.objects];
+  }
+
+  insertAt(index: number, ...objects: fabric.Object[]) {
+    this.objects.splice(index, 0, ...objects);
+  }
+
+  add(...objects: fabric.Object[]) {
+    this.objects.push(...objects);
+  }
+
+  remove(...objects: fabric.Object[]) {
+    this.objects = this.objects.filter(object => !objects.includes(object));
+  }
+
+  moveObjectTo(object: fabric.Object, index: number) {
+    this.remove(object);
+    this.objects.splice(index, 0, object);
+  }
+
+  getActiveObject() {
+    return undefined;
+  }
+
+  discardActiveObject() {}
+
+  setActiveObject() {}
+
+  requestRenderAll() {}
+}
+
+const setup = (options: ConstructorParameters<typeof HistoryManager>[1] = {}) => {
+  const canvas = new FakeCanvas();
+  let layers: LayerData[] = [];
+  const host: HistoryHost = {
+    getCanvas: () => canvas as unknown as fabric.Canvas,
+    getLayers: () => layers,
+    getDocumentData: () => ({}),
+    getObjectKey: object => object.layerId ?? null,
+    serializeObject: object => object.toObject(['layerId']),
+    prepareObject: () => {},
+    onApplied: appliedLayers => { layers = appliedLayers; },
+  };
+  const history = new HistoryManager(host, options);
+
+  const add = (layerId: string, left = 0) => {
+    canvas.add(new fabric.Rect({ layerId, left, width: 10, height: 10 }));
+    layers = [...layers, { id: layerId, name: layerId.toUpperCase(), visible: true, locked: false }];
+  };
+  const find = (layerId: string) => canvas.objects.find(object => object.layerId === layerId);
+  const move = (layerId: string, left: number) => find(layerId)!.set({ left });
+  const lefts = () => canvas.objects.map(object => `${object.layerId}:${object.left}`);
+
+  return { canvas, history, add, find, move, lefts };
+};
+
+describe('HistoryManager', () => {
+  it('records changes and ignores no-ops', () => {
+    const { history, add } = setup();
+    expect(history.record()).toBe(false);
+
+    add('a');
+    expect(history.record({ label: 'Add A' })).toBe(true);
+    expect(history.record()).toBe(false);
+
+    const { nodes, currentId, rootId } = history.getTree();
+    expect(nodes.size).toBe(2);
+    expect(nodes.get(currentId)).toMatchObject({ parentId: rootId, label: 'Add A' });
+  });
+
+  it('undoes and redoes steps on the canvas', async () => {
+    const { history, add, move, lefts } = setup();
+    add('a');
+    history.record();
+    move('a', 50);
+    history.record();
+
+    await history.undo();
+    expect(lefts()).toEqual(['a:0']);
+    await history.undo();
+    expect(lefts()).toEqual([]);
+    expect(history.canUndo()).toBe(false);
+    expect(await history.undo()).toBe(false);
+
+    await history.redo();
+    await history.redo();
+    expect(lefts()).toEqual(['a:50']);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('branches instead of dropping redo steps', async () => {
+    const { history, add, move, lefts } = setup();
+    add('a');
+    history.record();
+    move('a', 10);
+    history.record({ label: 'First' });
+    const firstId = history.getCurrentId();
+
+    await history.undo();
+    move('a', 20);
+    history.record({ label: 'Second' });
+    const secondId = history.getCurrentId();
+
+    const { nodes } = history.getTree();
+    expect(nodes.get(nodes.get(secondId)!.parentId!)!.childIds).toEqual([firstId, secondId]);
+
+    await history.jumpTo(firstId);
+    expect(lefts()).toEqual(['a:10']);
+    await history.undo();
+    // Redo follows the branch that was visited last
+    await history.redo();
+    expect(history.getCurrentId()).toBe(firstId);
+  });
+
+  it('leaves the redo path alone for previews', async () => {
+    const { history, add, move, lefts } = setup();
+    add('a');
+    history.record();
+    const addId = history.getCurrentId();
+    move('a', 10);
+    history.record();
+    const moveId = history.getCurrentId();
+
+    await history.jumpTo(history.getTree().rootId, { updateRedoPath: false });
+    expect(lefts()).toEqual([]);
+    await history.jumpTo(addId, { updateRedoPath: false });
+    expect(history.getTree().nodes.get(addId)!.activeChildId).toBe(moveId);
+  });
+
+  it('reverts an earlier step as a new step', async () => {
+    const { history, add, move, lefts } = setup();
+    add('a');
+    history.record();
+    move('a', 10);
+    history.record();
+    const moveId = history.getCurrentId();
+    add('b', 5);
+    history.record();
+
+    expect(await history.revert(moveId, { label: 'Revert move' })).toBe(true);
+    expect(lefts()).toEqual(['a:0', 'b:5']);
+    expect(history.getTree().nodes.get(history.getCurrentId())!.label).toBe('Revert move');
+
+    // The revert itself can be undone
+    await history.undo();
+    expect(lefts()).toEqual(['a:10', 'b:5']);
+  });
+
+  it('only reverts steps on the current path', async () => {
+    const { history, add, move } = setup();
+    add('a');
+    history.record();
+    move('a', 10);
+    history.record();
+    const moveId = history.getCurrentId();
+    await history.undo();
+
+    expect(await history.revert(moveId)).toBe(false);
+    expect(await history.revert(history.getTree().rootId)).toBe(false);
+  });
+
+  it('discards a step and everything after it', async () => {
+    const { history, add, move, lefts } = setup();
+    add('a');
+    history.record();
+    const addId = history.getCurrentId();
+    move('a', 10);
+    history.record();
+    const moveId = history.getCurrentId();
+    move('a', 20);
+    history.record();
+
+    await history.discard(moveId);
+    expect(history.getCurrentId()).toBe(addId);
+    expect(lefts()).toEqual(['a:0']);
+    expect(history.getTree().nodes.size).toBe(2);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  describe('merging', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('merges steps of the same group into one node', async () => {
+      const { history, add, move, lefts } = setup();
+      add('a');
+      history.record({ label: 'Agent', group: 'turn' });
+      move('a', 10);
+      history.record({ label: 'Agent', group: 'turn' });
+      add('b');
+      history.record({ label: 'Agent', group: 'other' });
+
+      expect(history.getTree().nodes.size).toBe(3);
+      await history.undo();
+      await history.undo();
+      expect(lefts()).toEqual([]);
+    });
+
+    it('coalesces quick steps with the same label', () => {
+      jest.useFakeTimers();
+      const { history, add, move } = setup();
+      add('a');
+      history.record();
+      move('a', 1);
+      history.record({ label: 'Nudge', coalesce: true });
+      move('a', 2);
+      history.record({ label: 'Nudge', coalesce: true });
+      expect(history.getTree().nodes.size).toBe(3);
+
+      jest.advanceTimersByTime(1000);
+      move('a', 3);
+      history.record({ label: 'Nudge', coalesce: true });
+      move('a', 4);
+      history.record({ label: 'Move', coalesce: true });
+      move('a', 5);
+      history.record({ label: 'Move' });
+      expect(history.getTree().nodes.size).toBe(6);
+    });
+
+    it('does not merge into a step that has redo branches', async () => {
+      const { history, add, move } = setup();
+      add('a');
+      history.record({ group: 'turn' });
+      add('b');
+      history.record();
+      await history.undo();
+      move('a', 20);
+      history.record({ group: 'turn' });
+
+      expect(history.getTree().nodes.size).toBe(4);
+    });
+  });
+
+  describe('budget', () => {
+    it('folds the oldest steps into the baseline past the entry limit', async () => {
+      const { history, add, move, lefts } = setup({ maxEntries: 2 });
+      add('a');
+      history.record();
+      for (let left = 1; left <= 3; left++) {
+        move('a', left);
+        history.record();
+      }
+
+      expect(history.getTree().nodes.size).toBe(3);
+      await history.undo();
+      await history.undo();
+      expect(history.canUndo()).toBe(false);
+      expect(lefts()).toEqual(['a:1']);
+    });
+
+    it('drops inactive branches before steps on the current path', async () => {
+      const { history, add, move } = setup({ maxEntries: 3 });
+      add('a');
+      history.record();
+      move('a', 10);
+      history.record();
+      const branchId = history.getCurrentId();
+      await history.undo();
+      move('a', 20);
+      history.record();
+      move('a', 30);
+      history.record();
+
+      const { nodes } = history.getTree();
+      expect(nodes.has(branchId)).toBe(false);
+      expect(nodes.size).toBe(4);
+    });
+
+    it('evicts steps past the memory budget but keeps the latest', () => {
+      const { history, add, move } = setup();
+      add('a');
+      history.record();
+      move('a', 10);
+      history.record();
+
+      history.configure({ memoryBudget: 1 });
+      const { nodes, rootId, currentId } = history.getTree();
+      expect(nodes.size).toBe(2);
+      expect(nodes.get(currentId)!.parentId).toBe(rootId);
+    });
+  });
+
+  it('does not record changes made while applying history', async () => {
+    const { history, add, move } = setup();
+    add('a');
+    history.record();
+    move('a', 10);
+    history.record();
+
+    const undo = history.undo();
+    expect(history.record()).toBe(false);
+    await undo;
+    expect(history.getTree().nodes.size).toBe(3);
+  });
+});
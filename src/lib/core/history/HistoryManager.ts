@@ -0,0 +1,312 @@
+import { CanvasPatcher, cloneState, createEmptyState } from './CanvasPatcher';
+import { describeOperations } from './labels';
+import { diffStates, estimateSize, invertOperation } from './patches';
+import type {
+  HistoryHost,
+  HistoryNode,
+  HistoryOperation,
+  HistoryOptions,
+  HistoryState,
+  HistoryTree,
+  RecordOptions,
+} from './types';
+
+const DEFAULT_OPTIONS: HistoryOptions = {
+  memoryBudget: 64 * 1024 * 1024,
+  maxEntries: 200,
+};
+
+// Consecutive coalescing steps with the same label within this window become one
+const COALESCE_WINDOW_MS = 1000;
+
+const BASE_LAYER_NAME = 'Canvas';
+
+/**
+ * Command-based undo/redo. Each node stores only the operations (add, remove,
+ * modify, layer, reorder) between two recorded states, and moving through
+ * history patches the live canvas objects instead of reloading the canvas.
+ *
+ * Nodes form a tree: recording after an undo starts a new branch rather than
+ * discarding the redo steps, and `jumpTo` can move to any node.
+ */
+export class HistoryManager {
+  private host: HistoryHost;
+  private patcher: CanvasPatcher;
+  private options: HistoryOptions;
+  private state: HistoryState = createEmptyState();
+  private nodes = new Map<string, HistoryNode>();
+  private rootId = '';
+  private currentId = '';
+  private nextId = 0;
+  private usedBytes = 0;
+  private isApplying = false;
+  // Serializes canvas updates so overlapping jumps never interleave
+  private applyQueue: Promise<void> = Promise.resolve();
+
+  constructor(host: HistoryHost, options: Partial<HistoryOptions> = {}) {
+    this.host = host;
+    this.patcher = new CanvasPatcher(host);
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.reset();
+  }
+
+  configure(options: Partial<HistoryOptions>) {
+    this.options = { ...this.options, ...options };
+    this.enforceBudget();
+  }
+
+  /**
+   * Forget all steps and use the current canvas as the new baseline
+   */
+  reset() {
+    const root = this.createNode(null, [], 'Open design');
+    this.nodes = new Map([[root.id, root]]);
+    this.rootId = root.id;
+    this.currentId = root.id;
+    this.usedBytes = 0;
+    this.state = this.patcher.capture();
+  }
+
+  /**
+   * Diff the canvas against the last recorded state and store the changes as
+   * a new step. Returns false when nothing changed.
+   */
+  record(options: RecordOptions = {}): boolean {
+    if (this.isApplying || !this.host.getCanvas()) return false;
+
+    const next = this.patcher.capture();
+    const operations = diffStates(this.state, next);
+    if (operations.length === 0) {
+      this.state = next;
+      return false;
+    }
+
+    const label = options.label ?? describeOperations(operations, key => this.getName(key, next));
+    this.state = next;
+
+    const current = this.nodes.get(this.currentId)!;
+    if (this.shouldMerge(current, label, options)) {
+      current.operations = [...current.operations, ...operations];
+      current.size += estimateSize(operations);
+      current.timestamp = Date.now();
+      this.usedBytes += estimateSize(operations);
+    } else {
+      const node = this.createNode(current.id, operations, label, options.group);
+      this.nodes.set(node.id, node);
+      current.childIds.push(node.id);
+      current.activeChildId = node.id;
+      this.currentId = node.id;
+      this.usedBytes += node.size;
+    }
+
+    this.enforceBudget();
+    return true;
+  }
+
+  getTree(): HistoryTree {
+    return { rootId: this.rootId, currentId: this.currentId, nodes: this.nodes };
+  }
+
+  getCurrentId(): string {
+    return this.currentId;
+  }
+
+  canUndo(): boolean {
+    return this.currentId !== this.rootId;
+  }
+
+  canRedo(): boolean {
+    return !!this.nodes.get(this.currentId)?.activeChildId;
+  }
+
+  async undo(): Promise<boolean> {
+    const parentId = this.nodes.get(this.currentId)?.parentId;
+    if (!parentId) return false;
+    await this.jumpTo(parentId);
+    return true;
+  }
+
+  async redo(): Promise<boolean> {
+    const childId = this.nodes.get(this.currentId)?.activeChildId;
+    if (!childId) return false;
+    await this.jumpTo(childId);
+    return true;
+  }
+
+  /**
+   * Move the canvas to the state of any node in the tree.
+   * With `updateRedoPath` off (e.g. for hover previews) the branch redo follows is left untouched.
+   */
+  jumpTo(targetId: string, { updateRedoPath = true } = {}): Promise<void> {
+    const run = this.applyQueue.then(async () => {
+      if (!this.nodes.has(targetId) || targetId === this.currentId) return;
+
+      const { up, down } = this.getPath(this.currentId, targetId);
+      const operations = [
+        ...up.flatMap(node => [...node.operations].reverse().map(invertOperation)),
+        ...down.flatMap(node => node.operations),
+      ];
+
+      if (updateRedoPath) {
+        down.forEach(node => { this.nodes.get(node.parentId!)!.activeChildId = node.id; });
+      }
+      this.currentId = targetId;
+      this.isApplying = true;
+      try {
+        await this.patcher.apply(this.state, operations);
+      } finally {
+        this.isApplying = false;
+      }
+    });
+    // Keep the queue alive even if this jump fails
+    this.applyQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Drop a step and everything recorded after it, moving back to its parent
+   * first if the canvas currently shows one of the dropped states.
+   */
+  discard(nodeId: string): Promise<void> {
+    const node = this.nodes.get(nodeId);
+    if (!node?.parentId) return Promise.resolve();
+
+    const parentId = node.parentId;
+    const jump = this.isAncestor(nodeId, this.currentId) ? this.jumpTo(parentId) : Promise.resolve();
+    return jump.then(() => {
+      if (!this.nodes.has(nodeId)) return;
+      const removeSubtree = (id: string) => {
+        const subtreeNode = this.nodes.get(id)!;
+        [...subtreeNode.childIds].forEach(removeSubtree);
+        this.removeNode(subtreeNode);
+      };
+      removeSubtree(nodeId);
+    });
+  }
+
+  /**
+   * Undo the changes of an earlier step on the current path as a new step,
+   * leaving the steps after it in place. Objects that were deleted since are
+   * skipped. Returns false when the step is not part of the current state.
+   */
+  revert(nodeId: string, options: RecordOptions = {}): Promise<boolean> {
+    const run = this.applyQueue.then(async () => {
+      const node = this.nodes.get(nodeId);
+      if (!node || node.id === this.rootId || !this.isAncestor(nodeId, this.currentId)) return false;
+
+      const operations = [...node.operations].reverse().map(invertOperation);
+      this.isApplying = true;
+      try {
+        // Patch a copy so the result is diffed against the recorded state like any other change
+        await this.patcher.apply(cloneState(this.state), operations);
+      } finally {
+        this.isApplying = false;
+      }
+      this.record(options);
+      return true;
+    });
+    this.applyQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private isAncestor(ancestorId: string, nodeId: string) {
+    for (let id: string | null = nodeId; id; id = this.nodes.get(id)?.parentId ?? null) {
+      if (id === ancestorId) return true;
+    }
+    return false;
+  }
+
+  private shouldMerge(current: HistoryNode, label: string, options: RecordOptions) {
+    // Never merge into the baseline or into a step that already has redo branches
+    if (current.id === this.rootId || current.childIds.length > 0) return false;
+    if (options.group) return current.group === options.group;
+    return !!options.coalesce && current.label === label && Date.now() - current.timestamp < COALESCE_WINDOW_MS;
+  }
+
+  private createNode(parentId: string | null, operations: HistoryOperation[], label: string, group?: string): HistoryNode {
+    return {
+      id: String(this.nextId++),
+      parentId,
+      childIds: [],
+      activeChildId: null,
+      operations,
+      label,
+      timestamp: Date.now(),
+      size: estimateSize(operations),
+      group,
+    };
+  }
+
+  private getName(key: string, state: HistoryState): string {
+    const layer = state.layers.get(key) ?? this.state.layers.get(key);
+    if (layer) return layer.name;
+    const type = state.objects.get(key)?.type;
+    return typeof type === 'string' ? type : BASE_LAYER_NAME;
+  }
+
+  /**
+   * Nodes to revert (walking up from `fromId`) and to replay (walking down to `toId`)
+   */
+  private getPath(fromId: string, toId: string) {
+    const ancestors = new Set<string>();
+    for (let id: string | null = fromId; id; id = this.nodes.get(id)!.parentId) ancestors.add(id);
+
+    const down: HistoryNode[] = [];
+    let commonId = toId;
+    while (!ancestors.has(commonId)) {
+      const node = this.nodes.get(commonId)!;
+      down.unshift(node);
+      commonId = node.parentId!;
+    }
+
+    const up: HistoryNode[] = [];
+    for (let id = fromId; id !== commonId; id = this.nodes.get(id)!.parentId!) up.push(this.nodes.get(id)!);
+
+    return { up, down };
+  }
+
+  /**
+   * Drop the oldest inactive branches first, then fold the oldest steps of the
+   * current branch into the baseline until the tree fits the budget.
+   */
+  private enforceBudget() {
+    const { memoryBudget, maxEntries } = this.options;
+    const isOverBudget = () => this.usedBytes > memoryBudget || this.nodes.size - 1 > maxEntries;
+
+    while (isOverBudget()) {
+      const protectedIds = new Set<string>();
+      for (let id: string | null = this.currentId; id; id = this.nodes.get(id)!.parentId) protectedIds.add(id);
+
+      const leaf = [...this.nodes.values()]
+        .filter(node => node.childIds.length === 0 && !protectedIds.has(node.id))
+        .sort((a, b) => a.timestamp - b.timestamp)[0];
+      if (leaf) {
+        this.removeNode(leaf);
+        continue;
+      }
+
+      // Only the current branch is left; keep at least the latest step undoable
+      const root = this.nodes.get(this.rootId)!;
+      const nextRootId = root.childIds[0];
+      if (root.childIds.length !== 1 || nextRootId === this.currentId) break;
+
+      const nextRoot = this.nodes.get(nextRootId)!;
+      this.nodes.delete(root.id);
+      this.usedBytes -= nextRoot.size;
+      nextRoot.parentId = null;
+      nextRoot.operations = [];
+      nextRoot.size = 0;
+      this.rootId = nextRoot.id;
+    }
+  }
+
+  private removeNode(node: HistoryNode) {
+    const parent = this.nodes.get(node.parentId!)!;
+    parent.childIds = parent.childIds.filter(id => id !== node.id);
+    if (parent.activeChildId === node.id) {
+      parent.activeChildId = parent.childIds[parent.childIds.length - 1] ?? null;
+    }
+    this.nodes.delete(node.id);
+    this.usedBytes -= node.size;
+  }
+}
@@ -0,0 +1,2 @@
+export * from './HistoryManager';
+export * from './types';
@@ -0,0 +1,68 @@
+import type { HistoryOperation } from './types';
+
+// Ordered from most to least specific; the first group touched by a change names it
+const PROPERTY_LABELS: { keys: string[]; label: string; withTarget?: boolean }[] = [
+  { keys: ['src'], label: 'Replace image' },
+  { keys: ['filters', 'adjustments'], label: 'Adjust image' },
+  { keys: ['text'], label: 'Edit text' },
+  { keys: ['path'], label: 'Edit path' },
+  { keys: ['sides', 'numPoints', 'innerRadius', 'startHead', 'endHead', 'headSize'], label: 'Edit shape' },
+  { keys: ['operation'], label: 'Change boolean operation' },
+  { keys: ['angle'], label: 'Rotate', withTarget: true },
+  { keys: ['scaleX', 'scaleY', 'width', 'height', 'radius'], label: 'Resize', withTarget: true },
+  { keys: ['flipX', 'flipY'], label: 'Flip', withTarget: true },
+  { keys: ['left', 'top'], label: 'Move', withTarget: true },
+  { keys: ['fill'], label: 'Change fill' },
+  { keys: ['stroke', 'strokeWidth', 'strokeDashArray', 'strokeLineCap', 'strokeLineJoin', 'strokeMiterLimit', 'strokeUniform', 'strokeAlign'], label: 'Change stroke' },
+  { keys: ['opacity'], label: 'Change opacity' },
+  { keys: ['globalCompositeOperation'], label: 'Change blend mode' },
+  { keys: ['shadow'], label: 'Change shadow' },
+  { keys: ['fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'underline', 'textAlign', 'lineHeight', 'charSpacing'], label: 'Change text style' },
+  { keys: ['visible'], label: 'Toggle visibility' },
+];
+
+const describeTargets = (keys: string[], getName: (key: string) => string) =>
+  keys.length === 1 ? getName(keys[0]) : `${keys.length} objects`;
+
+/**
+ * Human readable label for a history step, e.g. "Move Rectangle" or "Change fill"
+ */
+export const describeOperations = (operations: HistoryOperation[], getName: (key: string) => string): string => {
+  const added = operations.filter(operation => operation.type === 'add');
+  if (added.length > 0) {
+    return `Add ${describeTargets(added.map(operation => operation.key), getName)}`;
+  }
+
+  const removed = operations.filter(operation => operation.type === 'remove');
+  if (removed.length > 0) {
+    return `Delete ${describeTargets(removed.map(operation => operation.key), getName)}`;
+  }
+
+  const layerChange = operations.find(operation => operation.type === 'layer');
+  if (layerChange) {
+    const { before, after, key } = layerChange;
+    if (before.name !== after.name) return `Rename ${before.name} to ${after.name}`;
+    if (before.visible !== after.visible) return `${after.visible ? 'Show' : 'Hide'} ${getName(key)}`;
+    if (before.locked !== after.locked) return `${after.locked ? 'Lock' : 'Unlock'} ${getName(key)}`;
+  }
+
+  const modified = operations.filter(operation => operation.type === 'modify');
+  if (modified.length > 0) {
+    const changedKeys = new Set(modified.flatMap(operation => Object.keys(operation.after)));
+    const match = PROPERTY_LABELS.find(({ keys }) => keys.some(key => changedKeys.has(key)));
+    if (!match) return 'Edit';
+    return match.withTarget
+      ? `${match.label} ${describeTargets(modified.map(operation => operation.key), getName)}`
+      : match.label;
+  }
+
+  if (operations.some(operation => operation.type === 'reorder')) {
+    return 'Reorder layers';
+  }
+
+  if (operations.some(operation => operation.type === 'document')) {
+    return 'Edit styles';
+  }
+
+  return 'Edit';
+};
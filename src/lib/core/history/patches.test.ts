@@ -0,0 +1,156 @@
+import { diffStates, invertOperation } from './patches';
+import type { HistoryOperation, HistoryState, LayerData, ObjectJSON } from './types';
+
+const layer = (id: string, overrides: Partial<LayerData> = {}): LayerData => ({
+  id,
+  name: id.toUpperCase(),
+  visible: true,
+  locked: false,
+  ...overrides,
+});
+
+const state = (objects: [string, ObjectJSON][], layers: LayerData[] = objects.map(([key]) => layer(key))): HistoryState => ({
+  objects: new Map(objects),
+  order: objects.map(([key]) => key),
+  layers: new Map(layers.map(item => [item.id, item])),
+  document: {},
+});
+
+/**
+ * Minimal stand-in for the canvas patcher: replays operations on a state
+ */
+const applyOperations = (initial: HistoryState, operations: HistoryOperation[]): HistoryState => {
+  const result: HistoryState = {
+    objects: new Map(initial.objects),
+    order: [...initial.order],
+    layers: new Map(initial.layers),
+    document: { ...initial.document },
+  };
+
+  operations.forEach(operation => {
+    switch (operation.type) {
+      case 'add':
+        result.objects.set(operation.key, operation.object);
+        result.order.splice(operation.index, 0, operation.key);
+        if (operation.layer) result.layers.set(operation.key, operation.layer);
+        break;
+      case 'remove':
+        result.objects.delete(operation.key);
+        result.order = result.order.filter(key => key !== operation.key);
+        result.layers.delete(operation.key);
+        break;
+      case 'modify': {
+        const json = { ...result.objects.get(operation.key), ...operation.after };
+        Object.keys(json).forEach(key => json[key] === undefined && delete json[key]);
+        result.objects.set(operation.key, json);
+        break;
+      }
+      case 'layer':
+        result.layers.set(operation.key, operation.after);
+        break;
+      case 'reorder':
+        result.order = operation.after.filter(key => result.objects.has(key));
+        break;
+      case 'document':
+        result.document = { ...result.document, ...operation.after };
+        Object.keys(result.document).forEach(key => result.document[key] === undefined && delete result.document[key]);
+        break;
+    }
+  });
+  return result;
+};
+
+const revert = (operations: HistoryOperation[]) => [...operations].reverse().map(invertOperation);
+
+const expectRoundTrip = (prev: HistoryState, next: HistoryState) => {
+  const operations = diffStates(prev, next);
+  expect(applyOperations(prev, operations)).toEqual(next);
+  expect(applyOperations(next, revert(operations))).toEqual(prev);
+  return operations;
+};
+
+describe('diffStates', () => {
+  it('finds no operations between equal states', () => {
+    const objects: [string, ObjectJSON][] = [['a', { left: 0, points: [{ x: 1, y: 2 }] }]];
+    expect(diffStates(state(objects), state(structuredClone(objects)))).toEqual([]);
+  });
+
+  it('round-trips added objects', () => {
+    const operations = expectRoundTrip(
+      state([['a', { left: 0 }]]),
+      state([['b', { left: 1 }], ['a', { left: 0 }], ['c', { left: 2 }]]),
+    );
+    expect(operations.map(operation => operation.type)).toEqual(['add', 'add']);
+  });
+
+  it('round-trips removed objects', () => {
+    const operations = expectRoundTrip(
+      state([['a', { left: 0 }], ['b', { left: 1 }], ['c', { left: 2 }]]),
+      state([['b', { left: 1 }]]),
+    );
+    // Removed bottom-up so the inverses re-insert each object at its own index
+    expect(operations).toMatchObject([{ type: 'remove', key: 'c', index: 2 }, { type: 'remove', key: 'a', index: 0 }]);
+  });
+
+  it('stores only the changed properties of modified objects', () => {
+    const operations = expectRoundTrip(
+      state([['a', { left: 0, top: 0, fill: 'red' }]]),
+      state([['a', { left: 10, top: 0, stroke: 'blue' }]]),
+    );
+    expect(operations).toEqual([{
+      type: 'modify',
+      key: 'a',
+      before: { left: 0, fill: 'red', stroke: undefined },
+      after: { left: 10, fill: undefined, stroke: 'blue' },
+    }]);
+  });
+
+  it('round-trips layer changes', () => {
+    const operations = expectRoundTrip(
+      state([['a', {}]], [layer('a')]),
+      state([['a', {}]], [layer('a', { name: 'Logo', visible: false, locked: true })]),
+    );
+    expect(operations.map(operation => operation.type)).toEqual(['layer']);
+  });
+
+  it('round-trips reordered objects', () => {
+    const operations = expectRoundTrip(
+      state([['a', {}], ['b', {}], ['c', {}]]),
+      state([['c', {}], ['a', {}], ['b', {}]]),
+    );
+    expect(operations).toEqual([{ type: 'reorder', before: ['a', 'b', 'c'], after: ['c', 'a', 'b'] }]);
+  });
+
+  it('does not treat adds and removes as a reorder', () => {
+    const operations = diffStates(state([['a', {}], ['b', {}]]), state([['b', {}], ['c', {}]]));
+    expect(operations.map(operation => operation.type)).toEqual(['remove', 'add']);
+  });
+
+  it('round-trips mixed changes', () => {
+    expectRoundTrip(
+      state([['a', { left: 0 }], ['b', { left: 1 }], ['c', { left: 2 }]]),
+      state([['d', { left: 3 }], ['c', { left: 20 }], ['a', { left: 0 }]], [layer('d'), layer('c', { locked: true }), layer('a')]),
+    );
+  });
+
+  it('round-trips document changes', () => {
+    const prev = { ...state([]), document: { styles: [{ id: 's', color: 'red' }] } };
+    const next = { ...state([]), document: { styles: [{ id: 's', color: 'blue' }] } };
+    const operations = expectRoundTrip(prev, next);
+    expect(operations.map(operation => operation.type)).toEqual(['document']);
+  });
+});
+
+describe('invertOperation', () => {
+  it('swaps adds and removes', () => {
+    const add: HistoryOperation = { type: 'add', key: 'a', index: 2, object: { left: 0 }, layer: layer('a') };
+    expect(invertOperation(add)).toEqual({ ...add, type: 'remove' });
+    expect(invertOperation(invertOperation(add))).toEqual(add);
+  });
+
+  it('swaps before and after', () => {
+    const modify: HistoryOperation = { type: 'modify', key: 'a', before: { left: 0 }, after: { left: 1 } };
+    expect(invertOperation(modify)).toEqual({ type: 'modify', key: 'a', before: { left: 1 }, after: { left: 0 } });
+    expect(invertOperation(invertOperation(modify))).toEqual(modify);
+  });
+});
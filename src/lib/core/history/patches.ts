@@ -0,0 +1,109 @@
+import type { HistoryOperation, HistoryState, LayerData, ObjectJSON } from './types';
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const isSameLayer = (a: LayerData, b: LayerData) =>
+  a.name === b.name && a.visible === b.visible && a.locked === b.locked;
+
+/**
+ * Property-level patch between two serialized objects. Returns null when equal.
+ */
+export const diffObject = (before: ObjectJSON, after: ObjectJSON): { before: ObjectJSON; after: ObjectJSON } | null => {
+  const beforePatch: ObjectJSON = {};
+  const afterPatch: ObjectJSON = {};
+  let changed = false;
+
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+    if (!isSameValue(before[key], after[key])) {
+      beforePatch[key] = before[key];
+      afterPatch[key] = after[key];
+      changed = true;
+    }
+  });
+
+  return changed ? { before: beforePatch, after: afterPatch } : null;
+};
+
+/**
+ * Operations that turn `prev` into `next`. They are ordered so that applying
+ * them front to back replays the change and applying their inverses back to
+ * front reverts it.
+ */
+export const diffStates = (prev: HistoryState, next: HistoryState): HistoryOperation[] => {
+  const operations: HistoryOperation[] = [];
+
+  // Removals by descending index, so their inverses re-insert bottom-up
+  prev.order
+    .map((key, index) => ({ key, index }))
+    .filter(({ key }) => !next.objects.has(key))
+    .reverse()
+    .forEach(({ key, index }) => {
+      operations.push({ type: 'remove', key, index, object: prev.objects.get(key)!, layer: prev.layers.get(key) });
+    });
+
+  next.order.forEach((key, index) => {
+    if (!prev.objects.has(key)) {
+      operations.push({ type: 'add', key, index, object: next.objects.get(key)!, layer: next.layers.get(key) });
+    }
+  });
+
+  next.order.forEach(key => {
+    const before = prev.objects.get(key);
+    if (!before) return;
+
+    const patch = diffObject(before, next.objects.get(key)!);
+    if (patch) {
+      operations.push({ type: 'modify', key, ...patch });
+    }
+
+    const beforeLayer = prev.layers.get(key);
+    const afterLayer = next.layers.get(key);
+    if (beforeLayer && afterLayer && !isSameLayer(beforeLayer, afterLayer)) {
+      operations.push({ type: 'layer', key, before: beforeLayer, after: afterLayer });
+    }
+  });
+
+  const prevShared = prev.order.filter(key => next.objects.has(key));
+  const nextShared = next.order.filter(key => prev.objects.has(key));
+  if (prevShared.some((key, index) => nextShared[index] !== key)) {
+    operations.push({ type: 'reorder', before: prev.order, after: next.order });
+  }
+
+  const documentPatch = diffObject(prev.document, next.document);
+  if (documentPatch) {
+    operations.push({ type: 'document', ...documentPatch });
+  }
+
+  return operations;
+};
+
+export const invertOperation = (operation: HistoryOperation): HistoryOperation => {
+  switch (operation.type) {
+    case 'add':
+      return { ...operation, type: 'remove' };
+    case 'remove':
+      return { ...operation, type: 'add' };
+    case 'modify':
+    case 'layer':
+    case 'reorder':
+    case 'document':
+      return { ...operation, before: operation.after, after: operation.before } as HistoryOperation;
+  }
+};
+
+/**
+ * Rough memory footprint of a value in bytes (UTF-16 strings, 8-byte numbers)
+ */
+export const estimateSize = (value: unknown): number => {
+  if (typeof value === 'string') return value.length * 2;
+  if (typeof value === 'number' || typeof value === 'boolean') return 8;
+  if (Array.isArray(value)) return value.reduce((total: number, item) => total + estimateSize(item), 0);
+  if (value && typeof value === 'object') {
+    return Object.entries(value).reduce((total, [key, item]) => total + key.length * 2 + estimateSize(item), 0);
+  }
+  return 0;
+};
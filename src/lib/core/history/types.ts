@@ -0,0 +1,86 @@
+import type * as fabric from 'fabric';
+
+export type ObjectJSON = Record<string, unknown>;
+
+/** Layer metadata tracked alongside each object (mirrors `CanvasLayer` without the fabric object) */
+export interface LayerData {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+}
+
+export type HistoryOperation =
+  | { type: 'add'; key: string; index: number; object: ObjectJSON; layer?: LayerData }
+  | { type: 'remove'; key: string; index: number; object: ObjectJSON; layer?: LayerData }
+  | { type: 'modify'; key: string; before: ObjectJSON; after: ObjectJSON }
+  | { type: 'layer'; key: string; before: LayerData; after: LayerData }
+  | { type: 'reorder'; before: string[]; after: string[] }
+  | { type: 'document'; before: ObjectJSON; after: ObjectJSON };
+
+/**
+ * One step in the history tree. `operations` turn the parent's state into this
+ * node's state; the root node is the baseline and has none.
+ */
+export interface HistoryNode {
+  id: string;
+  parentId: string | null;
+  childIds: string[];
+  // Child that redo follows, i.e. the most recently visited branch
+  activeChildId: string | null;
+  operations: HistoryOperation[];
+  label: string;
+  timestamp: number;
+  // Approximate memory held by the node, in bytes
+  size: number;
+  // Steps recorded with the same group while this node is the tip are merged into it
+  group?: string;
+}
+
+export interface RecordOptions {
+  // Defaults to a description derived from the operations
+  label?: string;
+  // Merge with the previous step if it has the same label and was recorded moments ago
+  coalesce?: boolean;
+  // Merge every step recorded with this group into one node
+  group?: string;
+}
+
+/** Read-only view of the history tree for UI */
+export interface HistoryTree {
+  rootId: string;
+  currentId: string;
+  nodes: ReadonlyMap<string, Readonly<HistoryNode>>;
+}
+
+export interface HistoryOptions {
+  // Approximate upper bound for memory held by undo/redo entries, in bytes
+  memoryBudget: number;
+  maxEntries: number;
+}
+
+/** Recorded state of the canvas that the next change is diffed against */
+export interface HistoryState {
+  objects: Map<string, ObjectJSON>;
+  order: string[];
+  layers: Map<string, LayerData>;
+  // Design data kept off the canvas, such as shared styles
+  document: ObjectJSON;
+}
+
+/**
+ * What the history manager needs from its owner. Keeps the manager free of
+ * `DesignManager` specifics such as controls, clipping and layer bookkeeping.
+ */
+export interface HistoryHost {
+  getCanvas(): fabric.Canvas | null;
+  getLayers(): LayerData[];
+  getDocumentData(): ObjectJSON;
+  // Stable key of a tracked object, or null for objects history should ignore
+  getObjectKey(object: fabric.Object): string | null;
+  serializeObject(object: fabric.Object): ObjectJSON;
+  // Apply editor-only settings to an object recreated from JSON
+  prepareObject(object: fabric.Object): void;
+  // Called after undo/redo with the tracked layers in canvas order and the document data
+  onApplied(layers: LayerData[], documentData: ObjectJSON): void;
+}
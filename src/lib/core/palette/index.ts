@@ -0,0 +1,3 @@
+export * from './palette';
+export * from './quantize';
+export * from './types';
@@ -0,0 +1,83 @@
+import * as fabric from 'fabric';
+import { extractPalette } from './quantize';
+import { DEFAULT_PALETTE_SIZE, type PaletteColor, type PaletteRequest, type PaletteResponse } from './types';
+
+// Images are sampled down to this many pixels on their longest side, which
+// keeps the palette stable while making extraction fast
+const SAMPLE_SIZE = 128;
+
+interface PendingRequest {
+  resolve: (colors: PaletteColor[]) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, PendingRequest>();
+
+const rejectPendingRequests = (error: Error) => {
+  pendingRequests.forEach(request => request.reject(error));
+  pendingRequests.clear();
+};
+
+/**
+ * Shared palette worker, started on first use. Null where workers are not available.
+ */
+const getWorker = () => {
+  if (worker || typeof Worker === 'undefined') return worker;
+
+  worker = new Worker(new URL('./palette.worker.ts', import.meta.url));
+  worker.onmessage = (event: MessageEvent<PaletteResponse>) => {
+    const response = event.data;
+    const request = pendingRequests.get(response.id);
+    pendingRequests.delete(response.id);
+    if (!request) return;
+    if ('error' in response) request.reject(new Error(response.error));
+    else request.resolve(response.colors);
+  };
+  worker.onerror = (event) => {
+    rejectPendingRequests(new Error(event.message || 'Palette worker failed'));
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+/**
+ * RGBA pixels of the visible, cropped part of an image, sampled down. Read
+ * as shown, with its filters, unless another element of it is given.
+ */
+export const readImagePixels = (image: fabric.FabricImage, element: CanvasImageSource = image.getElement()) => {
+  const sourceWidth = image.width;
+  const sourceHeight = image.height;
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(sourceWidth, sourceHeight));
+  const canvas = fabric.util.createCanvasElement();
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(element, image.cropX, image.cropY, sourceWidth, sourceHeight, 0, 0, canvas.width, canvas.height);
+  // Throws for images from other origins that were loaded without CORS
+  return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+};
+
+/**
+ * Dominant colors of an image, most common first. Runs off the main thread when it can.
+ */
+export const extractImagePalette = (image: fabric.FabricImage, count = DEFAULT_PALETTE_SIZE): Promise<PaletteColor[]> => {
+  let pixels: Uint8ClampedArray;
+  try {
+    pixels = readImagePixels(image);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  const paletteWorker = getWorker();
+  if (!paletteWorker) return Promise.resolve(extractPalette(pixels, count));
+
+  return new Promise((resolve, reject) => {
+    const request: PaletteRequest = { id: nextRequestId++, pixels, count };
+    pendingRequests.set(request.id, { resolve, reject });
+    paletteWorker.postMessage(request, [pixels.buffer]);
+  });
+};
@@ -0,0 +1,13 @@
+import { extractPalette } from './quantize';
+import type { PaletteRequest, PaletteResponse } from './types';
+
+self.onmessage = (event: MessageEvent<PaletteRequest>) => {
+  const { id, pixels, count } = event.data;
+  let response: PaletteResponse;
+  try {
+    response = { id, colors: extractPalette(pixels, count) };
+  } catch (error) {
+    response = { id, error: String(error) };
+  }
+  self.postMessage(response);
+};
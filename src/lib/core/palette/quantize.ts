@@ -0,0 +1,91 @@
+import type { PaletteColor } from './types';
+
+// Pixels more transparent than this are ignored
+const MIN_ALPHA = 128;
+
+type Channel = 0 | 1 | 2;
+
+interface ColorBox {
+  // Packed 0xRRGGBB colors of the pixels in the box
+  colors: number[];
+  // Channel the box spans the most, and by how much
+  channel: Channel;
+  range: number;
+}
+
+const channelValue = (color: number, channel: Channel) => (color >> (16 - channel * 8)) & 0xff;
+
+const createBox = (colors: number[]): ColorBox => {
+  const min = [255, 255, 255];
+  const max = [0, 0, 0];
+  colors.forEach(color => {
+    for (let channel = 0; channel < 3; channel++) {
+      const value = channelValue(color, channel as Channel);
+      if (value < min[channel]) min[channel] = value;
+      if (value > max[channel]) max[channel] = value;
+    }
+  });
+  const ranges = max.map((value, channel) => value - min[channel]);
+  const channel = ranges.indexOf(Math.max(...ranges)) as Channel;
+  return { colors, channel, range: ranges[channel] };
+};
+
+/**
+ * Split a box in two at the median of its widest channel. Pixels with the same
+ * value stay on one side, so one color is never averaged into two.
+ */
+const splitBox = (box: ColorBox): [ColorBox, ColorBox] => {
+  const value = (color: number) => channelValue(color, box.channel);
+  const sorted = [...box.colors].sort((a, b) => value(a) - value(b));
+  const median = value(sorted[Math.floor(sorted.length / 2)]);
+  let middle = sorted.findIndex(color => value(color) > median);
+  // The median is the box's largest value, so split off the pixels below it instead
+  if (middle === -1) middle = sorted.findIndex(color => value(color) === median);
+  return [createBox(sorted.slice(0, middle)), createBox(sorted.slice(middle))];
+};
+
+const toHex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+
+const averageColor = (colors: number[]) => {
+  const sums = [0, 0, 0];
+  colors.forEach(color => {
+    for (let channel = 0; channel < 3; channel++) sums[channel] += channelValue(color, channel as Channel);
+  });
+  return `#${sums.map(sum => toHex(sum / colors.length)).join('')}`;
+};
+
+/**
+ * Dominant colors of RGBA pixels by median cut, most common first. Returns
+ * fewer than `count` colors when the pixels have fewer distinct colors.
+ */
+export const extractPalette = (pixels: Uint8ClampedArray, count: number): PaletteColor[] => {
+  const colors: number[] = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] >= MIN_ALPHA) colors.push((pixels[i] << 16) | (pixels[i + 1] << 8) | pixels[i + 2]);
+  }
+  if (colors.length === 0) return [];
+
+  const boxes = [createBox(colors)];
+  while (boxes.length < count) {
+    // Split where it matters most: wide boxes holding many pixels
+    let index = -1;
+    let bestScore = 0;
+    boxes.forEach((box, i) => {
+      const score = box.range * box.colors.length;
+      if (box.colors.length > 1 && score > bestScore) {
+        index = i;
+        bestScore = score;
+      }
+    });
+    if (index === -1) break;
+    boxes.splice(index, 1, ...splitBox(boxes[index]));
+  }
+
+  // Boxes can average to the same hex color, which then count as one
+  const weights = new Map<string, number>();
+  boxes.forEach(box => {
+    const color = averageColor(box.colors);
+    weights.set(color, (weights.get(color) ?? 0) + box.colors.length / colors.length);
+  });
+  return Array.from(weights, ([color, weight]) => ({ color, weight })).sort((a, b) => b.weight - a.weight);
+};
@@ -0,0 +1,19 @@
+export interface PaletteColor {
+  // Hex color
+  color: string;
+  // Share of the image's opaque pixels close to the color (0-1)
+  weight: number;
+}
+
+export const PALETTE_SIZES = [4, 6, 8, 10];
+
+export const DEFAULT_PALETTE_SIZE = 6;
+
+export interface PaletteRequest {
+  id: number;
+  // RGBA pixels, as in ImageData
+  pixels: Uint8ClampedArray;
+  count: number;
+}
+
+export type PaletteResponse = { id: number; colors: PaletteColor[] } | { id: number; error: string };
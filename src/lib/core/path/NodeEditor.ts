@@ -0,0 +1,312 @@
+import type { TPointerEvent, TSimplePathData, Transform, XY } from 'fabric';
+import * as fabric from 'fabric';
+import { renderPathAnchor, renderPathHandle } from '../Control';
+import type { AligningGuidelines } from '../ruler/SnapLine';
+import {
+  buildPathData,
+  deleteNode,
+  findNearestSegment,
+  moveHandle,
+  moveNode,
+  parsePathNodes,
+  setNodeType,
+  splitSegment,
+  type NodeRef,
+  type NodeType,
+  type PathNode,
+  type SubPath,
+} from './nodes';
+
+// Screen distance within which a double-click lands on a segment
+const SEGMENT_HIT_RADIUS = 8;
+
+type HandleSide = 'in' | 'out';
+
+interface SavedObjectState {
+  controls: fabric.FabricObject['controls'];
+  hasBorders: boolean;
+  lockMovementX: boolean;
+  lockMovementY: boolean;
+}
+
+/**
+ * Replace the path's commands while keeping the unchanged parts where they
+ * are on the canvas. `setDimensions` re-centers the path around its new
+ * bounding box, so the object is shifted back by however far that moved it.
+ */
+export const updatePathData = (path: fabric.Path, commands: TSimplePathData) => {
+  const reference = new fabric.Point(0, 0);
+  const before = reference.subtract(path.pathOffset).transform(path.calcOwnMatrix());
+
+  path.path = commands;
+  path.setDimensions();
+
+  const after = reference.subtract(path.pathOffset).transform(path.calcOwnMatrix());
+  path.set({ left: path.left - (after.x - before.x), top: path.top - (after.y - before.y), dirty: true });
+  path.setCoords();
+};
+
+/**
+ * Node-edit mode for a `fabric.Path`: while active, the path's transform
+ * controls are swapped for one control per anchor and bezier handle.
+ *
+ * - Drag an anchor to move it with its handles, or a handle to reshape the curve;
+ *   Alt-dragging a handle of a smooth node breaks it into a corner
+ * - Alt-click an anchor to toggle it between corner and smooth
+ * - Double-click a segment to insert a node
+ */
+export class NodeEditor {
+  path: fabric.Path | null = null;
+  selectedNode: NodeRef | null = null;
+
+  private subPaths: SubPath[] = [];
+  private savedState: SavedObjectState | null = null;
+
+  constructor(
+    private canvas: fabric.Canvas,
+    private guidelines: AligningGuidelines,
+    private callbacks: {
+      // A change that isn't a control drag, which fires `object:modified` instead
+      onChange: (label: string) => void;
+      // The edited path or the selected node changed
+      onUpdate: () => void;
+    },
+  ) { }
+
+  get isEditing() {
+    return this.path !== null;
+  }
+
+  get selectedNodeType(): NodeType | null {
+    return this.getNode(this.selectedNode)?.type ?? null;
+  }
+
+  enter(path: fabric.Path) {
+    if (this.path === path) return;
+    this.exit();
+
+    this.path = path;
+    this.subPaths = parsePathNodes(path.path);
+    this.selectedNode = null;
+    this.savedState = {
+      controls: path.controls,
+      hasBorders: path.hasBorders,
+      lockMovementX: path.lockMovementX,
+      lockMovementY: path.lockMovementY,
+    };
+    // Dragging the body while aiming for a node would move the whole path
+    path.set({ hasBorders: false, lockMovementX: true, lockMovementY: true });
+    this.rebuildControls();
+    this.canvas.setActiveObject(path);
+    this.canvas.requestRenderAll();
+    this.callbacks.onUpdate();
+  }
+
+  exit() {
+    const path = this.path;
+    if (!path || !this.savedState) return;
+
+    path.controls = this.savedState.controls;
+    path.set({
+      hasBorders: this.savedState.hasBorders,
+      lockMovementX: this.savedState.lockMovementX,
+      lockMovementY: this.savedState.lockMovementY,
+    });
+    path.setCoords();
+    this.path = null;
+    this.savedState = null;
+    this.subPaths = [];
+    this.selectedNode = null;
+    this.canvas.requestRenderAll();
+    this.callbacks.onUpdate();
+  }
+
+  setSelectedNodeType(type: NodeType) {
+    const ref = this.selectedNode;
+    if (!ref || !this.getNode(ref)) return;
+
+    setNodeType(this.subPaths[ref.subPath], ref.node, type);
+    this.commit(type === 'smooth' ? 'Smooth node' : 'Corner node');
+  }
+
+  deleteSelectedNode() {
+    const ref = this.selectedNode;
+    if (!ref || !deleteNode(this.subPaths, ref)) return false;
+
+    this.selectedNode = null;
+    this.rebuildControls();
+    this.commit('Delete node');
+    return true;
+  }
+
+  /**
+   * Insert a node on the segment under `pointer` (scene coordinates), if any
+   */
+  insertNodeAt(pointer: fabric.Point) {
+    const path = this.path;
+    if (!path) return false;
+
+    const nearest = findNearestSegment(this.subPaths, this.toPathPlane(pointer));
+    if (!nearest) return false;
+
+    // Measure the miss on screen, since the path may be scaled and the canvas zoomed
+    const hit = this.toScene(this.pointOnPath(nearest.ref, nearest.t));
+    if (Math.hypot(hit.x - pointer.x, hit.y - pointer.y) * this.canvas.getZoom() > SEGMENT_HIT_RADIUS) return false;
+
+    const index = splitSegment(this.subPaths[nearest.ref.subPath], nearest.ref.node, nearest.t);
+    this.selectedNode = { subPath: nearest.ref.subPath, node: index };
+    this.rebuildControls();
+    this.commit('Add node');
+    return true;
+  }
+
+  private getNode(ref: NodeRef | null): PathNode | undefined {
+    return ref ? this.subPaths[ref.subPath]?.nodes[ref.node] : undefined;
+  }
+
+  private pointOnPath(ref: NodeRef, t: number): XY {
+    // Split a copy, then read the inserted node
+    const subPath = this.subPaths[ref.subPath];
+    const copy: SubPath = {
+      closed: subPath.closed,
+      nodes: subPath.nodes.map(node => ({ ...node })),
+    };
+    const index = splitSegment(copy, ref.node, t);
+    return copy.nodes[index];
+  }
+
+  private commit(label: string) {
+    const path = this.path;
+    if (!path) return;
+
+    updatePathData(path, buildPathData(this.subPaths));
+    this.canvas.requestRenderAll();
+    this.callbacks.onChange(label);
+    this.callbacks.onUpdate();
+  }
+
+  private toScene(point: XY) {
+    const path = this.path!;
+    return new fabric.Point(point.x, point.y).subtract(path.pathOffset).transform(path.calcTransformMatrix());
+  }
+
+  private toViewport(point: XY) {
+    return this.toScene(point).transform(this.canvas.viewportTransform);
+  }
+
+  private toPathPlane(point: XY) {
+    const path = this.path!;
+    return fabric.util
+      .sendPointToPlane(new fabric.Point(point.x, point.y), undefined, path.calcTransformMatrix())
+      .add(path.pathOffset);
+  }
+
+  /**
+   * Snap a dragged point to other objects and to the path's other anchors
+   */
+  private snap(x: number, y: number, moving: XY) {
+    const anchors = this.subPaths
+      .flatMap(subPath => subPath.nodes)
+      .filter(node => node !== moving)
+      .map(node => this.toScene(node));
+    return this.toPathPlane(this.guidelines.snapPoint(new fabric.Point(x, y), this.path!, anchors));
+  }
+
+  private isSelected(ref: NodeRef) {
+    return this.selectedNode?.subPath === ref.subPath && this.selectedNode.node === ref.node;
+  }
+
+  /**
+   * Handles are shown for the selected node and its neighbours, whose handles
+   * shape the segments next to it
+   */
+  private isHandleVisible(ref: NodeRef) {
+    const selected = this.selectedNode;
+    if (!selected || selected.subPath !== ref.subPath) return false;
+
+    const count = this.subPaths[ref.subPath].nodes.length;
+    const offset = Math.abs(selected.node - ref.node);
+    return offset <= 1 || offset === count - 1;
+  }
+
+  private rebuildControls() {
+    const path = this.path;
+    if (!path) return;
+
+    const controls: Record<string, fabric.Control> = {};
+    this.subPaths.forEach((subPath, subPathIndex) => {
+      subPath.nodes.forEach((_, nodeIndex) => {
+        const ref = { subPath: subPathIndex, node: nodeIndex };
+        controls[`a_${subPathIndex}_${nodeIndex}`] = this.createAnchorControl(ref);
+      });
+    });
+    // Listed last so they win over an anchor they overlap
+    this.subPaths.forEach((subPath, subPathIndex) => {
+      subPath.nodes.forEach((_, nodeIndex) => {
+        const ref = { subPath: subPathIndex, node: nodeIndex };
+        controls[`in_${subPathIndex}_${nodeIndex}`] = this.createHandleControl(ref, 'in');
+        controls[`out_${subPathIndex}_${nodeIndex}`] = this.createHandleControl(ref, 'out');
+      });
+    });
+
+    path.controls = controls;
+    path.setCoords();
+  }
+
+  private createAnchorControl(ref: NodeRef) {
+    return new fabric.Control({
+      sizeX: 12,
+      sizeY: 12,
+      actionName: 'modifyPath',
+      cursorStyle: 'move',
+      positionHandler: () => this.toViewport(this.getNode(ref)!),
+      mouseDownHandler: (eventData: TPointerEvent) => {
+        this.selectedNode = ref;
+        if (eventData.altKey) {
+          this.setSelectedNodeType(this.getNode(ref)!.type === 'smooth' ? 'corner' : 'smooth');
+        }
+        this.canvas.requestRenderAll();
+        this.callbacks.onUpdate();
+        return false;
+      },
+      actionHandler: (eventData: TPointerEvent, transform: Transform, x: number, y: number) => {
+        const node = this.getNode(ref);
+        if (!node) return false;
+
+        moveNode(node, this.snap(x, y, node));
+        updatePathData(this.path!, buildPathData(this.subPaths));
+        return true;
+      },
+      render: (ctx: CanvasRenderingContext2D, left: number, top: number) => {
+        renderPathAnchor(ctx, left, top, this.isSelected(ref));
+      },
+    });
+  }
+
+  private createHandleControl(ref: NodeRef, side: HandleSide) {
+    const getHandle = () => {
+      const node = this.getNode(ref);
+      return side === 'in' ? node?.handleIn : node?.handleOut;
+    };
+
+    return new fabric.Control({
+      sizeX: 10,
+      sizeY: 10,
+      actionName: 'modifyPath',
+      cursorStyle: 'pointer',
+      getVisibility: () => !!getHandle() && this.isHandleVisible(ref),
+      positionHandler: () => this.toViewport(getHandle() ?? this.getNode(ref)!),
+      actionHandler: (eventData: TPointerEvent, transform: Transform, x: number, y: number) => {
+        const node = this.getNode(ref);
+        if (!node) return false;
+
+        moveHandle(node, side, this.snap(x, y, node), eventData.altKey);
+        updatePathData(this.path!, buildPathData(this.subPaths));
+        return true;
+      },
+      render: (ctx: CanvasRenderingContext2D, left: number, top: number) => {
+        renderPathHandle(ctx, left, top, this.toViewport(this.getNode(ref)!));
+      },
+    });
+  }
+}
@@ -0,0 +1,132 @@
+import type { TSimplePathData, XY } from 'fabric';
+import * as fabric from 'fabric';
+import { renderPathAnchor, renderPathHandle } from '../Control';
+import type { AligningGuidelines } from '../ruler/SnapLine';
+import { buildPathData, createNode, type PathNode } from './nodes';
+
+// Screen distance within which a click lands on an existing anchor
+const HIT_RADIUS = 8;
+// Screen distance the pointer has to be dragged before a click becomes a curve
+const DRAG_THRESHOLD = 3;
+
+const PREVIEW_COLOR = '#0E98FC';
+
+/**
+ * Bezier pen: each click adds a corner node, dragging pulls out symmetric
+ * handles for a smooth node. Clicking the first node closes the path; the
+ * path is handed to `onComplete` when closed or finished.
+ */
+export class PenTool {
+  private nodes: PathNode[] = [];
+  private hoverPoint: XY | null = null;
+  private isDragging = false;
+
+  constructor(
+    private canvas: fabric.Canvas,
+    private guidelines: AligningGuidelines,
+    private onComplete: (commands: TSimplePathData, closed: boolean) => void,
+  ) {
+    this.canvas.on('after:render', this.render);
+  }
+
+  get isActive() {
+    return this.nodes.length > 0;
+  }
+
+  onMouseDown(pointer: fabric.Point) {
+    const first = this.nodes[0];
+    const last = this.nodes[this.nodes.length - 1];
+
+    if (first && this.nodes.length > 1 && this.isNear(pointer, first)) {
+      this.finish(true);
+      return;
+    }
+    // The second click of a double-click lands on the node the first one added
+    if (last && this.isNear(pointer, last)) return;
+
+    const point = this.snap(pointer);
+    this.nodes.push(createNode(point));
+    this.hoverPoint = point;
+    this.isDragging = true;
+    this.canvas.requestRenderAll();
+  }
+
+  onMouseMove(pointer: fabric.Point) {
+    if (!this.isActive) return;
+
+    const node = this.nodes[this.nodes.length - 1];
+    if (this.isDragging) {
+      const distance = Math.hypot(pointer.x - node.x, pointer.y - node.y) * this.canvas.getZoom();
+      if (distance >= DRAG_THRESHOLD) {
+        node.handleOut = { x: pointer.x, y: pointer.y };
+        node.handleIn = { x: 2 * node.x - pointer.x, y: 2 * node.y - pointer.y };
+        node.type = 'smooth';
+      }
+    } else {
+      this.hoverPoint = this.snap(pointer);
+    }
+    this.canvas.requestRenderAll();
+  }
+
+  onMouseUp() {
+    this.isDragging = false;
+  }
+
+  /**
+   * Hand over the path drawn so far as an open path, if it has at least one segment
+   */
+  finish(closed = false) {
+    const nodes = this.nodes;
+    // Reset first: completing the path may switch tools, which finishes it again
+    this.cancel();
+    if (nodes.length > 1) {
+      this.onComplete(buildPathData([{ nodes, closed }]), closed);
+    }
+  }
+
+  cancel() {
+    this.nodes = [];
+    this.hoverPoint = null;
+    this.isDragging = false;
+    this.canvas.requestRenderAll();
+  }
+
+  private isNear(pointer: XY, node: XY) {
+    return Math.hypot(pointer.x - node.x, pointer.y - node.y) * this.canvas.getZoom() <= HIT_RADIUS;
+  }
+
+  private snap(pointer: fabric.Point) {
+    return this.guidelines.snapPoint(pointer, undefined, this.nodes);
+  }
+
+  private toViewport(point: XY) {
+    return new fabric.Point(point.x, point.y).transform(this.canvas.viewportTransform);
+  }
+
+  private render = () => {
+    if (!this.isActive) return;
+
+    const ctx = this.canvas.contextTop;
+    const nodes = this.hoverPoint && !this.isDragging
+      ? [...this.nodes, createNode(this.hoverPoint)]
+      : this.nodes;
+
+    ctx.save();
+    ctx.transform(...this.canvas.viewportTransform);
+    ctx.strokeStyle = PREVIEW_COLOR;
+    ctx.lineWidth = 1 / this.canvas.getZoom();
+    ctx.stroke(new Path2D(buildPathData([{ nodes, closed: false }]).map(command => command.join(' ')).join(' ')));
+    ctx.restore();
+
+    const last = this.nodes[this.nodes.length - 1];
+    [last.handleIn, last.handleOut].forEach(handle => {
+      if (!handle) return;
+      const position = this.toViewport(handle);
+      renderPathHandle(ctx, position.x, position.y, this.toViewport(last));
+    });
+    this.nodes.forEach(node => {
+      const position = this.toViewport(node);
+      renderPathAnchor(ctx, position.x, position.y, node === last);
+    });
+  };
+}
@@ -0,0 +1,3 @@
+export * from './nodes';
+export { NodeEditor, updatePathData } from './NodeEditor';
+export { PenTool } from './PenTool';
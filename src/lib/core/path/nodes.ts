@@ -0,0 +1,297 @@
+import type { TSimplePathData, XY } from 'fabric';
+
+export type NodeType = 'corner' | 'smooth';
+
+export interface PathNode {
+  x: number;
+  y: number;
+  // Control points of the curves arriving at and leaving the anchor; null for a straight side
+  handleIn: XY | null;
+  handleOut: XY | null;
+  // Smooth nodes keep their two handles on one line
+  type: NodeType;
+}
+
+export interface SubPath {
+  nodes: PathNode[];
+  closed: boolean;
+}
+
+export interface NodeRef {
+  subPath: number;
+  node: number;
+}
+
+const EPSILON = 1e-6;
+
+const samePoint = (a: XY, b: XY) => Math.abs(a.x - b.x) < EPSILON && Math.abs(a.y - b.y) < EPSILON;
+
+const lerp = (a: XY, b: XY, t: number): XY => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+export const createNode = (point: XY, type: NodeType = 'corner'): PathNode => ({
+  x: point.x,
+  y: point.y,
+  handleIn: null,
+  handleOut: null,
+  type,
+});
+
+/**
+ * Smooth if both handles exist and point in opposite directions from the anchor
+ */
+const detectNodeType = (node: PathNode): NodeType => {
+  if (!node.handleIn || !node.handleOut) return 'corner';
+
+  const inX = node.handleIn.x - node.x;
+  const inY = node.handleIn.y - node.y;
+  const outX = node.handleOut.x - node.x;
+  const outY = node.handleOut.y - node.y;
+  const cross = inX * outY - inY * outX;
+  const dot = inX * outX + inY * outY;
+  const scale = Math.hypot(inX, inY) * Math.hypot(outX, outY);
+  return scale > 0 && Math.abs(cross) / scale < 0.01 && dot < 0 ? 'smooth' : 'corner';
+};
+
+/**
+ * Split fabric's simplified path commands (M, L, C, Q and Z) into sub-paths of
+ * editable nodes. Quadratic curves are converted to cubic ones.
+ */
+export const parsePathNodes = (commands: TSimplePathData): SubPath[] => {
+  const subPaths: SubPath[] = [];
+  let current: SubPath | null = null;
+
+  const lastNode = () => current!.nodes[current!.nodes.length - 1];
+
+  commands.forEach(command => {
+    switch (command[0]) {
+      case 'M':
+        current = { nodes: [createNode({ x: command[1], y: command[2] })], closed: false };
+        subPaths.push(current);
+        break;
+      case 'L':
+        current?.nodes.push(createNode({ x: command[1], y: command[2] }));
+        break;
+      case 'C': {
+        if (!current) break;
+        lastNode().handleOut = { x: command[1], y: command[2] };
+        current.nodes.push({ ...createNode({ x: command[5], y: command[6] }), handleIn: { x: command[3], y: command[4] } });
+        break;
+      }
+      case 'Q': {
+        if (!current) break;
+        const start = lastNode();
+        const control = { x: command[1], y: command[2] };
+        const end = { x: command[3], y: command[4] };
+        start.handleOut = lerp(start, control, 2 / 3);
+        current.nodes.push({ ...createNode(end), handleIn: lerp(end, control, 2 / 3) });
+        break;
+      }
+      case 'Z': {
+        if (!current) break;
+        current.closed = true;
+        // A closing segment drawn explicitly ends on the first anchor; fold it into the first node
+        const first = current.nodes[0];
+        const last = lastNode();
+        if (current.nodes.length > 1 && samePoint(first, last)) {
+          first.handleIn = last.handleIn;
+          current.nodes.pop();
+        }
+        break;
+      }
+    }
+  });
+
+  subPaths.forEach(subPath => subPath.nodes.forEach(node => {
+    node.type = detectNodeType(node);
+  }));
+  return subPaths;
+};
+
+const segmentCommand = (from: PathNode, to: PathNode): TSimplePathData[number] => {
+  if (!from.handleOut && !to.handleIn) {
+    return ['L', to.x, to.y];
+  }
+  const c1 = from.handleOut ?? from;
+  const c2 = to.handleIn ?? to;
+  return ['C', c1.x, c1.y, c2.x, c2.y, to.x, to.y];
+};
+
+export const buildPathData = (subPaths: SubPath[]): TSimplePathData => {
+  const commands: TSimplePathData = [];
+  subPaths.forEach(({ nodes, closed }) => {
+    if (nodes.length === 0) return;
+
+    commands.push(['M', nodes[0].x, nodes[0].y]);
+    for (let i = 1; i < nodes.length; i++) {
+      commands.push(segmentCommand(nodes[i - 1], nodes[i]));
+    }
+    if (closed) {
+      if (nodes.length > 1) {
+        commands.push(segmentCommand(nodes[nodes.length - 1], nodes[0]));
+      }
+      commands.push(['Z']);
+    }
+  });
+  return commands;
+};
+
+/**
+ * Number of segments in a sub-path; closed ones have one from the last node back to the first
+ */
+export const segmentCount = ({ nodes, closed }: SubPath) => (closed ? nodes.length : nodes.length - 1);
+
+/**
+ * Point at `t` on the segment between two nodes
+ */
+export const pointOnSegment = (from: PathNode, to: PathNode, t: number): XY => {
+  const c1 = from.handleOut ?? from;
+  const c2 = to.handleIn ?? to;
+  const a = lerp(from, c1, t);
+  const b = lerp(c1, c2, t);
+  const c = lerp(c2, to, t);
+  return lerp(lerp(a, b, t), lerp(b, c, t), t);
+};
+
+/**
+ * Closest point to `point` on any segment, as the segment's start node and
+ * the curve parameter `t`
+ */
+export const findNearestSegment = (subPaths: SubPath[], point: XY) => {
+  const SAMPLES = 50;
+  let nearest: { ref: NodeRef; t: number; distance: number } | null = null;
+
+  subPaths.forEach((subPath, subPathIndex) => {
+    for (let i = 0; i < segmentCount(subPath); i++) {
+      const from = subPath.nodes[i];
+      const to = subPath.nodes[(i + 1) % subPath.nodes.length];
+      for (let step = 1; step < SAMPLES; step++) {
+        const t = step / SAMPLES;
+        const sample = pointOnSegment(from, to, t);
+        const distance = Math.hypot(sample.x - point.x, sample.y - point.y);
+        if (!nearest || distance < nearest.distance) {
+          nearest = { ref: { subPath: subPathIndex, node: i }, t, distance };
+        }
+      }
+    }
+  });
+  return nearest as { ref: NodeRef; t: number; distance: number } | null;
+};
+
+/**
+ * Insert a node at `t` on the segment starting at node `index` without changing the
+ * shape of the curve. Returns the new node's index.
+ */
+export const splitSegment = (subPath: SubPath, index: number, t: number): number => {
+  const from = subPath.nodes[index];
+  const to = subPath.nodes[(index + 1) % subPath.nodes.length];
+  const insertAt = index + 1;
+
+  if (!from.handleOut && !to.handleIn) {
+    subPath.nodes.splice(insertAt, 0, createNode(lerp(from, to, t)));
+    return insertAt;
+  }
+
+  // de Casteljau subdivision
+  const c1 = from.handleOut ?? from;
+  const c2 = to.handleIn ?? to;
+  const a = lerp(from, c1, t);
+  const b = lerp(c1, c2, t);
+  const c = lerp(c2, to, t);
+  const d = lerp(a, b, t);
+  const e = lerp(b, c, t);
+  const point = lerp(d, e, t);
+
+  from.handleOut = a;
+  to.handleIn = c;
+  subPath.nodes.splice(insertAt, 0, { x: point.x, y: point.y, handleIn: d, handleOut: e, type: 'smooth' });
+  return insertAt;
+};
+
+/**
+ * Remove a node; the neighbours are joined directly. Sub-paths left with fewer
+ * than two nodes are dropped. Returns false if that would leave nothing to draw.
+ */
+export const deleteNode = (subPaths: SubPath[], ref: NodeRef): boolean => {
+  const subPath = subPaths[ref.subPath];
+  if (!subPath) return false;
+
+  if (subPath.nodes.length <= 2) {
+    if (subPaths.length === 1) return false;
+    subPaths.splice(ref.subPath, 1);
+    return true;
+  }
+
+  subPath.nodes.splice(ref.node, 1);
+  return true;
+};
+
+const getNeighbours = (subPath: SubPath, index: number) => {
+  const { nodes, closed } = subPath;
+  const previous = index > 0 ? nodes[index - 1] : closed ? nodes[nodes.length - 1] : null;
+  const next = index < nodes.length - 1 ? nodes[index + 1] : closed ? nodes[0] : null;
+  return { previous, next };
+};
+
+/**
+ * Turn a node into a sharp corner (no handles) or a smooth point whose
+ * handles follow the direction between its neighbours
+ */
+export const setNodeType = (subPath: SubPath, index: number, type: NodeType) => {
+  const node = subPath.nodes[index];
+  node.type = type;
+
+  if (type === 'corner') {
+    node.handleIn = null;
+    node.handleOut = null;
+    return;
+  }
+
+  const { previous, next } = getNeighbours(subPath, index);
+  const before = previous ?? node;
+  const after = next ?? node;
+  const length = Math.hypot(after.x - before.x, after.y - before.y);
+  if (length === 0) return;
+
+  const direction = { x: (after.x - before.x) / length, y: (after.y - before.y) / length };
+  // A third of the distance to each neighbour gives a gentle curve
+  const inLength = previous ? Math.hypot(node.x - previous.x, node.y - previous.y) / 3 : 0;
+  const outLength = next ? Math.hypot(next.x - node.x, next.y - node.y) / 3 : 0;
+  node.handleIn = previous ? { x: node.x - direction.x * inLength, y: node.y - direction.y * inLength } : null;
+  node.handleOut = next ? { x: node.x + direction.x * outLength, y: node.y + direction.y * outLength } : null;
+};
+
+/**
+ * Move an anchor together with its handles
+ */
+export const moveNode = (node: PathNode, point: XY) => {
+  const dx = point.x - node.x;
+  const dy = point.y - node.y;
+  node.x = point.x;
+  node.y = point.y;
+  if (node.handleIn) node.handleIn = { x: node.handleIn.x + dx, y: node.handleIn.y + dy };
+  if (node.handleOut) node.handleOut = { x: node.handleOut.x + dx, y: node.handleOut.y + dy };
+};
+
+/**
+ * Move one handle. On a smooth node the opposite handle turns with it and
+ * keeps its own length; `breakSmooth` turns the node into a corner instead.
+ */
+export const moveHandle = (node: PathNode, side: 'in' | 'out', point: XY, breakSmooth = false) => {
+  if (breakSmooth) node.type = 'corner';
+
+  if (side === 'in') node.handleIn = { x: point.x, y: point.y };
+  else node.handleOut = { x: point.x, y: point.y };
+
+  const opposite = side === 'in' ? node.handleOut : node.handleIn;
+  if (node.type !== 'smooth' || !opposite) return;
+
+  const dx = node.x - point.x;
+  const dy = node.y - point.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return;
+
+  const oppositeLength = Math.hypot(opposite.x - node.x, opposite.y - node.y);
+  const mirrored = { x: node.x + (dx / length) * oppositeLength, y: node.y + (dy / length) * oppositeLength };
+  if (side === 'in') node.handleOut = mirrored;
+  else node.handleIn = mirrored;
+};
@@ -0,0 +1,3 @@
+export * from './pattern';
+export * from './procedural';
+export * from './types';
@@ -0,0 +1,89 @@
+import * as fabric from 'fabric';
+import { FillPattern, type FillPatternOptions } from '../subclass/FillPattern';
+import { createPatternSeed, drawProceduralPattern } from './procedural';
+import { DEFAULT_PROCEDURAL_PATTERN, type PatternPlacement, type ProceduralPatternSettings } from './types';
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const isPattern = (value: unknown): value is fabric.Pattern => value instanceof fabric.Pattern;
+
+export const getPatternPlacement = (pattern: fabric.Pattern): PatternPlacement => {
+  const { angle, scaleX } = fabric.util.qrDecompose(pattern.patternTransform ?? [1, 0, 0, 1, 0, 0]);
+  return {
+    scale: round(scaleX),
+    rotation: Math.round((angle + 360) % 360),
+    offsetX: round(pattern.offsetX),
+    offsetY: round(pattern.offsetY),
+    repeat: pattern.repeat,
+  };
+};
+
+/**
+ * Copy of a pattern with its placement, tile settings or source replaced.
+ * Patterns are swapped rather than changed in place, so fabric sees the fill change.
+ */
+export const copyPattern = (
+  pattern: fabric.Pattern,
+  placement: Partial<PatternPlacement> = {},
+  changes: Partial<FillPatternOptions> = {},
+) => {
+  const changed = Object.fromEntries(Object.entries(placement).filter(([, value]) => value !== undefined));
+  const { scale, rotation, offsetX, offsetY, repeat } = { ...getPatternPlacement(pattern), ...changed };
+  return new FillPattern({
+    source: pattern.source,
+    crossOrigin: pattern.crossOrigin,
+    generator: pattern instanceof FillPattern ? pattern.generator : undefined,
+    repeat,
+    offsetX,
+    offsetY,
+    patternTransform: fabric.util.composeMatrix({ angle: rotation, scaleX: scale, scaleY: scale }),
+    ...changes,
+  });
+};
+
+/**
+ * Built-in pattern at its natural size, or an existing pattern redrawn with new tile settings
+ */
+export const createProceduralPattern = (
+  settings: Partial<Omit<ProceduralPatternSettings, 'seed'>>,
+  current?: fabric.Pattern,
+) => {
+  const previous = current instanceof FillPattern ? current.generator : undefined;
+  const generator: ProceduralPatternSettings = {
+    ...DEFAULT_PROCEDURAL_PATTERN,
+    seed: createPatternSeed(),
+    ...previous,
+    ...settings,
+  };
+  const source = drawProceduralPattern(generator);
+  return current
+    ? copyPattern(current, {}, { source, generator })
+    : new FillPattern({ source, generator, repeat: 'repeat' });
+};
+
+/**
+ * Image drawn once, scaled and centered to cover an object of `size`
+ */
+export const createImagePattern = (image: HTMLImageElement, size: Size) => {
+  const scale = Math.max(size.width / image.naturalWidth, size.height / image.naturalHeight);
+  return new FillPattern({
+    source: image,
+    repeat: 'no-repeat',
+    offsetX: round((size.width - image.naturalWidth * scale) / 2),
+    offsetY: round((size.height - image.naturalHeight * scale) / 2),
+    patternTransform: [scale, 0, 0, scale, 0, 0],
+  });
+};
+
+/**
+ * CSS background for previewing a pattern's tile in the UI
+ */
+export const patternToCss = (pattern: fabric.Pattern) => {
+  const source = pattern.sourceToString();
+  return source ? `url("${source}")` : 'none';
+};
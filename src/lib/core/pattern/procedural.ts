@@ -0,0 +1,70 @@
+import * as fabric from 'fabric';
+import type { ProceduralPatternSettings } from './types';
+
+// Cells along each side of a noise tile, and how many fit in the pattern's size
+const NOISE_CELLS = 32;
+const NOISE_CELLS_PER_SIZE = 8;
+
+/**
+ * Deterministic random numbers in [0, 1) from a seed (mulberry32)
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createPatternSeed = () => Math.floor(Math.random() * 4294967296);
+
+/**
+ * Draw one seamless tile of a built-in pattern
+ */
+export const drawProceduralPattern = ({ kind, color, backgroundColor, size, seed }: ProceduralPatternSettings) => {
+  const cell = Math.max(1, Math.round(kind === 'noise' ? size / NOISE_CELLS_PER_SIZE : size));
+  const tileSize = kind === 'noise' ? cell * NOISE_CELLS : cell;
+  const canvas = fabric.util.createCanvasElement();
+  canvas.width = tileSize;
+  canvas.height = tileSize;
+  const ctx = canvas.getContext('2d')!;
+
+  if (backgroundColor !== 'transparent') {
+    ctx.fillStyle = backgroundColor;
+    ctx.fillRect(0, 0, tileSize, tileSize);
+  }
+  ctx.fillStyle = color;
+
+  switch (kind) {
+    case 'dots':
+      ctx.beginPath();
+      ctx.arc(cell / 2, cell / 2, cell / 4, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    case 'stripes':
+      // Rotate the pattern for diagonal stripes
+      ctx.fillRect(0, 0, cell / 2, cell);
+      break;
+    case 'grid': {
+      const line = Math.max(1, Math.round(cell / 16));
+      ctx.fillRect(0, 0, cell, line);
+      ctx.fillRect(0, 0, line, cell);
+      break;
+    }
+    case 'noise': {
+      const random = createRandom(seed);
+      for (let y = 0; y < NOISE_CELLS; y++) {
+        for (let x = 0; x < NOISE_CELLS; x++) {
+          ctx.globalAlpha = random();
+          ctx.fillRect(x * cell, y * cell, cell, cell);
+        }
+      }
+      ctx.globalAlpha = 1;
+      break;
+    }
+  }
+  return canvas;
+};
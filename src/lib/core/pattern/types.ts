@@ -0,0 +1,53 @@
+import type { PatternRepeat } from 'fabric';
+
+export type PatternKind = 'dots' | 'stripes' | 'grid' | 'noise';
+
+export const PATTERN_KINDS: PatternKind[] = ['dots', 'stripes', 'grid', 'noise'];
+
+export const PATTERN_KIND_LABELS: Record<PatternKind, string> = {
+  dots: 'Dots',
+  stripes: 'Stripes',
+  grid: 'Grid',
+  noise: 'Noise',
+};
+
+export const PATTERN_REPEAT_LABELS: Record<PatternRepeat, string> = {
+  repeat: 'Tile',
+  'repeat-x': 'Horizontally',
+  'repeat-y': 'Vertically',
+  'no-repeat': 'Once',
+};
+
+/**
+ * Settings a built-in pattern tile is drawn from. Stored instead of the
+ * tile's pixels, so the pattern stays editable.
+ */
+export interface ProceduralPatternSettings {
+  kind: PatternKind;
+  color: string;
+  backgroundColor: string;
+  // Edge of one tile in pixels. Noise grains are an eighth of it.
+  size: number;
+  // Noise is drawn from a seeded random sequence, so it looks the same every time
+  seed: number;
+}
+
+export const DEFAULT_PROCEDURAL_PATTERN: Omit<ProceduralPatternSettings, 'seed'> = {
+  kind: 'dots',
+  color: '#000000',
+  backgroundColor: '#ffffff',
+  size: 16,
+};
+
+/**
+ * Where a pattern sits in the object it fills
+ */
+export interface PatternPlacement {
+  scale: number;
+  // Degrees
+  rotation: number;
+  // Pixels from the object's top left corner
+  offsetX: number;
+  offsetY: number;
+  repeat: PatternRepeat;
+}
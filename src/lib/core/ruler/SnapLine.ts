@@ -12,6 +12,12 @@ declare interface HorizontalLine {
   y: number;
 }
 
+declare interface SnapTarget {
+  value: number;
+  from: number;
+  to: number;
+}
+
 function initAligningGuidelines(canvas: fabric.Canvas) {
   const ctx = canvas.getSelectionContext()
   const aligningLineOffset = 5
@@ -356,6 +362,66 @@ function initAligningGuidelines(canvas: fabric.Canvas) {
     horizontalLines.length = 0
     canvas.renderAll()
   })
+
+  /**
+   * Snap a point being placed or dragged (e.g. a path node) to the edges and
+   * centers of other objects and to `extraPoints`, showing the guide lines
+   * on the next render
+   */
+  function snapPoint(point: fabric.Point, exclude?: fabric.FabricObject, extraPoints: fabric.XY[] = []) {
+    viewportTransform = canvas.viewportTransform
+    zoom = canvas.getZoom()
+
+    // Lines a point can snap to: `value` is the x (or y) of the line, `from`/`to` its extent
+    const xTargets: SnapTarget[] = []
+    const yTargets: SnapTarget[] = []
+    extraPoints.forEach(p => {
+      xTargets.push({ value: p.x, from: p.y, to: p.y })
+      yTargets.push({ value: p.y, from: p.x, to: p.x })
+    })
+    canvas.getObjects().forEach(object => {
+      if (object === exclude || object.isDrawingPreview) return
+      const center = object.getCenterPoint()
+      const halfWidth = object.getScaledWidth() / 2
+      const halfHeight = object.getScaledHeight() / 2
+      ;[center.x - halfWidth, center.x, center.x + halfWidth].forEach(x => {
+        xTargets.push({ value: x, from: center.y - halfHeight, to: center.y + halfHeight })
+      })
+      ;[center.y - halfHeight, center.y, center.y + halfHeight].forEach(y => {
+        yTargets.push({ value: y, from: center.x - halfWidth, to: center.x + halfWidth })
+      })
+    })
+
+    // Same margin as object snapping, in screen pixels
+    const margin = aligningLineMargin / zoom
+    const closest = (targets: SnapTarget[], value: number) => targets.reduce<SnapTarget | undefined>((best, target) => {
+      const distance = Math.abs(target.value - value)
+      return distance <= margin && (!best || distance < Math.abs(best.value - value)) ? target : best
+    }, undefined)
+
+    const snapX = closest(xTargets, point.x)
+    const snapY = closest(yTargets, point.y)
+    const snapped = new fabric.Point(snapX?.value ?? point.x, snapY?.value ?? point.y)
+    if (snapX) {
+      verticalLines.push({
+        x: snapX.value,
+        y1: Math.min(snapX.from, snapped.y) - aligningLineOffset,
+        y2: Math.max(snapX.to, snapped.y) + aligningLineOffset,
+      })
+    }
+    if (snapY) {
+      horizontalLines.push({
+        y: snapY.value,
+        x1: Math.min(snapY.from, snapped.x) - aligningLineOffset,
+        x2: Math.max(snapY.to, snapped.x) + aligningLineOffset,
+      })
+    }
+    return snapped
+  }
+
+  return { snapPoint }
 }
 
+export type AligningGuidelines = ReturnType<typeof initAligningGuidelines>
+
 export default initAligningGuidelines
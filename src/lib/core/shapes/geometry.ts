@@ -0,0 +1,36 @@
+import type { XY } from 'fabric';
+
+// Start at the top so shapes sit upright
+const START_ANGLE = -Math.PI / 2;
+
+/**
+ * Corners of a regular polygon on the unit circle
+ */
+export const regularPolygonPoints = (sides: number): XY[] =>
+  Array.from({ length: sides }, (_, index) => {
+    const angle = START_ANGLE + (index * 2 * Math.PI) / sides;
+    return { x: Math.cos(angle), y: Math.sin(angle) };
+  });
+
+/**
+ * Outer and inner corners of a star on the unit circle, alternating
+ */
+export const starPoints = (numPoints: number, innerRadius: number): XY[] =>
+  Array.from({ length: numPoints * 2 }, (_, index) => {
+    const angle = START_ANGLE + (index * Math.PI) / numPoints;
+    const radius = index % 2 === 0 ? 1 : innerRadius;
+    return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+  });
+
+/**
+ * Scale points so their bounding box spans `width` x `height` from the origin
+ */
+export const fitPointsToBox = (points: XY[], width: number, height: number): XY[] => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const scaleX = width / (Math.max(...xs) - minX || 1);
+  const scaleY = height / (Math.max(...ys) - minY || 1);
+  return points.map(point => ({ x: (point.x - minX) * scaleX, y: (point.y - minY) * scaleY }));
+};
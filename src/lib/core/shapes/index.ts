@@ -0,0 +1,12 @@
+import type { ArrowHead } from './types';
+
+export * from './geometry';
+export * from './types';
+
+export const ARROW_HEAD_LABELS: Record<ArrowHead, string> = {
+  none: 'None',
+  triangle: 'Triangle',
+  open: 'Open',
+  circle: 'Circle',
+  bar: 'Bar',
+};
@@ -0,0 +1,25 @@
+// Decoration drawn at an end of an arrow
+export type ArrowHead = 'none' | 'triangle' | 'open' | 'circle' | 'bar';
+
+export interface ShapeSettings {
+  // Regular polygon
+  sides: number;
+  // Star
+  numPoints: number;
+  // Radius of the star's inner corners as a share of its outer radius
+  innerRadius: number;
+  // Arrow
+  startHead: ArrowHead;
+  endHead: ArrowHead;
+  // Length of an arrow head in canvas pixels
+  headSize: number;
+}
+
+export const DEFAULT_SHAPE_SETTINGS: ShapeSettings = {
+  sides: 6,
+  numPoints: 5,
+  innerRadius: 0.5,
+  startHead: 'none',
+  endHead: 'triangle',
+  headSize: 14,
+};
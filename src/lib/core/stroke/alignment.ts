@@ -0,0 +1,22 @@
+import * as fabric from 'fabric';
+import { getStrokeAlignment } from './stroke';
+
+type RenderStroke = fabric.FabricObject['_renderStroke'];
+
+const renderStroke: RenderStroke = fabric.FabricObject.prototype._renderStroke;
+
+/**
+ * The shape's outline is still the current path when its stroke is drawn, so
+ * an inside stroke is clipped to it. Outside strokes need no help: they are
+ * painted first and the fill covers their inner half. Their SVG export is in `../svg`.
+ */
+fabric.FabricObject.prototype._renderStroke = function (this: fabric.FabricObject, ctx: CanvasRenderingContext2D) {
+  if (getStrokeAlignment(this) !== 'inside') {
+    renderStroke.call(this, ctx);
+    return;
+  }
+  ctx.save();
+  ctx.clip(this.fillRule === 'evenodd' ? 'evenodd' : 'nonzero');
+  renderStroke.call(this, ctx);
+  ctx.restore();
+};
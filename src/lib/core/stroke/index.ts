@@ -0,0 +1,5 @@
+import '../svg';
+import './alignment';
+
+export * from './stroke';
+export * from './types';
@@ -0,0 +1,110 @@
+import * as fabric from 'fabric';
+import { CompoundShape } from '../subclass/CompoundShape';
+import { ParametricPolygon } from '../subclass/ParametricPolygon';
+import { DASH_PRESETS, type DashPreset, type StrokeAlignment, type StrokeOptions } from './types';
+
+declare module 'fabric' {
+  interface Object {
+    // Missing means centered, like a plain canvas stroke
+    strokeAlign?: StrokeAlignment;
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Whether a stroke can sit inside or outside the object's outline, which
+ * takes a closed shape. Text, lines and open paths are always stroked on center.
+ */
+export const supportsStrokeAlignment = (object: fabric.FabricObject) => {
+  if (object instanceof fabric.Path) {
+    const last = object.path[object.path.length - 1];
+    return last?.[0] === 'Z';
+  }
+  return object instanceof fabric.Rect
+    || object instanceof fabric.Circle
+    || object instanceof fabric.Ellipse
+    || object instanceof fabric.Triangle
+    || object instanceof fabric.Polygon
+    || object instanceof ParametricPolygon
+    || object instanceof CompoundShape;
+};
+
+export const getStrokeAlignment = (object: fabric.FabricObject): StrokeAlignment =>
+  supportsStrokeAlignment(object) ? object.strokeAlign ?? 'center' : 'center';
+
+// Inside and outside strokes are drawn twice as wide, with half of them hidden
+const getWidthFactor = (alignment: StrokeAlignment) => alignment === 'center' ? 1 : 2;
+
+export const getStrokeOptions = (object: fabric.FabricObject): StrokeOptions => {
+  const alignment = getStrokeAlignment(object);
+  return {
+    width: round(object.strokeWidth / getWidthFactor(alignment)),
+    dashArray: object.strokeDashArray ? [...object.strokeDashArray] : [],
+    lineCap: object.strokeLineCap,
+    lineJoin: object.strokeLineJoin,
+    miterLimit: object.strokeMiterLimit,
+    alignment,
+    uniform: object.strokeUniform,
+  };
+};
+
+/**
+ * fabric properties that draw `options` on `object`. Alignment is emulated:
+ * an outside stroke is painted below the fill, an inside one is clipped to the
+ * shape, and either way only the outer or inner half of it shows.
+ */
+export const toStrokeProps = (object: fabric.FabricObject, options: StrokeOptions) => {
+  const alignment = supportsStrokeAlignment(object) ? options.alignment : 'center';
+  return {
+    strokeWidth: options.width * getWidthFactor(alignment),
+    strokeDashArray: options.dashArray.length > 0 ? [...options.dashArray] : null,
+    strokeLineCap: options.lineCap,
+    strokeLineJoin: options.lineJoin,
+    strokeMiterLimit: options.miterLimit,
+    strokeUniform: options.uniform,
+    ...(supportsStrokeAlignment(object) && {
+      strokeAlign: alignment,
+      paintFirst: alignment === 'outside' ? 'stroke' as const : 'fill' as const,
+    }),
+  };
+};
+
+export const createDashArray = (preset: DashPreset, width: number) =>
+  DASH_PRESETS[preset].map(length => round(length * Math.max(1, width)));
+
+/**
+ * Preset a dash array was made from at `width`, or custom
+ */
+export const getDashPreset = (dashArray: number[], width: number): DashPreset | 'custom' => {
+  const presets = Object.keys(DASH_PRESETS) as DashPreset[];
+  return presets.find(preset => {
+    const lengths = createDashArray(preset, width);
+    return lengths.length === dashArray.length && lengths.every((length, i) => length === round(dashArray[i]));
+  }) ?? 'custom';
+};
+
+/**
+ * Dash array from text like `8 4` or `8, 4, 2, 4`, or null if it isn't one.
+ * Empty when it has no visible dash, which draws a solid stroke.
+ */
+export const parseDashArray = (text: string) => {
+  const lengths = text.split(/[\s,]+/).filter(Boolean).map(Number);
+  if (lengths.some(length => !Number.isFinite(length) || length < 0)) return null;
+  return lengths.some(length => length > 0) ? lengths.map(round) : [];
+};
+
+export const formatDashArray = (dashArray: number[]) => dashArray.join(' ');
+
+/**
+ * Stroke options with `changes` applied. Preset dashes are resized with the
+ * stroke, so they keep their look; custom dashes keep their lengths.
+ */
+export const changeStrokeOptions = (current: StrokeOptions, changes: Partial<StrokeOptions>): StrokeOptions => {
+  const next = { ...current, ...changes };
+  if (changes.width !== undefined && changes.dashArray === undefined) {
+    const preset = getDashPreset(current.dashArray, current.width);
+    if (preset !== 'custom') next.dashArray = createDashArray(preset, next.width);
+  }
+  return next;
+};
@@ -0,0 +1,55 @@
+// Where the stroke sits relative to the shape's outline
+export type StrokeAlignment = 'inside' | 'center' | 'outside';
+
+export const STROKE_ALIGNMENTS: StrokeAlignment[] = ['inside', 'center', 'outside'];
+
+export const STROKE_ALIGNMENT_LABELS: Record<StrokeAlignment, string> = {
+  inside: 'Inside',
+  center: 'Center',
+  outside: 'Outside',
+};
+
+export type DashPreset = 'solid' | 'dashed' | 'dotted' | 'dash-dot' | 'long-dash';
+
+// Dash and gap lengths in stroke widths, so a preset keeps its look at any width
+export const DASH_PRESETS: Record<DashPreset, number[]> = {
+  solid: [],
+  dashed: [4, 2],
+  dotted: [1, 1],
+  'dash-dot': [4, 2, 1, 2],
+  'long-dash': [8, 3],
+};
+
+export const DASH_PRESET_LABELS: Record<DashPreset | 'custom', string> = {
+  solid: 'Solid',
+  dashed: 'Dashed',
+  dotted: 'Dotted',
+  'dash-dot': 'Dash dot',
+  'long-dash': 'Long dash',
+  custom: 'Custom',
+};
+
+export const LINE_CAP_LABELS: Record<CanvasLineCap, string> = {
+  butt: 'Butt',
+  round: 'Round',
+  square: 'Square',
+};
+
+export const LINE_JOIN_LABELS: Record<CanvasLineJoin, string> = {
+  miter: 'Miter',
+  round: 'Round',
+  bevel: 'Bevel',
+};
+
+export interface StrokeOptions {
+  // Visible width in pixels, whatever the alignment
+  width: number;
+  // Dash and gap lengths in pixels; empty for a solid stroke
+  dashArray: number[];
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  miterLimit: number;
+  alignment: StrokeAlignment;
+  // Keep the width when the object is scaled
+  uniform: boolean;
+}
@@ -0,0 +1,2 @@
+export * from './styles';
+export * from './types';
@@ -0,0 +1,149 @@
+import * as fabric from 'fabric';
+import { v4 as uuidv4 } from 'uuid';
+import { CompoundShape } from '../subclass/CompoundShape';
+import {
+  STYLE_SLOTS,
+  type ColorStyle,
+  type DocumentStyle,
+  type StyleChanges,
+  type StyleKind,
+  type StyleSlot,
+  type TextStyle,
+  type TextStyleProperties,
+} from './types';
+
+declare module 'fabric' {
+  interface Object {
+    // Ids of the document styles the object follows; missing when unlinked
+    fillStyleId?: string;
+    strokeStyleId?: string;
+    textStyleId?: string;
+  }
+}
+
+export const STYLE_LINK_PROPERTIES = {
+  fill: 'fillStyleId',
+  stroke: 'strokeStyleId',
+  text: 'textStyleId',
+} as const satisfies Record<StyleSlot, keyof fabric.FabricObject>;
+
+export const TEXT_STYLE_PROPERTIES = [
+  'fontFamily',
+  'fontSize',
+  'fontWeight',
+  'fontStyle',
+  'underline',
+  'lineHeight',
+  'charSpacing',
+] as const satisfies readonly (keyof TextStyleProperties)[];
+
+// Properties text can also set per character, which would hide the style's value
+const CHARACTER_STYLE_PROPERTIES = new Set(['fill', 'stroke', 'fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'underline']);
+
+export const getSlotKind = (slot: StyleSlot): StyleKind => slot === 'text' ? 'text' : 'color';
+
+/**
+ * Whether `object` has a `slot` to link a style to. Images and plain groups
+ * have no paint of their own, and lines have no fill.
+ */
+export const supportsStyleSlot = (object: fabric.FabricObject, slot: StyleSlot) => {
+  if (object instanceof fabric.FabricImage) return false;
+  if (object instanceof fabric.Group && !(object instanceof CompoundShape)) return false;
+  if (slot === 'fill') return !(object instanceof fabric.Line);
+  if (slot === 'text') return object instanceof fabric.FabricText;
+  return true;
+};
+
+export const getLinkedStyleId = (object: fabric.FabricObject, slot: StyleSlot) => object[STYLE_LINK_PROPERTIES[slot]];
+
+const pickTextStyleProperties = (source: TextStyleProperties): TextStyleProperties => ({
+  fontFamily: source.fontFamily,
+  fontSize: source.fontSize,
+  fontWeight: String(source.fontWeight),
+  fontStyle: source.fontStyle,
+  underline: source.underline,
+  lineHeight: source.lineHeight,
+  charSpacing: source.charSpacing,
+});
+
+export const createColorStyle = (name: string, color: string): ColorStyle => ({ id: uuidv4(), kind: 'color', name, color });
+
+export const createTextStyle = (name: string, properties: TextStyleProperties): TextStyle => ({
+  id: uuidv4(),
+  kind: 'text',
+  name,
+  ...pickTextStyleProperties(properties),
+});
+
+export const getTextStyleProperties = (text: fabric.FabricText): TextStyleProperties => ({
+  fontFamily: text.fontFamily,
+  fontSize: text.fontSize,
+  fontWeight: String(text.fontWeight),
+  fontStyle: text.fontStyle,
+  underline: text.underline,
+  lineHeight: text.lineHeight,
+  charSpacing: text.charSpacing,
+});
+
+/**
+ * Style with `changes` applied. Changes that don't belong to its kind are ignored.
+ */
+export const changeStyle = (style: DocumentStyle, changes: StyleChanges): DocumentStyle => {
+  const name = changes.name ?? style.name;
+  if (style.kind === 'color') {
+    return { ...style, name, color: changes.color ?? style.color };
+  }
+  return { ...style, name, ...pickTextStyleProperties({ ...style, ...changes }) };
+};
+
+/**
+ * fabric properties that give the `slot` of an object the look of `style`
+ */
+export const toStyleProps = (style: DocumentStyle, slot: StyleSlot): Record<string, string | number | boolean> => {
+  if (style.kind === 'color') return { [slot]: style.color };
+  return Object.fromEntries(TEXT_STYLE_PROPERTIES.map(key => [key, style[key]]));
+};
+
+/**
+ * Whether the `slot` of `object` still looks the way `style` defines it
+ */
+export const matchesStyle = (object: fabric.FabricObject, style: DocumentStyle, slot: StyleSlot) =>
+  Object.entries(toStyleProps(style, slot)).every(([key, value]) => String(object.get(key)) === String(value));
+
+/**
+ * Give the `slot` of `object` the look of `style` and keep it following the style
+ */
+export const linkStyle = (object: fabric.FabricObject, style: DocumentStyle, slot: StyleSlot) => {
+  const props = toStyleProps(style, slot);
+  if (object instanceof fabric.FabricText) {
+    Object.keys(props)
+      .filter(key => CHARACTER_STYLE_PROPERTIES.has(key))
+      .forEach(key => object.removeStyle(key as keyof fabric.TextStyleDeclaration));
+  }
+  object.set({ ...props, [STYLE_LINK_PROPERTIES[slot]]: style.id });
+  object.setCoords();
+  object.group?.set('dirty', true);
+};
+
+/**
+ * Stop `slot` of `object` from following its style. It keeps its current look.
+ */
+export const unlinkStyle = (object: fabric.FabricObject, slot: StyleSlot) => {
+  object.set(STYLE_LINK_PROPERTIES[slot], undefined);
+};
+
+/**
+ * Call `callback` for every style link of `objects` and the objects in their groups
+ */
+export const forEachStyleLink = (
+  objects: fabric.FabricObject[],
+  callback: (object: fabric.FabricObject, slot: StyleSlot, styleId: string) => void,
+) => {
+  objects.forEach(object => {
+    STYLE_SLOTS.forEach(slot => {
+      const styleId = getLinkedStyleId(object, slot);
+      if (styleId) callback(object, slot, styleId);
+    });
+    if (object instanceof fabric.Group) forEachStyleLink(object.getObjects(), callback);
+  });
+};
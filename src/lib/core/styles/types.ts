@@ -0,0 +1,40 @@
+export type StyleKind = 'color' | 'text';
+
+export interface ColorStyle {
+  id: string;
+  kind: 'color';
+  name: string;
+  color: string;
+}
+
+// Typography of a text style. Its color comes from a color style, if any.
+export interface TextStyleProperties {
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: string;
+  fontStyle: string;
+  underline: boolean;
+  lineHeight: number;
+  charSpacing: number;
+}
+
+export interface TextStyle extends TextStyleProperties {
+  id: string;
+  kind: 'text';
+  name: string;
+}
+
+export type DocumentStyle = ColorStyle | TextStyle;
+
+export type StyleChanges = Partial<Pick<ColorStyle, 'name' | 'color'> & TextStyleProperties>;
+
+// Part of an object a style can be linked to
+export type StyleSlot = 'fill' | 'stroke' | 'text';
+
+export const STYLE_SLOTS: StyleSlot[] = ['fill', 'stroke', 'text'];
+
+export const STYLE_SLOT_LABELS: Record<StyleSlot, string> = {
+  fill: 'Fill',
+  stroke: 'Stroke',
+  text: 'Text',
+};
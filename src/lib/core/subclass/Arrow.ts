@@ -0,0 +1,163 @@
+import type {
+  FabricObjectProps,
+  ObjectEvents,
+  SerializedLineProps,
+  TClassProperties,
+  TOptions,
+  XY,
+} from 'fabric';
+import * as fabric from 'fabric';
+import type { ArrowHead } from '../shapes/types';
+
+interface IArrowProps {
+  startHead: ArrowHead;
+  endHead: ArrowHead;
+  // Length of a head in canvas pixels
+  headSize: number;
+}
+
+export interface SerializedArrowProps extends SerializedLineProps, IArrowProps { }
+
+export interface ArrowProps extends FabricObjectProps, IArrowProps { }
+
+interface HeadShape {
+  // SVG path data in the object's local coordinates
+  d: string;
+  // Solid heads are filled with the stroke color, the others are stroked
+  filled: boolean;
+  // How far the shaft stops short of the tip, so it doesn't poke out of a pointed head
+  inset: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const point = ({ x, y }: XY) => `${round(x)} ${round(y)}`;
+
+/**
+ * Shape of a head whose tip is at `tip`, pointing along the unit vector `direction`
+ */
+const getHeadShape = (type: ArrowHead, tip: fabric.Point, direction: fabric.Point, size: number): HeadShape | null => {
+  const normal = new fabric.Point(-direction.y, direction.x).scalarMultiply(size / 2);
+  const back = tip.subtract(direction.scalarMultiply(size));
+
+  switch (type) {
+    case 'triangle':
+      return { d: `M ${point(tip)} L ${point(back.add(normal))} L ${point(back.subtract(normal))} Z`, filled: true, inset: size / 2 };
+    case 'open':
+      return { d: `M ${point(back.add(normal))} L ${point(tip)} L ${point(back.subtract(normal))}`, filled: false, inset: 0 };
+    case 'circle': {
+      const radius = round(size / 2);
+      const left = tip.subtract(new fabric.Point(radius, 0));
+      const right = tip.add(new fabric.Point(radius, 0));
+      return {
+        d: `M ${point(right)} A ${radius} ${radius} 0 1 0 ${point(left)} A ${radius} ${radius} 0 1 0 ${point(right)} Z`,
+        filled: true,
+        inset: 0,
+      };
+    }
+    case 'bar':
+      return { d: `M ${point(tip.add(normal))} L ${point(tip.subtract(normal))}`, filled: false, inset: 0 };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Line with configurable heads at either end. Heads are drawn solid in the
+ * stroke color, even when the shaft is dashed.
+ */
+export class Arrow<
+  Props extends TOptions<ArrowProps> = Partial<ArrowProps>,
+  SProps extends SerializedArrowProps = SerializedArrowProps,
+  EventSpec extends ObjectEvents = ObjectEvents,
+> extends fabric.Line<Props, SProps, EventSpec> {
+  static type = 'Arrow';
+
+  static cacheProperties = [...fabric.Line.cacheProperties, 'startHead', 'endHead', 'headSize'];
+
+  declare startHead: ArrowHead;
+  declare endHead: ArrowHead;
+  declare headSize: number;
+
+  /**
+   * Shaft end points and head shapes, in local coordinates
+   */
+  private getArrowGeometry() {
+    const { x1, y1, x2, y2 } = this.calcLinePoints();
+    const start = new fabric.Point(x1, y1);
+    const end = new fabric.Point(x2, y2);
+    const length = start.distanceFrom(end);
+    const direction = length > 0 ? end.subtract(start).scalarDivide(length) : new fabric.Point(1, 0);
+
+    const startShape = getHeadShape(this.startHead, start, direction.scalarMultiply(-1), this.headSize);
+    const endShape = getHeadShape(this.endHead, end, direction, this.headSize);
+    const startInset = Math.min(startShape?.inset ?? 0, length / 2);
+    const endInset = Math.min(endShape?.inset ?? 0, length / 2);
+
+    return {
+      shaftStart: start.add(direction.scalarMultiply(startInset)),
+      shaftEnd: end.subtract(direction.scalarMultiply(endInset)),
+      heads: [startShape, endShape].filter((shape): shape is HeadShape => !!shape),
+    };
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    if (!this.stroke) return;
+
+    const { shaftStart, shaftEnd, heads } = this.getArrowGeometry();
+    ctx.beginPath();
+    ctx.moveTo(shaftStart.x, shaftStart.y);
+    ctx.lineTo(shaftEnd.x, shaftEnd.y);
+    this._renderStroke(ctx);
+
+    ctx.save();
+    this._setStrokeStyles(ctx, this);
+    ctx.setLineDash([]);
+    ctx.fillStyle = ctx.strokeStyle;
+    heads.forEach(({ d, filled }) => {
+      const path = new Path2D(d);
+      if (filled) ctx.fill(path);
+      else ctx.stroke(path);
+    });
+    ctx.restore();
+  }
+
+  /**
+   * Heads reach past the ends of the line by up to half their size
+   */
+  _getNonTransformedDimensions() {
+    const dimensions = super._getNonTransformedDimensions();
+    // Called from the constructor before the head options are applied
+    const hasHeads = !!this.headSize && (this.startHead !== 'none' || this.endHead !== 'none');
+    return hasHeads ? dimensions.scalarAdd(this.headSize) : dimensions;
+  }
+
+  _toSVG() {
+    const { shaftStart, shaftEnd, heads } = this.getArrowGeometry();
+    const headColor = typeof this.stroke === 'string' ? this.stroke : 'none';
+    return [
+      '<g ',
+      'COMMON_PARTS',
+      '>\n',
+      `<line x1="${round(shaftStart.x)}" y1="${round(shaftStart.y)}" x2="${round(shaftEnd.x)}" y2="${round(shaftEnd.y)}" />\n`,
+      ...heads.map(({ d, filled }) => filled
+        ? `<path d="${d}" style="fill: ${headColor}; stroke: none;" />\n`
+        : `<path d="${d}" style="fill: none; stroke-dasharray: none;" />\n`),
+      '</g>\n',
+    ];
+  }
+
+  toObject<
+    T extends Omit<Props & TClassProperties<this>, keyof SProps>,
+    K extends keyof T = never,
+  >(propertiesToInclude: K[] = []): Pick<T, K> & SProps {
+    return {
+      ...super.toObject(propertiesToInclude),
+      startHead: this.startHead,
+      endHead: this.endHead,
+      headSize: this.headSize,
+    };
+  }
+}
+
+fabric.classRegistry.setClass(Arrow);
@@ -0,0 +1,68 @@
+import type { T2DPipelineState, TWebGLPipelineState, TWebGLUniformLocationMap } from 'fabric';
+import * as fabric from 'fabric';
+import { isIdentityLookup } from '../adjustments/tone';
+
+const fragmentSource = `
+  precision highp float;
+  uniform sampler2D uTexture;
+  uniform sampler2D uLookup;
+  varying vec2 vTexCoord;
+  float lookup(float level, int channel) {
+    vec4 entry = texture2D(uLookup, vec2((level * 255.0 + 0.5) / 256.0, 0.5));
+    return channel == 0 ? entry.r : channel == 1 ? entry.g : entry.b;
+  }
+  void main() {
+    vec4 color = texture2D(uTexture, vTexCoord);
+    color.r = lookup(color.r, 0);
+    color.g = lookup(color.g, 1);
+    color.b = lookup(color.b, 2);
+    gl_FragColor = color;
+  }
+`;
+
+/**
+ * Base of filters that map each level of the red, green and blue channels to
+ * a new level through a 256-entry lookup, such as curves and levels
+ */
+export abstract class ChannelLookup<Name extends string, OwnProps extends Record<string, unknown>> extends fabric.filters.BaseFilter<
+  Name,
+  OwnProps
+> {
+  static uniformLocations = ['uLookup'];
+
+  /**
+   * RGBA entry for each input level; alpha is unused
+   */
+  protected abstract getLookup(): Uint8ClampedArray;
+
+  getFragmentSource() {
+    return fragmentSource;
+  }
+
+  applyToWebGL(options: TWebGLPipelineState) {
+    const gl = options.context;
+    // Lookups change as they are edited, so their textures are made per pass rather than cached
+    const texture = options.filterBackend.createTexture(gl, 256, 1, new ImageData(this.getLookup(), 256, 1))!;
+    this.bindAdditionalTexture(gl, texture, gl.TEXTURE1);
+    super.applyToWebGL(options);
+    this.unbindAdditionalTexture(gl, gl.TEXTURE1);
+    gl.deleteTexture(texture);
+  }
+
+  applyTo2d({ imageData: { data } }: T2DPipelineState) {
+    const lookup = this.getLookup();
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = lookup[data[i] * 4];
+      data[i + 1] = lookup[data[i + 1] * 4 + 1];
+      data[i + 2] = lookup[data[i + 2] * 4 + 2];
+    }
+  }
+
+  sendUniformData(gl: WebGLRenderingContext, uniformLocations: TWebGLUniformLocationMap) {
+    gl.uniform1i(uniformLocations.uLookup, 1);
+  }
+
+  isNeutralState() {
+    return isIdentityLookup(this.getLookup());
+  }
+}
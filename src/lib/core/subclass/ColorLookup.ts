@@ -0,0 +1,139 @@
+import type { T2DPipelineState, TWebGLPipelineState, TWebGLUniformLocationMap } from 'fabric';
+import * as fabric from 'fabric';
+import { decodeLutTable } from '../adjustments/lut';
+
+export type ColorLookupOwnProps = {
+  // Entries along each side of the LUT cube
+  size: number;
+  // Base64 RGB bytes of the entries, red changing fastest, then green, then blue
+  table: string;
+  // How much of the LUT's colors replace the image's, from 0 to 1
+  intensity: number;
+};
+
+// The cube is laid out as its blue slices side by side, each size × size
+// pixels with red across and green down. Red and green are interpolated by
+// the texture, blue by mixing the two nearest slices.
+const fragmentSource = `
+  precision highp float;
+  uniform sampler2D uTexture;
+  uniform sampler2D uLut;
+  uniform float uSize;
+  uniform float uIntensity;
+  varying vec2 vTexCoord;
+  void main() {
+    vec4 color = texture2D(uTexture, vTexCoord);
+    vec3 scaled = clamp(color.rgb, 0.0, 1.0) * (uSize - 1.0);
+    float slice = floor(scaled.b);
+    float nextSlice = min(slice + 1.0, uSize - 1.0);
+    vec2 position = vec2((scaled.r + 0.5) / (uSize * uSize), (scaled.g + 0.5) / uSize);
+    vec3 lower = texture2D(uLut, position + vec2(slice / uSize, 0.0)).rgb;
+    vec3 upper = texture2D(uLut, position + vec2(nextSlice / uSize, 0.0)).rgb;
+    color.rgb = mix(color.rgb, mix(lower, upper, scaled.b - slice), uIntensity);
+    gl_FragColor = color;
+  }
+`;
+
+// Decoding is kept for the last table, as the same LUT is applied on every
+// change to an image's other adjustments
+let decoded: { table: string; bytes: Uint8Array; texture: ImageData } | null = null;
+
+const decode = (table: string, size: number) => {
+  if (decoded?.table !== table) {
+    const bytes = decodeLutTable(table);
+    const texture = new ImageData(size * size, size);
+    for (let blue = 0; blue < size; blue++) {
+      for (let green = 0; green < size; green++) {
+        for (let red = 0; red < size; red++) {
+          const entry = (red + green * size + blue * size * size) * 3;
+          const pixel = (green * size * size + blue * size + red) * 4;
+          texture.data[pixel] = bytes[entry];
+          texture.data[pixel + 1] = bytes[entry + 1];
+          texture.data[pixel + 2] = bytes[entry + 2];
+          texture.data[pixel + 3] = 255;
+        }
+      }
+    }
+    decoded = { table, bytes, texture };
+  }
+  return decoded;
+};
+
+/**
+ * Grades an image's colors through a 3D lookup table, such as one from a .cube file
+ */
+export class ColorLookup extends fabric.filters.BaseFilter<'ColorLookup', ColorLookupOwnProps, Omit<ColorLookupOwnProps, 'table'>> {
+  declare size: number;
+  declare table: string;
+  declare intensity: number;
+
+  static type = 'ColorLookup';
+
+  static defaults: ColorLookupOwnProps = { size: 2, table: '', intensity: 1 };
+
+  static uniformLocations = ['uLut', 'uSize', 'uIntensity'];
+
+  getFragmentSource() {
+    return fragmentSource;
+  }
+
+  applyToWebGL(options: TWebGLPipelineState) {
+    const gl = options.context;
+    const { texture: source } = decode(this.table, this.size);
+    const texture = options.filterBackend.createTexture(gl, source.width, source.height, source, gl.LINEAR)!;
+    this.bindAdditionalTexture(gl, texture, gl.TEXTURE1);
+    super.applyToWebGL(options);
+    this.unbindAdditionalTexture(gl, gl.TEXTURE1);
+    gl.deleteTexture(texture);
+  }
+
+  applyTo2d({ imageData: { data } }: T2DPipelineState) {
+    const { bytes } = decode(this.table, this.size);
+    const size = this.size;
+    const scale = (size - 1) / 255;
+    const entryAt = (red: number, green: number, blue: number) => (red + green * size + blue * size * size) * 3;
+
+    for (let i = 0; i < data.length; i += 4) {
+      const r = data[i] * scale;
+      const g = data[i + 1] * scale;
+      const b = data[i + 2] * scale;
+      const r0 = Math.floor(r);
+      const g0 = Math.floor(g);
+      const b0 = Math.floor(b);
+      const r1 = Math.min(r0 + 1, size - 1);
+      const g1 = Math.min(g0 + 1, size - 1);
+      const b1 = Math.min(b0 + 1, size - 1);
+      const [fr, fg, fb] = [r - r0, g - g0, b - b0];
+
+      for (let channel = 0; channel < 3; channel++) {
+        const at = (red: number, green: number, blue: number) => bytes[entryAt(red, green, blue) + channel];
+        const lower =
+          (at(r0, g0, b0) * (1 - fr) + at(r1, g0, b0) * fr) * (1 - fg) + (at(r0, g1, b0) * (1 - fr) + at(r1, g1, b0) * fr) * fg;
+        const upper =
+          (at(r0, g0, b1) * (1 - fr) + at(r1, g0, b1) * fr) * (1 - fg) + (at(r0, g1, b1) * (1 - fr) + at(r1, g1, b1) * fr) * fg;
+        const graded = lower * (1 - fb) + upper * fb;
+        data[i + channel] += (graded - data[i + channel]) * this.intensity;
+      }
+    }
+  }
+
+  sendUniformData(gl: WebGLRenderingContext, uniformLocations: TWebGLUniformLocationMap) {
+    gl.uniform1i(uniformLocations.uLut, 1);
+    gl.uniform1f(uniformLocations.uSize, this.size);
+    gl.uniform1f(uniformLocations.uIntensity, this.intensity);
+  }
+
+  isNeutralState() {
+    return this.intensity === 0 || !this.table;
+  }
+
+  /**
+   * Saved without the table, which the image keeps once in its LUT tables;
+   * images rebuild the filter from their adjustments when revived
+   */
+  toObject() {
+    return { type: this.type, size: this.size, intensity: this.intensity };
+  }
+}
+
+fabric.classRegistry.setClass(ColorLookup);
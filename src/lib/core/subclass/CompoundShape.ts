@@ -0,0 +1,95 @@
+import type { SerializedGroupProps, TSVGReviver } from 'fabric';
+import * as fabric from 'fabric';
+import { combineRegions, getObjectRegion, regionToPathData } from '../boolean/geometry';
+import type { BooleanOperation } from '../boolean/types';
+
+interface ICompoundShapeProps {
+  operation: BooleanOperation;
+}
+
+export interface SerializedCompoundShapeProps extends SerializedGroupProps, ICompoundShapeProps { }
+
+export interface CompoundShapeProps extends fabric.GroupProps, ICompoundShapeProps { }
+
+// Paint properties of the compound that its result path is drawn with
+const STYLE_PROPERTIES = [
+  'fill',
+  'stroke',
+  'strokeWidth',
+  'strokeDashArray',
+  'strokeDashOffset',
+  'strokeLineCap',
+  'strokeLineJoin',
+  'strokeMiterLimit',
+  'strokeUniform',
+  'strokeAlign',
+  'paintFirst',
+] as const;
+
+/**
+ * Non-destructive boolean operation: keeps the original shapes as its
+ * objects, but draws only the path that results from combining them.
+ * Ungrouping it gives the shapes back for editing.
+ */
+export class CompoundShape extends fabric.Group {
+  static type = 'CompoundShape';
+
+  static cacheProperties = [...fabric.Group.cacheProperties, 'operation'];
+
+  // Serialized along with the group's own properties
+  static customProperties = ['operation'];
+
+  declare operation: BooleanOperation;
+
+  // Undefined until computed, and again whenever the objects or operation change
+  private resultPath?: fabric.Path;
+
+  constructor(objects: fabric.FabricObject[] = [], options: Partial<CompoundShapeProps> = {}) {
+    super(objects, options);
+  }
+
+  /**
+   * The combined shape as a path in the group's own coordinates, styled like the group
+   */
+  getResultPath() {
+    if (!this.resultPath) {
+      const regions = this.getObjects().map(object => getObjectRegion(object, object.calcOwnMatrix()));
+      this.resultPath = new fabric.Path(regionToPathData(combineRegions(this.operation, regions)), {
+        fillRule: 'evenodd',
+        objectCaching: false,
+      });
+    }
+    STYLE_PROPERTIES.forEach(key => this.resultPath!.set(key, this[key]));
+    return this.resultPath;
+  }
+
+  _set(key: string, value: unknown) {
+    super._set(key, value);
+    if (key === 'operation') {
+      this.resultPath = undefined;
+    }
+    return this;
+  }
+
+  _onObjectAdded(object: fabric.FabricObject) {
+    super._onObjectAdded(object);
+    this.resultPath = undefined;
+  }
+
+  _onObjectRemoved(object: fabric.FabricObject, removeParentTransform?: boolean) {
+    super._onObjectRemoved(object, removeParentTransform);
+    this.resultPath = undefined;
+  }
+
+  drawObject(ctx: CanvasRenderingContext2D, forClipping: boolean | undefined, context: Parameters<fabric.Group['drawObject']>[2]) {
+    this._renderBackground(ctx);
+    this.getResultPath().render(ctx);
+    this._drawClipPath(ctx, this.clipPath, context);
+  }
+
+  _toSVG(reviver?: TSVGReviver) {
+    return ['<g ', 'COMMON_PARTS', ' >\n', '\t\t', this.getResultPath().toSVG(reviver), '</g>\n'];
+  }
+}
+
+fabric.classRegistry.setClass(CompoundShape);
@@ -0,0 +1,84 @@
+import type { GradientOptions } from 'fabric';
+import * as fabric from 'fabric';
+import { fromColorStops, interpolateStops, stopToCss } from '../gradient/stops';
+
+export const CONIC_GRADIENT_TYPE = 'conic';
+
+// Number of solid wedges that stand in for the sweep in SVG, which has no conic gradients
+const SVG_WEDGES = 120;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Gradient that sweeps its stops around a center point. `x1`/`y1` is the
+ * center, and the direction to `x2`/`y2` is where the sweep starts.
+ *
+ * Canvas draws it natively; SVG export approximates it with a pattern of
+ * thin solid wedges.
+ */
+export class ConicGradient extends fabric.Gradient<'linear'> {
+  static type = 'ConicGradient';
+
+  constructor(options: GradientOptions<'linear'> = {}) {
+    super({ ...options, type: 'linear' });
+    // Serialized as its own type, so it revives as a conic gradient
+    (this as { type: string }).type = CONIC_GRADIENT_TYPE;
+  }
+
+  get startAngle() {
+    const { x1, y1, x2, y2 } = this.coords;
+    return Math.atan2(y2 - y1, x2 - x1);
+  }
+
+  toLive(ctx: CanvasRenderingContext2D): CanvasGradient {
+    // Browsers without conic gradients fall back to a linear one along the start direction
+    if (typeof ctx.createConicGradient !== 'function') return super.toLive(ctx);
+
+    const { x1, y1 } = this.coords;
+    const gradient = ctx.createConicGradient(this.startAngle, x1, y1);
+    fromColorStops(this.colorStops).forEach(stop => gradient.addColorStop(stop.offset, stopToCss(stop)));
+    return gradient;
+  }
+
+  toSVG(object: fabric.FabricObject) {
+    const { width, height } = object;
+    const { x1: cx, y1: cy } = this.coords;
+    const stops = fromColorStops(this.colorStops);
+
+    // Same placement as fabric's own gradients: the origin is the object's top left corner
+    let translateX = this.offsetX - width / 2;
+    let translateY = this.offsetY - height / 2;
+    if (object instanceof fabric.Path) {
+      translateX += object.pathOffset.x;
+      translateY += object.pathOffset.y;
+    }
+
+    const left = -this.offsetX;
+    const top = -this.offsetY;
+    const radius = Math.max(
+      ...[[left, top], [left + width, top], [left, top + height], [left + width, top + height]]
+        .map(([x, y]) => Math.hypot(x - cx, y - cy)),
+    );
+    const step = (Math.PI * 2) / SVG_WEDGES;
+    const pointAt = (angle: number) => `${round(cx + Math.cos(angle) * radius)} ${round(cy + Math.sin(angle) * radius)}`;
+
+    const wedges = Array.from({ length: SVG_WEDGES }, (_, index) => {
+      const start = this.startAngle + index * step;
+      // Each wedge reaches a little into the next one, so no seams show between them
+      const end = start + (index === SVG_WEDGES - 1 ? step : step * 1.5);
+      const { color, opacity } = interpolateStops(stops, (index + 0.5) / SVG_WEDGES);
+      return `<path d="M ${round(cx)} ${round(cy)} L ${pointAt(start)} L ${pointAt(end)} Z" `
+        + `style="fill: ${color}; fill-opacity: ${round(opacity)}; stroke: none;" />\n`;
+    });
+
+    return [
+      `<pattern id="SVGID_${this.id}" patternUnits="userSpaceOnUse" `,
+      `x="${round(left)}" y="${round(top)}" width="${round(width)}" height="${round(height)}" `,
+      `patternTransform="translate(${round(translateX)} ${round(translateY)})">\n`,
+      ...wedges,
+      '</pattern>\n',
+    ].join('');
+  }
+}
+
+fabric.classRegistry.setClass(ConicGradient, CONIC_GRADIENT_TYPE);
@@ -0,0 +1,25 @@
+import * as fabric from 'fabric';
+import { getCurvesLookup } from '../adjustments/tone';
+import { DEFAULT_CURVES, type CurvesSettings } from '../adjustments/types';
+import { ChannelLookup } from './ChannelLookup';
+
+export type CurvesOwnProps = {
+  curves: CurvesSettings;
+};
+
+/**
+ * Remaps the levels of each channel through tone curves
+ */
+export class Curves extends ChannelLookup<'Curves', CurvesOwnProps> {
+  declare curves: CurvesSettings;
+
+  static type = 'Curves';
+
+  static defaults: CurvesOwnProps = { curves: DEFAULT_CURVES };
+
+  protected getLookup() {
+    return getCurvesLookup(this.curves);
+  }
+}
+
+fabric.classRegistry.setClass(Curves);
@@ -0,0 +1,98 @@
+import type { Abortable, PatternOptions, SerializedPatternOptions, TMat2D } from 'fabric';
+import * as fabric from 'fabric';
+import { drawProceduralPattern } from '../pattern/procedural';
+import type { ProceduralPatternSettings } from '../pattern/types';
+
+export const FILL_PATTERN_TYPE = 'fillpattern';
+
+export interface FillPatternOptions extends PatternOptions {
+  generator?: ProceduralPatternSettings;
+}
+
+const IDENTITY: TMat2D = [1, 0, 0, 1, 0, 0];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Image or built-in pattern filling a shape or text. Built-in patterns keep
+ * the settings their tile is drawn from and serialize those instead of pixels.
+ *
+ * Unlike `fabric.Pattern`, its SVG follows the pattern's transform and
+ * repeat mode, and lines up with paths as well as basic shapes.
+ */
+export class FillPattern extends fabric.Pattern {
+  static type = 'FillPattern';
+
+  declare generator?: ProceduralPatternSettings;
+
+  constructor(options: FillPatternOptions) {
+    super(options);
+  }
+
+  get type() {
+    return FILL_PATTERN_TYPE;
+  }
+
+  set type(value) {
+    // Read only, like fabric.Pattern's
+  }
+
+  toObject(propertiesToInclude: string[] = []) {
+    const object = { ...super.toObject(propertiesToInclude), type: FILL_PATTERN_TYPE };
+    return this.generator ? { ...object, source: '', generator: { ...this.generator } } : object;
+  }
+
+  toSVG(object: fabric.FabricObject) {
+    const source = this.source as HTMLImageElement | HTMLCanvasElement;
+    const { width, height } = object;
+    const transform = this.patternTransform ?? IDENTITY;
+
+    // Same placement as on canvas: the origin is the object's top left corner
+    const placement: TMat2D = [1, 0, 0, 1, this.offsetX - width / 2, this.offsetY - height / 2];
+    const toPattern = fabric.util.invertTransform(fabric.util.multiplyTransformMatrices(placement, transform));
+    if (object instanceof fabric.Path) {
+      placement[4] += object.pathOffset.x;
+      placement[5] += object.pathOffset.y;
+    }
+
+    // SVG patterns always tile, so along an axis that doesn't repeat the tile
+    // is made big enough that no second copy reaches the object
+    const corners = [[-1, -1], [1, -1], [1, 1], [-1, 1]]
+      .map(([x, y]) => fabric.util.transformPoint({ x: (x * width) / 2, y: (y * height) / 2 }, toPattern));
+    const reach = Math.max(...corners.flatMap(({ x, y }) => [Math.abs(x), Math.abs(y)]));
+    const repeatX = this.repeat === 'repeat' || this.repeat === 'repeat-x';
+    const repeatY = this.repeat === 'repeat' || this.repeat === 'repeat-y';
+    const tileWidth = repeatX ? source.width : reach * 2 + source.width;
+    const tileHeight = repeatY ? source.height : reach * 2 + source.height;
+
+    return [
+      `<pattern id="SVGID_${this.id}" patternUnits="userSpaceOnUse" x="0" y="0" `
+      + `width="${round(tileWidth)}" height="${round(tileHeight)}" `
+      + `patternTransform="${fabric.util.matrixToSVG(fabric.util.multiplyTransformMatrices(placement, transform))}">`,
+      `<image x="0" y="0" width="${source.width}" height="${source.height}" xlink:href="${this.sourceToString()}"></image>`,
+      '</pattern>',
+      '',
+    ].join('\n');
+  }
+
+  static async fromObject(
+    { generator, ...options }: SerializedPatternOptions & { generator?: ProceduralPatternSettings },
+    abortable?: Abortable,
+  ): Promise<FillPattern> {
+    if (!generator) {
+      return (await super.fromObject({ ...options, type: 'pattern' }, abortable)) as FillPattern;
+    }
+    const { crossOrigin, repeat, offsetX, offsetY, patternTransform } = options;
+    return new this({
+      crossOrigin,
+      repeat,
+      offsetX,
+      offsetY,
+      patternTransform: patternTransform ? ([...patternTransform] as TMat2D) : undefined,
+      source: drawProceduralPattern(generator),
+      generator: { ...generator },
+    });
+  }
+}
+
+fabric.classRegistry.setClass(FillPattern, FILL_PATTERN_TYPE);
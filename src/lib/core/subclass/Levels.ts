@@ -0,0 +1,26 @@
+import * as fabric from 'fabric';
+import { getLevelsLookup } from '../adjustments/tone';
+import { DEFAULT_LEVELS, type LevelsSettings } from '../adjustments/types';
+import { ChannelLookup } from './ChannelLookup';
+
+export type LevelsOwnProps = {
+  levels: LevelsSettings;
+};
+
+/**
+ * Sets the black, white and midtone points of an image, and the range of
+ * levels it outputs
+ */
+export class Levels extends ChannelLookup<'Levels', LevelsOwnProps> {
+  declare levels: LevelsSettings;
+
+  static type = 'Levels';
+
+  static defaults: LevelsOwnProps = { levels: DEFAULT_LEVELS };
+
+  protected getLookup() {
+    return getLevelsLookup(this.levels);
+  }
+}
+
+fabric.classRegistry.setClass(Levels);
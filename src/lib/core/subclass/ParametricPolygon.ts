@@ -0,0 +1,46 @@
+import type {
+  FabricObjectProps,
+  ObjectEvents,
+  SerializedPolylineProps,
+  TOptions,
+  XY,
+} from 'fabric';
+import * as fabric from 'fabric';
+import { fitPointsToBox } from '../shapes/geometry';
+
+/**
+ * Closed polygon whose points are generated from a few parameters, like the
+ * number of sides. Subclasses regenerate the points with `reshape` when one
+ * of their parameters is set.
+ */
+export abstract class ParametricPolygon<
+  Props extends TOptions<FabricObjectProps> = Partial<FabricObjectProps>,
+  SProps extends SerializedPolylineProps = SerializedPolylineProps,
+  EventSpec extends ObjectEvents = ObjectEvents,
+> extends fabric.Polyline<Props, SProps, EventSpec> {
+  protected isOpen() {
+    return false;
+  }
+
+  /**
+   * Replace the points with `unitPoints` stretched over the current size,
+   * keeping the shape centered where it was
+   */
+  protected reshape(unitPoints: XY[]) {
+    // Points don't exist yet while the constructor applies the options
+    if (!this.points?.length) return;
+
+    const center = this.getCenterPoint();
+    this.points = fitPointsToBox(unitPoints, this.width, this.height);
+    this.setBoundingBox();
+    this.setPositionByOrigin(center, 'center', 'center');
+    this.set('dirty', true);
+    this.setCoords();
+  }
+
+  _toSVG() {
+    // The element name would otherwise come from the class type
+    const [, ...markup] = super._toSVG();
+    return ['<polygon ', ...markup];
+  }
+}
@@ -0,0 +1,53 @@
+import type {
+  FabricObjectProps,
+  ObjectEvents,
+  SerializedPolylineProps,
+  TClassProperties,
+  TOptions,
+} from 'fabric';
+import * as fabric from 'fabric';
+import { regularPolygonPoints } from '../shapes/geometry';
+import { ParametricPolygon } from './ParametricPolygon';
+
+interface IRegularPolygonProps {
+  sides: number;
+}
+
+export interface SerializedRegularPolygonProps
+  extends SerializedPolylineProps,
+  IRegularPolygonProps { }
+
+export interface RegularPolygonProps extends FabricObjectProps, IRegularPolygonProps { }
+
+/**
+ * Polygon with N equal sides, stretched to its bounding box
+ */
+export class RegularPolygon<
+  Props extends TOptions<RegularPolygonProps> = Partial<RegularPolygonProps>,
+  SProps extends SerializedRegularPolygonProps = SerializedRegularPolygonProps,
+  EventSpec extends ObjectEvents = ObjectEvents,
+> extends ParametricPolygon<Props, SProps, EventSpec> {
+  static type = 'RegularPolygon';
+
+  declare sides: number;
+
+  _set(key: string, value: unknown) {
+    super._set(key, value);
+    if (key === 'sides') {
+      this.reshape(regularPolygonPoints(this.sides));
+    }
+    return this;
+  }
+
+  toObject<
+    T extends Omit<Props & TClassProperties<this>, keyof SProps>,
+    K extends keyof T = never,
+  >(propertiesToInclude: K[] = []): Pick<T, K> & SProps {
+    return {
+      ...super.toObject(propertiesToInclude),
+      sides: this.sides,
+    };
+  }
+}
+
+fabric.classRegistry.setClass(RegularPolygon);
@@ -0,0 +1,55 @@
+import type {
+  FabricObjectProps,
+  ObjectEvents,
+  SerializedPolylineProps,
+  TClassProperties,
+  TOptions,
+} from 'fabric';
+import * as fabric from 'fabric';
+import { starPoints } from '../shapes/geometry';
+import { ParametricPolygon } from './ParametricPolygon';
+
+interface IStarProps {
+  numPoints: number;
+  // Radius of the inner corners as a share of the outer radius
+  innerRadius: number;
+}
+
+export interface SerializedStarProps extends SerializedPolylineProps, IStarProps { }
+
+export interface StarProps extends FabricObjectProps, IStarProps { }
+
+/**
+ * Star with N points, stretched to its bounding box
+ */
+export class Star<
+  Props extends TOptions<StarProps> = Partial<StarProps>,
+  SProps extends SerializedStarProps = SerializedStarProps,
+  EventSpec extends ObjectEvents = ObjectEvents,
+> extends ParametricPolygon<Props, SProps, EventSpec> {
+  static type = 'Star';
+
+  declare numPoints: number;
+  declare innerRadius: number;
+
+  _set(key: string, value: unknown) {
+    super._set(key, value);
+    if (key === 'numPoints' || key === 'innerRadius') {
+      this.reshape(starPoints(this.numPoints, this.innerRadius));
+    }
+    return this;
+  }
+
+  toObject<
+    T extends Omit<Props & TClassProperties<this>, keyof SProps>,
+    K extends keyof T = never,
+  >(propertiesToInclude: K[] = []): Pick<T, K> & SProps {
+    return {
+      ...super.toObject(propertiesToInclude),
+      numPoints: this.numPoints,
+      innerRadius: this.innerRadius,
+    };
+  }
+}
+
+fabric.classRegistry.setClass(Star);
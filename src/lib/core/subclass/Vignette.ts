@@ -0,0 +1,71 @@
+import type { T2DPipelineState, TWebGLUniformLocationMap } from 'fabric';
+import * as fabric from 'fabric';
+
+export type VignetteOwnProps = {
+  // How much the corners are darkened, from 0 to 1
+  vignette: number;
+};
+
+// Distances from the center, as a share of the distance to a corner, where the
+// darkening starts and where it is full
+const INNER_RADIUS = 0.35;
+const OUTER_RADIUS = 1;
+
+const fragmentSource = `
+  precision highp float;
+  uniform sampler2D uTexture;
+  uniform float uVignette;
+  varying vec2 vTexCoord;
+  void main() {
+    vec4 color = texture2D(uTexture, vTexCoord);
+    float distance = length(vTexCoord - 0.5) * ${Math.SQRT2.toFixed(6)};
+    color.rgb *= 1.0 - uVignette * smoothstep(${INNER_RADIUS.toFixed(2)}, ${OUTER_RADIUS.toFixed(2)}, distance);
+    gl_FragColor = color;
+  }
+`;
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Darkens an image towards its corners, following its shape
+ */
+export class Vignette extends fabric.filters.BaseFilter<'Vignette', VignetteOwnProps> {
+  declare vignette: number;
+
+  static type = 'Vignette';
+
+  static defaults: VignetteOwnProps = { vignette: 0 };
+
+  static uniformLocations = ['uVignette'];
+
+  getFragmentSource() {
+    return fragmentSource;
+  }
+
+  applyTo2d({ imageData: { data, width, height } }: T2DPipelineState) {
+    for (let y = 0; y < height; y++) {
+      const dy = (y + 0.5) / height - 0.5;
+      for (let x = 0; x < width; x++) {
+        const dx = (x + 0.5) / width - 0.5;
+        const factor = 1 - this.vignette * smoothstep(INNER_RADIUS, OUTER_RADIUS, Math.hypot(dx, dy) * Math.SQRT2);
+        const i = (y * width + x) * 4;
+        data[i] *= factor;
+        data[i + 1] *= factor;
+        data[i + 2] *= factor;
+      }
+    }
+  }
+
+  sendUniformData(gl: WebGLRenderingContext, uniformLocations: TWebGLUniformLocationMap) {
+    gl.uniform1f(uniformLocations.uVignette, this.vignette);
+  }
+
+  isNeutralState() {
+    return this.vignette === 0;
+  }
+}
+
+fabric.classRegistry.setClass(Vignette);
@@ -0,0 +1,46 @@
+import * as fabric from 'fabric';
+import { getBlendMode } from '../blend/blend';
+import { getStrokeAlignment } from '../stroke/stroke';
+
+type CreateBaseSVGMarkup = fabric.FabricObject['_createBaseSVGMarkup'];
+type SVGMarkupOptions = NonNullable<Parameters<CreateBaseSVGMarkup>[1]>;
+
+const createBaseSVGMarkup: CreateBaseSVGMarkup = fabric.FabricObject.prototype._createBaseSVGMarkup;
+
+let clipPathCount = 0;
+
+/**
+ * Inside strokes: the element is clipped by a copy of itself
+ */
+const clipToOwnShape = (object: fabric.FabricObject, objectMarkup: string[], options: SVGMarkupOptions) => {
+  const id = `STROKECLIP_${clipPathCount++}`;
+  const clipMarkup = objectMarkup.map(part => part === 'COMMON_PARTS'
+    ? `${options.additionalTransform ? `transform="${options.additionalTransform}" ` : ''}clip-rule="${object.fillRule}" `
+    : part);
+  return [
+    `<clipPath id="${id}">\n`,
+    ...clipMarkup,
+    '</clipPath>\n',
+    `<g clip-path="url(#${id})">\n`,
+    ...objectMarkup,
+    '</g>\n',
+  ];
+};
+
+/**
+ * fabric leaves stroke alignment and blend modes out of SVG exports. Every
+ * object's markup goes through `_createBaseSVGMarkup`, so this one override
+ * adds both: inside strokes are clipped to the shape, and objects that blend
+ * get wrapped in a group with the matching `mix-blend-mode`. Viewers that
+ * ignore it draw them normally.
+ */
+fabric.FabricObject.prototype._createBaseSVGMarkup = function (
+  this: fabric.FabricObject,
+  objectMarkup: string[],
+  options: SVGMarkupOptions = {},
+) {
+  const parts = getStrokeAlignment(this) === 'inside' ? clipToOwnShape(this, objectMarkup, options) : objectMarkup;
+  const markup = createBaseSVGMarkup.call(this, parts, options);
+  const mode = getBlendMode(this);
+  return mode === 'normal' ? markup : `<g style="mix-blend-mode: ${mode}">\n${markup}</g>\n`;
+};
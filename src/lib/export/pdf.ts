@@ -0,0 +1,97 @@
+import { getFontFromCache } from '@/src/lib/cache-storage';
+import type { DesignManager } from '@/src/lib/core/DesignManager';
+import { collectFontFamilies } from '@/src/lib/font-loader';
+import type { jsPDF } from 'jspdf';
+import { toast } from 'sonner';
+
+// Canvas units are CSS pixels (1/96 inch), PDF units are points (1/72 inch)
+const PT_PER_PX = 72 / 96;
+
+// svg2pdf picks a registered font by family and style, so every style maps to the one cached file
+const FONT_STYLES = ['normal', 'bold', 'italic', 'bolditalic'];
+
+/**
+ * jsPDF can only embed TrueType outlines (`0x00010000` or `true` sfnt versions)
+ */
+const isTrueTypeFont = (bytes: Uint8Array) => {
+  const version = String.fromCharCode(...bytes.slice(0, 4));
+  return version === '\0\x01\0\0' || version === 'true';
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked to stay below the argument limit of `fromCharCode`
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Register the cached custom fonts used by the designs with the document.
+ * Returns the custom families that could not be embedded.
+ */
+const embedFonts = async (pdf: jsPDF, designs: DesignManager[]): Promise<string[]> => {
+  const families = new Set<string>();
+  designs.forEach(design => collectFontFamilies(design.serialize().canvas, families));
+
+  const skipped: string[] = [];
+  for (const family of families) {
+    // Bundled web fonts are not in the cache and fall back to a standard PDF font
+    const response = await getFontFromCache(family);
+    if (!response) continue;
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (!isTrueTypeFont(bytes)) {
+      skipped.push(family);
+      continue;
+    }
+
+    const fileName = `${family}.ttf`;
+    pdf.addFileToVFS(fileName, toBase64(bytes));
+    FONT_STYLES.forEach(style => pdf.addFont(fileName, family, style));
+  }
+  return skipped;
+};
+
+/**
+ * Build a vector PDF with one page per design, each sized to its base layer.
+ * Shapes and text come from the designs' SVG output so they stay vectors.
+ */
+export const createPdf = async (designs: DesignManager[]): Promise<Blob> => {
+  // Loaded on demand; svg2pdf.js adds `svg()` to jsPDF when imported
+  const [{ jsPDF }] = await Promise.all([import('jspdf'), import('svg2pdf.js')]);
+
+  let pdf: jsPDF | null = null;
+  let skippedFonts: string[] = [];
+
+  for (const design of designs) {
+    const width = design.baseLayerConfig.width * PT_PER_PX;
+    const height = design.baseLayerConfig.height * PT_PER_PX;
+    const orientation = width > height ? 'landscape' : 'portrait';
+
+    if (!pdf) {
+      pdf = new jsPDF({ unit: 'pt', format: [width, height], orientation });
+      pdf.setDocumentProperties({ title: design.name, creator: 'Rupix' });
+      skippedFonts = await embedFonts(pdf, designs);
+    } else {
+      pdf.addPage([width, height], orientation);
+    }
+
+    const svg = await design.toSVG();
+    const element = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+    await pdf.svg(element, { x: 0, y: 0, width, height });
+  }
+
+  if (!pdf) {
+    throw new Error('No designs to export');
+  }
+
+  if (skippedFonts.length > 0) {
+    toast.warning('Some fonts could not be embedded', {
+      description: `${skippedFonts.join(', ')} ${skippedFonts.length === 1 ? 'is' : 'are'} not TrueType (.ttf) and will use a fallback font in the PDF.`
+    });
+  }
+
+  return pdf.output('blob');
+};
@@ -0,0 +1,196 @@
+import { blobToDataURL, MIME_EXTENSIONS } from '@/src/lib/blob-utils';
+import { getFontFromCache } from '@/src/lib/cache-storage';
+import { strToU8, zipSync, type Zippable } from 'fflate';
+
+export interface SvgExportOptions {
+  // Embed custom fonts from the font cache as base64 `@font-face` rules
+  embedFonts?: boolean;
+  // Reduce embedded fonts to the glyphs the design uses
+  subsetFonts?: boolean;
+  // Keep images as data URLs inside the SVG, or write them next to it in a zip
+  images?: 'inline' | 'external';
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+const IMAGES_FOLDER = 'images';
+
+// Elements fabric or the editor add that mean nothing outside Rupix
+const EDITOR_ELEMENTS = ['desc', 'metadata'];
+
+const FONT_FORMATS: Record<string, { mimeType: string; format: string }> = {
+  wOFF: { mimeType: 'font/woff', format: 'woff' },
+  wOF2: { mimeType: 'font/woff2', format: 'woff2' },
+  OTTO: { mimeType: 'font/otf', format: 'opentype' },
+};
+const TRUETYPE_FORMAT = { mimeType: 'font/ttf', format: 'truetype' };
+
+const getFontFormat = (bytes: Uint8Array) =>
+  FONT_FORMATS[String.fromCharCode(...bytes.subarray(0, 4))] ?? TRUETYPE_FORMAT;
+
+const parseFontFamily = (value: string) => value.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+
+/**
+ * Remove editor-only elements, comments, `data-*` attributes and ids nothing refers to
+ */
+const stripEditorMarkup = (doc: Document) => {
+  const root = doc.documentElement;
+  EDITOR_ELEMENTS.forEach(tag => Array.from(root.getElementsByTagName(tag)).forEach(element => element.remove()));
+
+  const walker = doc.createTreeWalker(root, NodeFilter.SHOW_COMMENT);
+  const comments: Node[] = [];
+  while (walker.nextNode()) comments.push(walker.currentNode);
+  comments.forEach(comment => comment.parentNode?.removeChild(comment));
+
+  const markup = new XMLSerializer().serializeToString(root);
+  root.querySelectorAll('*').forEach(element => {
+    Array.from(element.attributes)
+      .filter(attribute => attribute.name.startsWith('data-'))
+      .forEach(attribute => element.removeAttribute(attribute.name));
+
+    const id = element.getAttribute('id');
+    if (id && !markup.includes(`#${id}`)) {
+      element.removeAttribute('id');
+    }
+  });
+};
+
+/**
+ * Characters drawn with each font family
+ */
+const collectTextByFamily = (doc: Document) => {
+  const textByFamily = new Map<string, string>();
+  Array.from(doc.getElementsByTagName('text')).forEach(element => {
+    const value = element.getAttribute('font-family') ?? (element as SVGTextElement).style?.fontFamily;
+    if (!value) return;
+
+    const family = parseFontFamily(value);
+    textByFamily.set(family, (textByFamily.get(family) ?? '') + (element.textContent ?? ''));
+  });
+  return textByFamily;
+};
+
+/**
+ * Rebuild a font with only the glyphs needed for `text`. The result is an
+ * OpenType (CFF) font; layout features such as kerning are dropped.
+ */
+const subsetFont = async (bytes: Uint8Array, family: string, text: string): Promise<Uint8Array> => {
+  const opentype = await import('opentype.js');
+  const font = opentype.parse(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+
+  const glyphs = new Map([[0, font.glyphs.get(0)]]);
+  Array.from(new Set(text)).forEach(char => {
+    const glyph = font.charToGlyph(char);
+    glyphs.set(glyph.index, glyph);
+  });
+
+  const subset = new opentype.Font({
+    familyName: family,
+    styleName: font.getEnglishName('fontSubfamily') || 'Regular',
+    unitsPerEm: font.unitsPerEm,
+    ascender: font.ascender,
+    descender: font.descender,
+    glyphs: Array.from(glyphs.values()),
+  });
+  return new Uint8Array(subset.toArrayBuffer());
+};
+
+const embedFonts = async (doc: Document, subset: boolean) => {
+  const rules: string[] = [];
+
+  for (const [family, text] of collectTextByFamily(doc)) {
+    // Bundled web fonts are not in the cache and stay referenced by name
+    const response = await getFontFromCache(family);
+    if (!response) continue;
+
+    let bytes: Uint8Array = new Uint8Array(await response.arrayBuffer());
+    if (subset) {
+      try {
+        bytes = await subsetFont(bytes, family, text);
+      } catch (error) {
+        // e.g. WOFF2, which cannot be parsed here; embed the full font instead
+        console.warn(`Could not subset font ${family}, embedding it in full:`, error);
+      }
+    }
+
+    const { mimeType, format } = getFontFormat(bytes);
+    const dataURL = await blobToDataURL(new Blob([bytes], { type: mimeType }));
+    rules.push(`@font-face { font-family: '${family}'; src: url(${dataURL}) format('${format}'); }`);
+  }
+
+  if (rules.length === 0) return;
+
+  const root = doc.documentElement;
+  let defs = root.getElementsByTagName('defs')[0];
+  if (!defs) {
+    defs = doc.createElementNS(SVG_NS, 'defs');
+    root.insertBefore(defs, root.firstChild);
+  }
+  const style = doc.createElementNS(SVG_NS, 'style');
+  style.setAttribute('type', 'text/css');
+  style.appendChild(doc.createCDATASection(rules.join('\n')));
+  defs.appendChild(style);
+};
+
+/**
+ * Make every image self-contained. Inline images become data URLs; external
+ * ones are collected into `files` and referenced by relative path.
+ */
+const processImages = async (doc: Document, mode: 'inline' | 'external', files: Zippable) => {
+  const pathsBySource = new Map<string, string>();
+
+  for (const image of Array.from(doc.getElementsByTagName('image'))) {
+    const usesXlink = image.hasAttributeNS(XLINK_NS, 'href');
+    const source = usesXlink ? image.getAttributeNS(XLINK_NS, 'href') : image.getAttribute('href');
+    if (!source) continue;
+    if (mode === 'inline' && source.startsWith('data:')) continue;
+
+    let reference = pathsBySource.get(source);
+    if (!reference) {
+      try {
+        const blob = await (await fetch(source)).blob();
+        if (mode === 'inline') {
+          reference = await blobToDataURL(blob);
+        } else {
+          reference = `${IMAGES_FOLDER}/image-${pathsBySource.size + 1}.${MIME_EXTENSIONS[blob.type] ?? 'bin'}`;
+          files[reference] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+        }
+      } catch (error) {
+        // Cross-origin images without CORS headers stay linked
+        console.warn(`Could not fetch image ${source.slice(0, 64)}:`, error);
+        continue;
+      }
+      pathsBySource.set(source, reference);
+    }
+
+    if (usesXlink) {
+      image.setAttributeNS(XLINK_NS, 'xlink:href', reference);
+    } else {
+      image.setAttribute('href', reference);
+    }
+  }
+};
+
+/**
+ * Turn canvas SVG output into a file that renders the same anywhere. Returns
+ * the SVG itself, or a zip holding it and its images when they are externalized.
+ */
+export const createPortableSvg = async (svg: string, name: string, options: SvgExportOptions): Promise<Blob> => {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const files: Zippable = {};
+
+  stripEditorMarkup(doc);
+  if (options.embedFonts) {
+    await embedFonts(doc, !!options.subsetFonts);
+  }
+  await processImages(doc, options.images ?? 'inline', files);
+
+  const markup = `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>\n${new XMLSerializer().serializeToString(doc)}`;
+  if (Object.keys(files).length === 0) {
+    return new Blob([markup], { type: 'image/svg+xml' });
+  }
+
+  // The name becomes a zip entry, so it must not reach into other folders
+  files[`${name.replace(/[/\\]/g, '-')}.svg`] = strToU8(markup);
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
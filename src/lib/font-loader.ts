@@ -27,3 +27,22 @@ export const removeCustomFont = (fontName: string) => {
     }
   }
 };
+
+/**
+ * Gather every `fontFamily` value found in serialized canvas JSON
+ */
+export const collectFontFamilies = (node: unknown, families: Set<string>) => {
+  if (Array.isArray(node)) {
+    node.forEach(item => collectFontFamilies(item, families));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  Object.entries(node as Record<string, unknown>).forEach(([key, value]) => {
+    if (key === 'fontFamily' && typeof value === 'string') {
+      families.add(value);
+    } else {
+      collectFontFamilies(value, families);
+    }
+  });
+};
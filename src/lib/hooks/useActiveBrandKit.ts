@@ -0,0 +1,7 @@
+import { useBrandKitStore } from '@/src/lib/stores/brand-kit-store'
+
+/**
+ * The active brand kit, or null. Re-renders when it is edited or another kit is chosen.
+ */
+export const useActiveBrandKit = () =>
+  useBrandKitStore((state) => state.kits.find(kit => kit.id === state.activeKitId) ?? null)
@@ -1,5 +1,7 @@
 import * as fabric from 'fabric';
 import hotkeys from 'hotkeys-js';
+import { BOOLEAN_OPERATION_LABELS, type BooleanOperation } from '../core/boolean';
+import { SERIALIZED_OBJECT_PROPERTIES } from '../core/DesignManager';
 import { useDesignStore } from '../stores/design-store';
 
 // Define hotkey scopes
@@ -107,7 +109,7 @@ export class HotkeyManager {
           const activeObject = design.canvas.getActiveObject();
           if (activeObject && !activeObject.isBaseLayer) {
             // Use the store action to set clipboard data
-            store.setClipboardData(activeObject.toObject());
+            store.setClipboardData(activeObject.toObject(SERIALIZED_OBJECT_PROPERTIES));
             console.log('Object copied to clipboard');
           }
         }
@@ -129,6 +131,11 @@ export class HotkeyManager {
       action: () => {
         const store = useDesignStore.getState();
         const design = store.getActiveDesign();
+        // While editing a path's nodes, only the selected node is deleted
+        if (design?.nodeEditor?.isEditing) {
+          design.deleteSelectedPathNode();
+          return;
+        }
         if (design?.canvas) {
           const activeObject = design.canvas.getActiveObject();
           if (activeObject && !activeObject.isBaseLayer) {
@@ -234,6 +241,42 @@ export class HotkeyManager {
       }
     });
 
+    this.registerHotkey({
+      key: 'g',
+      description: 'Polygon tool',
+      action: () => {
+        const store = useDesignStore.getState();
+        store.setSelectedTool('polygon');
+      }
+    });
+
+    this.registerHotkey({
+      key: 's',
+      description: 'Star tool',
+      action: () => {
+        const store = useDesignStore.getState();
+        store.setSelectedTool('star');
+      }
+    });
+
+    this.registerHotkey({
+      key: 'l',
+      description: 'Line tool',
+      action: () => {
+        const store = useDesignStore.getState();
+        store.setSelectedTool('line');
+      }
+    });
+
+    this.registerHotkey({
+      key: 'a',
+      description: 'Arrow tool',
+      action: () => {
+        const store = useDesignStore.getState();
+        store.setSelectedTool('arrow');
+      }
+    });
+
     this.registerHotkey({
       key: 't',
       description: 'Text tool',
@@ -252,6 +295,36 @@ export class HotkeyManager {
       }
     });
 
+    this.registerHotkey({
+      key: 'p',
+      description: 'Pen tool',
+      action: () => {
+        const store = useDesignStore.getState();
+        store.setSelectedTool('pen');
+      }
+    });
+
+    this.registerHotkey({
+      key: 'b',
+      description: 'Bezier pen tool',
+      action: () => {
+        const store = useDesignStore.getState();
+        store.setSelectedTool('bezier');
+      }
+    });
+
+    this.registerHotkey({
+      key: 'enter',
+      description: 'Finish path / Stop editing nodes',
+      // Enter still has to activate focused buttons
+      preventDefault: false,
+      action: () => {
+        const design = useDesignStore.getState().getActiveDesign();
+        design?.finishPenPath();
+        design?.exitNodeEditing();
+      }
+    });
+
     // === CANVAS NAVIGATION ===
     this.registerHotkey({
       key: 'ctrl+0,command+0',
@@ -353,6 +426,36 @@ export class HotkeyManager {
       }
     });
 
+    this.registerHotkey({
+      key: 'ctrl+shift+g,command+shift+g',
+      description: 'Ungroup',
+      action: () => {
+        const store = useDesignStore.getState();
+        const design = store.getActiveDesign();
+        const activeObject = design?.canvas?.getActiveObject();
+        if (design && activeObject?.layerId) {
+          design.ungroupLayer(activeObject.layerId);
+        }
+      }
+    });
+
+    // === BOOLEAN OPERATIONS ===
+    const booleanHotkeys: [string, BooleanOperation][] = [
+      ['alt+shift+u', 'union'],
+      ['alt+shift+s', 'subtract'],
+      ['alt+shift+i', 'intersect'],
+      ['alt+shift+x', 'exclude'],
+    ];
+    booleanHotkeys.forEach(([key, operation]) => {
+      this.registerHotkey({
+        key,
+        description: `${BOOLEAN_OPERATION_LABELS[operation]} selected shapes`,
+        action: () => {
+          useDesignStore.getState().applyBooleanOperation(operation);
+        }
+      });
+    });
+
     // === CAMERA LOCK ===
     this.registerHotkey({
       key: 'ctrl+l,command+l',
@@ -386,14 +489,26 @@ export class HotkeyManager {
       { key: 'V', description: 'Select tool' },
       { key: 'R', description: 'Rectangle tool' },
       { key: 'C', description: 'Circle tool' },
+      { key: 'G', description: 'Polygon tool' },
+      { key: 'S', description: 'Star tool' },
+      { key: 'L', description: 'Line tool' },
+      { key: 'A', description: 'Arrow tool' },
       { key: 'T', description: 'Text tool' },
       { key: 'I', description: 'Image tool' },
+      { key: 'P', description: 'Pen tool' },
+      { key: 'B', description: 'Bezier pen tool' },
+      { key: 'Enter', description: 'Finish path / Stop editing nodes' },
       { key: 'Ctrl+0 / ⌘+0', description: 'Fit canvas to screen' },
       { key: 'Ctrl+1 / ⌘+1', description: 'Zoom to 100%' },
       { key: 'Ctrl++ / ⌘++', description: 'Zoom in' },
       { key: 'Ctrl+- / ⌘+-', description: 'Zoom out' },
       { key: 'Ctrl+] / ⌘+]', description: 'Bring to front' },
       { key: 'Ctrl+[ / ⌘+[', description: 'Send to back' },
+      { key: 'Ctrl+Shift+G / ⌘+Shift+G', description: 'Ungroup' },
+      { key: 'Alt+Shift+U', description: 'Union selected shapes' },
+      { key: 'Alt+Shift+S', description: 'Subtract selected shapes' },
+      { key: 'Alt+Shift+I', description: 'Intersect selected shapes' },
+      { key: 'Alt+Shift+X', description: 'Exclude selected shapes' },
       { key: 'Ctrl+L / ⌘+L', description: 'Toggle camera lock' },
     ];
   }
@@ -0,0 +1,67 @@
+const SVG_MIME_TYPE = 'image/svg+xml';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+// Elements that can run code or pull in foreign content
+const UNSAFE_ELEMENTS = ['script', 'foreignObject', 'iframe', 'embed', 'object', 'audio', 'video', 'canvas'];
+
+// `url(...)` references that do not point at an element in the same document
+const EXTERNAL_URL = /url\(\s*(?!['"]?#)[^)]*\)/i;
+
+/**
+ * Whether a reference stays inside the file: a fragment or an embedded raster image
+ */
+const isLocalReference = (value: string) => {
+  const reference = value.trim();
+  return reference.startsWith('#') || /^data:image\/(png|jpe?g|gif|webp);/i.test(reference);
+};
+
+export const isSvgFile = (file: File) => file.type === SVG_MIME_TYPE || file.name.toLowerCase().endsWith('.svg');
+
+/**
+ * Cheap check for pasted text before handing it to the parser
+ */
+export const isSvgMarkup = (text: string) => /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE[^>]*>\s*)?<svg[\s>]/i.test(text);
+
+const stripExternalUrls = (css: string) => css
+  .replace(/@import[^;]*;?/gi, '')
+  .split(';')
+  .filter(declaration => !EXTERNAL_URL.test(declaration))
+  .join(';');
+
+/**
+ * Parse SVG markup and remove anything that could run code or load external
+ * resources: scripts, event handlers, foreign content and outside links.
+ * Returns the cleaned markup; throws if the input is not an SVG document.
+ */
+export const sanitizeSvg = (markup: string): string => {
+  const doc = new DOMParser().parseFromString(markup, SVG_MIME_TYPE);
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'svg') {
+    throw new Error('The file is not a valid SVG document');
+  }
+
+  UNSAFE_ELEMENTS.forEach(tag => Array.from(root.getElementsByTagName(tag)).forEach(element => element.remove()));
+
+  Array.from(root.getElementsByTagName('style')).forEach(style => {
+    style.textContent = stripExternalUrls(style.textContent ?? '');
+  });
+
+  [root, ...Array.from(root.querySelectorAll('*'))].forEach(element => {
+    Array.from(element.attributes).forEach(attribute => {
+      const name = attribute.name.toLowerCase();
+      const value = attribute.value;
+
+      if (name.startsWith('on')) {
+        element.removeAttributeNode(attribute);
+      } else if (name === 'href' || (attribute.namespaceURI === XLINK_NS && attribute.localName === 'href')) {
+        if (!isLocalReference(value)) element.removeAttributeNode(attribute);
+      } else if (name === 'style') {
+        element.setAttribute('style', stripExternalUrls(value));
+      } else if (EXTERNAL_URL.test(value)) {
+        element.removeAttributeNode(attribute);
+      }
+    });
+  });
+
+  return new XMLSerializer().serializeToString(root);
+};
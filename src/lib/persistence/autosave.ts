@@ -0,0 +1,199 @@
+import type { DesignManager, SerializedDesign } from '@/src/lib/core/DesignManager';
+import { useDesignStore } from '@/src/lib/stores/design-store';
+import { toast } from 'sonner';
+import { debounce } from 'throttle-debounce';
+import {
+  getAllDesignsFromDB,
+  getSessionFromDB,
+  isQuotaExceededError,
+  removeDesignFromDB,
+  removeDesignVersionsFromDB,
+  saveDesignToDB,
+  saveSessionToDB,
+} from './design-db';
+
+const AUTOSAVE_DELAY = 1000;
+
+/**
+ * Persists open designs to IndexedDB. Each design is re-serialized at most once
+ * per debounce window after it notifies a change; closed tabs are deleted.
+ */
+export class AutosaveManager {
+  private static instance: AutosaveManager;
+  private isStarted = false;
+  private dirtyDesignIds = new Set<string>();
+  private savedVersions = new Map<string, number>();
+  private designSubscriptions = new Map<string, () => void>();
+  private unsubscribeStore: (() => void) | null = null;
+  private hasWarnedAboutQuota = false;
+
+  private constructor() { }
+
+  static getInstance(): AutosaveManager {
+    if (!AutosaveManager.instance) {
+      AutosaveManager.instance = new AutosaveManager();
+    }
+    return AutosaveManager.instance;
+  }
+
+  start() {
+    if (this.isStarted) return;
+    this.isStarted = true;
+
+    const { designs } = useDesignStore.getState();
+    designs.forEach(design => this.savedVersions.set(design.id, design.lastModified.getTime()));
+    this.syncDesigns(designs);
+
+    this.unsubscribeStore = useDesignStore.subscribe((state, prevState) => {
+      if (state.designs !== prevState.designs) {
+        this.syncDesigns(state.designs, prevState.designs);
+      }
+      if (state.designs !== prevState.designs || state.activeDesignId !== prevState.activeDesignId) {
+        this.scheduleFlush();
+      }
+    });
+
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('pagehide', this.flushAll);
+  }
+
+  stop() {
+    if (!this.isStarted) return;
+
+    this.scheduleFlush.cancel();
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = null;
+    this.designSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.designSubscriptions.clear();
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('pagehide', this.flushAll);
+    this.isStarted = false;
+  }
+
+  /**
+   * Keep per-design subscriptions in line with the open tabs
+   */
+  private syncDesigns(designs: DesignManager[], prevDesigns: DesignManager[] = []) {
+    const openIds = new Set(designs.map(design => design.id));
+
+    designs.forEach(design => {
+      if (!this.designSubscriptions.has(design.id)) {
+        this.designSubscriptions.set(design.id, design.subscribe(() => this.markDirty(design.id)));
+      }
+      // Renames and new tabs only show up as a changed designs array
+      if (this.savedVersions.get(design.id) !== design.lastModified.getTime()) {
+        this.dirtyDesignIds.add(design.id);
+      }
+    });
+
+    prevDesigns.filter(design => !openIds.has(design.id)).forEach(design => {
+      this.designSubscriptions.get(design.id)?.();
+      this.designSubscriptions.delete(design.id);
+      this.dirtyDesignIds.delete(design.id);
+      this.savedVersions.delete(design.id);
+      // Versions are only reachable from their open design, so they go with it
+      Promise.all([removeDesignFromDB(design.id), removeDesignVersionsFromDB(design.id)]).catch(error => {
+        console.error(`Failed to remove design ${design.id} from storage:`, error);
+      });
+    });
+  }
+
+  private markDirty(designId: string) {
+    this.dirtyDesignIds.add(designId);
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush = debounce(AUTOSAVE_DELAY, () => {
+    this.flush();
+  });
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      this.flushAll();
+    }
+  };
+
+  /**
+   * Save every open design, including changes that did not notify listeners
+   */
+  private flushAll = () => {
+    useDesignStore.getState().designs.forEach(design => this.dirtyDesignIds.add(design.id));
+    this.flush();
+  };
+
+  async flush() {
+    const { designs, activeDesignId } = useDesignStore.getState();
+    const dirtyDesigns = designs.filter(design => this.dirtyDesignIds.has(design.id));
+    this.dirtyDesignIds.clear();
+
+    let snapshot: SerializedDesign | null = null;
+    try {
+      for (const design of dirtyDesigns) {
+        snapshot = design.serialize();
+        await saveDesignToDB(snapshot);
+        this.savedVersions.set(design.id, design.lastModified.getTime());
+      }
+      await saveSessionToDB({
+        designIds: designs.map(design => design.id),
+        activeDesignId,
+      });
+      this.hasWarnedAboutQuota = false;
+    } catch (error) {
+      // Retry the failed designs on the next change
+      dirtyDesigns.forEach(design => this.dirtyDesignIds.add(design.id));
+      this.handleSaveError(error, snapshot?.name);
+    }
+  }
+
+  private handleSaveError(error: unknown, designName?: string) {
+    if (isQuotaExceededError(error)) {
+      // Work stays in memory; only warn once until a save succeeds again
+      if (!this.hasWarnedAboutQuota) {
+        this.hasWarnedAboutQuota = true;
+        toast.error('Browser storage is full', {
+          description: `Changes to ${designName ? `"${designName}"` : 'your designs'} are not being saved. Export your work or close unused tabs.`,
+        });
+      }
+      return;
+    }
+    console.error('Failed to autosave designs:', error);
+  }
+}
+
+export const autosaveManager = AutosaveManager.getInstance();
+
+let restorePromise: Promise<void> | null = null;
+
+/**
+ * Load persisted designs into the store, then start autosaving.
+ * Safe to call more than once; the restore only runs the first time.
+ */
+export const restoreSession = (): Promise<void> => {
+  if (!restorePromise) {
+    restorePromise = (async () => {
+      const store = useDesignStore.getState();
+      try {
+        const [snapshots, session] = await Promise.all([getAllDesignsFromDB(), getSessionFromDB()]);
+        const order = session?.designIds ?? [];
+        const sortedSnapshots = [...snapshots].sort((a, b) => {
+          const indexA = order.indexOf(a.id);
+          const indexB = order.indexOf(b.id);
+          if (indexA === -1 && indexB === -1) return a.lastModified.localeCompare(b.lastModified);
+          if (indexA === -1) return 1;
+          if (indexB === -1) return -1;
+          return indexA - indexB;
+        });
+
+        if (sortedSnapshots.length > 0) {
+          store.restoreDesigns(sortedSnapshots, session?.activeDesignId ?? null);
+        }
+      } catch (error) {
+        console.error('Failed to restore designs:', error);
+      } finally {
+        store.setHydrated(true);
+        autosaveManager.start();
+      }
+    })();
+  }
+  return restorePromise;
+};
@@ -0,0 +1,61 @@
+import { blobToDataURL } from '@/src/lib/blob-utils';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  type BrandKit,
+  type BrandLogo,
+  type BrandPalette,
+  getActiveBrandKitIdFromDB,
+  getAllBrandKitsFromDB,
+  removeBrandKitFromDB,
+  saveActiveBrandKitIdToDB,
+  saveBrandKitToDB,
+} from './design-db';
+
+export const createBrandPalette = (name: string, colors: string[] = []): BrandPalette => ({
+  id: uuidv4(),
+  name,
+  colors,
+});
+
+export const createBrandKit = (name: string): BrandKit => ({
+  id: uuidv4(),
+  name: name.trim() || 'Untitled brand',
+  palettes: [createBrandPalette('Primary')],
+  fonts: [],
+  logos: [],
+  updatedAt: new Date().toISOString(),
+});
+
+/**
+ * Read an image file picked by the user into a logo stored with the kit
+ */
+export const readBrandLogo = async (file: File): Promise<BrandLogo> => ({
+  id: uuidv4(),
+  name: file.name.replace(/\.[^.]+$/, '') || 'Logo',
+  dataUrl: await blobToDataURL(file),
+});
+
+export const saveBrandKit = async (kit: BrandKit) => {
+  await saveBrandKitToDB(kit);
+};
+
+/**
+ * Saved brand kits by name, and the one that was active when the app was last used
+ */
+export const loadBrandKits = async (): Promise<{ kits: BrandKit[]; activeKitId: string | null }> => {
+  const [kits, activeKitId] = await Promise.all([getAllBrandKitsFromDB(), getActiveBrandKitIdFromDB()]);
+  return {
+    kits: kits.sort((a, b) => a.name.localeCompare(b.name)),
+    activeKitId: kits.some(kit => kit.id === activeKitId) ? activeKitId : null,
+  };
+};
+
+export const deleteBrandKit = async (id: string) => {
+  await removeBrandKitFromDB(id);
+};
+
+export const saveActiveBrandKitId = async (id: string | null) => {
+  await saveActiveBrandKitIdToDB(id);
+};
+
+export type { BrandKit, BrandLogo, BrandPalette };
@@ -0,0 +1,197 @@
+import type { ColorLut } from '@/src/lib/core/adjustments';
+import type { SerializedDesign } from '@/src/lib/core/DesignManager';
+
+const DB_NAME = 'rupix';
+const DB_VERSION = 4;
+const DESIGNS_STORE = 'designs';
+const SESSION_STORE = 'session';
+const SESSION_KEY = 'current';
+const ACTIVE_BRAND_KIT_KEY = 'activeBrandKit';
+const VERSIONS_STORE = 'versions';
+const VERSIONS_BY_DESIGN_INDEX = 'designId';
+const BRAND_KITS_STORE = 'brandKits';
+const LUTS_STORE = 'luts';
+
+export interface DesignSession {
+  designIds: string[];
+  activeDesignId: string | null;
+}
+
+/** Named checkpoint of a design, kept independently of the design's undo history */
+export interface DesignVersion {
+  id: string;
+  designId: string;
+  name: string;
+  createdAt: string;
+  thumbnail: string | null;
+  snapshot: SerializedDesign;
+}
+
+export interface BrandPalette {
+  id: string;
+  name: string;
+  // Hex colors, in the order they are shown
+  colors: string[];
+}
+
+export interface BrandLogo {
+  id: string;
+  name: string;
+  dataUrl: string;
+}
+
+/** Colors, fonts and logos of one client, shared by all designs */
+export interface BrandKit {
+  id: string;
+  name: string;
+  palettes: BrandPalette[];
+  // Family names of approved fonts from the font cache
+  fonts: string[];
+  logos: BrandLogo[];
+  updatedAt: string;
+}
+
+/** 3D LUT imported from a .cube file, offered for any image */
+export interface LutPreset extends ColorLut {
+  id: string;
+  createdAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DESIGNS_STORE)) {
+          db.createObjectStore(DESIGNS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE);
+        }
+        if (!db.objectStoreNames.contains(VERSIONS_STORE)) {
+          const store = db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' });
+          store.createIndex(VERSIONS_BY_DESIGN_INDEX, 'designId');
+        }
+        if (!db.objectStoreNames.contains(BRAND_KITS_STORE)) {
+          db.createObjectStore(BRAND_KITS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(LUTS_STORE)) {
+          db.createObjectStore(LUTS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Allow a later call to retry opening the database
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    // Resolve on transaction completion so quota errors raised at commit time are not missed
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? request.error);
+  });
+};
+
+export const isQuotaExceededError = (error: unknown): boolean => {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+};
+
+export const saveDesignToDB = async (design: SerializedDesign) => {
+  await runRequest(DESIGNS_STORE, 'readwrite', (store) => store.put(design));
+};
+
+export const getAllDesignsFromDB = async (): Promise<SerializedDesign[]> => {
+  return runRequest(DESIGNS_STORE, 'readonly', (store) => store.getAll() as IDBRequest<SerializedDesign[]>);
+};
+
+export const removeDesignFromDB = async (id: string) => {
+  await runRequest(DESIGNS_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+export const saveSessionToDB = async (session: DesignSession) => {
+  await runRequest(SESSION_STORE, 'readwrite', (store) => store.put(session, SESSION_KEY));
+};
+
+export const getSessionFromDB = async (): Promise<DesignSession | undefined> => {
+  return runRequest(SESSION_STORE, 'readonly', (store) => store.get(SESSION_KEY) as IDBRequest<DesignSession | undefined>);
+};
+
+export const saveVersionToDB = async (version: DesignVersion) => {
+  await runRequest(VERSIONS_STORE, 'readwrite', (store) => store.put(version));
+};
+
+export const getVersionsFromDB = async (designId: string): Promise<DesignVersion[]> => {
+  return runRequest(VERSIONS_STORE, 'readonly', (store) =>
+    store.index(VERSIONS_BY_DESIGN_INDEX).getAll(designId) as IDBRequest<DesignVersion[]>
+  );
+};
+
+export const removeVersionFromDB = async (id: string) => {
+  await runRequest(VERSIONS_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+/** Remove every version of a design, e.g. once the design itself is removed */
+export const removeDesignVersionsFromDB = async (designId: string) => {
+  await runRequest(VERSIONS_STORE, 'readwrite', (store) => {
+    const request = store.index(VERSIONS_BY_DESIGN_INDEX).openKeyCursor(IDBKeyRange.only(designId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    return request;
+  });
+};
+
+export const saveBrandKitToDB = async (kit: BrandKit) => {
+  await runRequest(BRAND_KITS_STORE, 'readwrite', (store) => store.put(kit));
+};
+
+export const getAllBrandKitsFromDB = async (): Promise<BrandKit[]> => {
+  return runRequest(BRAND_KITS_STORE, 'readonly', (store) => store.getAll() as IDBRequest<BrandKit[]>);
+};
+
+export const removeBrandKitFromDB = async (id: string) => {
+  await runRequest(BRAND_KITS_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+export const saveActiveBrandKitIdToDB = async (id: string | null) => {
+  await runRequest(SESSION_STORE, 'readwrite', (store) => store.put(id, ACTIVE_BRAND_KIT_KEY));
+};
+
+export const getActiveBrandKitIdFromDB = async (): Promise<string | null> => {
+  const id = await runRequest(SESSION_STORE, 'readonly', (store) => store.get(ACTIVE_BRAND_KIT_KEY) as IDBRequest<string | null | undefined>);
+  return id ?? null;
+};
+
+export const saveLutPresetToDB = async (preset: LutPreset) => {
+  await runRequest(LUTS_STORE, 'readwrite', (store) => store.put(preset));
+};
+
+export const getAllLutPresetsFromDB = async (): Promise<LutPreset[]> => {
+  return runRequest(LUTS_STORE, 'readonly', (store) => store.getAll() as IDBRequest<LutPreset[]>);
+};
+
+export const removeLutPresetFromDB = async (id: string) => {
+  await runRequest(LUTS_STORE, 'readwrite', (store) => store.delete(id));
+};
@@ -0,0 +1,103 @@
+import { DESIGN_SCHEMA_VERSION } from '@/src/lib/core/DesignManager';
+import { isDesignJSONFile, migrateDesignPayload, readDesignJSONFile } from './design-import';
+
+const baseLayerConfig = { width: 1080, height: 1080, x: 0, y: 0 };
+
+const snapshot = (overrides: Record<string, unknown> = {}) => ({
+  id: 'design-1',
+  name: 'Poster',
+  baseLayerConfig,
+  canvas: { version: '6.7.0', objects: [{ type: 'Rect', layerId: 'layer-1' }] },
+  layers: [{ id: 'layer-1', name: 'Rect', visible: true, locked: false }],
+  ...overrides,
+});
+
+describe('migrateDesignPayload', () => {
+  it('keeps a current snapshot as it is', () => {
+    const design = snapshot({
+      version: DESIGN_SCHEMA_VERSION,
+      lastModified: '2024-01-01T00:00:00.000Z',
+      clippingEnabled: false,
+      camera: { viewportTransform: [2, 0, 0, 2, 10, 20], cameraLocked: false },
+    });
+    expect(migrateDesignPayload(design, 'Fallback')).toEqual(design);
+  });
+
+  it('fills in the fields that unversioned snapshots lack', () => {
+    const design = migrateDesignPayload(snapshot(), 'Fallback');
+    expect(design.version).toBe(DESIGN_SCHEMA_VERSION);
+    expect(design.name).toBe('Poster');
+    expect(design.clippingEnabled).toBe(true);
+    expect(design.camera).toEqual({ viewportTransform: null, cameraLocked: true });
+    expect(Number.isNaN(Date.parse(design.lastModified))).toBe(false);
+  });
+
+  it('converts a bare canvas export into a snapshot', () => {
+    const design = migrateDesignPayload({
+      version: '6.7.0',
+      objects: [
+        { type: 'BaseLayer', left: 10, top: 20, width: 400, height: 300, fill: '#eeeeee' },
+        { type: 'rect', layerId: 'kept' },
+        { type: 'textbox', name: 'Headline', visible: false },
+      ],
+    }, 'Old export');
+
+    expect(design.version).toBe(DESIGN_SCHEMA_VERSION);
+    expect(design.name).toBe('Old export');
+    expect(design.baseLayerConfig).toMatchObject({ x: 10, y: 20, width: 400, height: 300, fill: '#eeeeee', stroke: '#000000' });
+    expect(design.layers).toHaveLength(2);
+    expect(design.layers[0]).toEqual({ id: 'kept', name: 'Rect', visible: true, locked: false });
+    expect(design.layers[1]).toMatchObject({ name: 'Headline', visible: false, locked: false });
+    // New layer ids are written back onto the objects so the layers can find them
+    expect((design.canvas as { objects: { layerId?: string }[] }).objects[2].layerId).toBe(design.layers[1].id);
+  });
+
+  it('uses the default base layer when a canvas export has none', () => {
+    const design = migrateDesignPayload({ objects: [] }, 'Empty');
+    expect(design.baseLayerConfig).toMatchObject({ width: 800, height: 600, x: 0, y: 0 });
+    expect(design.layers).toEqual([]);
+  });
+
+  it('rejects payloads that are not designs', () => {
+    expect(() => migrateDesignPayload(null, 'x')).toThrow('The file does not contain a design.');
+    expect(() => migrateDesignPayload('design', 'x')).toThrow('The file does not contain a design.');
+    expect(() => migrateDesignPayload({ shapes: [] }, 'x')).toThrow('The file is not a recognized design export.');
+  });
+
+  it('rejects snapshots from a newer version', () => {
+    expect(() => migrateDesignPayload(snapshot({ version: DESIGN_SCHEMA_VERSION + 1 }), 'x')).toThrow(
+      'This design was exported by a newer version of Rupix.',
+    );
+  });
+
+  it('names the first malformed field', () => {
+    expect(() => migrateDesignPayload(snapshot({ baseLayerConfig: { ...baseLayerConfig, width: 0 } }), 'x')).toThrow(
+      /^The design is malformed \(baseLayerConfig\.width: /,
+    );
+    expect(() => migrateDesignPayload(snapshot({ layers: [{ id: 'layer-1' }] }), 'x')).toThrow(
+      /^The design is malformed \(layers\.0\.name: /,
+    );
+    expect(() => migrateDesignPayload(snapshot({ camera: { viewportTransform: [1, 0], cameraLocked: true } }), 'x')).toThrow(
+      /^The design is malformed \(camera\.viewportTransform: /,
+    );
+  });
+});
+
+describe('isDesignJSONFile', () => {
+  it('accepts JSON by type or extension', () => {
+    expect(isDesignJSONFile(new File([''], 'design', { type: 'application/json' }))).toBe(true);
+    expect(isDesignJSONFile(new File([''], 'Design.JSON'))).toBe(true);
+    expect(isDesignJSONFile(new File([''], 'design.png', { type: 'image/png' }))).toBe(false);
+  });
+});
+
+describe('readDesignJSONFile', () => {
+  it('names canvas exports after the file', async () => {
+    const file = new File([JSON.stringify({ objects: [] })], 'Summer sale.json');
+    expect((await readDesignJSONFile(file)).name).toBe('Summer sale');
+  });
+
+  it('rejects files that are not JSON', async () => {
+    await expect(readDesignJSONFile(new File(['{'], 'broken.json'))).rejects.toThrow('The file is not valid JSON.');
+  });
+});
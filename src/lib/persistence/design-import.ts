@@ -0,0 +1,173 @@
+import { DESIGN_SCHEMA_VERSION, type SerializedDesign } from '@/src/lib/core/DesignManager';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+const DEFAULT_BASE_LAYER = { width: 800, height: 600, x: 0, y: 0, fill: '#ffffff', stroke: '#000000', strokeWidth: 1, opacity: 1 };
+
+const fabricObjectSchema = z.record(z.unknown());
+
+const fabricCanvasSchema = z.object({
+  objects: z.array(fabricObjectSchema),
+}).passthrough();
+
+const baseLayerConfigSchema = z.object({
+  width: z.number().positive(),
+  height: z.number().positive(),
+  x: z.number(),
+  y: z.number(),
+  fill: z.string().optional(),
+  stroke: z.string().optional(),
+  strokeWidth: z.number().optional(),
+  opacity: z.number().optional(),
+});
+
+const documentStyleSchema = z.discriminatedUnion('kind', [
+  z.object({
+    id: z.string(),
+    kind: z.literal('color'),
+    name: z.string(),
+    color: z.string(),
+  }),
+  z.object({
+    id: z.string(),
+    kind: z.literal('text'),
+    name: z.string(),
+    fontFamily: z.string(),
+    fontSize: z.number().positive(),
+    fontWeight: z.string(),
+    fontStyle: z.string(),
+    underline: z.boolean(),
+    lineHeight: z.number(),
+    charSpacing: z.number(),
+  }),
+]);
+
+const serializedDesignSchema = z.object({
+  // Snapshots written before versioning was added have no version field
+  version: z.number().int().positive().optional(),
+  id: z.string(),
+  name: z.string(),
+  lastModified: z.string().optional(),
+  baseLayerConfig: baseLayerConfigSchema,
+  clippingEnabled: z.boolean().optional(),
+  canvas: fabricCanvasSchema,
+  layers: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    visible: z.boolean(),
+    locked: z.boolean(),
+  })),
+  camera: z.object({
+    viewportTransform: z.array(z.number()).length(6).nullable(),
+    cameraLocked: z.boolean(),
+  }).optional(),
+  styles: z.array(documentStyleSchema).optional(),
+});
+
+type FabricObjectJSON = z.infer<typeof fabricObjectSchema>;
+
+const numberOr = (value: unknown, fallback: number) => (typeof value === 'number' ? value : fallback);
+
+const toLayerName = (object: FabricObjectJSON) => {
+  if (typeof object.name === 'string' && object.name) return object.name;
+  const type = typeof object.type === 'string' ? object.type : 'Layer';
+  return type.charAt(0).toUpperCase() + type.slice(1);
+};
+
+/**
+ * Convert a bare `canvas.toJSON()` export (the old JSON export format) into a
+ * design snapshot. Layer ids are assigned here since that format did not keep them.
+ */
+const migrateFabricCanvas = (canvas: z.infer<typeof fabricCanvasSchema>, name: string): SerializedDesign => {
+  const baseLayerObject = canvas.objects.find(object => object.type === 'BaseLayer');
+  const baseLayerConfig = baseLayerObject
+    ? {
+      x: numberOr(baseLayerObject.left, DEFAULT_BASE_LAYER.x),
+      y: numberOr(baseLayerObject.top, DEFAULT_BASE_LAYER.y),
+      width: numberOr(baseLayerObject.width, DEFAULT_BASE_LAYER.width),
+      height: numberOr(baseLayerObject.height, DEFAULT_BASE_LAYER.height),
+      fill: typeof baseLayerObject.fill === 'string' ? baseLayerObject.fill : DEFAULT_BASE_LAYER.fill,
+      stroke: typeof baseLayerObject.stroke === 'string' ? baseLayerObject.stroke : DEFAULT_BASE_LAYER.stroke,
+      strokeWidth: numberOr(baseLayerObject.strokeWidth, DEFAULT_BASE_LAYER.strokeWidth),
+      opacity: numberOr(baseLayerObject.opacity, DEFAULT_BASE_LAYER.opacity),
+    }
+    : DEFAULT_BASE_LAYER;
+
+  const layers = canvas.objects
+    .filter(object => object !== baseLayerObject)
+    .map(object => {
+      const id = typeof object.layerId === 'string' ? object.layerId : uuidv4();
+      object.layerId = id;
+      return { id, name: toLayerName(object), visible: object.visible !== false, locked: false };
+    });
+
+  return {
+    version: DESIGN_SCHEMA_VERSION,
+    id: uuidv4(),
+    name,
+    lastModified: new Date().toISOString(),
+    baseLayerConfig,
+    clippingEnabled: true,
+    canvas,
+    layers,
+    camera: { viewportTransform: null, cameraLocked: true },
+  };
+};
+
+const migrateSerializedDesign = (design: z.infer<typeof serializedDesignSchema>): SerializedDesign => ({
+  ...design,
+  version: DESIGN_SCHEMA_VERSION,
+  lastModified: design.lastModified ?? new Date().toISOString(),
+  clippingEnabled: design.clippingEnabled ?? true,
+  camera: design.camera
+    ? { ...design.camera, viewportTransform: design.camera.viewportTransform as SerializedDesign['camera']['viewportTransform'] }
+    : { viewportTransform: null, cameraLocked: true },
+});
+
+/**
+ * Validate a parsed JSON export and bring it up to the current snapshot format.
+ * Throws an `Error` with a user-facing message when the payload is not usable.
+ */
+export const migrateDesignPayload = (payload: unknown, fallbackName: string): SerializedDesign => {
+  if (!payload || typeof payload !== 'object') {
+    throw new Error('The file does not contain a design.');
+  }
+
+  if ('baseLayerConfig' in payload) {
+    const version = (payload as { version?: unknown }).version;
+    if (typeof version === 'number' && version > DESIGN_SCHEMA_VERSION) {
+      throw new Error('This design was exported by a newer version of Rupix.');
+    }
+
+    const result = serializedDesignSchema.safeParse(payload);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(`The design is malformed (${issue.path.join('.') || 'root'}: ${issue.message}).`);
+    }
+    return migrateSerializedDesign(result.data);
+  }
+
+  const canvasResult = fabricCanvasSchema.safeParse(payload);
+  if (canvasResult.success) {
+    return migrateFabricCanvas(canvasResult.data, fallbackName);
+  }
+
+  throw new Error('The file is not a recognized design export.');
+};
+
+export const isDesignJSONFile = (file: File) =>
+  file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
+
+/**
+ * Read a JSON design export picked or dropped by the user
+ */
+export const readDesignJSONFile = async (file: File): Promise<SerializedDesign> => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(await file.text());
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  return migrateDesignPayload(payload, file.name.replace(/\.json$/i, '') || 'Imported design');
+};
@@ -0,0 +1,31 @@
+import { parseCubeLut } from '@/src/lib/core/adjustments';
+import { v4 as uuidv4 } from 'uuid';
+import { getAllLutPresetsFromDB, removeLutPresetFromDB, saveLutPresetToDB, type LutPreset } from './design-db';
+
+/**
+ * Read a .cube file picked by the user into a LUT preset. Throws with a
+ * message for the user when the file is not a supported LUT.
+ */
+export const readLutFile = async (file: File): Promise<LutPreset> => ({
+  ...parseCubeLut(await file.text(), file.name.replace(/\.[^.]+$/, '') || 'LUT'),
+  id: uuidv4(),
+  createdAt: new Date().toISOString(),
+});
+
+export const saveLutPreset = async (preset: LutPreset) => {
+  await saveLutPresetToDB(preset);
+};
+
+/**
+ * Saved LUT presets by name
+ */
+export const loadLutPresets = async (): Promise<LutPreset[]> => {
+  const presets = await getAllLutPresetsFromDB();
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const deleteLutPreset = async (id: string) => {
+  await removeLutPresetFromDB(id);
+};
+
+export type { LutPreset };
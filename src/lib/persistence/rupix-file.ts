@@ -0,0 +1,237 @@
+import { blobToDataURL, MIME_EXTENSIONS } from '@/src/lib/blob-utils';
+import { addFontToCache, getFontFromCache } from '@/src/lib/cache-storage';
+import type { DesignManager, SerializedDesign } from '@/src/lib/core/DesignManager';
+import { collectFontFamilies, loadFont } from '@/src/lib/font-loader';
+import { strFromU8, strToU8, unzip, zip, type AsyncZippable, type Unzipped } from 'fflate';
+
+export const RUPIX_FILE_EXTENSION = '.rupix';
+export const RUPIX_SCHEMA_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const DESIGN_PATH = 'design.json';
+const THUMBNAIL_PATH = 'thumbnail.png';
+// Prefix marking an image source that lives in the bundle's assets folder
+const ASSET_REFERENCE_PREFIX = 'rupix-asset:';
+// Object properties holding image sources that should be embedded
+const IMAGE_SOURCE_KEYS = ['src', 'originalSrc'];
+
+export interface RupixAssetEntry {
+  path: string;
+  mimeType: string;
+}
+
+export interface RupixFontEntry {
+  family: string;
+  path: string;
+  mimeType: string;
+}
+
+export interface RupixManifest {
+  format: 'rupix';
+  schemaVersion: number;
+  createdAt: string;
+  name: string;
+  design: string;
+  thumbnail: string | null;
+  assets: RupixAssetEntry[];
+  fonts: RupixFontEntry[];
+}
+
+const zipAsync = (files: AsyncZippable) => new Promise<Uint8Array>((resolve, reject) => {
+  zip(files, (error, data) => (error ? reject(error) : resolve(data)));
+});
+
+const unzipAsync = (data: Uint8Array) => new Promise<Unzipped>((resolve, reject) => {
+  unzip(data, (error, files) => (error ? reject(error) : resolve(files)));
+});
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Visit every string stored under one of `keys` in a JSON tree and replace it
+ * with the value returned by `replace`.
+ */
+const replaceStringValues = async (
+  node: unknown,
+  keys: string[],
+  replace: (value: string) => Promise<string>
+): Promise<void> => {
+  if (Array.isArray(node)) {
+    for (const item of node) await replaceStringValues(item, keys, replace);
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  const record = node as Record<string, unknown>;
+  for (const [key, value] of Object.entries(record)) {
+    if (typeof value === 'string' && keys.includes(key)) {
+      record[key] = await replace(value);
+    } else {
+      await replaceStringValues(value, keys, replace);
+    }
+  }
+};
+
+/**
+ * Move embedded (data/blob URL) images into the bundle, storing each distinct
+ * image once under a content hash.
+ */
+const extractAssets = async (snapshot: SerializedDesign, files: AsyncZippable) => {
+  const assets: RupixAssetEntry[] = [];
+  const referencesBySource = new Map<string, string>();
+
+  await replaceStringValues(snapshot.canvas, IMAGE_SOURCE_KEYS, async (source) => {
+    if (!source.startsWith('data:') && !source.startsWith('blob:')) return source;
+
+    const cached = referencesBySource.get(source);
+    if (cached) return cached;
+
+    const blob = await (await fetch(source)).blob();
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const hash = toHex(await crypto.subtle.digest('SHA-256', bytes));
+    const path = `assets/${hash}.${MIME_EXTENSIONS[blob.type] ?? 'bin'}`;
+
+    if (!files[path]) {
+      // Images are already compressed, so store them as-is
+      files[path] = [bytes, { level: 0 }];
+      assets.push({ path, mimeType: blob.type });
+    }
+
+    const reference = `${ASSET_REFERENCE_PREFIX}${path}`;
+    referencesBySource.set(source, reference);
+    return reference;
+  });
+
+  return assets;
+};
+
+const extractFonts = async (snapshot: SerializedDesign, files: AsyncZippable) => {
+  const families = new Set<string>();
+  collectFontFamilies(snapshot.canvas, families);
+  // Text styles may use a font that nothing on the canvas does yet
+  collectFontFamilies(snapshot.styles, families);
+
+  const fonts: RupixFontEntry[] = [];
+  for (const family of families) {
+    // Only custom fonts live in the cache; bundled web fonts are always available
+    const response = await getFontFromCache(family);
+    if (!response) continue;
+
+    const blob = await response.blob();
+    const path = `fonts/${encodeURIComponent(family)}`;
+    files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+    fonts.push({ family, path, mimeType: blob.type });
+  }
+  return fonts;
+};
+
+/**
+ * Package a design into a self-contained `.rupix` archive
+ */
+export const createRupixFile = async (design: DesignManager): Promise<Blob> => {
+  // Work on a deep copy so asset references never leak into the live design
+  const snapshot = JSON.parse(JSON.stringify(design.serialize())) as SerializedDesign;
+  const files: AsyncZippable = {};
+
+  const assets = await extractAssets(snapshot, files);
+  const fonts = await extractFonts(snapshot, files);
+
+  const thumbnail = design.createThumbnail();
+  if (thumbnail) {
+    const blob = await (await fetch(thumbnail)).blob();
+    files[THUMBNAIL_PATH] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+  }
+
+  const manifest: RupixManifest = {
+    format: 'rupix',
+    schemaVersion: RUPIX_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    name: snapshot.name,
+    design: DESIGN_PATH,
+    thumbnail: thumbnail ? THUMBNAIL_PATH : null,
+    assets,
+    fonts,
+  };
+
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+  files[DESIGN_PATH] = strToU8(JSON.stringify(snapshot));
+
+  const data = await zipAsync(files);
+  return new Blob([data], { type: 'application/zip' });
+};
+
+const readManifest = (files: Unzipped): RupixManifest => {
+  const manifestFile = files[MANIFEST_PATH];
+  if (!manifestFile) {
+    throw new Error('This file is not a Rupix project (missing manifest).');
+  }
+
+  const manifest = JSON.parse(strFromU8(manifestFile)) as RupixManifest;
+  if (manifest.format !== 'rupix' || typeof manifest.schemaVersion !== 'number') {
+    throw new Error('This file is not a Rupix project.');
+  }
+  if (manifest.schemaVersion > RUPIX_SCHEMA_VERSION) {
+    throw new Error('This project was saved by a newer version of Rupix.');
+  }
+  return manifest;
+};
+
+/**
+ * Add the bundled fonts to the font cache and register them with the document
+ */
+const installFonts = async (manifest: RupixManifest, files: Unzipped) => {
+  for (const font of manifest.fonts) {
+    const bytes = files[font.path];
+    if (!bytes) continue;
+
+    const blob = new Blob([bytes], { type: font.mimeType });
+    if (!(await getFontFromCache(font.family))) {
+      await addFontToCache(font.family, new File([blob], font.family, { type: font.mimeType }));
+    }
+    await loadFont(font.family, URL.createObjectURL(blob));
+  }
+};
+
+/**
+ * Read a `.rupix` archive into a design snapshot, installing its fonts.
+ * Images are inlined as data URLs so the result can be persisted as-is.
+ */
+export const readRupixFile = async (file: Blob): Promise<SerializedDesign> => {
+  let files: Unzipped;
+  try {
+    files = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new Error('This file is not a Rupix project (invalid archive).');
+  }
+
+  const manifest = readManifest(files);
+  const designFile = files[manifest.design];
+  if (!designFile) {
+    throw new Error('This Rupix project is missing its design data.');
+  }
+  const snapshot = JSON.parse(strFromU8(designFile)) as SerializedDesign;
+
+  const mimeTypes = new Map(manifest.assets.map(asset => [asset.path, asset.mimeType]));
+  const dataURLs = new Map<string, string>();
+
+  await replaceStringValues(snapshot.canvas, IMAGE_SOURCE_KEYS, async (source) => {
+    if (!source.startsWith(ASSET_REFERENCE_PREFIX)) return source;
+
+    const path = source.slice(ASSET_REFERENCE_PREFIX.length);
+    const cached = dataURLs.get(path);
+    if (cached) return cached;
+
+    const bytes = files[path];
+    if (!bytes) {
+      throw new Error(`This Rupix project is missing the image "${path}".`);
+    }
+    const dataURL = await blobToDataURL(new Blob([bytes], { type: mimeTypes.get(path) }));
+    dataURLs.set(path, dataURL);
+    return dataURL;
+  });
+
+  await installFonts(manifest, files);
+
+  return snapshot;
+};
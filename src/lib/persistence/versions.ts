@@ -0,0 +1,38 @@
+import { DesignManager } from '@/src/lib/core/DesignManager';
+import { v4 as uuidv4 } from 'uuid';
+import { type DesignVersion, getVersionsFromDB, removeVersionFromDB, saveVersionToDB } from './design-db';
+
+const THUMBNAIL_SIZE = 256;
+
+/**
+ * Save the current state of a design as a named version
+ */
+export const createVersion = async (design: DesignManager, name: string): Promise<DesignVersion> => {
+  const snapshot = design.serialize();
+  const version: DesignVersion = {
+    id: uuidv4(),
+    designId: design.id,
+    name: name.trim() || `Version ${new Date().toLocaleString()}`,
+    createdAt: new Date().toISOString(),
+    // Tabs that were restored but never shown have no canvas to capture
+    thumbnail: design.createThumbnail(THUMBNAIL_SIZE) ?? await DesignManager.renderSnapshot(snapshot, THUMBNAIL_SIZE),
+    snapshot,
+  };
+
+  await saveVersionToDB(version);
+  return version;
+};
+
+/**
+ * Versions of a design, newest first
+ */
+export const listVersions = async (designId: string): Promise<DesignVersion[]> => {
+  const versions = await getVersionsFromDB(designId);
+  return versions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteVersion = async (id: string) => {
+  await removeVersionFromDB(id);
+};
+
+export type { DesignVersion };
@@ -0,0 +1,88 @@
+import {
+  createBrandKit,
+  deleteBrandKit,
+  loadBrandKits,
+  saveActiveBrandKitId,
+  saveBrandKit,
+  type BrandKit,
+} from '@/src/lib/persistence/brand-kits';
+import { toast } from 'sonner';
+import { create } from 'zustand';
+
+export interface BrandKitState {
+  kits: BrandKit[]
+  // Kit whose palette and fonts the editor offers; null for no restriction
+  activeKitId: string | null
+  isLoaded: boolean
+}
+
+export interface BrandKitActions {
+  loadKits: () => Promise<void>
+  createKit: (name: string) => BrandKit
+  updateKit: (kitId: string, changes: Partial<Omit<BrandKit, 'id' | 'updatedAt'>>) => void
+  deleteKit: (kitId: string) => void
+  setActiveKit: (kitId: string | null) => void
+  getActiveKit: () => BrandKit | null
+}
+
+export type BrandKitStore = BrandKitState & BrandKitActions
+
+const reportSaveError = (error: unknown) => {
+  console.error('Failed to save brand kit:', error)
+  toast.error('Could not save the brand kit')
+}
+
+let loadPromise: Promise<void> | null = null
+
+export const useBrandKitStore = create<BrandKitStore>((set, get) => ({
+  kits: [],
+  activeKitId: null,
+  isLoaded: false,
+
+  // Safe to call more than once; kits are only read from storage the first time
+  loadKits: () => {
+    if (!loadPromise) {
+      loadPromise = loadBrandKits()
+        .then(({ kits, activeKitId }) => set({ kits, activeKitId }))
+        .catch(error => console.error('Failed to load brand kits:', error))
+        .finally(() => set({ isLoaded: true }))
+    }
+    return loadPromise
+  },
+
+  createKit: (name) => {
+    const kit = createBrandKit(name)
+    set((state) => ({ kits: [...state.kits, kit] }))
+    saveBrandKit(kit).catch(reportSaveError)
+    return kit
+  },
+
+  updateKit: (kitId, changes) => {
+    const kit = get().kits.find(k => k.id === kitId)
+    if (!kit) return
+
+    const updated = { ...kit, ...changes, updatedAt: new Date().toISOString() }
+    set((state) => ({ kits: state.kits.map(k => (k.id === kitId ? updated : k)) }))
+    saveBrandKit(updated).catch(reportSaveError)
+  },
+
+  deleteKit: (kitId) => {
+    const wasActive = get().activeKitId === kitId
+    set((state) => ({
+      kits: state.kits.filter(k => k.id !== kitId),
+      activeKitId: wasActive ? null : state.activeKitId
+    }))
+    deleteBrandKit(kitId).catch(error => console.error('Failed to delete brand kit:', error))
+    if (wasActive) saveActiveBrandKitId(null).catch(reportSaveError)
+  },
+
+  setActiveKit: (kitId) => {
+    set({ activeKitId: kitId })
+    saveActiveBrandKitId(kitId).catch(reportSaveError)
+  },
+
+  getActiveKit: () => {
+    const { kits, activeKitId } = get()
+    return kits.find(k => k.id === activeKitId) ?? null
+  },
+}))
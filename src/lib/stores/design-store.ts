@@ -1,5 +1,11 @@
-import { CanvasLayer, DesignManager, ToolType } from '@/src/lib/core/DesignManager';
+import type { BooleanOperation } from '@/src/lib/core/boolean';
+import { DEFAULT_BRUSH_SETTINGS, type BrushSettings } from '@/src/lib/core/brush';
+import { DEFAULT_SHAPE_SETTINGS, type ShapeSettings } from '@/src/lib/core/shapes';
+import { createDashArray, getStrokeOptions, type DashPreset } from '@/src/lib/core/stroke';
+import { CanvasLayer, DesignManager, SerializedDesign, ToolType } from '@/src/lib/core/DesignManager';
+import { useBrandKitStore } from '@/src/lib/stores/brand-kit-store';
 import type * as fabric from 'fabric';
+import { v4 as uuidv4 } from 'uuid';
 import { create } from 'zustand';
 
 declare module 'fabric' {
@@ -17,6 +23,8 @@ export type { CanvasLayer, ToolType };
 export interface CanvasState {
   designs: DesignManager[]
   activeDesignId: string | null
+  // Whether persisted designs have been restored (or found absent)
+  isHydrated: boolean
   selectedTool: ToolType
   isDrawing: boolean
   // Drawing state for drag-to-create objects
@@ -39,6 +47,12 @@ export interface CanvasState {
   // Advanced styling
   shadow: fabric.Shadow | null
   backgroundColor: string
+  // Pen tool
+  brushSettings: BrushSettings
+  // Shape tools
+  shapeSettings: ShapeSettings
+  // Boolean operations keep the shapes editable in a compound shape
+  keepBooleanOriginals: boolean
   // Camera controls
   cameraLocked: boolean
   // Clipboard
@@ -59,6 +73,9 @@ export interface CanvasActions {
   closeDesign: (designId: string) => void
   setActiveDesign: (designId: string) => void
   renameDesign: (designId: string, newName: string) => void
+  restoreDesigns: (snapshots: SerializedDesign[], activeDesignId: string | null) => void
+  openDesign: (snapshot: SerializedDesign) => string
+  setHydrated: (isHydrated: boolean) => void
 
   // Canvas management
   getDesign: (designId: string) => DesignManager | undefined
@@ -77,6 +94,8 @@ export interface CanvasActions {
 
   // Object operations
   duplicateActiveObject: () => Promise<void>
+  applyBooleanOperation: (operation: BooleanOperation) => void
+  setKeepBooleanOriginals: (keep: boolean) => void
   undo: () => Promise<void>
   redo: () => Promise<void>
 
@@ -100,6 +119,10 @@ export interface CanvasActions {
   setShadow: (shadow: fabric.Shadow | null) => void
   setBackgroundColor: (color: string) => void
 
+  // Pen tool
+  setBrushSettings: (settings: Partial<BrushSettings>) => void
+  setShapeSettings: (settings: Partial<ShapeSettings>) => void
+
   // Camera controls
   setCameraLocked: (locked: boolean) => void
 
@@ -110,7 +133,7 @@ export interface CanvasActions {
   reorderLayer: (layerId: string, newIndex: number) => void
 
   // AI Tool Functions
-  executeCanvasTool: (toolName: string, params: Record<string, any>) => { success: boolean; data: string } | void
+  executeCanvasTool: (toolName: string, params: Record<string, any>, designId?: string) => Promise<{ success: boolean; data: string } | void>
 
   // Image manipulation
   replaceImage: (dataUrl: string) => void
@@ -122,6 +145,7 @@ export const useDesignStore = create<DesignStore>((set, get) => ({
   // State
   designs: [],
   activeDesignId: null,
+  isHydrated: false,
   selectedTool: 'select',
   isDrawing: false,
   drawingStartPoint: null,
@@ -143,6 +167,10 @@ export const useDesignStore = create<DesignStore>((set, get) => ({
   // Advanced styling
   shadow: null,
   backgroundColor: 'transparent',
+  // Pen tool
+  brushSettings: DEFAULT_BRUSH_SETTINGS,
+  shapeSettings: DEFAULT_SHAPE_SETTINGS,
+  keepBooleanOriginals: false,
   // Camera controls
   cameraLocked: true, // Default to locked
   // Clipboard
@@ -230,6 +258,39 @@ export const useDesignStore = create<DesignStore>((set, get) => ({
     }))
   },
 
+  restoreDesigns: (snapshots, activeDesignId) => {
+    const restored = snapshots.map(snapshot => DesignManager.fromSnapshot(snapshot))
+
+    set((state) => {
+      const designs = [...state.designs, ...restored]
+      const activeDesign = designs.find(d => d.id === activeDesignId) ?? designs[designs.length - 1]
+      return {
+        designs,
+        activeDesignId: activeDesign?.id ?? null,
+        // Keep the global camera lock in sync with the restored active design
+        cameraLocked: activeDesign?.cameraLocked ?? state.cameraLocked
+      }
+    })
+  },
+
+  openDesign: (snapshot) => {
+    const design = DesignManager.fromSnapshot(snapshot)
+    // Opening the same file twice must not produce two tabs sharing an id
+    if (get().designs.some(d => d.id === design.id)) {
+      design.id = uuidv4()
+    }
+
+    set((state) => ({
+      designs: [...state.designs, design],
+      activeDesignId: design.id,
+      cameraLocked: design.cameraLocked
+    }))
+
+    return design.id
+  },
+
+  setHydrated: (isHydrated) => set({ isHydrated }),
+
   // Canvas management
   getDesign: (designId) => {
     const design = get().designs.find(d => d.id === designId)
@@ -254,6 +315,8 @@ export const useDesignStore = create<DesignStore>((set, get) => ({
           selectionColor: 'rgba(14, 152, 252, 0.2)',
           selectionLineWidth: 2,
           selectionBorderColor: 'rgba(14, 152, 252, 0.8)',
+          // Pointer events carry stylus pressure for the pen tool
+          enablePointerEvents: true,
         } as fabric.CanvasOptions,
         options.onStateChange
       )
@@ -303,6 +366,11 @@ export const useDesignStore = create<DesignStore>((set, get) => ({
       await design.duplicateActiveObject()
     }
   },
+  applyBooleanOperation: (operation) => {
+    const design = get().getActiveDesign()
+    design?.applyBooleanOperation(operation, { keepOriginals: get().keepBooleanOriginals })
+  },
+  setKeepBooleanOriginals: (keep) => set({ keepBooleanOriginals: keep }),
   undo: async () => {
     const design = get().getActiveDesign()
     if (design) {
@@ -336,6 +404,10 @@ export const useDesignStore = create<DesignStore>((set, get) => ({
   setShadow: (shadow) => set({ shadow: shadow }),
   setBackgroundColor: (color) => set({ backgroundColor: color }),
 
+  // Pen tool
+  setBrushSettings: (settings) => set((state) => ({ brushSettings: { ...state.brushSettings, ...settings } })),
+  setShapeSettings: (settings) => set((state) => ({ shapeSettings: { ...state.shapeSettings, ...settings } })),
+
   // Camera controls
   setCameraLocked: (locked) => {
     set({ cameraLocked: locked })
@@ -367,8 +439,8 @@ export const useDesignStore = create<DesignStore>((set, get) => ({
   },
 
   // AI Tool Functions
-  executeCanvasTool: (toolName: string, params: Record<string, any>) => {
-    const design = get().getActiveDesign()
+  executeCanvasTool: async (toolName: string, params: Record<string, any>, designId?: string) => {
+    const design = designId ? get().getDesign(designId) : get().getActiveDesign()
     if (!design || !design.canvas) {
       return { success: false, data: 'No active canvas found' }
     }
@@ -387,6 +459,19 @@ export const useDesignStore = create<DesignStore>((set, get) => ({
         const objects = design.canvas.getObjects()
         const objectsJSON = objects.map(obj => obj.toJSON())
         return { success: true, data: `All objects: ${objectsJSON}` }
+      } else if (toolName === 'getBrandKit') {
+        const kit = useBrandKitStore.getState().getActiveKit()
+        if (!kit) {
+          return { success: true, data: 'No brand kit is active, any colors and fonts can be used' }
+        }
+        // Logos are image data, so only their names are useful to the agent
+        const brand = {
+          name: kit.name,
+          palettes: kit.palettes.map(({ name, colors }) => ({ name, colors })),
+          fonts: kit.fonts,
+          logos: kit.logos.map(logo => logo.name)
+        }
+        return { success: true, data: `Active brand kit: ${JSON.stringify(brand)}` }
       } else if (toolName === 'createRectangle') {
         design.addRectangle(
           { x: params.x, y: params.y },
@@ -409,6 +494,53 @@ export const useDesignStore = create<DesignStore>((set, get) => ({
           }
         )
         return { success: true, data: `Created circle at position (${params.x}, ${params.y})` }
+      } else if (toolName === 'createLine' || toolName === 'createArrow') {
+        const start = { x: params.x1, y: params.y1 }
+        const end = { x: params.x2, y: params.y2 }
+        const props = {
+          fill: 'transparent',
+          stroke: params.stroke || '#1e40af',
+          strokeWidth: params.strokeWidth || 2,
+          opacity: params.opacity || 1
+        }
+        if (toolName === 'createArrow') {
+          design.addArrow(start, end, props, {
+            startHead: params.startHead || 'none',
+            endHead: params.endHead || 'triangle',
+            headSize: params.headSize || 14
+          })
+        } else {
+          design.addLine(start, end, props)
+        }
+        const kind = toolName === 'createArrow' ? 'arrow' : 'line'
+        return { success: true, data: `Created ${kind} from (${params.x1}, ${params.y1}) to (${params.x2}, ${params.y2})` }
+      } else if (toolName === 'createTriangle' || toolName === 'createPolygon' || toolName === 'createStar') {
+        const position = { x: params.x, y: params.y }
+        const width = params.width || 100
+        const height = params.height || 100
+        const props = {
+          fill: params.fill || '#3b82f6',
+          stroke: params.stroke || '#1e40af',
+          strokeWidth: params.strokeWidth || 2,
+          opacity: params.opacity || 1
+        }
+        if (toolName === 'createStar') {
+          design.addStarWithDimensions(position, width, height, props, {
+            numPoints: params.numPoints || 5,
+            innerRadius: params.innerRadius || 0.5
+          })
+        } else if (toolName === 'createPolygon') {
+          design.addPolygonWithDimensions(position, width, height, props, params.sides || 6)
+        } else {
+          design.addTriangleWithDimensions(position, width, height, props)
+        }
+        const kind = toolName.slice('create'.length).toLowerCase()
+        return { success: true, data: `Created ${kind} at position (${params.x}, ${params.y})` }
+      } else if (toolName === 'updateShapeParameters') {
+        if (!design.updateShapeParameters(params)) {
+          return { success: false, data: 'Select a polygon, star or arrow to change its shape' }
+        }
+        return { success: true, data: 'Updated shape of selected object' }
       } else if (toolName === 'createText') {
         design.addText(
           { x: params.x, y: params.y },
@@ -442,6 +574,54 @@ export const useDesignStore = create<DesignStore>((set, get) => ({
         selectedObject.set(params)
         design.canvas.requestRenderAll()
         return { success: true, data: 'Updated properties of selected object' }
+      } else if (toolName === 'setGradientFill') {
+        if (params.type === 'solid') {
+          if (!design.setSolidFill(params.stops?.[0]?.color)) {
+            return { success: false, data: 'Select a shape or text with a gradient fill' }
+          }
+          return { success: true, data: 'Replaced the gradient with a solid fill' }
+        }
+        const stops = params.stops?.map((stop: { color: string; offset?: number; opacity?: number }, index: number, all: unknown[]) => ({
+          color: stop.color,
+          offset: stop.offset ?? index / (all.length - 1),
+          opacity: stop.opacity ?? 1
+        }))
+        if (!design.setGradientFill(params.type, { stops, angle: params.angle })) {
+          return { success: false, data: 'Select a shape or text to fill with a gradient' }
+        }
+        return { success: true, data: `Filled selected object with a ${params.type} gradient` }
+      } else if (toolName === 'setPatternFill') {
+        const { pattern, scale, rotation, ...tile } = params
+        const settings = Object.fromEntries(Object.entries(tile).filter(([, value]) => value !== undefined))
+        if (!design.setProceduralPatternFill({ kind: pattern, ...settings })) {
+          return { success: false, data: 'Select a shape or text to fill with a pattern' }
+        }
+        if (scale !== undefined || rotation !== undefined) {
+          design.updatePatternFill({ scale, rotation })
+        }
+        return { success: true, data: `Filled selected object with a ${pattern} pattern` }
+      } else if (toolName === 'setStrokeStyle') {
+        const target = design.getStrokeTarget()
+        if (!target) {
+          return { success: false, data: 'Select an unlocked object to stroke' }
+        }
+        const { color, dashes, ...changes } = params
+        if (color !== undefined) {
+          target.set('stroke', color)
+        }
+        const width = changes.width ?? getStrokeOptions(target).width
+        const dashArray = typeof dashes === 'string' ? createDashArray(dashes as DashPreset, width) : dashes
+        const options = Object.fromEntries(Object.entries({ ...changes, dashArray }).filter(([, value]) => value !== undefined))
+        design.setStrokeOptions(options)
+        return { success: true, data: 'Updated the stroke of the selected object' }
+      } else if (toolName === 'setBlendMode') {
+        if (!design.setBlendMode(params.mode)) {
+          return { success: false, data: 'Select an unlocked object to blend' }
+        }
+        if (params.opacity !== undefined) {
+          design.setObjectOpacity(params.opacity)
+        }
+        return { success: true, data: `Set the blend mode of the selection to ${params.mode}` }
       } else if (toolName === 'moveObject') {
         const objToMove = design.canvas.getActiveObject()
         if (!objToMove) {
@@ -533,15 +713,13 @@ export const useDesignStore = create<DesignStore>((set, get) => ({
         if (!activeObject || activeObject.isBaseLayer) {
           return { success: false, data: 'No object selected or cannot duplicate base layer' }
         }
-        design.duplicateActiveObject().then(() => {
-          // Duplication is async, so we don't wait for it in this synchronous context
-        })
-        return { success: true, data: 'Duplicating selected object' }
+        await design.duplicateActiveObject()
+        return { success: true, data: 'Duplicated selected object' }
       }
     } catch (error) {
       console.error('Error executing canvas tool:', error)
       return { success: false, data: `Error executing ${toolName}: ${error}` }
     }
     console.log('executeCanvasTool end', toolName, params)
-  }
-})) 
\ No newline at end of file
+  },
+}))
\ No newline at end of file
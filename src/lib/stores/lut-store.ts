@@ -0,0 +1,53 @@
+import {
+  deleteLutPreset,
+  loadLutPresets,
+  saveLutPreset,
+  type LutPreset,
+} from '@/src/lib/persistence/luts';
+import { toast } from 'sonner';
+import { create } from 'zustand';
+
+export interface LutState {
+  // Sorted by name
+  presets: LutPreset[]
+  isLoaded: boolean
+}
+
+export interface LutActions {
+  loadPresets: () => Promise<void>
+  addPreset: (preset: LutPreset) => void
+  deletePreset: (presetId: string) => void
+}
+
+export type LutStore = LutState & LutActions
+
+let loadPromise: Promise<void> | null = null
+
+export const useLutStore = create<LutStore>((set) => ({
+  presets: [],
+  isLoaded: false,
+
+  // Safe to call more than once; presets are only read from storage the first time
+  loadPresets: () => {
+    if (!loadPromise) {
+      loadPromise = loadLutPresets()
+        .then(presets => set({ presets }))
+        .catch(error => console.error('Failed to load LUT presets:', error))
+        .finally(() => set({ isLoaded: true }))
+    }
+    return loadPromise
+  },
+
+  addPreset: (preset) => {
+    set((state) => ({ presets: [...state.presets, preset].sort((a, b) => a.name.localeCompare(b.name)) }))
+    saveLutPreset(preset).catch(error => {
+      console.error('Failed to save LUT preset:', error)
+      toast.error('Could not save the LUT', { description: 'It can be used until the page is reloaded' })
+    })
+  },
+
+  deletePreset: (presetId) => {
+    set((state) => ({ presets: state.presets.filter(p => p.id !== presetId) }))
+    deleteLutPreset(presetId).catch(error => console.error('Failed to delete LUT preset:', error))
+  },
+}))